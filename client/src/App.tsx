@@ -9,10 +9,17 @@ import GamesPage from "@/pages/games-page";
 import WalletPage from "@/pages/wallet-page";
 import ProfilePage from "@/pages/profile-page";
 import GameMatchPage from "@/pages/game-match";
+import LudoGame from "@/pages/ludo-game";
 import AdminPage from "@/pages/admin-page";
+import WaitlistPage from "@/pages/waitlist-page";
+import WaitlistStatusPage from "@/pages/waitlist-status-page";
+import WaitlistConfirmPage from "@/pages/waitlist-confirm-page";
 import { ProtectedRoute } from "./lib/protected-route";
 import { AdminProtectedRoute } from "./lib/admin-protected-route";
 import { AuthProvider } from "./hooks/use-auth";
+import { SocketProvider } from "./hooks/use-socket";
+import { FriendEvents } from "@/components/friends-panel";
+import { NotificationEvents } from "@/components/notifications-menu";
 import { FirebaseAuthProvider } from "./hooks/use-firebase-auth";
 import { useEffect } from "react";
 import { trackPageView } from "./lib/utils/analytics";
@@ -31,11 +38,15 @@ function Router() {
   return (
     <Switch>
       <Route path="/auth" component={AuthPage} />
+      <Route path="/waitlist" component={WaitlistPage} />
+      <Route path="/waitlist/status/:token" component={WaitlistStatusPage} />
+      <Route path="/waitlist/confirm/:token" component={WaitlistConfirmPage} />
       <ProtectedRoute path="/" component={HomePage} />
       <ProtectedRoute path="/games" component={GamesPage} />
       <ProtectedRoute path="/wallet" component={WalletPage} />
       <ProtectedRoute path="/profile" component={ProfilePage} />
       <ProtectedRoute path="/games/:id" component={GameMatchPage} />
+      <ProtectedRoute path="/ludo/:id" component={LudoGame} />
       <AdminProtectedRoute path="/admin" component={AdminPage} />
       <Route component={NotFound} />
     </Switch>
@@ -47,8 +58,12 @@ function App() {
     <QueryClientProvider client={queryClient}>
       <FirebaseAuthProvider>
         <AuthProvider>
-          <Router />
-          <Toaster />
+          <SocketProvider>
+            <Router />
+            <FriendEvents />
+            <NotificationEvents />
+            <Toaster />
+          </SocketProvider>
         </AuthProvider>
       </FirebaseAuthProvider>
     </QueryClientProvider>
@@ -0,0 +1,78 @@
+import { useMutation } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { useAuth } from "@/hooks/use-auth";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { KeyRound, Mail } from "lucide-react";
+
+// Email verification status and password change, for the profile settings
+export function AccountSecurity() {
+  const { user } = useAuth();
+  const { toast } = useToast();
+
+  const resendMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/verify-email/resend");
+      return await response.json() as { message: string };
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Verification email sent",
+        description: result.message,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error sending verification email",
+        description: error.message || "There was an error sending the verification email",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (!user) return null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Account Security</CardTitle>
+        <CardDescription>Your sign-in email and password</CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <Mail className="h-4 w-4 text-muted-foreground" />
+            <span>{user.email}</span>
+            {user.emailVerifiedAt ? (
+              <Badge variant="outline" className="text-green-600">
+                Verified {format(new Date(user.emailVerifiedAt), "MMM dd, yyyy")}
+              </Badge>
+            ) : (
+              <Badge variant="outline" className="text-amber-600">Not verified</Badge>
+            )}
+          </div>
+          {!user.emailVerifiedAt && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => resendMutation.mutate()}
+              disabled={resendMutation.isPending}
+            >
+              {resendMutation.isPending ? "Sending..." : "Resend Verification Email"}
+            </Button>
+          )}
+        </div>
+        <Button variant="outline" size="sm" asChild>
+          <Link href="/auth?screen=change-password">
+            <KeyRound className="h-4 w-4 mr-1" />
+            Change Password
+          </Link>
+        </Button>
+      </CardContent>
+    </Card>
+  );
+}
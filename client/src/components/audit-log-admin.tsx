@@ -0,0 +1,240 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AuditLogPage, AuditLogView } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ChevronLeft, ChevronRight, Download, Loader2 } from "lucide-react";
+
+const PAGE_SIZE = 25;
+
+const ENTITY_TYPES = [
+  { value: "all", label: "All entities" },
+  { value: "transaction", label: "Transactions" },
+  { value: "game_match", label: "Matches" },
+  { value: "user", label: "Users" },
+  { value: "subscription_plan", label: "Subscription plans" },
+  { value: "chat_message", label: "Chat messages" },
+  { value: "chat_report", label: "Chat reports" },
+  { value: "chat_sanction", label: "Chat mutes and bans" },
+];
+
+interface AuditLogFilters {
+  action: string;
+  entityType: string;
+  entityId: string;
+  actorId: string;
+  from: string; // yyyy-MM-dd
+  to: string;
+}
+
+const NO_FILTERS: AuditLogFilters = { action: "", entityType: "all", entityId: "", actorId: "", from: "", to: "" };
+
+// Query string for the filters; dates cover the whole day in the admin's time zone
+function filterParams(filters: AuditLogFilters): URLSearchParams {
+  const params = new URLSearchParams();
+  if (filters.action.trim()) params.set("action", filters.action.trim());
+  if (filters.entityType !== "all") params.set("entityType", filters.entityType);
+  if (filters.entityId.trim()) params.set("entityId", filters.entityId.trim());
+  if (filters.actorId.trim()) params.set("actorId", filters.actorId.trim());
+  if (filters.from) params.set("from", new Date(`${filters.from}T00:00:00`).toISOString());
+  if (filters.to) params.set("to", new Date(`${filters.to}T23:59:59.999`).toISOString());
+  return params;
+}
+
+function Snapshot({ label, json }: { label: string; json: string | null }) {
+  if (!json) return null;
+
+  let pretty = json;
+  try {
+    pretty = JSON.stringify(JSON.parse(json), null, 2);
+  } catch {
+    // Shown as stored
+  }
+
+  return (
+    <div className="min-w-0 flex-1">
+      <p className="text-xs font-medium text-muted-foreground mb-1">{label}</p>
+      <pre className="text-xs bg-muted/50 rounded p-2 max-h-64 overflow-auto whitespace-pre-wrap break-all">{pretty}</pre>
+    </div>
+  );
+}
+
+function AuditLogRow({ entry }: { entry: AuditLogView }) {
+  const [expanded, setExpanded] = useState(false);
+  const hasSnapshots = !!(entry.before || entry.after);
+
+  return (
+    <div className="p-3 rounded-lg border border-border bg-muted/30">
+      <div className="flex items-center justify-between gap-3">
+        <div className="space-y-1">
+          <div className="flex flex-wrap items-center gap-2">
+            <Badge variant="secondary">{entry.action}</Badge>
+            {entry.entityType && (
+              <span className="text-sm">{entry.entityType}{entry.entityId && ` #${entry.entityId}`}</span>
+            )}
+          </div>
+          <p className="text-sm text-muted-foreground">
+            {format(new Date(entry.createdAt), "MMM dd, yyyy HH:mm:ss")} • {entry.actorUsername ?? "Unknown"}
+            {entry.actorId !== null && ` (ID ${entry.actorId})`}
+            {entry.ip && ` • ${entry.ip}`}
+          </p>
+        </div>
+        {hasSnapshots && (
+          <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)}>
+            {expanded ? "Hide changes" : "Show changes"}
+          </Button>
+        )}
+      </div>
+      {expanded && (
+        <div className="flex flex-col md:flex-row gap-3 mt-3">
+          <Snapshot label="Before" json={entry.before} />
+          <Snapshot label="After" json={entry.after} />
+        </div>
+      )}
+    </div>
+  );
+}
+
+// Every privileged action taken in the admin panel, filterable and exportable
+export function AuditLogAdmin() {
+  const [draft, setDraft] = useState<AuditLogFilters>(NO_FILTERS);
+  const [filters, setFilters] = useState<AuditLogFilters>(NO_FILTERS);
+  const [page, setPage] = useState(1);
+
+  const filterQuery = filterParams(filters);
+  const params = new URLSearchParams(filterQuery);
+  params.set("page", page.toString());
+  params.set("limit", PAGE_SIZE.toString());
+
+  const { data, isLoading } = useQuery<AuditLogPage>({
+    queryKey: [`/api/admin/audit-log?${params.toString()}`],
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  const applyFilters = (next: AuditLogFilters) => {
+    setDraft(next);
+    setFilters(next);
+    setPage(1);
+  };
+
+  const updateDraft = (field: keyof AuditLogFilters) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setDraft({ ...draft, [field]: e.target.value });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle>Audit Log</CardTitle>
+            <CardDescription>
+              {data ? `${data.total} recorded actions` : "Recorded actions"}, with who took them and what changed.
+            </CardDescription>
+          </div>
+          <Button variant="outline" size="sm" asChild>
+            <a href={`/api/admin/audit-log/export?${filterQuery.toString()}`} download>
+              <Download className="h-4 w-4 mr-1" />
+              Export CSV
+            </a>
+          </Button>
+        </div>
+        <form
+          className="grid grid-cols-2 md:grid-cols-6 gap-3 pt-2 items-end"
+          onSubmit={(e) => {
+            e.preventDefault();
+            applyFilters(draft);
+          }}
+        >
+          <div className="space-y-1">
+            <Label htmlFor="audit-action">Action</Label>
+            <Input id="audit-action" placeholder="e.g. deposits" value={draft.action} onChange={updateDraft("action")} />
+          </div>
+          <div className="space-y-1">
+            <Label>Entity</Label>
+            <Select value={draft.entityType} onValueChange={(value) => setDraft({ ...draft, entityType: value })}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ENTITY_TYPES.map(type => (
+                  <SelectItem key={type.value} value={type.value}>{type.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-entity-id">Entity ID</Label>
+            <Input id="audit-entity-id" value={draft.entityId} onChange={updateDraft("entityId")} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-actor">Actor ID</Label>
+            <Input id="audit-actor" type="number" min="1" value={draft.actorId} onChange={updateDraft("actorId")} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-from">From</Label>
+            <Input id="audit-from" type="date" value={draft.from} onChange={updateDraft("from")} />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="audit-to">To</Label>
+            <Input id="audit-to" type="date" value={draft.to} onChange={updateDraft("to")} />
+          </div>
+          <div className="col-span-2 md:col-span-6 flex gap-2">
+            <Button type="submit" size="sm">Apply Filters</Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => applyFilters(NO_FILTERS)}>
+              Clear
+            </Button>
+          </div>
+        </form>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : data && data.entries.length > 0 ? (
+          <div className="space-y-3">
+            {data.entries.map(entry => (
+              <AuditLogRow key={entry.id} entry={entry} />
+            ))}
+
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-muted-foreground">
+                Page {data.page} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-muted/20 rounded-lg">
+            <h3 className="text-lg font-medium text-foreground mb-2">No actions found</h3>
+            <p className="text-muted-foreground">No audit log entries match these filters.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
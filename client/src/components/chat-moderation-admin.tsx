@@ -0,0 +1,226 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { ChatReportAction, ChatReportStatus, ChatReportView, ChatSanctionView } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2 } from "lucide-react";
+
+const REPORT_STATUSES: { value: ChatReportStatus; label: string }[] = [
+  { value: "pending", label: "Pending" },
+  { value: "actioned", label: "Actioned" },
+  { value: "dismissed", label: "Dismissed" },
+];
+
+// The actions offered on a pending report, with how long a mute or ban lasts
+const REVIEW_ACTIONS: { label: string; action: ChatReportAction; minutes?: number; destructive?: boolean }[] = [
+  { label: "Dismiss", action: "dismiss" },
+  { label: "Remove message", action: "remove" },
+  { label: "Mute 1h", action: "mute", minutes: 60 },
+  { label: "Mute 24h", action: "mute", minutes: 24 * 60 },
+  { label: "Ban from room", action: "ban", destructive: true },
+];
+
+function ReportRow({ report, onReview, isReviewing }: {
+  report: ChatReportView;
+  onReview: (action: ChatReportAction, minutes?: number) => void;
+  isReviewing: boolean;
+}) {
+  return (
+    <div className="p-3 rounded-lg border border-border bg-muted/30 space-y-2">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap items-center gap-2">
+          <Badge variant="secondary">{report.roomName}</Badge>
+          <span className="text-sm font-medium">{report.senderName}</span>
+          <span className="text-xs text-muted-foreground">
+            {format(new Date(report.sentAt), "MMM dd, yyyy HH:mm")}
+          </span>
+          {report.messageRemoved && <Badge variant="outline">Removed</Badge>}
+        </div>
+        <span className="text-xs text-muted-foreground">
+          Reported by {report.reporterName} • {format(new Date(report.createdAt), "MMM dd, HH:mm")}
+        </span>
+      </div>
+      <p className="text-sm bg-background rounded p-2 break-words">{report.content}</p>
+      <p className="text-sm text-muted-foreground">Reason: {report.reason}</p>
+      {report.status === "pending" ? (
+        <div className="flex flex-wrap gap-2">
+          {REVIEW_ACTIONS.map(({ label, action, minutes, destructive }) => (
+            <Button
+              key={label}
+              size="sm"
+              variant={destructive ? "destructive" : "outline"}
+              onClick={() => onReview(action, minutes)}
+              disabled={isReviewing}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      ) : (
+        <p className="text-xs text-muted-foreground">
+          {report.resolution}
+          {report.reviewedAt && ` • ${format(new Date(report.reviewedAt), "MMM dd, yyyy HH:mm")}`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// Reported chat messages for moderators to review, and the mutes and bans in force
+export function ChatModerationAdmin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [status, setStatus] = useState<ChatReportStatus>("pending");
+
+  const { data: reports, isLoading: isReportsLoading } = useQuery<ChatReportView[]>({
+    queryKey: [`/api/admin/chat/reports?status=${status}`],
+  });
+
+  const { data: sanctions, isLoading: isSanctionsLoading } = useQuery<ChatSanctionView[]>({
+    queryKey: ["/api/admin/chat/sanctions"],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({
+      predicate: query => String(query.queryKey[0]).startsWith("/api/admin/chat/"),
+    });
+  };
+
+  const reviewMutation = useMutation({
+    mutationFn: async ({ reportId, action, minutes }: { reportId: number; action: ChatReportAction; minutes?: number }) => {
+      const response = await apiRequest("POST", `/api/admin/chat/reports/${reportId}/review`, { action, minutes });
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({ title: "Report reviewed" });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error reviewing report",
+        description: error.message || "There was an error reviewing this report",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const liftMutation = useMutation({
+    mutationFn: async (sanctionId: number) => {
+      const response = await apiRequest("POST", `/api/admin/chat/sanctions/${sanctionId}/lift`);
+      return await response.json() as ChatSanctionView;
+    },
+    onSuccess: (sanction) => {
+      toast({
+        title: sanction.type === "mute" ? "Mute lifted" : "Ban lifted",
+        description: `${sanction.username} can ${sanction.type === "mute" ? "post" : "join"} again.`,
+      });
+      invalidate();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error lifting sanction",
+        description: error.message || "There was an error lifting this sanction",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <CardTitle>Moderation Queue</CardTitle>
+              <CardDescription>Chat messages players have reported.</CardDescription>
+            </div>
+            <Select value={status} onValueChange={(value) => setStatus(value as ChatReportStatus)}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {REPORT_STATUSES.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isReportsLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : reports && reports.length > 0 ? (
+            <div className="space-y-3">
+              {reports.map(report => (
+                <ReportRow
+                  key={report.id}
+                  report={report}
+                  onReview={(action, minutes) => reviewMutation.mutate({ reportId: report.id, action, minutes })}
+                  isReviewing={reviewMutation.isPending}
+                />
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 bg-muted/20 rounded-lg">
+              <h3 className="text-lg font-medium text-foreground mb-2">Nothing to review</h3>
+              <p className="text-muted-foreground">No reports with this status.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Mutes and Bans</CardTitle>
+          <CardDescription>Sanctions in force. Muted users can read but not post; banned users can't join the room.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {isSanctionsLoading ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : sanctions && sanctions.length > 0 ? (
+            <div className="space-y-3">
+              {sanctions.map(sanction => (
+                <div key={sanction.id} className="flex items-center justify-between gap-3 p-3 rounded-lg border border-border bg-muted/30">
+                  <div className="space-y-1">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <Badge variant={sanction.type === "ban" ? "destructive" : "secondary"}>
+                        {sanction.type === "ban" ? "Banned" : "Muted"}
+                      </Badge>
+                      <span className="text-sm font-medium">{sanction.username}</span>
+                      <span className="text-sm text-muted-foreground">{sanction.roomName ?? "Every room"}</span>
+                    </div>
+                    <p className="text-xs text-muted-foreground">
+                      {sanction.expiresAt
+                        ? `Until ${format(new Date(sanction.expiresAt), "MMM dd, yyyy HH:mm")}`
+                        : "Until lifted"}
+                      {sanction.reason && ` • ${sanction.reason}`}
+                    </p>
+                  </div>
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => liftMutation.mutate(sanction.id)}
+                    disabled={liftMutation.isPending}
+                  >
+                    Lift
+                  </Button>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center py-8">No one is muted or banned.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,455 @@
+import { useEffect, useState } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { FriendEntry, FriendList, Game, GameMatch, PresenceStatus } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useSocket } from "@/hooks/use-socket";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Ban, Check, Loader2, MessageCircle, Swords, UserMinus, UserPlus, Users, X } from "lucide-react";
+
+const friendsQueryKey = ["/api/friends"];
+
+const PRESENCE: Record<PresenceStatus, { label: string; dot: string }> = {
+  in_match: { label: "In a match", dot: "bg-amber-500" },
+  online: { label: "Online", dot: "bg-green-500" },
+  offline: { label: "Offline", dot: "bg-muted-foreground/40" },
+};
+
+// Keeps the friend list current and tells the user about friend requests as they arrive,
+// wherever they are in the app. Challenges arrive as notifications.
+export function FriendEvents() {
+  const socket = useSocket();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: friendsQueryKey });
+
+    const onFriendRequest = ({ from }: { from: { id: number; username: string } }) => {
+      toast({ title: "Friend request", description: `${from.username} wants to be your friend.` });
+    };
+
+    socket.on("friendsChanged", refresh);
+    socket.on("presence", refresh);
+    socket.on("friendRequest", onFriendRequest);
+
+    return () => {
+      socket.off("friendsChanged", refresh);
+      socket.off("presence", refresh);
+      socket.off("friendRequest", onFriendRequest);
+    };
+  }, [socket]);
+
+  return null;
+}
+
+// Create a waiting match and invite the friend to it
+function ChallengeDialog({ friend, onClose, onNavigate }: {
+  friend: FriendEntry | null;
+  onClose: () => void;
+  onNavigate?: () => void;
+}) {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const [gameId, setGameId] = useState("");
+  const [entryAmount, setEntryAmount] = useState("");
+
+  const { data: games = [] } = useQuery<Game[]>({
+    queryKey: ["/api/games"],
+    enabled: !!friend,
+  });
+
+  const game = games.find(g => g.id.toString() === gameId);
+
+  const challengeMutation = useMutation({
+    mutationFn: async () => {
+      const matchResponse = await apiRequest("POST", "/api/matches", {
+        gameId: game!.id,
+        entryAmount,
+        opponent: "players",
+        mode: "real_money",
+      });
+      const match = await matchResponse.json() as GameMatch;
+      await apiRequest("POST", `/api/matches/${match.id}/challenge`, { friendId: friend!.userId });
+      return match;
+    },
+    onSuccess: (match) => {
+      toast({ title: "Challenge sent", description: `${friend!.username} has been invited to your match.` });
+      onClose();
+      onNavigate?.();
+      navigate(`/games/${match.id}`);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error sending challenge",
+        description: error.message || "There was an error creating the match",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const selectGame = (id: string) => {
+    setGameId(id);
+    const selected = games.find(g => g.id.toString() === id);
+    if (selected) setEntryAmount(selected.minEntry.toString());
+  };
+
+  const handleChallenge = () => {
+    if (!game) return;
+
+    const amount = parseFloat(entryAmount);
+    const min = parseFloat(game.minEntry.toString());
+    const max = parseFloat(game.maxEntry.toString());
+    if (isNaN(amount) || amount < min || amount > max) {
+      toast({
+        title: "Invalid amount",
+        description: `Entry amount must be between ₹${min} and ₹${max}`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    challengeMutation.mutate();
+  };
+
+  return (
+    <Dialog open={!!friend} onOpenChange={(open) => { if (!open) onClose(); }}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Challenge {friend?.username}</DialogTitle>
+          <DialogDescription>
+            Create a match and invite {friend?.username} to it. You pay your entry when the game starts.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Game</Label>
+            <Select value={gameId} onValueChange={selectGame}>
+              <SelectTrigger>
+                <SelectValue placeholder="Choose a game" />
+              </SelectTrigger>
+              <SelectContent>
+                {games.map(g => (
+                  <SelectItem key={g.id} value={g.id.toString()}>{g.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {game && (
+            <div className="space-y-2">
+              <Label htmlFor="challenge-entry">Entry amount (₹)</Label>
+              <Input
+                id="challenge-entry"
+                type="number"
+                min={game.minEntry.toString()}
+                max={game.maxEntry.toString()}
+                value={entryAmount}
+                onChange={(e) => setEntryAmount(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                Between ₹{game.minEntry.toString()} and ₹{game.maxEntry.toString()}
+              </p>
+            </div>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>Cancel</Button>
+          <Button onClick={handleChallenge} disabled={!game || challengeMutation.isPending}>
+            {challengeMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+            Send challenge
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
+
+function FriendAvatar({ entry }: { entry: { username: string } }) {
+  return (
+    <Avatar className="h-8 w-8">
+      <AvatarFallback className="bg-primary/10 text-primary text-xs">
+        {entry.username.slice(0, 2).toUpperCase()}
+      </AvatarFallback>
+    </Avatar>
+  );
+}
+
+// Friends with where they are, requests both ways, and blocked users. onNavigate runs
+// before Message or a challenge moves to another page.
+export function FriendsPanel({ onNavigate }: { onNavigate?: () => void }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+  const [username, setUsername] = useState("");
+  const [challenging, setChallenging] = useState<FriendEntry | null>(null);
+
+  const { data: list, isLoading } = useQuery<FriendList>({
+    queryKey: friendsQueryKey,
+    enabled: !!user,
+  });
+
+  // Every friend action answers with the list changing, so they share their handling
+  const friendMutation = useMutation({
+    mutationFn: async ({ method, url, data }: { method: string; url: string; data?: unknown; success: string }) => {
+      const response = await apiRequest(method, url, data);
+      return await response.json();
+    },
+    onSuccess: (_result, { success }) => {
+      toast({ title: success });
+      queryClient.invalidateQueries({ queryKey: friendsQueryKey });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "There was an error updating your friends",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const sendRequest = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!username.trim()) return;
+
+    friendMutation.mutate(
+      { method: "POST", url: "/api/friends/requests", data: { username: username.trim() }, success: "Friend request sent" },
+      { onSuccess: () => setUsername("") }
+    );
+  };
+
+  const block = (entry: { userId: number; username: string }) => {
+    friendMutation.mutate({ method: "POST", url: `/api/users/${entry.userId}/block`, success: `${entry.username} blocked` });
+  };
+
+  const openChat = (entry: FriendEntry) => {
+    onNavigate?.();
+    navigate(`/?chatWith=${entry.userId}`);
+  };
+
+  if (isLoading || !list) {
+    return (
+      <div className="flex justify-center py-8">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <form onSubmit={sendRequest} className="flex gap-2">
+        <Input
+          placeholder="Add a friend by username"
+          value={username}
+          onChange={(e) => setUsername(e.target.value)}
+        />
+        <Button type="submit" disabled={!username.trim() || friendMutation.isPending}>
+          <UserPlus className="h-4 w-4 mr-2" />
+          Add
+        </Button>
+      </form>
+
+      {list.incoming.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Requests</h4>
+          {list.incoming.map(entry => (
+            <div key={entry.friendshipId} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-border bg-muted/30">
+              <div className="flex items-center gap-2">
+                <FriendAvatar entry={entry} />
+                <span className="text-sm font-medium">{entry.username}</span>
+              </div>
+              <div className="flex gap-1">
+                <Button
+                  size="sm"
+                  onClick={() => friendMutation.mutate({
+                    method: "POST",
+                    url: `/api/friends/requests/${entry.friendshipId}/accept`,
+                    success: `You and ${entry.username} are now friends`,
+                  })}
+                  disabled={friendMutation.isPending}
+                >
+                  <Check className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => friendMutation.mutate({
+                    method: "POST",
+                    url: `/api/friends/requests/${entry.friendshipId}/decline`,
+                    success: "Request declined",
+                  })}
+                  disabled={friendMutation.isPending}
+                >
+                  <X className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="space-y-2">
+        <h4 className="text-sm font-medium text-muted-foreground">Friends ({list.friends.length})</h4>
+        {list.friends.length > 0 ? list.friends.map(entry => {
+          const presence = PRESENCE[entry.presence?.status ?? "offline"];
+          return (
+            <div key={entry.friendshipId} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-border">
+              <div className="flex items-center gap-2 min-w-0">
+                <div className="relative">
+                  <FriendAvatar entry={entry} />
+                  <span className={`absolute bottom-0 right-0 h-2.5 w-2.5 rounded-full ring-2 ring-background ${presence.dot}`} />
+                </div>
+                <div className="min-w-0">
+                  <p className="text-sm font-medium truncate">{entry.username}</p>
+                  <p className="text-xs text-muted-foreground">{presence.label}</p>
+                </div>
+              </div>
+              <div className="flex gap-1">
+                <Button size="sm" variant="ghost" title="Message" onClick={() => openChat(entry)}>
+                  <MessageCircle className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" title="Challenge to a match" onClick={() => setChallenging(entry)}>
+                  <Swords className="h-4 w-4" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="ghost"
+                  title="Remove friend"
+                  onClick={() => friendMutation.mutate({
+                    method: "DELETE",
+                    url: `/api/friends/${entry.friendshipId}`,
+                    success: `${entry.username} removed from your friends`,
+                  })}
+                  disabled={friendMutation.isPending}
+                >
+                  <UserMinus className="h-4 w-4" />
+                </Button>
+                <Button size="sm" variant="ghost" title="Block" onClick={() => block(entry)} disabled={friendMutation.isPending}>
+                  <Ban className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          );
+        }) : (
+          <p className="text-sm text-muted-foreground text-center py-4">No friends yet. Add someone by their username.</p>
+        )}
+      </div>
+
+      {list.outgoing.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Sent requests</h4>
+          {list.outgoing.map(entry => (
+            <div key={entry.friendshipId} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-border">
+              <div className="flex items-center gap-2">
+                <FriendAvatar entry={entry} />
+                <div>
+                  <p className="text-sm font-medium">{entry.username}</p>
+                  <p className="text-xs text-muted-foreground">Sent {format(new Date(entry.since), "MMM dd")}</p>
+                </div>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => friendMutation.mutate({
+                  method: "DELETE",
+                  url: `/api/friends/${entry.friendshipId}`,
+                  success: "Request cancelled",
+                })}
+                disabled={friendMutation.isPending}
+              >
+                Cancel
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {list.blocked.length > 0 && (
+        <div className="space-y-2">
+          <h4 className="text-sm font-medium text-muted-foreground">Blocked</h4>
+          {list.blocked.map(entry => (
+            <div key={entry.userId} className="flex items-center justify-between gap-2 p-2 rounded-lg border border-border bg-muted/30">
+              <div className="flex items-center gap-2">
+                <FriendAvatar entry={entry} />
+                <span className="text-sm font-medium">{entry.username}</span>
+              </div>
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => friendMutation.mutate({
+                  method: "DELETE",
+                  url: `/api/users/${entry.userId}/block`,
+                  success: `${entry.username} unblocked`,
+                })}
+                disabled={friendMutation.isPending}
+              >
+                Unblock
+              </Button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <ChallengeDialog friend={challenging} onClose={() => setChallenging(null)} onNavigate={onNavigate} />
+    </div>
+  );
+}
+
+// The friends panel as a card, for the profile page
+export function FriendsCard() {
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Friends</CardTitle>
+        <CardDescription>Message your friends, see who's playing, and challenge them to a match.</CardDescription>
+      </CardHeader>
+      <CardContent>
+        <FriendsPanel />
+      </CardContent>
+    </Card>
+  );
+}
+
+// Header button opening the friends panel, with a count of requests waiting
+export function FriendsMenu() {
+  const [open, setOpen] = useState(false);
+
+  const { data: list } = useQuery<FriendList>({
+    queryKey: friendsQueryKey,
+  });
+
+  const incoming = list?.incoming.length ?? 0;
+
+  return (
+    <Sheet open={open} onOpenChange={setOpen}>
+      <SheetTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" title="Friends">
+          <Users className="h-5 w-5" />
+          {incoming > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-5 min-w-5 px-1 justify-center text-[10px]">{incoming}</Badge>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="overflow-y-auto">
+        <SheetHeader className="mb-6">
+          <SheetTitle>Friends</SheetTitle>
+          <SheetDescription>See who's online, message them, or challenge them to a match.</SheetDescription>
+        </SheetHeader>
+        <FriendsPanel onNavigate={() => setOpen(false)} />
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -10,6 +10,8 @@ import {
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import { FriendsMenu } from "@/components/friends-panel";
+import { NotificationsMenu } from "@/components/notifications-menu";
 
 export function Header() {
   const { user, logoutMutation } = useAuth();
@@ -54,6 +56,8 @@ export function Header() {
         )}
 
         <div className="flex items-center space-x-4">
+          {user && <NotificationsMenu />}
+          {user && <FriendsMenu />}
           {user ? (
             <DropdownMenu>
               <DropdownMenuTrigger asChild>
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { MatchHistoryPage } from "@shared/schema";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, ChevronLeft, ChevronRight, Trophy } from "lucide-react";
+
+const PAGE_SIZE = 10;
+
+const STATUS_FILTERS = [
+  { value: "all", label: "All matches" },
+  { value: "waiting", label: "Waiting" },
+  { value: "in_progress", label: "In progress" },
+  { value: "disputed", label: "Disputed" },
+  { value: "completed", label: "Completed" },
+  { value: "cancelled", label: "Cancelled" },
+  { value: "abandoned", label: "Abandoned" },
+];
+
+export function MatchHistory() {
+  const [status, setStatus] = useState("all");
+  const [page, setPage] = useState(1);
+
+  const params = new URLSearchParams({ page: page.toString(), limit: PAGE_SIZE.toString() });
+  if (status !== "all") params.set("status", status);
+
+  const { data, isLoading } = useQuery<MatchHistoryPage>({
+    queryKey: [`/api/my-matches?${params.toString()}`],
+  });
+
+  const totalPages = data ? Math.max(1, Math.ceil(data.total / data.limit)) : 1;
+
+  const getResultBadge = (playerStatus: string, matchStatus: string) => {
+    if (playerStatus === "won") {
+      return (
+        <Badge className="bg-green-500 hover:bg-green-600">
+          <Trophy className="h-3 w-3 mr-1" />
+          Won
+        </Badge>
+      );
+    }
+    if (playerStatus === "lost") return <Badge variant="outline">Lost</Badge>;
+
+    const label = STATUS_FILTERS.find(filter => filter.value === matchStatus)?.label ?? matchStatus;
+    return <Badge variant="secondary">{label}</Badge>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+          <div>
+            <CardTitle>Match History</CardTitle>
+            <CardDescription>Every match you have joined</CardDescription>
+          </div>
+          <Select
+            value={status}
+            onValueChange={(value) => {
+              setStatus(value);
+              setPage(1);
+            }}
+          >
+            <SelectTrigger className="w-[180px]">
+              <SelectValue placeholder="Filter by status" />
+            </SelectTrigger>
+            <SelectContent>
+              {STATUS_FILTERS.map(filter => (
+                <SelectItem key={filter.value} value={filter.value}>{filter.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : data && data.matches.length > 0 ? (
+          <div className="space-y-3">
+            {data.matches.map(match => (
+              <Link key={match.id} href={`/games/${match.id}`}>
+                <div className="flex items-center justify-between p-3 rounded-lg border border-border bg-card hover:bg-muted/40 cursor-pointer">
+                  <div>
+                    <p className="font-medium">{match.gameName} • Match #{match.id}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {format(new Date(match.createdAt), "MMM d, yyyy h:mm a")} • {match.playerCount} players • {match.mode === "practice" ? "Practice" : `Entry ₹${parseFloat(match.entryAmount).toFixed(2)}`}
+                    </p>
+                    {match.endReason && (
+                      <p className="text-xs text-muted-foreground mt-1">{match.endReason}</p>
+                    )}
+                  </div>
+                  <div className="flex flex-col items-end gap-1">
+                    {getResultBadge(match.playerStatus, match.status)}
+                    {match.refundedAmount && (
+                      <span className="text-xs text-green-600">Refunded ₹{parseFloat(match.refundedAmount).toFixed(2)}</span>
+                    )}
+                  </div>
+                </div>
+              </Link>
+            ))}
+
+            <div className="flex items-center justify-between pt-2">
+              <span className="text-sm text-muted-foreground">
+                Page {data.page} of {totalPages}
+              </span>
+              <div className="flex gap-2">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page - 1)}
+                  disabled={page <= 1}
+                >
+                  <ChevronLeft className="h-4 w-4" />
+                  Previous
+                </Button>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setPage(page + 1)}
+                  disabled={page >= totalPages}
+                >
+                  Next
+                  <ChevronRight className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center py-8 bg-muted/30 rounded-lg">
+            <h3 className="text-lg font-medium text-foreground mb-2">No matches found</h3>
+            <p className="text-muted-foreground">Matches you join will appear here.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
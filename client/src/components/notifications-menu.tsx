@@ -0,0 +1,159 @@
+import { useEffect } from "react";
+import { useLocation } from "wouter";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { formatDistanceToNow } from "date-fns";
+import { Notification, NotificationPage, NotificationType } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useSocket } from "@/hooks/use-socket";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ToastAction } from "@/components/ui/toast";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { ArrowDownToLine, ArrowUpFromLine, Bell, CalendarClock, Gift, LucideIcon, Swords, UserPlus } from "lucide-react";
+
+const notificationsQueryKey = ["/api/notifications"];
+
+const NOTIFICATION_ICONS: Record<NotificationType, LucideIcon> = {
+  deposit: ArrowDownToLine,
+  reward: Gift,
+  match_invite: Swords,
+  referral: UserPlus,
+  withdrawal: ArrowUpFromLine,
+  subscription: CalendarClock,
+};
+
+// Shows notifications as they arrive and keeps the bell's count current, wherever the
+// user is in the app
+export function NotificationEvents() {
+  const socket = useSocket();
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+
+  useEffect(() => {
+    if (!socket) return;
+
+    const refresh = () => queryClient.invalidateQueries({ queryKey: notificationsQueryKey });
+
+    const onNotification = (notification: Notification) => {
+      refresh();
+      toast({
+        title: notification.title,
+        description: notification.body,
+        action: notification.link ? (
+          <ToastAction altText={`Open ${notification.title}`} onClick={() => navigate(notification.link!)}>
+            View
+          </ToastAction>
+        ) : undefined,
+      });
+    };
+
+    socket.on("notification", onNotification);
+    socket.on("notificationsRead", refresh);
+
+    return () => {
+      socket.off("notification", onNotification);
+      socket.off("notificationsRead", refresh);
+    };
+  }, [socket]);
+
+  return null;
+}
+
+// Header bell with the unread count, opening the latest notifications
+export function NotificationsMenu() {
+  const queryClient = useQueryClient();
+  const [, navigate] = useLocation();
+
+  const { data: page } = useQuery<NotificationPage>({
+    queryKey: notificationsQueryKey,
+  });
+
+  const readMutation = useMutation({
+    mutationFn: async (notificationId: number) => {
+      await apiRequest("POST", `/api/notifications/${notificationId}/read`);
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: notificationsQueryKey }),
+  });
+
+  const readAllMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("POST", "/api/notifications/read-all");
+    },
+    onSettled: () => queryClient.invalidateQueries({ queryKey: notificationsQueryKey }),
+  });
+
+  const openNotification = (notification: Notification) => {
+    if (!notification.readAt) readMutation.mutate(notification.id);
+    if (notification.link) navigate(notification.link);
+  };
+
+  const unreadCount = page?.unreadCount ?? 0;
+  const notifications = page?.notifications ?? [];
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button variant="ghost" size="icon" className="relative" title="Notifications">
+          <Bell className="h-5 w-5" />
+          {unreadCount > 0 && (
+            <Badge className="absolute -top-1 -right-1 h-5 min-w-5 px-1 justify-center text-[10px]">
+              {unreadCount > 99 ? "99+" : unreadCount}
+            </Badge>
+          )}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="w-80">
+        <div className="flex items-center justify-between">
+          <DropdownMenuLabel>Notifications</DropdownMenuLabel>
+          {unreadCount > 0 && (
+            <Button
+              variant="link"
+              size="sm"
+              className="h-auto px-2 text-xs"
+              onClick={() => readAllMutation.mutate()}
+              disabled={readAllMutation.isPending}
+            >
+              Mark all read
+            </Button>
+          )}
+        </div>
+        <DropdownMenuSeparator />
+        {notifications.length > 0 ? (
+          <div className="max-h-96 overflow-y-auto">
+            {notifications.map(notification => {
+              const Icon = NOTIFICATION_ICONS[notification.type as NotificationType] ?? Bell;
+              return (
+                <DropdownMenuItem
+                  key={notification.id}
+                  className="items-start gap-3 py-2 cursor-pointer"
+                  onClick={() => openNotification(notification)}
+                >
+                  <Icon className="h-4 w-4 mt-0.5 shrink-0 text-primary" />
+                  <div className="flex-1 min-w-0 space-y-0.5">
+                    <p className={`text-sm ${notification.readAt ? "" : "font-semibold"}`}>{notification.title}</p>
+                    <p className="text-xs text-muted-foreground break-words">{notification.body}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatDistanceToNow(new Date(notification.createdAt), { addSuffix: true })}
+                    </p>
+                  </div>
+                  {!notification.readAt && <span className="h-2 w-2 mt-1.5 shrink-0 rounded-full bg-primary" />}
+                </DropdownMenuItem>
+              );
+            })}
+          </div>
+        ) : (
+          <p className="text-sm text-muted-foreground text-center py-6">No notifications yet.</p>
+        )}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
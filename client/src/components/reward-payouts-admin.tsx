@@ -0,0 +1,115 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { RewardPayoutReport } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Loader2, Play, RefreshCw } from "lucide-react";
+
+// Subscription rewards are paid by a server worker as they fall due. This shows a
+// dry run of what it would do now and lets the admin run it straight away.
+export function RewardPayoutsAdmin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const { data: preview, isLoading, isFetching, refetch } = useQuery<RewardPayoutReport>({
+    queryKey: ["/api/admin/subscription-rewards/dry-run"],
+  });
+
+  const hasWork = !!preview && (preview.rewards.length > 0 || preview.renewedSubscriptionIds.length > 0);
+
+  const runMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/process-subscription-rewards");
+      return await response.json() as RewardPayoutReport;
+    },
+    onSuccess: (report) => {
+      toast({
+        title: "Rewards paid",
+        description: `Renewed ${report.renewedSubscriptionIds.length} subscriptions, paid ${report.paid} rewards (₹${report.totalPaid}) and forfeited ${report.forfeited}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/subscription-rewards/dry-run"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/transactions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error paying rewards",
+        description: error.message || "There was an error paying subscription rewards",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle>Reward Payouts</CardTitle>
+            <CardDescription>
+              Daily subscription rewards are paid and auto-renewals charged automatically once due. This is what the next run would do.
+            </CardDescription>
+          </div>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" onClick={() => refetch()} disabled={isFetching}>
+              <RefreshCw className={`h-4 w-4 mr-1 ${isFetching ? "animate-spin" : ""}`} />
+              Refresh
+            </Button>
+            <Button
+              size="sm"
+              onClick={() => runMutation.mutate()}
+              disabled={runMutation.isPending || !hasWork}
+            >
+              {runMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Play className="h-4 w-4 mr-1" />
+              )}
+              Run Now
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : preview && hasWork ? (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {preview.renewedSubscriptionIds.length} subscriptions to renew • {preview.paid} rewards to pay (₹{preview.totalPaid}) • {preview.forfeited} to forfeit • {preview.completedSubscriptionIds.length} subscriptions to close
+            </p>
+            {preview.rewards.map(reward => (
+              <div key={reward.rewardId} className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/30">
+                <div>
+                  <p className="font-medium">
+                    User {reward.userId} • Subscription {reward.subscriptionId} • Day {reward.day}
+                  </p>
+                  <p className="text-sm text-muted-foreground">
+                    Due {format(new Date(reward.dueAt), "MMM dd, yyyy HH:mm")}
+                  </p>
+                </div>
+                <div className="flex items-center gap-2">
+                  <span className="font-semibold">₹{parseFloat(reward.amount).toFixed(2)}</span>
+                  {reward.action === "pay" ? (
+                    <Badge>Pay</Badge>
+                  ) : (
+                    <Badge variant="outline">Forfeit</Badge>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-muted/20 rounded-lg">
+            <h3 className="text-lg font-medium text-foreground mb-2">Nothing due</h3>
+            <p className="text-muted-foreground">Every reward that has fallen due has been paid and no subscription is waiting to renew.</p>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
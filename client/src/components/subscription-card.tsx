@@ -1,30 +1,41 @@
-import { useState } from "react";
-import { useMutation } from "@tanstack/react-query";
-import { useAuth } from "@/hooks/use-auth";
+import { useMutation, useQuery } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Loader2, ShieldCheck, Clock, Star, Award } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { EntitlementSummary, Subscription, SubscriptionPlan } from "@shared/schema";
+import { SubscriptionControls } from "@/components/subscription-manager";
+
+// Catalog plan this card sells
+const MONTHLY_PLAN_SLUG = "monthly";
 
 export function SubscriptionCard() {
-  const { user } = useAuth();
   const { toast } = useToast();
-  const [isActive, setIsActive] = useState<boolean>(!!user?.subscriptionEndDate && new Date(user.subscriptionEndDate) > new Date());
-  const [daysRemaining, setDaysRemaining] = useState<number>(() => {
-    if (!user?.subscriptionEndDate) return 0;
-    
-    const endDate = new Date(user.subscriptionEndDate);
-    const today = new Date();
-    
-    if (endDate > today) {
-      const diffTime = endDate.getTime() - today.getTime();
-      return Math.ceil(diffTime / (1000 * 60 * 60 * 24));
-    }
-    
-    return 0;
+
+  const { data: entitlements } = useQuery<EntitlementSummary>({
+    queryKey: ["/api/entitlements"],
   });
+  const isActive = !!entitlements?.active;
+  const daysRemaining = entitlements?.activeUntil
+    ? Math.max(0, Math.ceil((new Date(entitlements.activeUntil).getTime() - Date.now()) / (1000 * 60 * 60 * 24)))
+    : 0;
+
+  const { data: plans } = useQuery<SubscriptionPlan[]>({
+    queryKey: ["/api/subscription-plans"],
+  });
+  const plan = plans?.find(plan => plan.slug === MONTHLY_PLAN_SLUG);
+
+  const { data: activeSubscriptions } = useQuery<Subscription[]>({
+    queryKey: ["/api/subscriptions/active"],
+  });
+  // The running subscription to this card's plan, if any
+  const subscription = plan && activeSubscriptions?.find(subscription =>
+    subscription.planId === plan.id && new Date(subscription.startDate) <= new Date()
+  );
+  const price = plan ? `₹${parseFloat(plan.price).toFixed(0)}` : "";
+  const duration = plan?.durationDays ?? 30;
 
   const subscriptionMutation = useMutation({
     mutationFn: async () => {
@@ -34,12 +45,12 @@ export function SubscriptionCard() {
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/user"] });
       queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       toast({
         title: "Subscription purchased!",
-        description: "Your 30-day premium subscription has been activated.",
+        description: `Your ${duration}-day premium subscription has been activated.`,
       });
-      setIsActive(true);
-      setDaysRemaining(30);
     },
     onError: (error: Error) => {
       toast({
@@ -82,7 +93,7 @@ export function SubscriptionCard() {
             <Star className="h-10 w-10 text-primary" />
             <div>
               <h3 className="font-semibold text-lg">Upgrade Your Experience</h3>
-              <p className="text-muted-foreground">30-day premium access for ₹300</p>
+              <p className="text-muted-foreground">{duration}-day premium access{price && ` for ${price}`}</p>
             </div>
           </div>
         )}
@@ -93,7 +104,9 @@ export function SubscriptionCard() {
             <div>
               <h4 className="font-medium">Reduced Commission Fees</h4>
               <p className="text-sm text-muted-foreground">
-                Pay lower commission on all game winnings
+                {isActive && entitlements
+                  ? `${entitlements.commissionDiscount}% off commission on all game winnings`
+                  : `Pay ${plan ? `${parseFloat(plan.commissionDiscount)}% ` : ""}lower commission on all game winnings`}
               </p>
             </div>
           </div>
@@ -120,7 +133,11 @@ export function SubscriptionCard() {
         </div>
       </CardContent>
       <CardFooter>
-        {isActive ? (
+        {isActive && subscription ? (
+          <div className="w-full">
+            <SubscriptionControls subscription={subscription} />
+          </div>
+        ) : isActive ? (
           <Button
             disabled
             className="w-full bg-gradient-to-r from-primary/70 to-primary/70"
@@ -130,7 +147,7 @@ export function SubscriptionCard() {
         ) : (
           <Button
             onClick={() => subscriptionMutation.mutate()}
-            disabled={subscriptionMutation.isPending}
+            disabled={subscriptionMutation.isPending || !plan}
             className="w-full bg-gradient-to-r from-primary to-primary/80 hover:from-primary/90 hover:to-primary/70"
           >
             {subscriptionMutation.isPending ? (
@@ -138,7 +155,7 @@ export function SubscriptionCard() {
                 <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Processing...
               </span>
             ) : (
-              "Subscribe for ₹300"
+              `Subscribe for ${price}`
             )}
           </Button>
         )}
@@ -0,0 +1,236 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { Subscription, SubscriptionPlan, SubscriptionUpgradeQuote } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+  AlertDialogTrigger,
+} from "@/components/ui/alert-dialog";
+import { Loader2, ArrowUpCircle, CalendarClock } from "lucide-react";
+
+// Everything that shows a subscription, its benefits or the wallet it was paid from
+const refreshSubscriptions = () => {
+  queryClient.invalidateQueries({ queryKey: ["/api/subscriptions"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/active"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/subscription-rewards"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+  queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+};
+
+const formatDate = (date: Date | string) => format(new Date(date), "MMM dd, yyyy");
+
+// Auto-renew and cancellation for one running subscription
+export function SubscriptionControls({ subscription }: { subscription: Subscription }) {
+  const { toast } = useToast();
+
+  const changeMutation = useMutation({
+    mutationFn: async (change: "cancel" | "resume" | { autoRenew: boolean }) => {
+      const response = typeof change === "string"
+        ? await apiRequest("POST", `/api/subscriptions/${subscription.id}/${change}`)
+        : await apiRequest("PATCH", `/api/subscriptions/${subscription.id}/auto-renew`, change);
+      return await response.json() as Subscription;
+    },
+    onSuccess: (updated) => {
+      toast({
+        title: "Subscription updated",
+        description: updated.cancelAtPeriodEnd
+          ? `${updated.name} will end on ${formatDate(updated.endDate)}.`
+          : updated.autoRenew
+            ? `${updated.name} will renew from your wallet on ${formatDate(updated.endDate)}.`
+            : `${updated.name} will not renew.`,
+      });
+      refreshSubscriptions();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error updating subscription",
+        description: error.message || "There was an error updating your subscription",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-3">
+      <p className="text-sm text-muted-foreground flex items-center gap-1">
+        <CalendarClock className="h-4 w-4" />
+        {subscription.cancelAtPeriodEnd
+          ? `Cancelled, ends ${formatDate(subscription.endDate)}`
+          : subscription.autoRenew
+            ? `Renews ${formatDate(subscription.endDate)}`
+            : `Ends ${formatDate(subscription.endDate)}`}
+      </p>
+      <div className="flex items-center justify-between gap-3">
+        <div className="flex items-center gap-2">
+          <Switch
+            id={`auto-renew-${subscription.id}`}
+            checked={subscription.autoRenew}
+            disabled={changeMutation.isPending || subscription.planId === null}
+            onCheckedChange={(autoRenew) => changeMutation.mutate({ autoRenew })}
+          />
+          <Label htmlFor={`auto-renew-${subscription.id}`}>Auto-renew from wallet</Label>
+        </div>
+        {subscription.cancelAtPeriodEnd ? (
+          <Button variant="outline" size="sm" onClick={() => changeMutation.mutate("resume")} disabled={changeMutation.isPending}>
+            Resume
+          </Button>
+        ) : (
+          <AlertDialog>
+            <AlertDialogTrigger asChild>
+              <Button variant="outline" size="sm" className="text-red-600" disabled={changeMutation.isPending}>
+                Cancel
+              </Button>
+            </AlertDialogTrigger>
+            <AlertDialogContent>
+              <AlertDialogHeader>
+                <AlertDialogTitle>Cancel {subscription.name}?</AlertDialogTitle>
+                <AlertDialogDescription>
+                  Your benefits and daily rewards continue until {formatDate(subscription.endDate)}. It will not renew after that.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter>
+                <AlertDialogCancel>Keep Subscription</AlertDialogCancel>
+                <AlertDialogAction onClick={() => changeMutation.mutate("cancel")}>
+                  Cancel at Period End
+                </AlertDialogAction>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Switch a subscription to a higher plan, showing the prorated charge first
+function SubscriptionUpgrade({ subscription, plans }: { subscription: Subscription; plans: SubscriptionPlan[] }) {
+  const { toast } = useToast();
+  const [planId, setPlanId] = useState<string>("");
+
+  const upgrades = plans.filter(plan => plan.id !== subscription.planId && parseFloat(plan.price) > parseFloat(subscription.amount));
+
+  const { data: quote, isFetching: isQuoting } = useQuery<SubscriptionUpgradeQuote>({
+    queryKey: [`/api/subscriptions/${subscription.id}/upgrade?planId=${planId}`],
+    enabled: !!planId,
+    staleTime: 0,
+  });
+
+  const upgradeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/subscriptions/${subscription.id}/upgrade`, { planId: parseInt(planId) });
+      return await response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Subscription upgraded",
+        description: data.message,
+      });
+      setPlanId("");
+      refreshSubscriptions();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Upgrade failed",
+        description: error.message || "There was an error upgrading your subscription",
+        variant: "destructive",
+      });
+    },
+  });
+
+  if (upgrades.length === 0) return null;
+
+  return (
+    <div className="space-y-2 pt-3 border-t border-border">
+      <Label>Upgrade</Label>
+      <div className="flex gap-2">
+        <Select value={planId} onValueChange={setPlanId}>
+          <SelectTrigger className="flex-1">
+            <SelectValue placeholder="Choose a plan" />
+          </SelectTrigger>
+          <SelectContent>
+            {upgrades.map(plan => (
+              <SelectItem key={plan.id} value={plan.id.toString()}>
+                {plan.name} (₹{parseFloat(plan.price).toFixed(2)})
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          size="sm"
+          onClick={() => upgradeMutation.mutate()}
+          disabled={!quote || isQuoting || upgradeMutation.isPending}
+        >
+          {upgradeMutation.isPending ? (
+            <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+          ) : (
+            <ArrowUpCircle className="h-4 w-4 mr-1" />
+          )}
+          Upgrade
+        </Button>
+      </div>
+      {planId && quote && (
+        <p className="text-sm text-muted-foreground">
+          ₹{quote.price} less ₹{quote.credit} credit for {quote.remainingDays} unused days: you pay ₹{quote.charge}.
+          {quote.forfeitedRewards > 0 && ` ${quote.forfeitedRewards} upcoming daily rewards of your current plan are given up.`}
+        </p>
+      )}
+    </div>
+  );
+}
+
+// The user's running subscriptions with renewal, cancellation and upgrade controls
+export function SubscriptionManager() {
+  const { data: subscriptions, isLoading } = useQuery<Subscription[]>({
+    queryKey: ["/api/subscriptions/active"],
+  });
+
+  const { data: plans } = useQuery<SubscriptionPlan[]>({
+    queryKey: ["/api/subscription-plans"],
+  });
+
+  // Repurchases that have not started yet are managed from the subscription they extend
+  const running = subscriptions?.filter(subscription => new Date(subscription.startDate) <= new Date()) ?? [];
+
+  if (isLoading || running.length === 0) return null;
+
+  return (
+    <Card className="mb-6">
+      <CardHeader>
+        <CardTitle>Your Subscriptions</CardTitle>
+        <CardDescription>
+          Renew automatically from your wallet, cancel at the end of the term, or upgrade with credit for unused time.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {running.map(subscription => (
+          <div key={subscription.id} className="p-4 rounded-lg border border-border space-y-3">
+            <div className="flex items-center justify-between">
+              <h4 className="font-semibold">{subscription.name}</h4>
+              <Badge variant={subscription.cancelAtPeriodEnd ? "outline" : "default"}>
+                {subscription.cancelAtPeriodEnd ? "Ending" : "Active"}
+              </Badge>
+            </div>
+            <SubscriptionControls subscription={subscription} />
+            {plans && <SubscriptionUpgrade subscription={subscription} plans={plans} />}
+          </div>
+        ))}
+      </CardContent>
+    </Card>
+  );
+}
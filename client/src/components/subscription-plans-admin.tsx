@@ -0,0 +1,320 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { SubscriptionPlan } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Loader2, Plus, Pencil, Archive } from "lucide-react";
+
+interface PlanForm {
+  slug: string;
+  name: string;
+  description: string;
+  price: string;
+  rewardTotal: string;
+  durationDays: string;
+  commissionDiscount: string;
+  supportTier: string;
+  features: string; // One feature per line
+  isPopular: boolean;
+  isActive: boolean;
+  sortOrder: string;
+}
+
+// Support tiers a plan can grant, lowest first
+const SUPPORT_TIERS = ["standard", "priority", "vip"];
+
+const EMPTY_FORM: PlanForm = {
+  slug: "",
+  name: "",
+  description: "",
+  price: "",
+  rewardTotal: "0",
+  durationDays: "7",
+  commissionDiscount: "25",
+  supportTier: "standard",
+  features: "",
+  isPopular: false,
+  isActive: true,
+  sortOrder: "0",
+};
+
+const toForm = (plan: SubscriptionPlan): PlanForm => {
+  let features: string[] = [];
+  try {
+    features = plan.features ? JSON.parse(plan.features) : [];
+  } catch {
+    // Start from an empty list if the stored one is malformed
+  }
+
+  return {
+    slug: plan.slug,
+    name: plan.name,
+    description: plan.description ?? "",
+    price: plan.price,
+    rewardTotal: plan.rewardTotal,
+    durationDays: plan.durationDays.toString(),
+    commissionDiscount: plan.commissionDiscount,
+    supportTier: plan.supportTier,
+    features: features.join("\n"),
+    isPopular: plan.isPopular,
+    isActive: plan.isActive,
+    sortOrder: plan.sortOrder.toString(),
+  };
+};
+
+// Admin catalog of subscription plans. Edits only affect new purchases.
+export function SubscriptionPlansAdmin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [editing, setEditing] = useState<SubscriptionPlan | "new" | null>(null);
+  const [form, setForm] = useState<PlanForm>(EMPTY_FORM);
+
+  const { data: plans, isLoading } = useQuery<SubscriptionPlan[]>({
+    queryKey: ["/api/admin/subscription-plans"],
+  });
+
+  const refreshPlans = () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/admin/subscription-plans"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/subscription-plans"] });
+  };
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      const body = {
+        slug: form.slug.trim(),
+        name: form.name.trim(),
+        description: form.description.trim() || null,
+        price: form.price,
+        rewardTotal: form.rewardTotal,
+        durationDays: form.durationDays,
+        commissionDiscount: form.commissionDiscount,
+        supportTier: form.supportTier,
+        features: form.features.split("\n").map(feature => feature.trim()).filter(Boolean),
+        isPopular: form.isPopular,
+        isActive: form.isActive,
+        sortOrder: form.sortOrder,
+      };
+
+      const response = editing === "new" || editing === null
+        ? await apiRequest("POST", "/api/admin/subscription-plans", body)
+        : await apiRequest("PATCH", `/api/admin/subscription-plans/${editing.id}`, body);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Plan saved",
+        description: "New purchases will use the updated plan.",
+      });
+      refreshPlans();
+      setEditing(null);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error saving plan",
+        description: error.message || "There was an error saving the plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const retireMutation = useMutation({
+    mutationFn: async (planId: number) => {
+      const response = await apiRequest("DELETE", `/api/admin/subscription-plans/${planId}`);
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Plan retired",
+        description: "The plan can no longer be bought. Existing subscriptions are unaffected.",
+      });
+      refreshPlans();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error retiring plan",
+        description: error.message || "There was an error retiring the plan",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const openEditor = (plan: SubscriptionPlan | "new") => {
+    setForm(plan === "new" ? EMPTY_FORM : toForm(plan));
+    setEditing(plan);
+  };
+
+  const setField = <K extends keyof PlanForm>(key: K, value: PlanForm[K]) => {
+    setForm(current => ({ ...current, [key]: value }));
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <CardTitle>Subscription Plans</CardTitle>
+            <CardDescription>
+              Prices, rewards and commission discounts players are offered. Existing subscriptions keep the terms they were bought with.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openEditor("new")}>
+            <Plus className="h-4 w-4 mr-1" />
+            New Plan
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : plans && plans.length > 0 ? (
+          <div className="space-y-3">
+            {plans.map(plan => (
+              <div key={plan.id} className="flex items-center justify-between p-4 rounded-lg border border-border bg-muted/30">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <h3 className="font-semibold">{plan.name}</h3>
+                    <span className="text-xs text-muted-foreground">{plan.slug}</span>
+                    {plan.isPopular && <Badge>Popular</Badge>}
+                    {!plan.isActive && <Badge variant="outline">Retired</Badge>}
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    ₹{parseFloat(plan.price).toFixed(2)} • {plan.durationDays} days • ₹{parseFloat(plan.rewardTotal).toFixed(2)} rewards • {parseFloat(plan.commissionDiscount)}% off commission • {plan.supportTier} support
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button variant="outline" size="sm" onClick={() => openEditor(plan)}>
+                    <Pencil className="h-4 w-4 mr-1" />
+                    Edit
+                  </Button>
+                  {plan.isActive && (
+                    <Button
+                      variant="outline"
+                      size="sm"
+                      className="text-red-600"
+                      onClick={() => retireMutation.mutate(plan.id)}
+                      disabled={retireMutation.isPending}
+                    >
+                      <Archive className="h-4 w-4 mr-1" />
+                      Retire
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        ) : (
+          <div className="text-center py-12 bg-muted/20 rounded-lg">
+            <h3 className="text-lg font-medium text-foreground mb-2">No subscription plans</h3>
+            <p className="text-muted-foreground">Create a plan for players to buy.</p>
+          </div>
+        )}
+      </CardContent>
+
+      <Dialog open={editing !== null} onOpenChange={(open) => !open && setEditing(null)}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{editing === "new" ? "New Subscription Plan" : "Edit Subscription Plan"}</DialogTitle>
+            <DialogDescription>
+              Daily rewards are the reward total split evenly over the duration.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1">
+              <Label htmlFor="plan-name">Name</Label>
+              <Input id="plan-name" value={form.name} onChange={(e) => setField("name", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-slug">Slug</Label>
+              <Input id="plan-slug" placeholder="e.g. gold" value={form.slug} onChange={(e) => setField("slug", e.target.value)} />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="plan-description">Description</Label>
+              <Input id="plan-description" value={form.description} onChange={(e) => setField("description", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-price">Price (₹)</Label>
+              <Input id="plan-price" type="number" min="1" value={form.price} onChange={(e) => setField("price", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-rewards">Reward total (₹)</Label>
+              <Input id="plan-rewards" type="number" min="0" value={form.rewardTotal} onChange={(e) => setField("rewardTotal", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-duration">Duration (days)</Label>
+              <Input id="plan-duration" type="number" min="1" value={form.durationDays} onChange={(e) => setField("durationDays", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-discount">Commission discount (%)</Label>
+              <Input id="plan-discount" type="number" min="0" max="100" value={form.commissionDiscount} onChange={(e) => setField("commissionDiscount", e.target.value)} />
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="plan-support">Support tier</Label>
+              <Select value={form.supportTier} onValueChange={(value) => setField("supportTier", value)}>
+                <SelectTrigger id="plan-support">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SUPPORT_TIERS.map(tier => (
+                    <SelectItem key={tier} value={tier} className="capitalize">{tier}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 col-span-2">
+              <Label htmlFor="plan-features">Features (one per line)</Label>
+              <Textarea id="plan-features" rows={3} value={form.features} onChange={(e) => setField("features", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="plan-order">Display order</Label>
+              <Input id="plan-order" type="number" value={form.sortOrder} onChange={(e) => setField("sortOrder", e.target.value)} />
+            </div>
+            <div className="flex flex-col justify-end gap-2">
+              <div className="flex items-center gap-2">
+                <Switch id="plan-popular" checked={form.isPopular} onCheckedChange={(checked) => setField("isPopular", checked)} />
+                <Label htmlFor="plan-popular">Popular</Label>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch id="plan-active" checked={form.isActive} onCheckedChange={(checked) => setField("isActive", checked)} />
+                <Label htmlFor="plan-active">On sale</Label>
+              </div>
+            </div>
+          </div>
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setEditing(null)}>Cancel</Button>
+            <Button
+              onClick={() => saveMutation.mutate()}
+              disabled={saveMutation.isPending || !form.name.trim() || !form.slug.trim() || !form.price}
+            >
+              {saveMutation.isPending ? (
+                <>
+                  <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  Saving...
+                </>
+              ) : (
+                "Save Plan"
+              )}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
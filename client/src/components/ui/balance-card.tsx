@@ -13,6 +13,7 @@ import {
 } from "@/components/ui/dialog";
 import { Input } from "@/components/ui/input";
 import { useToast } from "@/hooks/use-toast";
+import { useAuth } from "@/hooks/use-auth";
 
 interface BalanceCardProps {
   balance: string;
@@ -21,11 +22,13 @@ interface BalanceCardProps {
 export function BalanceCard({ balance }: BalanceCardProps) {
   const [addAmount, setAddAmount] = useState("");
   const [withdrawAmount, setWithdrawAmount] = useState("");
+  const [withdrawUpiId, setWithdrawUpiId] = useState("");
   const [addMoneyOpen, setAddMoneyOpen] = useState(false);
   const [withdrawOpen, setWithdrawOpen] = useState(false);
   
   const queryClient = useQueryClient();
   const { toast } = useToast();
+  const { user } = useAuth();
 
   const addMoneyMutation = useMutation({
     mutationFn: async (amount: string) => {
@@ -51,23 +54,24 @@ export function BalanceCard({ balance }: BalanceCardProps) {
   });
 
   const withdrawMutation = useMutation({
-    mutationFn: async (amount: string) => {
-      return await apiRequest("POST", "/api/wallet/withdraw", { amount });
+    mutationFn: async ({ amount, upiId }: { amount: string; upiId?: string }) => {
+      return await apiRequest("POST", "/api/wallet/withdraw", { amount, upiId });
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       setWithdrawAmount("");
+      setWithdrawUpiId("");
       setWithdrawOpen(false);
       toast({
-        title: "Success",
-        description: "Withdrawal successful",
+        title: "Withdrawal requested",
+        description: "The amount is on hold until an admin sends the payout to your UPI ID.",
       });
     },
-    onError: (error) => {
+    onError: (error: Error) => {
       toast({
         title: "Error",
-        description: "Failed to withdraw money",
+        description: error.message || "Failed to request withdrawal",
         variant: "destructive",
       });
     },
@@ -94,7 +98,10 @@ export function BalanceCard({ balance }: BalanceCardProps) {
       });
       return;
     }
-    withdrawMutation.mutate(withdrawAmount);
+    withdrawMutation.mutate({
+      amount: withdrawAmount,
+      upiId: withdrawUpiId.trim() || undefined
+    });
   };
 
   return (
@@ -160,6 +167,14 @@ export function BalanceCard({ balance }: BalanceCardProps) {
                     value={withdrawAmount}
                     onChange={(e) => setWithdrawAmount(e.target.value)}
                   />
+                  <Input
+                    placeholder={user?.upiId ? `UPI ID (default: ${user.upiId})` : "UPI ID for payout"}
+                    value={withdrawUpiId}
+                    onChange={(e) => setWithdrawUpiId(e.target.value)}
+                  />
+                  <p className="text-xs text-muted-foreground">
+                    Withdrawals are held from your balance and paid out after admin review.
+                  </p>
                 </div>
                 <Button 
                   className="w-full" 
@@ -171,7 +186,7 @@ export function BalanceCard({ balance }: BalanceCardProps) {
                       <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Processing
                     </span>
                   ) : (
-                    "Withdraw"
+                    "Request Withdrawal"
                   )}
                 </Button>
               </div>
@@ -1,115 +1,250 @@
-import { useEffect, useState, useRef } from 'react';
-import { io, Socket } from 'socket.io-client';
+import { useEffect, useLayoutEffect, useState, useRef } from 'react';
+import { useQuery } from '@tanstack/react-query';
+import { useSearch } from 'wouter';
+import { ChatHistoryPage, ChatMessageView, ChatRoomSummary, ChatSanctionView, hasPermission } from '@shared/schema';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Card, CardContent, CardHeader, CardTitle, CardFooter } from '@/components/ui/card';
-import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
-import { ScrollArea } from '@/components/ui/scroll-area';
+import { Avatar, AvatarFallback } from '@/components/ui/avatar';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuSeparator, DropdownMenuTrigger } from '@/components/ui/dropdown-menu';
 import { useAuth } from '@/hooks/use-auth';
-import { Send, Users } from 'lucide-react';
+import { useSocket } from '@/hooks/use-socket';
+import { useToast } from '@/hooks/use-toast';
+import { apiRequest, queryClient } from '@/lib/queryClient';
+import { Loader2, MoreVertical, Send, Users } from 'lucide-react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 
-interface Message {
-  id: string;
-  sender: string;
-  content: string;
-  senderName: string;
-  timestamp: Date;
-  roomId: string;
+const GLOBAL_ROOM = 'global';
+
+// Load older messages once the list is scrolled this close to the top
+const LOAD_OLDER_THRESHOLD_PX = 40;
+
+const roomsQueryKey = ['/api/chat/rooms'];
+const sanctionsQueryKey = ['/api/chat/sanctions'];
+
+const sanctionCovers = (sanction: ChatSanctionView, roomKey: string) =>
+  sanction.roomKey === null || sanction.roomKey === roomKey;
+
+const formatTime = (date: Date | string) =>
+  new Date(date).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+
+async function fetchHistory(roomKey: string, before?: number): Promise<ChatHistoryPage> {
+  const params = new URLSearchParams();
+  if (before) params.set('before', before.toString());
+  const res = await apiRequest('GET', `/api/chat/rooms/${encodeURIComponent(roomKey)}/messages?${params.toString()}`);
+  return res.json();
 }
 
-interface ChatRoom {
-  id: string;
-  name: string;
-  type: 'global' | 'game' | 'private';
-  participants?: string[];
+// Mark a room read up to a message and refresh the unread badges
+async function markRead(roomKey: string, messageId?: number) {
+  try {
+    await apiRequest('POST', `/api/chat/rooms/${encodeURIComponent(roomKey)}/read`, messageId ? { messageId } : {});
+    queryClient.invalidateQueries({ queryKey: roomsQueryKey });
+  } catch {
+    // Badges catch up on the next refresh
+  }
 }
 
 export function ChatSystem({ gameId, matchId }: { gameId?: number; matchId?: number }) {
-  const [socket, setSocket] = useState<Socket | null>(null);
+  const socket = useSocket();
   const [message, setMessage] = useState('');
-  const [messages, setMessages] = useState<Message[]>([]);
-  const [chatRooms, setChatRooms] = useState<ChatRoom[]>([]);
-  const [currentRoom, setCurrentRoom] = useState<string>('global');
+  const [messages, setMessages] = useState<ChatMessageView[]>([]);
+  const [nextCursor, setNextCursor] = useState<number | null>(null);
+  const [loadingOlder, setLoadingOlder] = useState(false);
+  const [currentRoom, setCurrentRoom] = useState<string>(gameId && matchId ? `game-${matchId}` : GLOBAL_ROOM);
   const [onlineUsers, setOnlineUsers] = useState<number>(0);
+  const [reporting, setReporting] = useState<ChatMessageView | null>(null);
+  const [reportReason, setReportReason] = useState('');
   const { user } = useAuth();
-  const messagesEndRef = useRef<HTMLDivElement>(null);
+  const canModerate = hasPermission(user, 'moderate_chat');
+  const { toast } = useToast();
+  const search = useSearch();
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const cardRef = useRef<HTMLDivElement>(null);
+  // The socket listeners outlive renders, so they read the room from here
+  const currentRoomRef = useRef(currentRoom);
+  // Scroll height before older messages were prepended, to keep the view in place
+  const restoreScrollRef = useRef<number | null>(null);
 
-  // Connect to the socket server
-  useEffect(() => {
-    const newSocket = io('', {
-      path: '/api/socket',
-    });
+  const { data: rooms = [] } = useQuery<ChatRoomSummary[]>({
+    queryKey: roomsQueryKey,
+    enabled: !!user,
+    refetchInterval: 30000,
+  });
 
-    setSocket(newSocket);
+  const { data: sanctions = [] } = useQuery<ChatSanctionView[]>({
+    queryKey: sanctionsQueryKey,
+    enabled: !!user,
+  });
 
-    // Cleanup on unmount
-    return () => {
-      newSocket.disconnect();
-    };
-  }, []);
+  // The match's room joins the list once the server has opened it for us
+  const gameRoomKey = gameId && matchId ? `game-${matchId}` : null;
+  const chatRooms = gameRoomKey && !rooms.some(room => room.key === gameRoomKey)
+    ? [...rooms, { key: gameRoomKey, name: 'Game Chat', type: 'game', unreadCount: 0 } as ChatRoomSummary]
+    : rooms;
 
-  // Initialize rooms and listen for messages
+  // Listen for messages and room changes. The connection is shared, so only our own
+  // handlers come off again.
   useEffect(() => {
     if (!socket || !user) return;
 
-    // Initialize with global chat
-    const initialRooms: ChatRoom[] = [
-      { id: 'global', name: 'Global Chat', type: 'global' }
-    ];
-    
-    // Add game room if in a game
-    if (gameId && matchId) {
-      initialRooms.push({ 
-        id: `game-${matchId}`, 
-        name: 'Game Chat', 
-        type: 'game'
-      });
-      // Auto-join game room when in a game
-      setCurrentRoom(`game-${matchId}`);
-    }
-    
-    setChatRooms(initialRooms);
-
-    // Join user to the appropriate rooms
-    socket.emit('joinRoom', { 
-      userId: user.id, 
-      username: user.username, 
-      roomId: gameId && matchId ? `game-${matchId}` : 'global' 
-    });
+    const onMessage = (newMessage: ChatMessageView) => {
+      if (newMessage.roomId !== currentRoomRef.current) return;
 
-    // Listen for messages
-    socket.on('message', (newMessage: Message) => {
+      const el = scrollRef.current;
+      const atBottom = !el || el.scrollHeight - el.scrollTop - el.clientHeight < LOAD_OLDER_THRESHOLD_PX;
       setMessages(prev => [...prev, newMessage]);
-      setTimeout(() => scrollToBottom(), 100);
-    });
+      if (atBottom || newMessage.sender === user.id.toString()) {
+        setTimeout(() => scrollToBottom(), 100);
+      }
+
+      // We are looking at the room, so what arrives is read
+      if (newMessage.id) markRead(newMessage.roomId, newMessage.id);
+    };
 
     // Listen for online users count
-    socket.on('userCount', (count: number) => {
+    const onUserCount = (count: number) => {
       setOnlineUsers(count);
-    });
+    };
 
-    // Listen for private chat invitations
-    socket.on('privateRoomCreated', (room: ChatRoom) => {
-      setChatRooms(prev => [...prev, room]);
-    });
+    // Someone opened a private chat with us
+    const onPrivateRoomCreated = () => {
+      queryClient.invalidateQueries({ queryKey: roomsQueryKey });
+    };
 
-    // Message history
-    socket.on('messageHistory', (history: Message[]) => {
-      setMessages(history);
-      setTimeout(() => scrollToBottom(), 100);
-    });
+    // A room we aren't allowed in - fall back to global chat
+    const onRoomError = ({ roomId }: { roomId: string }) => {
+      if (roomId === currentRoomRef.current) setCurrentRoom(GLOBAL_ROOM);
+    };
+
+    // A moderator took a message down
+    const onMessageRemoved = ({ roomId, messageId }: { roomId: string; messageId: number }) => {
+      if (roomId === currentRoomRef.current) {
+        setMessages(prev => prev.filter(msg => msg.id !== messageId));
+      }
+      queryClient.invalidateQueries({ queryKey: roomsQueryKey });
+    };
+
+    // We were muted or banned, in this room or everywhere
+    const onChatSanction = (sanction: ChatSanctionView) => {
+      const where = sanction.roomName ?? 'all chat rooms';
+      const until = sanction.expiresAt ? ` until ${formatTime(sanction.expiresAt)}` : '';
+      toast({
+        title: sanction.type === 'ban' ? 'You have been banned' : 'You have been muted',
+        description: `${sanction.type === 'ban' ? 'Banned from' : 'Muted in'} ${where}${until}.${sanction.reason ? ` ${sanction.reason}` : ''}`,
+        variant: 'destructive',
+      });
+      queryClient.invalidateQueries({ queryKey: sanctionsQueryKey });
+      queryClient.invalidateQueries({ queryKey: roomsQueryKey });
+      if (sanction.type === 'ban' && sanctionCovers(sanction, currentRoomRef.current)) {
+        setCurrentRoom(GLOBAL_ROOM);
+      }
+    };
+
+    const onChatSanctionLifted = (sanction: ChatSanctionView) => {
+      toast({
+        title: sanction.type === 'ban' ? 'Ban lifted' : 'Mute lifted',
+        description: `You can ${sanction.type === 'ban' ? 'join' : 'post in'} ${sanction.roomName ?? 'every chat room'} again.`,
+      });
+      queryClient.invalidateQueries({ queryKey: sanctionsQueryKey });
+      queryClient.invalidateQueries({ queryKey: roomsQueryKey });
+    };
+
+    // A message the server didn't accept
+    const onMessageError = ({ message }: { roomId: string; message: string }) => {
+      toast({ title: 'Message not sent', description: message, variant: 'destructive' });
+    };
+
+    socket.on('message', onMessage);
+    socket.on('userCount', onUserCount);
+    socket.on('privateRoomCreated', onPrivateRoomCreated);
+    socket.on('roomError', onRoomError);
+    socket.on('messageRemoved', onMessageRemoved);
+    socket.on('chatSanction', onChatSanction);
+    socket.on('chatSanctionLifted', onChatSanctionLifted);
+    socket.on('messageError', onMessageError);
+
+    return () => {
+      socket.off('message', onMessage);
+      socket.off('userCount', onUserCount);
+      socket.off('privateRoomCreated', onPrivateRoomCreated);
+      socket.off('roomError', onRoomError);
+      socket.off('messageRemoved', onMessageRemoved);
+      socket.off('chatSanction', onChatSanction);
+      socket.off('chatSanctionLifted', onChatSanctionLifted);
+      socket.off('messageError', onMessageError);
+    };
+  }, [socket, user]);
+
+  // Join the current room and load its latest page
+  useEffect(() => {
+    if (!socket || !user) return;
+
+    const roomKey = currentRoom;
+    currentRoomRef.current = roomKey;
+    setMessages([]);
+    setNextCursor(null);
+
+    socket.emit('joinRoom', { roomId: roomKey });
+
+    let cancelled = false;
+    fetchHistory(roomKey)
+      .then(page => {
+        if (cancelled) return;
+        setMessages(page.messages);
+        setNextCursor(page.nextCursor);
+        setTimeout(() => scrollToBottom(), 100);
+        markRead(roomKey);
+      })
+      .catch(() => {
+        // Not allowed in the room; the socket's roomError moves us back to global chat
+      });
 
     return () => {
-      socket.off('message');
-      socket.off('userCount');
-      socket.off('privateRoomCreated');
-      socket.off('messageHistory');
+      cancelled = true;
+      socket.emit('leaveRoom', { roomId: roomKey });
     };
-  }, [socket, user, gameId, matchId]);
+  }, [socket, user, currentRoom]);
+
+  // Keep the messages that were on screen in place after older ones are prepended
+  useLayoutEffect(() => {
+    const el = scrollRef.current;
+    if (el && restoreScrollRef.current !== null) {
+      el.scrollTop += el.scrollHeight - restoreScrollRef.current;
+      restoreScrollRef.current = null;
+    }
+  }, [messages]);
 
   const scrollToBottom = () => {
-    messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+    const el = scrollRef.current;
+    if (el) el.scrollTop = el.scrollHeight;
+  };
+
+  const loadOlder = async () => {
+    if (!nextCursor || loadingOlder) return;
+
+    const roomKey = currentRoom;
+    setLoadingOlder(true);
+    try {
+      const page = await fetchHistory(roomKey, nextCursor);
+      if (roomKey !== currentRoomRef.current) return;
+
+      restoreScrollRef.current = scrollRef.current?.scrollHeight ?? null;
+      setMessages(prev => [...page.messages, ...prev]);
+      setNextCursor(page.nextCursor);
+    } catch (error) {
+      toast({ title: 'Chat', description: 'Could not load older messages', variant: 'destructive' });
+    } finally {
+      setLoadingOlder(false);
+    }
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    if (e.currentTarget.scrollTop < LOAD_OLDER_THRESHOLD_PX) {
+      loadOlder();
+    }
   };
 
   const sendMessage = () => {
@@ -117,8 +252,6 @@ export function ChatSystem({ gameId, matchId }: { gameId?: number; matchId?: num
 
     const newMessage = {
       content: message,
-      sender: user.id.toString(),
-      senderName: user.username,
       roomId: currentRoom
     };
 
@@ -134,54 +267,70 @@ export function ChatSystem({ gameId, matchId }: { gameId?: number; matchId?: num
 
   const switchRoom = (roomId: string) => {
     if (!socket || !user) return;
-    
-    // Leave current room
-    socket.emit('leaveRoom', { userId: user.id, roomId: currentRoom });
-    
-    // Join new room
-    socket.emit('joinRoom', { userId: user.id, username: user.username, roomId });
-    
+
     setCurrentRoom(roomId);
-    // Request message history for the new room
-    socket.emit('getMessageHistory', roomId);
   };
 
-  const startPrivateChat = (otherUserId: string, otherUsername: string) => {
+  const startPrivateChat = (otherUserId: number) => {
     if (!socket || !user) return;
-    
-    // Create a unique room ID for private chat
-    const roomId = [user.id, otherUserId].sort().join('-');
-    
-    socket.emit('createPrivateRoom', { 
-      userId: user.id, 
-      username: user.username,
-      otherUserId,
-      otherUsername,
-      roomId
+
+    socket.emit('createPrivateRoom', { otherUserId }, ({ room, error }: { room?: ChatRoomSummary; error?: string }) => {
+      if (error || !room) {
+        toast({ title: 'Chat', description: error ?? 'Could not open the chat', variant: 'destructive' });
+        return;
+      }
+
+      queryClient.invalidateQueries({ queryKey: roomsQueryKey });
+      switchRoom(room.key);
     });
-    
-    // Add room locally if it doesn't exist
-    if (!chatRooms.some(room => room.id === roomId)) {
-      setChatRooms(prev => [
-        ...prev, 
-        { 
-          id: roomId, 
-          name: `Chat with ${otherUsername}`, 
-          type: 'private',
-          participants: [user.id.toString(), otherUserId]
-        }
-      ]);
+  };
+
+  // Other pages open a chat with a friend by linking here with ?chatWith=<userId>
+  const chatWith = gameId ? null : new URLSearchParams(search).get('chatWith');
+  useEffect(() => {
+    if (!socket || !user || !chatWith) return;
+
+    startPrivateChat(parseInt(chatWith));
+    cardRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [socket, user, chatWith]);
+
+  const submitReport = async () => {
+    if (!reporting || !reportReason.trim()) return;
+
+    try {
+      await apiRequest('POST', `/api/chat/messages/${reporting.id}/report`, { reason: reportReason.trim() });
+      toast({ title: 'Message reported', description: 'A moderator will review it.' });
+      setReporting(null);
+      setReportReason('');
+    } catch (error) {
+      toast({ title: 'Could not report message', description: (error as Error).message, variant: 'destructive' });
+    }
+  };
+
+  // Moderator actions from the message menu; the queue in the admin panel offers the same
+  const moderate = async (msg: ChatMessageView, action: 'remove' | 'mute' | 'ban') => {
+    try {
+      if (action === 'remove') {
+        await apiRequest('POST', `/api/admin/chat/messages/${msg.id}/remove`);
+      } else {
+        await apiRequest('POST', '/api/admin/chat/sanctions', {
+          userId: parseInt(msg.sender),
+          roomKey: msg.roomId,
+          type: action,
+          minutes: action === 'mute' ? 60 : undefined,
+        });
+      }
+      toast({ title: action === 'remove' ? 'Message removed' : action === 'mute' ? `${msg.senderName} muted for 1 hour` : `${msg.senderName} banned from the room` });
+    } catch (error) {
+      toast({ title: 'Moderation failed', description: (error as Error).message, variant: 'destructive' });
     }
-    
-    // Switch to the private room
-    switchRoom(roomId);
   };
 
-  const filteredMessages = messages.filter(msg => msg.roomId === currentRoom);
-  const currentRoomData = chatRooms.find(room => room.id === currentRoom);
+  const currentRoomData = chatRooms.find(room => room.key === currentRoom);
+  const mute = sanctions.find(sanction => sanction.type === 'mute' && sanctionCovers(sanction, currentRoom));
 
   return (
-    <Card className="w-full h-[500px] flex flex-col">
+    <Card ref={cardRef} className="w-full h-[500px] flex flex-col">
       <CardHeader className="p-3 pb-0">
         <div className="flex justify-between items-center">
           <CardTitle className="text-lg font-bold">
@@ -193,47 +342,87 @@ export function ChatSystem({ gameId, matchId }: { gameId?: number; matchId?: num
           </div>
         </div>
       </CardHeader>
-      
-      <Tabs defaultValue={currentRoom} onValueChange={switchRoom} className="flex-1 flex flex-col">
+
+      <Tabs value={currentRoom} onValueChange={switchRoom} className="flex-1 flex flex-col">
         <TabsList className="mx-3 mb-1">
           {chatRooms.map(room => (
-            <TabsTrigger 
-              key={room.id} 
-              value={room.id}
+            <TabsTrigger
+              key={room.key}
+              value={room.key}
               className="text-xs py-1 px-2"
             >
               {room.name}
+              {room.key !== currentRoom && room.unreadCount > 0 && (
+                <Badge variant="destructive" className="ml-1 h-4 px-1 text-[10px]">
+                  {room.unreadCount > 99 ? '99+' : room.unreadCount}
+                </Badge>
+              )}
             </TabsTrigger>
           ))}
         </TabsList>
-        
+
         {chatRooms.map(room => (
-          <TabsContent 
-            key={room.id} 
-            value={room.id} 
+          <TabsContent
+            key={room.key}
+            value={room.key}
             className="flex-1 flex flex-col m-0 data-[state=active]:flex data-[state=inactive]:hidden"
           >
             <CardContent className="flex-1 p-3 overflow-hidden">
-              <ScrollArea className="h-[350px] pr-3">
-                {filteredMessages.length === 0 ? (
+              <div
+                ref={room.key === currentRoom ? scrollRef : undefined}
+                onScroll={handleScroll}
+                className="h-[350px] pr-3 overflow-y-auto"
+              >
+                {loadingOlder && (
+                  <div className="flex justify-center py-2">
+                    <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+                  </div>
+                )}
+                {messages.length === 0 ? (
                   <div className="flex items-center justify-center h-full text-muted-foreground">
                     No messages yet. Start the conversation!
                   </div>
                 ) : (
                   <div className="space-y-4">
-                    {filteredMessages.map((msg, index) => (
-                      <div 
-                        key={index}
+                    {messages.map((msg, index) => (
+                      <div
+                        key={msg.id || `notice-${index}`}
                         className={`flex ${msg.sender === (user?.id.toString() || '') ? 'justify-end' : 'justify-start'}`}
                       >
                         <div className={`flex gap-2 max-w-[80%] ${msg.sender === (user?.id.toString() || '') ? 'flex-row-reverse' : 'flex-row'}`}>
                           <Avatar className="h-8 w-8">
                             <AvatarFallback>{msg.senderName.substring(0, 2).toUpperCase()}</AvatarFallback>
                           </Avatar>
-                          <div>
+                          <div className="group relative">
+                            {msg.id > 0 && msg.sender !== (user?.id.toString() || '') && (
+                              <DropdownMenu>
+                                <DropdownMenuTrigger asChild>
+                                  <button
+                                    type="button"
+                                    aria-label="Message actions"
+                                    className="absolute -right-5 top-1 opacity-0 group-hover:opacity-100 focus:opacity-100 text-muted-foreground"
+                                  >
+                                    <MoreVertical className="h-4 w-4" />
+                                  </button>
+                                </DropdownMenuTrigger>
+                                <DropdownMenuContent align="start">
+                                  <DropdownMenuItem onClick={() => setReporting(msg)}>Report message</DropdownMenuItem>
+                                  {canModerate && (
+                                    <>
+                                      <DropdownMenuSeparator />
+                                      <DropdownMenuItem onClick={() => moderate(msg, 'remove')}>Remove message</DropdownMenuItem>
+                                      <DropdownMenuItem onClick={() => moderate(msg, 'mute')}>Mute for 1 hour</DropdownMenuItem>
+                                      <DropdownMenuItem className="text-destructive" onClick={() => moderate(msg, 'ban')}>
+                                        Ban from room
+                                      </DropdownMenuItem>
+                                    </>
+                                  )}
+                                </DropdownMenuContent>
+                              </DropdownMenu>
+                            )}
                             <div className={`rounded-lg py-2 px-3 ${
-                              msg.sender === (user?.id.toString() || '') 
-                                ? 'bg-primary text-primary-foreground' 
+                              msg.sender === (user?.id.toString() || '')
+                                ? 'bg-primary text-primary-foreground'
                                 : 'bg-muted'
                             }`}>
                               {msg.content}
@@ -241,33 +430,30 @@ export function ChatSystem({ gameId, matchId }: { gameId?: number; matchId?: num
                             <div className="text-xs text-muted-foreground mt-1 flex items-center gap-1">
                               <span>{msg.senderName}</span>
                               <span>•</span>
-                              <span>
-                                {new Date(msg.timestamp).toLocaleTimeString([], { 
-                                  hour: '2-digit', 
-                                  minute: '2-digit' 
-                                })}
-                              </span>
+                              <span>{formatTime(msg.timestamp)}</span>
                             </div>
                           </div>
                         </div>
                       </div>
                     ))}
-                    <div ref={messagesEndRef} />
                   </div>
                 )}
-              </ScrollArea>
+              </div>
             </CardContent>
-            
+
             <CardFooter className="p-3 pt-0">
               <div className="flex w-full gap-2">
                 <Input
                   value={message}
                   onChange={(e) => setMessage(e.target.value)}
                   onKeyDown={handleKeyDown}
-                  placeholder="Type your message..."
+                  placeholder={mute
+                    ? `You are muted${mute.expiresAt ? ` until ${formatTime(mute.expiresAt)}` : ''}`
+                    : 'Type your message...'}
+                  disabled={!!mute}
                   className="flex-1"
                 />
-                <Button onClick={sendMessage} size="icon">
+                <Button onClick={sendMessage} size="icon" disabled={!!mute}>
                   <Send className="h-4 w-4" />
                 </Button>
               </div>
@@ -275,6 +461,27 @@ export function ChatSystem({ gameId, matchId }: { gameId?: number; matchId?: num
           </TabsContent>
         ))}
       </Tabs>
+
+      <Dialog open={!!reporting} onOpenChange={(open) => !open && setReporting(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Report message</DialogTitle>
+            <DialogDescription>
+              {reporting && `${reporting.senderName}: "${reporting.content}"`}
+            </DialogDescription>
+          </DialogHeader>
+          <Input
+            value={reportReason}
+            onChange={(e) => setReportReason(e.target.value)}
+            placeholder="Why are you reporting this message?"
+            maxLength={500}
+          />
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReporting(null)}>Cancel</Button>
+            <Button onClick={submitReport} disabled={!reportReason.trim()}>Report</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
     </Card>
   );
-}
\ No newline at end of file
+}
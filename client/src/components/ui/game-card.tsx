@@ -19,6 +19,9 @@ import { apiRequest } from "@/lib/queryClient";
 import { useLocation } from "wouter";
 import { Loader2 } from "lucide-react";
 import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Switch } from "@/components/ui/switch";
+import { Label } from "@/components/ui/label";
 
 // Import game SVGs
 import ludoSvg from "@assets/ludo.svg";
@@ -42,20 +45,24 @@ interface GameCardProps {
 export function GameCard({ game, featured = false, aiMode = false }: GameCardProps) {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [entryAmount, setEntryAmount] = useState(game.minEntry.toString());
+  const [difficulty, setDifficulty] = useState("medium");
+  const [isPractice, setIsPractice] = useState(true);
+  // Only Ludo is played out move by move on the server; against a bot, other games are practice only
+  const canPlayBotForMoney = game.name === "Ludo Royal";
   const { toast } = useToast();
   const queryClient = useQueryClient();
   const [, navigate] = useLocation();
 
   const createMatchMutation = useMutation({
-    mutationFn: async (data: { gameId: number; entryAmount: string }) => {
+    mutationFn: async (data: { gameId: number; entryAmount: string; opponent: string; difficulty?: string; mode: string }) => {
       const res = await apiRequest("POST", "/api/matches", data);
       return await res.json();
     },
     onSuccess: (match) => {
       if (aiMode) {
         toast({
-          title: "AI Game Started",
-          description: "AI opponent is joining your game. You'll automatically win after playing!",
+          title: isPractice ? "Practice Game Created" : "AI Game Created",
+          description: "An AI opponent is joining your game. It will start in a few seconds.",
         });
       } else {
         toast({
@@ -77,6 +84,17 @@ export function GameCard({ game, featured = false, aiMode = false }: GameCardPro
   });
 
   const handleCreateMatch = () => {
+    if (aiMode && (isPractice || !canPlayBotForMoney)) {
+      createMatchMutation.mutate({
+        gameId: game.id,
+        entryAmount: "0",
+        opponent: "bot",
+        difficulty,
+        mode: "practice",
+      });
+      return;
+    }
+    
     const amount = parseFloat(entryAmount);
     const min = parseFloat(game.minEntry.toString());
     const max = parseFloat(game.maxEntry.toString());
@@ -93,6 +111,9 @@ export function GameCard({ game, featured = false, aiMode = false }: GameCardPro
     createMatchMutation.mutate({
       gameId: game.id,
       entryAmount,
+      opponent: aiMode ? "bot" : "players",
+      difficulty: aiMode ? difficulty : undefined,
+      mode: "real_money",
     });
   };
 
@@ -184,14 +205,14 @@ export function GameCard({ game, featured = false, aiMode = false }: GameCardPro
         </div>
         <p className="text-muted-foreground text-sm mb-4">
           {aiMode 
-            ? `Play ${game.name} instantly against our AI opponent. Perfect for practice and guaranteed wins!` 
+            ? `Play ${game.name} instantly against our AI opponent. Practice for free or play for real money.` 
             : game.description}
         </p>
         
         {aiMode && (
           <div className="flex items-center gap-2 mb-4 text-xs text-primary-foreground bg-primary/10 p-2 rounded-md">
             <Zap className="h-4 w-4 text-primary" />
-            <span className="text-primary-foreground font-medium">Instant play & auto-win against AI</span>
+            <span className="text-primary-foreground font-medium">Instant play with easy, medium or hard opponents</span>
           </div>
         )}
         
@@ -220,28 +241,63 @@ export function GameCard({ game, featured = false, aiMode = false }: GameCardPro
                 </DialogTitle>
                 {aiMode && (
                   <DialogDescription>
-                    An AI opponent will automatically join your game. The game will start immediately, and you'll win after a short gameplay period!
+                    An AI opponent will automatically join your game and the game will start on its own. Practice games are free and pay no prize.
                   </DialogDescription>
                 )}
               </DialogHeader>
               <div className="space-y-4 py-4">
-                <div className="space-y-2">
-                  <label htmlFor="entry-amount" className="text-sm font-medium">
-                    Entry Amount
-                  </label>
-                  <Input
-                    id="entry-amount"
-                    type="number"
-                    min={parseFloat(game.minEntry.toString())}
-                    max={parseFloat(game.maxEntry.toString())}
-                    placeholder={`Min: ₹${parseFloat(game.minEntry.toString())}, Max: ₹${parseFloat(game.maxEntry.toString())}`}
-                    value={entryAmount}
-                    onChange={(e) => setEntryAmount(e.target.value)}
-                  />
-                  <p className="text-xs text-muted-foreground">
-                    Commission: {parseFloat(game.commissionPercentage.toString())}% of the prize pool
-                  </p>
-                </div>
+                {aiMode && (
+                  <>
+                    <div className="space-y-2">
+                      <Label htmlFor="bot-difficulty">Difficulty</Label>
+                      <Select value={difficulty} onValueChange={setDifficulty}>
+                        <SelectTrigger id="bot-difficulty">
+                          <SelectValue placeholder="Choose difficulty" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="easy">Easy</SelectItem>
+                          <SelectItem value="medium">Medium</SelectItem>
+                          <SelectItem value="hard">Hard</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="flex items-center justify-between rounded-md border border-border p-3">
+                      <div>
+                        <Label htmlFor="practice-mode">Practice game</Label>
+                        <p className="text-xs text-muted-foreground">
+                          {!canPlayBotForMoney
+                            ? "Free to play. This game can only be played against a bot for practice"
+                            : isPractice ? "Free to play, no prize" : "Real money: entry fee charged, winner takes the prize"}
+                        </p>
+                      </div>
+                      <Switch
+                        id="practice-mode"
+                        checked={isPractice || !canPlayBotForMoney}
+                        onCheckedChange={setIsPractice}
+                        disabled={!canPlayBotForMoney}
+                      />
+                    </div>
+                  </>
+                )}
+                {!(aiMode && (isPractice || !canPlayBotForMoney)) && (
+                  <div className="space-y-2">
+                    <label htmlFor="entry-amount" className="text-sm font-medium">
+                      Entry Amount
+                    </label>
+                    <Input
+                      id="entry-amount"
+                      type="number"
+                      min={parseFloat(game.minEntry.toString())}
+                      max={parseFloat(game.maxEntry.toString())}
+                      placeholder={`Min: ₹${parseFloat(game.minEntry.toString())}, Max: ₹${parseFloat(game.maxEntry.toString())}`}
+                      value={entryAmount}
+                      onChange={(e) => setEntryAmount(e.target.value)}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Commission: {parseFloat(game.commissionPercentage.toString())}% of the prize pool
+                    </p>
+                  </div>
+                )}
                 <Button 
                   className={`w-full ${aiMode ? 'bg-primary-gradient' : 'bg-primary'} hover:bg-primary/90 text-white`}
                   onClick={handleCreateMatch}
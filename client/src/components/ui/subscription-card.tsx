@@ -2,76 +2,47 @@ import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { toast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { useMutation } from "@tanstack/react-query";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { SubscriptionPlan } from "@shared/schema";
 import { Loader2, Check, Gift, Calendar, TrendingUp, BadgePercent } from "lucide-react";
 
-interface SubscriptionPlan {
-  id: string;
-  name: string;
-  price: number;
-  rewards: number;
-  duration: number;
-  description: string;
-  features: string[];
-  popular?: boolean;
+const formatRupees = (amount: number) =>
+  amount.toLocaleString("en-IN", { maximumFractionDigits: 2 });
+
+// Daily reward as the server schedules it: the total split evenly, in paise
+const getDailyReward = (plan: SubscriptionPlan) =>
+  Math.floor(parseFloat(plan.rewardTotal) * 100 / plan.durationDays) / 100;
+
+// Benefits shown for a plan: its rewards and commission discount, then its own features
+function getPlanFeatures(plan: SubscriptionPlan): string[] {
+  const rewards = parseFloat(plan.rewardTotal);
+  const discount = parseFloat(plan.commissionDiscount);
+  const features: string[] = [];
+  
+  if (rewards > 0) {
+    features.push(`Receive ₹${formatRupees(getDailyReward(plan))} daily for ${plan.durationDays} days (₹${formatRupees(rewards)} total)`);
+  }
+  if (discount > 0) {
+    features.push(`${formatRupees(discount)}% lower commission on winnings`);
+  }
+  
+  try {
+    const extra = plan.features ? JSON.parse(plan.features) : [];
+    if (Array.isArray(extra)) features.push(...extra.map(String));
+  } catch {
+    // Ignore a malformed feature list
+  }
+  return features;
 }
 
 export function SubscriptionCard() {
-  const plans: SubscriptionPlan[] = [
-    {
-      id: "basic",
-      name: "Basic Subscription",
-      price: 1000,
-      rewards: 6000,
-      duration: 7,
-      description: "Perfect for casual players",
-      features: [
-        "Receive ₹857 daily for 7 days (₹6,000 total)",
-        "25% lower commission on winnings",
-        "Priority customer support",
-        "Exclusive promotions",
-      ]
-    },
-    {
-      id: "standard",
-      name: "Standard Subscription",
-      price: 2000,
-      rewards: 12000,
-      duration: 7,
-      description: "Our most popular package",
-      features: [
-        "Receive ₹1,714 daily for 7 days (₹12,000 total)",
-        "25% lower commission on winnings",
-        "Priority customer support",
-        "Exclusive promotions and special events",
-      ],
-      popular: true
-    },
-    {
-      id: "premium",
-      name: "Premium Subscription",
-      price: 10000,
-      rewards: 80000,
-      duration: 7,
-      description: "Best value for serious players",
-      features: [
-        "Receive ₹11,428 daily for 7 days (₹80,000 total)",
-        "25% lower commission on winnings",
-        "VIP customer support",
-        "All exclusive promotions and special events",
-        "Early access to new features and games"
-      ]
-    }
-  ];
+  const { data: plans, isLoading } = useQuery<SubscriptionPlan[]>({
+    queryKey: ["/api/subscription-plans"],
+  });
 
-  const purchaseMutation = useMutation({
+const purchaseMutation = useMutation({
     mutationFn: async (plan: SubscriptionPlan) => {
-      const response = await apiRequest("POST", "/api/subscriptions", {
-        name: plan.name,
-        amount: plan.price.toString(),
-        rewardAmount: plan.rewards.toString(),
-        duration: plan.duration
-      });
+      const response = await apiRequest("POST", "/api/subscriptions", { planId: plan.id });
       
       if (!response.ok) {
         const errorData = await response.json();
@@ -80,16 +51,18 @@ export function SubscriptionCard() {
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (data: { message: string }) => {
       // Invalidate relevant queries to refresh data
       queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
       queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/subscriptions"] });
       queryClient.invalidateQueries({ queryKey: ["/api/subscriptions/active"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/subscription-rewards"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/entitlements"] });
       
       toast({
         title: "Purchase successful",
-        description: "Your subscription has been purchased successfully. You'll start receiving daily rewards!",
+        description: data.message,
       });
     },
     onError: (error: Error) => {
@@ -102,7 +75,9 @@ export function SubscriptionCard() {
   });
 
   const handlePurchase = (plan: SubscriptionPlan) => {
-    if (confirm(`Are you sure you want to purchase the ${plan.name} for ₹${plan.price}? You'll receive ₹${plan.rewards} over ${plan.duration} days.`)) {
+    const rewards = parseFloat(plan.rewardTotal);
+    const rewardText = rewards > 0 ? ` You'll receive ₹${formatRupees(rewards)} over ${plan.durationDays} days.` : "";
+    if (confirm(`Are you sure you want to purchase the ${plan.name} for ₹${formatRupees(parseFloat(plan.price))}?${rewardText}`)) {
       purchaseMutation.mutate(plan);
     }
   };
@@ -119,37 +94,46 @@ export function SubscriptionCard() {
         </CardDescription>
       </CardHeader>
       <CardContent>
+        {isLoading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          </div>
+        ) : !plans || plans.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No subscription packages are available right now.</p>
+        ) : (
         <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
           {plans.map((plan) => (
             <Card 
               key={plan.id}
-              className={`border ${plan.popular ? 'border-primary shadow-lg relative overflow-hidden' : ''}`}
+              className={`border ${plan.isPopular ? 'border-primary shadow-lg relative overflow-hidden' : ''}`}
             >
-              {plan.popular && (
+              {plan.isPopular && (
                 <div className="absolute -right-8 top-4 bg-primary text-primary-foreground py-1 px-10 transform rotate-45 text-xs font-bold">
                   POPULAR
                 </div>
               )}
-              <CardHeader className={`pb-3 ${plan.popular ? 'bg-primary/5' : ''}`}>
+              <CardHeader className={`pb-3 ${plan.isPopular ? 'bg-primary/5' : ''}`}>
                 <CardTitle className="text-lg">{plan.name}</CardTitle>
                 <div className="mt-1 flex flex-col">
-                  <span className="text-3xl font-bold">₹{plan.price}</span>
+                  <span className="text-3xl font-bold">₹{formatRupees(parseFloat(plan.price))}</span>
                   <span className="text-muted-foreground text-sm">{plan.description}</span>
                 </div>
               </CardHeader>
               <CardContent className="pt-3">
                 <div className="flex items-center mb-3 text-sm">
                   <Calendar className="w-4 h-4 mr-2 text-primary" />
-                  <span>{plan.duration} days subscription</span>
-                </div>
-                <div className="flex items-center mb-4 text-sm">
-                  <TrendingUp className="w-4 h-4 mr-2 text-green-500" />
-                  <span className="font-semibold text-green-600 dark:text-green-400">
-                    Get back ₹{plan.rewards} (₹{Math.round(plan.rewards/plan.duration)} daily)
-                  </span>
+                  <span>{plan.durationDays} days subscription</span>
                 </div>
+                {parseFloat(plan.rewardTotal) > 0 && (
+                  <div className="flex items-center mb-4 text-sm">
+                    <TrendingUp className="w-4 h-4 mr-2 text-green-500" />
+                    <span className="font-semibold text-green-600 dark:text-green-400">
+                      Get back ₹{formatRupees(parseFloat(plan.rewardTotal))} (₹{formatRupees(getDailyReward(plan))} daily)
+                    </span>
+                  </div>
+                )}
                 <ul className="space-y-2">
-                  {plan.features.map((feature, index) => (
+                  {getPlanFeatures(plan).map((feature, index) => (
                     <li key={index} className="flex text-sm">
                       <Check className="w-4 h-4 mr-2 text-green-500 shrink-0 mt-0.5" />
                       <span>{feature}</span>
@@ -160,7 +144,7 @@ export function SubscriptionCard() {
               <CardFooter>
                 <Button 
                   className="w-full" 
-                  variant={plan.popular ? "default" : "outline"}
+                  variant={plan.isPopular ? "default" : "outline"}
                   onClick={() => handlePurchase(plan)}
                   disabled={purchaseMutation.isPending}
                 >
@@ -175,6 +159,7 @@ export function SubscriptionCard() {
             </Card>
           ))}
         </div>
+        )}
       </CardContent>
       <CardFooter className="bg-amber-50 dark:bg-amber-950/20 flex flex-col items-start px-6 py-4 border-t">
         <p className="text-sm font-medium mb-1 text-amber-800 dark:text-amber-400">💰 Subscription Benefits:</p>
@@ -1,8 +1,9 @@
 import { Card } from "@/components/ui/card";
 import { type Transaction } from "@shared/schema";
-import { Trophy, Plus, ArrowRight, Clock, Check } from "lucide-react";
+import { Trophy, Plus, ArrowRight, Clock, Check, XCircle, RotateCcw } from "lucide-react";
 import { format } from "date-fns";
 import { Badge } from "@/components/ui/badge";
+import { getTransactionMetadata } from "@/lib/utils/transactions";
 
 interface TransactionCardProps {
   transaction: Transaction;
@@ -23,6 +24,12 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
             <Plus className="h-4 w-4 text-primary" />
           </div>
         );
+      case "game_refund":
+        return (
+          <div className="w-9 h-9 bg-green-600/20 flex items-center justify-center rounded-full shrink-0">
+            <RotateCcw className="h-4 w-4 text-green-600" />
+          </div>
+        );
       case "withdrawal":
       case "game_entry":
         return (
@@ -49,6 +56,8 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
         return "Withdrawal";
       case "game_entry":
         return "Game Entry";
+      case "game_refund":
+        return "Entry Fee Refund";
       default:
         return "Transaction";
     }
@@ -62,6 +71,9 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
 
   // Determine if transaction is pending
   const isPending = transaction.status === "pending";
+  const isRejected = transaction.status === "rejected";
+  const isExpired = transaction.status === "expired";
+  const metadata = getTransactionMetadata(transaction);
   
   return (
     <Card className={`bg-muted/30 rounded-lg p-3 flex justify-between items-center ${isPending ? 'border-amber-300 dark:border-amber-700/50' : ''}`}>
@@ -80,13 +92,23 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
                 <Check className="h-3 w-3" />
                 Completed
               </Badge>
+            ) : isRejected ? (
+              <Badge variant="outline" className="bg-red-100 dark:bg-red-900/30 text-red-800 dark:text-red-400 border-red-300 dark:border-red-700/50 text-[10px] h-5 px-1.5 flex items-center gap-1">
+                <XCircle className="h-3 w-3" />
+                Rejected
+              </Badge>
+            ) : isExpired ? (
+              <Badge variant="outline" className="bg-muted text-muted-foreground text-[10px] h-5 px-1.5 flex items-center gap-1">
+                <Clock className="h-3 w-3" />
+                Expired
+              </Badge>
             ) : null}
           </div>
           <p className="text-muted-foreground text-sm">{transaction.description}</p>
         </div>
       </div>
       <div className="text-right flex flex-col items-end">
-        <p className={`${getAmountColor()} ${isPending ? 'opacity-70' : ''}`}>
+        <p className={`${getAmountColor()} ${isPending || isRejected || isExpired ? 'opacity-70' : ''} ${isRejected || isExpired ? 'line-through' : ''}`}>
           {parseFloat(transaction.amount) > 0 ? "+" : ""}
           ₹{parseFloat(transaction.amount).toFixed(2)}
         </p>
@@ -98,6 +120,16 @@ export function TransactionCard({ transaction }: TransactionCardProps) {
             Awaiting admin approval
           </p>
         )}
+        {metadata.payoutReference && (
+          <p className="text-muted-foreground text-[10px] mt-1">
+            Payout ref: {metadata.payoutReference}
+          </p>
+        )}
+        {(isRejected || isExpired) && metadata.statusReason && (
+          <p className="text-red-600 dark:text-red-400 text-[10px] mt-1">
+            {metadata.statusReason}
+          </p>
+        )}
       </div>
     </Card>
   );
@@ -1,4 +1,5 @@
 import { Transaction } from "@shared/schema";
+import { getTransactionMetadata, getTransactionStatusLabel } from "@/lib/utils/transactions";
 
 interface TransactionItemProps {
   transaction: Transaction;
@@ -8,6 +9,7 @@ export function TransactionItem({ transaction }: TransactionItemProps) {
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case "deposit":
+      case "game_refund":
         return (
           <div className="w-8 h-8 bg-green-500/20 rounded-full flex items-center justify-center">
             <svg 
@@ -138,6 +140,8 @@ export function TransactionItem({ transaction }: TransactionItemProps) {
         return "Withdrawal";
       case "game_entry":
         return "Game Entry Fee";
+      case "game_refund":
+        return "Entry Fee Refund";
       case "game_winning":
         return "Game Winnings";
       case "commission":
@@ -159,25 +163,61 @@ export function TransactionItem({ transaction }: TransactionItemProps) {
     });
   };
 
+  const getStatusClassName = (status: string) => {
+    switch (status) {
+      case "pending":
+        return "bg-amber-500/20 text-amber-400";
+      case "rejected":
+      case "failed":
+        return "bg-red-500/20 text-red-400";
+      case "expired":
+        return "bg-gray-500/20 text-gray-400";
+      default:
+        return "bg-green-500/20 text-green-400";
+    }
+  };
+
+  const metadata = getTransactionMetadata(transaction);
+  const statusHistory = metadata.statusHistory || [];
+  const isSettled = transaction.status === "completed";
+  const isCredit = transaction.type === "deposit" || transaction.type === "game_winning" || transaction.type === "game_refund";
+
   return (
-    <div className="flex justify-between items-center p-3 rounded-lg bg-gaming-dark">
-      <div className="flex items-center">
-        {getTransactionIcon(transaction.type)}
-        <div className="ml-3">
-          <p className="font-medium text-sm">{getTransactionTitle(transaction.type)}</p>
-          <p className="text-gray-400 text-xs">{formatDate(transaction.createdAt)}</p>
+    <div className="p-3 rounded-lg bg-gaming-dark">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center">
+          {getTransactionIcon(transaction.type)}
+          <div className="ml-3">
+            <div className="flex items-center gap-2">
+              <p className="font-medium text-sm">{getTransactionTitle(transaction.type)}</p>
+              {!isSettled && (
+                <span className={`px-1.5 py-0.5 rounded-full text-[10px] ${getStatusClassName(transaction.status)}`}>
+                  {getTransactionStatusLabel(transaction.status)}
+                </span>
+              )}
+            </div>
+            <p className="text-gray-400 text-xs">{formatDate(transaction.createdAt)}</p>
+          </div>
         </div>
+        <span 
+          className={`font-medium ${isCredit ? "text-green-500" : "text-red-500"} ${
+            isSettled || transaction.status === "pending" ? "" : "line-through opacity-60"
+          }`}
+        >
+          {isCredit ? "+" : "-"}
+          ₹{Math.abs(parseFloat(transaction.amount.toString())).toFixed(2)}
+        </span>
       </div>
-      <span 
-        className={`font-medium ${
-          transaction.type === "deposit" || transaction.type === "game_winning" 
-            ? "text-green-500" 
-            : "text-red-500"
-        }`}
-      >
-        {transaction.type === "deposit" || transaction.type === "game_winning" ? "+" : "-"}
-        ₹{parseFloat(transaction.amount.toString()).toFixed(2)}
-      </span>
+      {statusHistory.length > 0 && (
+        <ul className="mt-2 ml-11 space-y-1">
+          {statusHistory.map((event, index) => (
+            <li key={index} className="text-gray-400 text-[11px]">
+              {getTransactionStatusLabel(event.status)} • {formatDate(new Date(event.processedAt))}
+              {event.reason && ` • ${event.reason}`}
+            </li>
+          ))}
+        </ul>
+      )}
     </div>
   );
 }
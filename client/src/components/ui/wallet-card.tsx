@@ -263,6 +263,7 @@ function TransactionItem({ transaction }: { transaction: Transaction }) {
   const getTransactionIcon = (type: string) => {
     switch (type) {
       case "deposit":
+      case "game_refund":
         return (
           <div className="w-8 h-8 bg-green-500/20 rounded-full flex items-center justify-center">
             <svg 
@@ -374,6 +375,8 @@ function TransactionItem({ transaction }: { transaction: Transaction }) {
         return "Withdrawal";
       case "game_entry":
         return "Game Entry Fee";
+      case "game_refund":
+        return "Entry Fee Refund";
       case "game_winning":
         return "Game Winnings";
       case "commission":
@@ -406,12 +409,12 @@ function TransactionItem({ transaction }: { transaction: Transaction }) {
       </div>
       <span 
         className={`font-medium ${
-          transaction.type === "deposit" || transaction.type === "game_winning" 
+          transaction.type === "deposit" || transaction.type === "game_winning" || transaction.type === "game_refund" 
             ? "text-green-500" 
             : "text-red-500"
         }`}
       >
-        {transaction.type === "deposit" || transaction.type === "game_winning" ? "+" : "-"}
+        {transaction.type === "deposit" || transaction.type === "game_winning" || transaction.type === "game_refund" ? "+" : "-"}
         ₹{parseFloat(transaction.amount.toString()).toFixed(2)}
       </span>
     </div>
@@ -0,0 +1,81 @@
+import { useMutation, useQueryClient } from "@tanstack/react-query";
+import { ROLES, Role, User } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { X } from "lucide-react";
+
+const ROLE_LABELS: Record<Role, string> = {
+  super_admin: "Super Admin",
+  finance: "Finance",
+  support: "Support",
+  moderator: "Moderator",
+};
+
+// A user's staff roles, with grant and revoke for admins who manage roles
+export function UserRoleControls({ user, canManage }: { user: User; canManage: boolean }) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  const roleMutation = useMutation({
+    mutationFn: async (change: { role: Role; grant: boolean }) => {
+      const response = change.grant
+        ? await apiRequest("POST", `/api/admin/users/${user.id}/roles`, { role: change.role })
+        : await apiRequest("DELETE", `/api/admin/users/${user.id}/roles/${change.role}`);
+      return await response.json() as User;
+    },
+    onSuccess: (updated, change) => {
+      toast({
+        title: change.grant ? "Role granted" : "Role revoked",
+        description: `${updated.username} ${change.grant ? "is now" : "is no longer"} ${ROLE_LABELS[change.role]}.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/users"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error changing role",
+        description: error.message || "There was an error changing this user's roles",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const granted = ROLES.filter(role => user.roles.includes(role));
+  const grantable = ROLES.filter(role => !user.roles.includes(role));
+
+  if (!canManage && granted.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-2 mt-2">
+      {granted.map(role => (
+        <Badge key={role} variant="secondary" className="flex items-center gap-1">
+          {ROLE_LABELS[role]}
+          {canManage && (
+            <button
+              type="button"
+              aria-label={`Revoke ${ROLE_LABELS[role]}`}
+              onClick={() => roleMutation.mutate({ role, grant: false })}
+              disabled={roleMutation.isPending}
+            >
+              <X className="h-3 w-3" />
+            </button>
+          )}
+        </Badge>
+      ))}
+      {canManage && !user.isBot && grantable.length > 0 && (
+        <Select value="" onValueChange={(role) => roleMutation.mutate({ role: role as Role, grant: true })}>
+          <SelectTrigger className="h-7 w-36 text-xs">
+            <SelectValue placeholder="Grant role" />
+          </SelectTrigger>
+          <SelectContent>
+            {grantable.map(role => (
+              <SelectItem key={role} value={role}>{ROLE_LABELS[role]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  );
+}
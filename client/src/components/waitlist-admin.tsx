@@ -0,0 +1,211 @@
+import { useState } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { AdminWaitlistEntry, InviteBatchResult, InviteBatchSummary, WaitlistFunnel } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Download, Loader2, Search, Send } from "lucide-react";
+
+const FUNNEL_STEPS: { key: keyof WaitlistFunnel; label: string }[] = [
+  { key: "signedUp", label: "Signed up" },
+  { key: "confirmed", label: "Confirmed" },
+  { key: "invited", label: "Invited" },
+  { key: "registered", label: "Registered" },
+  { key: "deposited", label: "Deposited" },
+  { key: "played", label: "Played a match" },
+];
+
+// Waitlist signups, invite batches and how far waitlisted emails got after signing up
+export function WaitlistAdmin() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [search, setSearch] = useState("");
+  const [inviteCount, setInviteCount] = useState("10");
+
+  const query = search.trim() ? `?search=${encodeURIComponent(search.trim())}` : "";
+
+  const { data: entries, isLoading } = useQuery<AdminWaitlistEntry[]>({
+    queryKey: [`/api/admin/waitlist${query}`],
+  });
+
+  const { data: funnel } = useQuery<WaitlistFunnel>({
+    queryKey: ["/api/admin/waitlist/funnel"],
+  });
+
+  const { data: batches } = useQuery<InviteBatchSummary[]>({
+    queryKey: ["/api/admin/invite-batches"],
+  });
+
+  const inviteMutation = useMutation({
+    mutationFn: async (request: { count: number } | { waitlistIds: number[] }) => {
+      const response = await apiRequest("POST", "/api/admin/waitlist/invites", request);
+      return await response.json() as InviteBatchResult;
+    },
+    onSuccess: (result) => {
+      toast({
+        title: "Invites sent",
+        description: `Sent ${result.codes.length} single-use registration codes.`,
+      });
+      queryClient.invalidateQueries({ queryKey: [`/api/admin/waitlist${query}`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/waitlist/funnel"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/invite-batches"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error sending invites",
+        description: error.message || "There was an error sending invites",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Conversion Funnel</CardTitle>
+          <CardDescription>
+            Waitlisted emails matched to the accounts registered with them.
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="grid grid-cols-2 md:grid-cols-6 gap-3">
+            {FUNNEL_STEPS.map(step => (
+              <div key={step.key} className="p-3 rounded-lg border border-border bg-muted/30">
+                <p className="text-sm text-muted-foreground">{step.label}</p>
+                <p className="text-2xl font-bold">{funnel?.[step.key] ?? 0}</p>
+                {funnel && funnel.signedUp > 0 && step.key !== "signedUp" && (
+                  <p className="text-xs text-muted-foreground">
+                    {Math.round(funnel[step.key] / funnel.signedUp * 100)}% of signups
+                  </p>
+                )}
+              </div>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Invite Batches</CardTitle>
+          <CardDescription>
+            Email single-use registration codes to the front of the queue.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="flex gap-2 max-w-sm">
+            <Input
+              type="number"
+              min="1"
+              value={inviteCount}
+              onChange={(e) => setInviteCount(e.target.value)}
+            />
+            <Button
+              onClick={() => inviteMutation.mutate({ count: parseInt(inviteCount) })}
+              disabled={inviteMutation.isPending || !(parseInt(inviteCount) > 0)}
+            >
+              {inviteMutation.isPending ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Send className="h-4 w-4 mr-1" />
+              )}
+              Send Invites
+            </Button>
+          </div>
+          {batches && batches.length > 0 && (
+            <div className="space-y-2">
+              {batches.map(batch => (
+                <div key={batch.id} className="flex items-center justify-between text-sm p-2 rounded border border-border">
+                  <span>Batch {batch.id} • {format(new Date(batch.createdAt), "MMM dd, yyyy HH:mm")}</span>
+                  <span className="text-muted-foreground">{batch.used} of {batch.size} codes used</span>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between gap-3">
+            <div>
+              <CardTitle>Waitlist</CardTitle>
+              <CardDescription>
+                {entries ? `${entries.length} signups` : "Signups"}, with their place in the queue and progress since.
+              </CardDescription>
+            </div>
+            <Button variant="outline" size="sm" asChild>
+              <a href={`/api/admin/waitlist/export${query}`} download>
+                <Download className="h-4 w-4 mr-1" />
+                Export CSV
+              </a>
+            </Button>
+          </div>
+          <div className="relative max-w-sm pt-2">
+            <Search className="absolute left-3 top-1/2 mt-1 -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+            <Input
+              className="pl-9"
+              placeholder="Search by email"
+              value={search}
+              onChange={(e) => setSearch(e.target.value)}
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {isLoading ? (
+            <div className="flex justify-center py-12">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+            </div>
+          ) : entries && entries.length > 0 ? (
+            <div className="space-y-3">
+              {entries.map(entry => (
+                <div key={entry.id} className="flex items-center justify-between p-3 rounded-lg border border-border bg-muted/30">
+                  <div className="space-y-1">
+                    <p className="font-medium">{entry.email}</p>
+                    <p className="text-sm text-muted-foreground">
+                      Joined {format(new Date(entry.createdAt), "MMM dd, yyyy")} • {entry.verifiedReferrals} verified referrals
+                      {entry.inviteCode && ` • Code ${entry.inviteCode}`}
+                    </p>
+                    <div className="flex flex-wrap gap-1">
+                      {entry.conversion.registeredAt && <Badge variant="outline">Registered</Badge>}
+                      {entry.conversion.firstDepositAt && <Badge variant="outline">Deposited</Badge>}
+                      {entry.conversion.firstMatchAt && <Badge variant="outline">Played</Badge>}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {entry.invitedAt ? (
+                      <Badge>Invited</Badge>
+                    ) : entry.position !== null ? (
+                      <>
+                        <Badge variant="secondary">#{entry.position}</Badge>
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          onClick={() => inviteMutation.mutate({ waitlistIds: [entry.id] })}
+                          disabled={inviteMutation.isPending}
+                        >
+                          Invite
+                        </Button>
+                      </>
+                    ) : (
+                      <Badge variant="outline">Unconfirmed</Badge>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ) : (
+            <div className="text-center py-12 bg-muted/20 rounded-lg">
+              <h3 className="text-lg font-medium text-foreground mb-2">No signups</h3>
+              <p className="text-muted-foreground">No waitlist entries match this search.</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -0,0 +1,32 @@
+import { createContext, ReactNode, useContext, useEffect, useState } from "react";
+import { io, Socket } from "socket.io-client";
+import { useAuth } from "./use-auth";
+
+export const SocketContext = createContext<Socket | null>(null);
+
+// One Socket.IO connection per tab, shared by everything that listens for realtime
+// events. It opens while a user is signed in; the server knows who from the session.
+export function SocketProvider({ children }: { children: ReactNode }) {
+  const { user } = useAuth();
+  const [socket, setSocket] = useState<Socket | null>(null);
+  const userId = user?.id;
+
+  useEffect(() => {
+    if (!userId) return;
+
+    const newSocket = io("", { path: "/api/socket" });
+    setSocket(newSocket);
+
+    return () => {
+      newSocket.disconnect();
+      setSocket(null);
+    };
+  }, [userId]);
+
+  return <SocketContext.Provider value={socket}>{children}</SocketContext.Provider>;
+}
+
+// The shared connection, or null while signed out or before it opens
+export function useSocket() {
+  return useContext(SocketContext);
+}
@@ -1,4 +1,5 @@
 import { useAuth } from "@/hooks/use-auth";
+import { isStaff } from "@shared/schema";
 import { Loader2, ShieldAlert } from "lucide-react";
 import { Redirect, Route } from "wouter";
 
@@ -11,8 +12,8 @@ export function AdminProtectedRoute({
 }) {
   const { user, isLoading } = useAuth();
   
-  // Only user with ID 1 can access admin routes
-  const isAdmin = user && user.id === 1;
+  // Any staff role opens the admin panel; it shows the sections the roles allow
+  const isAdmin = isStaff(user);
 
   return (
     <Route path={path}>
@@ -7,9 +7,7 @@ import {
   updateDoc, 
   deleteDoc, 
   query, 
-  where, 
   orderBy, 
-  limit, 
   onSnapshot,
   Timestamp,
   addDoc,
@@ -25,8 +23,7 @@ export const COLLECTIONS = {
   TRANSACTIONS: 'transactions',
   CHATS: 'chats',
   MESSAGES: 'messages',
-  REFERRALS: 'referrals',
-  NOTIFICATIONS: 'notifications'
+  REFERRALS: 'referrals'
 };
 
 /**
@@ -179,88 +176,6 @@ export const subscribeToMessages = (chatId: string, callback: (messages: any[])
   }
 };
 
-/**
- * Create a notification for a user
- * 
- * @param userId User to notify
- * @param title Notification title
- * @param body Notification body
- * @param type Notification type
- * @param data Additional data
- */
-export const createNotification = async (
-  userId: number,
-  title: string,
-  body: string,
-  type: 'game' | 'system' | 'chat' | 'transaction',
-  data?: any
-) => {
-  try {
-    const notificationsRef = collection(db, COLLECTIONS.NOTIFICATIONS);
-    
-    await addDoc(notificationsRef, {
-      userId,
-      title,
-      body,
-      type,
-      data,
-      read: false,
-      createdAt: serverTimestamp()
-    });
-    
-    return true;
-  } catch (error) {
-    console.error('Error creating notification:', error);
-    return false;
-  }
-};
-
-/**
- * Subscribe to user's notifications with real-time updates
- * 
- * @param userId User ID
- * @param callback Function to call with updated notifications
- */
-export const subscribeToNotifications = (userId: number, callback: (notifications: any[]) => void) => {
-  try {
-    const notificationsRef = collection(db, COLLECTIONS.NOTIFICATIONS);
-    const notificationsQuery = query(
-      notificationsRef,
-      where('userId', '==', userId),
-      orderBy('createdAt', 'desc'),
-      limit(20)
-    );
-    
-    return onSnapshot(notificationsQuery, (snapshot) => {
-      const notifications = snapshot.docs.map(doc => ({
-        id: doc.id,
-        ...doc.data()
-      }));
-      
-      callback(notifications);
-    });
-  } catch (error) {
-    console.error('Error subscribing to notifications:', error);
-    return () => {};
-  }
-};
-
-/**
- * Mark a notification as read
- * 
- * @param notificationId Notification ID
- */
-export const markNotificationRead = async (notificationId: string) => {
-  try {
-    const notificationRef = doc(db, COLLECTIONS.NOTIFICATIONS, notificationId);
-    await updateDoc(notificationRef, { read: true });
-    return true;
-  } catch (error) {
-    console.error('Error marking notification as read:', error);
-    return false;
-  }
-};
-
 /**
  * Track a user referral in Firestore
  * 
@@ -27,22 +27,18 @@ export function calculateCommission(amount: number): number {
  * Used specifically for game winnings
  * @param {number} prizePool The total prize pool
  * @param {number} commissionPercentage The commission percentage
- * @param {boolean} hasSubscription Whether the user has an active subscription
+ * @param {number} discountPercentage The user's subscription commission discount, from /api/entitlements
  * @returns {number} The commission amount
  */
 export function calculateGameCommission(
   prizePool: number, 
   commissionPercentage: number,
-  hasSubscription: boolean = false
+  discountPercentage: number = 0
 ): number {
   if (prizePool <= 0 || commissionPercentage <= 0) return 0;
   
-  // Apply subscription discount if user has active subscription
-  let adjustedCommissionPercentage = commissionPercentage;
-  if (hasSubscription) {
-    // Reduce commission by 25% for subscribers
-    adjustedCommissionPercentage = commissionPercentage * 0.75;
-  }
+  // Apply the subscription discount the user is entitled to
+  const adjustedCommissionPercentage = commissionPercentage * (1 - discountPercentage / 100);
   
   // Calculate commission based on prize pool and percentage
   const commission = (prizePool * adjustedCommissionPercentage) / 100;
@@ -0,0 +1,143 @@
+/**
+ * Ludo board as sent by the server-side engine
+ */
+export interface LudoPlayer {
+  userId: number;
+  seat: number;
+  tokens: number[];
+}
+
+export interface LudoMove {
+  userId: number;
+  token: number;
+  dice: number;
+  from: number;
+  to: number;
+  captured: { userId: number; token: number }[];
+}
+
+export interface LudoState {
+  matchId: number;
+  players: LudoPlayer[];
+  currentPlayer: number;
+  dice: number | null;
+  consecutiveSixes: number;
+  lastRoll: { userId: number; dice: number } | null;
+  lastMove: LudoMove | null;
+  winnerId: number | null;
+  turn: number;
+  updatedAt: string;
+}
+
+export const YARD = -1;
+export const LAST_TRACK_STEP = 50;
+export const HOME = 56;
+
+/**
+ * Colours of the four seats: red, green, yellow, blue
+ */
+export const SEAT_COLORS = ["#f05252", "#25c26e", "#f7b955", "#3f83f8"];
+export const SEAT_NAMES = ["Red", "Green", "Yellow", "Blue"];
+
+const START_SQUARES = [0, 13, 26, 39];
+const SAFE_SQUARES = [0, 8, 13, 21, 26, 34, 39, 47];
+
+// Cells of the 52 track squares on a 15x15 grid, starting at red's start square
+const TRACK: [number, number][] = [
+  [6, 1], [6, 2], [6, 3], [6, 4], [6, 5],
+  [5, 6], [4, 6], [3, 6], [2, 6], [1, 6], [0, 6],
+  [0, 7], [0, 8],
+  [1, 8], [2, 8], [3, 8], [4, 8], [5, 8],
+  [6, 9], [6, 10], [6, 11], [6, 12], [6, 13], [6, 14],
+  [7, 14], [8, 14],
+  [8, 13], [8, 12], [8, 11], [8, 10], [8, 9],
+  [9, 8], [10, 8], [11, 8], [12, 8], [13, 8], [14, 8],
+  [14, 7], [14, 6],
+  [13, 6], [12, 6], [11, 6], [10, 6], [9, 6],
+  [8, 5], [8, 4], [8, 3], [8, 2], [8, 1], [8, 0],
+  [7, 0], [6, 0]
+];
+
+// Home column cells per seat, from the track towards the centre
+const HOME_COLUMNS: [number, number][][] = [
+  [[7, 1], [7, 2], [7, 3], [7, 4], [7, 5]],
+  [[1, 7], [2, 7], [3, 7], [4, 7], [5, 7]],
+  [[7, 13], [7, 12], [7, 11], [7, 10], [7, 9]],
+  [[13, 7], [12, 7], [11, 7], [10, 7], [9, 7]]
+];
+
+// Top-left corner of each seat's yard
+const YARDS: [number, number][] = [[0, 0], [0, 9], [9, 9], [9, 0]];
+
+/**
+ * Grid cell (row, column) of a token on the 15x15 board
+ * @param {number} seat The seat of the token's owner
+ * @param {number} progress Squares travelled from the seat's start square
+ * @param {number} token Index of the token, used to spread tokens in the yard
+ * @returns {[number, number]} Row and column, fractional for yard and home spots
+ */
+export function getTokenCell(seat: number, progress: number, token: number): [number, number] {
+  if (progress === YARD) {
+    const [row, col] = YARDS[seat];
+    return [row + 1.5 + Math.floor(token / 2) * 2, col + 1.5 + (token % 2) * 2];
+  }
+
+  if (progress >= HOME) {
+    return [7 + (token < 2 ? -0.25 : 0.25), 7 + (token % 2 ? 0.25 : -0.25)];
+  }
+
+  if (progress > LAST_TRACK_STEP) {
+    return HOME_COLUMNS[seat][progress - LAST_TRACK_STEP - 1];
+  }
+
+  return TRACK[(START_SQUARES[seat] + progress) % TRACK.length];
+}
+
+/**
+ * Classify a board cell for rendering
+ * @param {number} row Grid row
+ * @param {number} col Grid column
+ * @returns The seat owning the cell (or null) and what kind of cell it is
+ */
+export function getCellKind(row: number, col: number): { seat: number | null; kind: "yard" | "track" | "safe" | "start" | "home-column" | "home" | "empty" } {
+  if (row >= 6 && row <= 8 && col >= 6 && col <= 8) {
+    return { seat: null, kind: "home" };
+  }
+
+  for (let seat = 0; seat < HOME_COLUMNS.length; seat++) {
+    if (HOME_COLUMNS[seat].some(([r, c]) => r === row && c === col)) {
+      return { seat, kind: "home-column" };
+    }
+  }
+
+  const square = TRACK.findIndex(([r, c]) => r === row && c === col);
+  if (square !== -1) {
+    const startSeat = START_SQUARES.indexOf(square);
+    if (startSeat !== -1) return { seat: startSeat, kind: "start" };
+    return { seat: null, kind: SAFE_SQUARES.includes(square) ? "safe" : "track" };
+  }
+
+  const yardSeat = YARDS.findIndex(([r, c]) => row >= r && row < r + 6 && col >= c && col < c + 6);
+  if (yardSeat !== -1) return { seat: yardSeat, kind: "yard" };
+
+  return { seat: null, kind: "empty" };
+}
+
+/**
+ * Tokens the player to move may move with the rolled dice.
+ * The server validates every move; this only drives which tokens are highlighted.
+ * @param {LudoState} state The current board
+ * @returns {number[]} Indexes of the movable tokens
+ */
+export function getMovableTokens(state: LudoState): number[] {
+  const { dice } = state;
+  if (dice === null) return [];
+
+  return state.players[state.currentPlayer].tokens
+    .map((progress, token) => ({ progress, token }))
+    .filter(({ progress }) => {
+      if (progress === YARD) return dice === 6;
+      return progress !== HOME && progress + dice <= HOME;
+    })
+    .map(({ token }) => token);
+}
@@ -0,0 +1,64 @@
+import { type Transaction } from "@shared/schema";
+
+/**
+ * A status change recorded on a transaction, e.g. an admin approving a deposit
+ */
+export interface TransactionStatusEvent {
+  status: string;
+  processedBy: number | null;
+  processedAt: string;
+  reason: string | null;
+}
+
+/**
+ * Details stored alongside a transaction by the server
+ */
+export interface TransactionMetadata {
+  upiId?: string;
+  paymentScreenshotUrl?: string;
+  payoutReference?: string;
+  statusReason?: string | null;
+  processedBy?: number | null;
+  processedAt?: string;
+  statusHistory?: TransactionStatusEvent[];
+  [key: string]: unknown;
+}
+
+/**
+ * Parse the JSON metadata string of a transaction
+ *
+ * @param transaction The transaction to read
+ * @returns The parsed metadata, or an empty object if there is none
+ */
+export function getTransactionMetadata(transaction: Transaction): TransactionMetadata {
+  if (!transaction.metadata) return {};
+
+  try {
+    return JSON.parse(transaction.metadata);
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Human readable label for a transaction status
+ *
+ * @param status The transaction status
+ * @returns The label to show in the UI
+ */
+export function getTransactionStatusLabel(status: string): string {
+  switch (status) {
+    case "pending":
+      return "Pending";
+    case "completed":
+      return "Completed";
+    case "rejected":
+      return "Rejected";
+    case "expired":
+      return "Expired";
+    case "failed":
+      return "Failed";
+    default:
+      return status;
+  }
+}
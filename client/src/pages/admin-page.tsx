@@ -4,7 +4,9 @@ import { MobileNav } from "@/components/layout/mobile-nav";
 import { useAuth } from "@/hooks/use-auth";
 import { Redirect } from "wouter";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
-import { Transaction, User } from "@shared/schema";
+import {
+  Transaction, User, GameMatch, PlayerMatch, MatchResultReport, EntitlementSummary, hasPermission, type Permission
+} from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
@@ -31,22 +33,59 @@ import {
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
-import { Loader2, Check, XCircle, FileText, Users, Shield } from "lucide-react";
+import { Loader2, Check, XCircle, FileText, Users, Shield, ArrowUpRight, Clock, Scale, Gift, ListOrdered, History, MessageSquareWarning } from "lucide-react";
 import { format } from "date-fns";
+import { getTransactionMetadata, getTransactionStatusLabel } from "@/lib/utils/transactions";
+import { SubscriptionPlansAdmin } from "@/components/subscription-plans-admin";
+import { RewardPayoutsAdmin } from "@/components/reward-payouts-admin";
+import { WaitlistAdmin } from "@/components/waitlist-admin";
+import { UserRoleControls } from "@/components/user-roles-admin";
+import { AuditLogAdmin } from "@/components/audit-log-admin";
+import { ChatModerationAdmin } from "@/components/chat-moderation-admin";
 
 // No more admin password verification constants - using user ID 1 as admin
 
+type DisputedMatch = GameMatch & {
+  players: PlayerMatch[];
+  reports: MatchResultReport[];
+};
+
+type CancelledMatch = GameMatch & {
+  players: PlayerMatch[];
+  refunds: Transaction[];
+};
+
+type AdminUser = User & {
+  entitlements: EntitlementSummary;
+};
+
+// Admin sections, each shown to staff whose roles grant its permission
+const ADMIN_TABS: { value: string; label: string; icon: typeof Users; permission: Permission }[] = [
+  { value: "pending-deposits", label: "Pending Deposits", icon: FileText, permission: "manage_deposits" },
+  { value: "withdrawals", label: "Withdrawals", icon: ArrowUpRight, permission: "manage_withdrawals" },
+  { value: "disputes", label: "Disputes", icon: Scale, permission: "manage_matches" },
+  { value: "plans", label: "Plans", icon: Gift, permission: "manage_plans" },
+  { value: "users", label: "Users", icon: Users, permission: "view_users" },
+  { value: "waitlist", label: "Waitlist", icon: ListOrdered, permission: "manage_waitlist" },
+  { value: "moderation", label: "Moderation", icon: MessageSquareWarning, permission: "moderate_chat" },
+  { value: "audit", label: "Audit Log", icon: History, permission: "view_audit_log" },
+];
+
 export default function AdminPage() {
   const { user } = useAuth();
   const { toast } = useToast();
   const queryClient = useQueryClient();
   
-  // User ID 1 is the admin - no need for password verification anymore
-  const isAdmin = !!user && user.id === 1;
+  // Each section and its data is only loaded for roles that can act on it
+  const can = (permission: Permission) => hasPermission(user, permission);
+  const tabs = ADMIN_TABS.filter(tab => can(tab.permission));
   
   const [selectedTransaction, setSelectedTransaction] = useState<Transaction | null>(null);
-  
-  // Admin verification is now done via user ID check
+  const [payoutReference, setPayoutReference] = useState("");
+  const [rejectReason, setRejectReason] = useState("");
+  const [adjudication, setAdjudication] = useState<{ matchId: number; winnerId: number } | null>(null);
+  const [adjudicationReason, setAdjudicationReason] = useState("");
+  const [cancellationReason, setCancellationReason] = useState("");
   
   const { data: allTransactions, isLoading: isTransactionsLoading } = useQuery<Transaction[]>({
     queryKey: ["/api/admin/transactions"],
@@ -55,7 +94,7 @@ export default function AdminPage() {
       const response = await apiRequest("GET", "/api/admin/transactions");
       return await response.json();
     },
-    enabled: isAdmin,
+    enabled: can("manage_deposits") || can("manage_withdrawals"),
   });
   
   // Filter to just show pending deposits
@@ -63,14 +102,34 @@ export default function AdminPage() {
     t => t.status === "pending" && t.type === "deposit"
   ) || [];
   
-  const { data: allUsers, isLoading: isUsersLoading } = useQuery<User[]>({
+  // Deposits an admin has already approved, rejected or expired
+  const processedDeposits = allTransactions?.filter(
+    t => t.type === "deposit" && t.status !== "pending" && getTransactionMetadata(t).statusHistory?.length
+  ).slice(0, 10) || [];
+  
+  // Withdrawals waiting for a payout
+  const pendingWithdrawals = allTransactions?.filter(
+    t => t.status === "pending" && t.type === "withdrawal"
+  ) || [];
+  
+  const { data: allUsers, isLoading: isUsersLoading } = useQuery<AdminUser[]>({
     queryKey: ["/api/admin/users"],
     queryFn: async () => {
       // Use our new admin endpoint to get all users
       const response = await apiRequest("GET", "/api/admin/users");
       return await response.json();
     },
-    enabled: isAdmin,
+    enabled: can("view_users"),
+  });
+  
+  const { data: disputedMatches, isLoading: isDisputesLoading } = useQuery<DisputedMatch[]>({
+    queryKey: ["/api/admin/matches/disputed"],
+    enabled: can("manage_matches"),
+  });
+  
+  const { data: cancelledMatches, isLoading: isCancelledLoading } = useQuery<CancelledMatch[]>({
+    queryKey: ["/api/admin/matches/cancelled"],
+    enabled: can("manage_matches"),
   });
   
   const approveDepositMutation = useMutation({
@@ -104,6 +163,207 @@ export default function AdminPage() {
     },
   });
   
+  const rejectDepositMutation = useMutation({
+    mutationFn: async ({ transactionId, reason }: { transactionId: number; reason: string }) => {
+      const response = await apiRequest(
+        "POST", 
+        `/api/wallet/reject-deposit/${transactionId}`,
+        { reason }
+      );
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Deposit rejected",
+        description: "The deposit request has been rejected.",
+        variant: "default",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/transactions"] });
+      
+      setSelectedTransaction(null);
+      setRejectReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error rejecting deposit",
+        description: error.message || "There was an error rejecting the deposit",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const expireDepositMutation = useMutation({
+    mutationFn: async (transactionId: number) => {
+      const response = await apiRequest(
+        "POST", 
+        `/api/wallet/expire-deposit/${transactionId}`
+      );
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Deposit expired",
+        description: "The deposit request has been marked as expired.",
+        variant: "default",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/transactions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error expiring deposit",
+        description: error.message || "There was an error expiring the deposit",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const expireStaleDepositsMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/admin/deposits/expire-stale", {});
+      return await response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      toast({
+        title: "Stale deposits expired",
+        description: data.message,
+        variant: "default",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/transactions"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error expiring deposits",
+        description: error.message || "There was an error expiring stale deposits",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const approveWithdrawalMutation = useMutation({
+    mutationFn: async ({ transactionId, payoutReference }: { transactionId: number; payoutReference: string }) => {
+      const response = await apiRequest(
+        "POST", 
+        `/api/admin/withdrawals/${transactionId}/approve`,
+        { payoutReference }
+      );
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Withdrawal paid",
+        description: "The withdrawal has been marked as paid out.",
+        variant: "default",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/transactions"] });
+      
+      setSelectedTransaction(null);
+      setPayoutReference("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error approving withdrawal",
+        description: error.message || "There was an error approving the withdrawal",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const rejectWithdrawalMutation = useMutation({
+    mutationFn: async ({ transactionId, reason }: { transactionId: number; reason: string }) => {
+      const response = await apiRequest(
+        "POST", 
+        `/api/admin/withdrawals/${transactionId}/reject`,
+        { reason }
+      );
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Withdrawal rejected",
+        description: "The held funds have been returned to the user's wallet.",
+        variant: "default",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/transactions"] });
+      
+      setSelectedTransaction(null);
+      setRejectReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error rejecting withdrawal",
+        description: error.message || "There was an error rejecting the withdrawal",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const adjudicateMutation = useMutation({
+    mutationFn: async ({ matchId, winnerId, reason }: { matchId: number; winnerId: number; reason: string }) => {
+      const response = await apiRequest(
+        "POST", 
+        `/api/admin/matches/${matchId}/adjudicate`,
+        { winnerId, reason }
+      );
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Match settled",
+        description: "The prize has been paid to the winner.",
+        variant: "default",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/matches/disputed"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/transactions"] });
+      
+      setAdjudication(null);
+      setAdjudicationReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error settling match",
+        description: error.message || "There was an error settling the match",
+        variant: "destructive",
+      });
+    },
+  });
+  
+  const cancelMatchMutation = useMutation({
+    mutationFn: async ({ matchId, reason }: { matchId: number; reason: string }) => {
+      const response = await apiRequest(
+        "POST", 
+        `/api/admin/matches/${matchId}/cancel`,
+        { reason }
+      );
+      return await response.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Match cancelled",
+        description: "Every entry fee has been refunded to the players.",
+        variant: "default",
+      });
+      
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/matches/disputed"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/matches/cancelled"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/admin/transactions"] });
+      
+      setCancellationReason("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error cancelling match",
+        description: error.message || "There was an error cancelling the match",
+        variant: "destructive",
+      });
+    },
+  });
+  
   if (!user) {
     return <Redirect to="/auth" />;
   }
@@ -118,8 +378,44 @@ export default function AdminPage() {
     }
   };
   
+  const confirmRejectDeposit = () => {
+    if (selectedTransaction && rejectReason.trim()) {
+      rejectDepositMutation.mutate({
+        transactionId: selectedTransaction.id,
+        reason: rejectReason.trim()
+      });
+    }
+  };
+  
+  const confirmAdjudication = () => {
+    if (adjudication && adjudicationReason.trim()) {
+      adjudicateMutation.mutate({
+        ...adjudication,
+        reason: adjudicationReason.trim()
+      });
+    }
+  };
+  
+  const confirmApproveWithdrawal = () => {
+    if (selectedTransaction && payoutReference.trim()) {
+      approveWithdrawalMutation.mutate({
+        transactionId: selectedTransaction.id,
+        payoutReference: payoutReference.trim()
+      });
+    }
+  };
+  
+  const confirmRejectWithdrawal = () => {
+    if (selectedTransaction && rejectReason.trim()) {
+      rejectWithdrawalMutation.mutate({
+        transactionId: selectedTransaction.id,
+        reason: rejectReason.trim()
+      });
+    }
+  };
+  
   const formatAmount = (amount: string) => {
-    const parsedAmount = parseFloat(amount);
+    const parsedAmount = Math.abs(parseFloat(amount));
     return `₹${parsedAmount.toFixed(2)}`;
   };
   
@@ -142,25 +438,41 @@ export default function AdminPage() {
           </p>
         </div>
         
-        <Tabs defaultValue="pending-deposits" className="space-y-6">
-          <TabsList className="grid grid-cols-2 w-full max-w-md">
-            <TabsTrigger value="pending-deposits" className="flex items-center gap-2">
-              <FileText className="h-4 w-4" />
-              Pending Deposits
-            </TabsTrigger>
-            <TabsTrigger value="users" className="flex items-center gap-2">
-              <Users className="h-4 w-4" />
-              Users
-            </TabsTrigger>
+        <Tabs defaultValue={tabs[0]?.value} className="space-y-6">
+          <TabsList
+            className="grid w-full max-w-4xl"
+            style={{ gridTemplateColumns: `repeat(${tabs.length}, minmax(0, 1fr))` }}
+          >
+            {tabs.map(tab => (
+              <TabsTrigger key={tab.value} value={tab.value} className="flex items-center gap-2">
+                <tab.icon className="h-4 w-4" />
+                {tab.label}
+              </TabsTrigger>
+            ))}
           </TabsList>
           
           <TabsContent value="pending-deposits" className="space-y-6">
             <Card>
-              <CardHeader>
-                <CardTitle>Pending Deposits</CardTitle>
-                <CardDescription>
-                  Review and approve deposit requests from users
-                </CardDescription>
+              <CardHeader className="flex flex-row items-start justify-between space-y-0">
+                <div className="space-y-1.5">
+                  <CardTitle>Pending Deposits</CardTitle>
+                  <CardDescription>
+                    Review deposit requests from users. Approve once the UPI payment has arrived, reject it otherwise.
+                  </CardDescription>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => expireStaleDepositsMutation.mutate()}
+                  disabled={expireStaleDepositsMutation.isPending}
+                >
+                  {expireStaleDepositsMutation.isPending ? (
+                    <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                  ) : (
+                    <Clock className="h-4 w-4 mr-1" />
+                  )}
+                  Expire Stale
+                </Button>
               </CardHeader>
               <CardContent>
                 {isTransactionsLoading ? (
@@ -193,41 +505,439 @@ export default function AdminPage() {
                                 {transaction.description}
                               </p>
                             </div>
+                            <div className="flex gap-2">
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button 
+                                    variant="default" 
+                                    size="sm"
+                                    className="bg-green-600 hover:bg-green-700"
+                                    onClick={() => handleApproveDeposit(transaction)}
+                                  >
+                                    <Check className="h-4 w-4 mr-1" />
+                                    Approve
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Approve Deposit</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      Are you sure you want to approve this deposit of {formatAmount(selectedTransaction?.amount || "0")}?
+                                      <br /><br />
+                                      Make sure you have received the payment via UPI before approving.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction 
+                                      className="bg-green-600 hover:bg-green-700"
+                                      onClick={confirmApproveDeposit}
+                                      disabled={approveDepositMutation.isPending}
+                                    >
+                                      {approveDepositMutation.isPending ? (
+                                        <>
+                                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                          Processing...
+                                        </>
+                                      ) : (
+                                        "Approve"
+                                      )}
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                              <AlertDialog>
+                                <AlertDialogTrigger asChild>
+                                  <Button 
+                                    variant="outline" 
+                                    size="sm"
+                                    onClick={() => setSelectedTransaction(transaction)}
+                                  >
+                                    <XCircle className="h-4 w-4 mr-1" />
+                                    Reject
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Reject Deposit</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      The deposit request of {formatAmount(selectedTransaction?.amount || "0")} will be closed without crediting the wallet.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <div className="space-y-2">
+                                    <Label htmlFor="deposit-reject-reason">Reason</Label>
+                                    <Input
+                                      id="deposit-reject-reason"
+                                      placeholder="Shown to the user"
+                                      value={rejectReason}
+                                      onChange={(e) => setRejectReason(e.target.value)}
+                                    />
+                                  </div>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction 
+                                      onClick={confirmRejectDeposit}
+                                      disabled={rejectDepositMutation.isPending || !rejectReason.trim()}
+                                    >
+                                      {rejectDepositMutation.isPending ? (
+                                        <>
+                                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                          Processing...
+                                        </>
+                                      ) : (
+                                        "Reject"
+                                      )}
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => expireDepositMutation.mutate(transaction.id)}
+                                disabled={expireDepositMutation.isPending}
+                              >
+                                <Clock className="h-4 w-4 mr-1" />
+                                Expire
+                              </Button>
+                            </div>
+                          </div>
+                        </CardContent>
+                      </Card>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-12 bg-muted/20 rounded-lg">
+                    <h3 className="text-lg font-medium text-foreground mb-2">No pending deposits</h3>
+                    <p className="text-muted-foreground">There are no pending deposit requests at this time.</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            
+            {processedDeposits.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle>Recently Processed</CardTitle>
+                  <CardDescription>
+                    Deposit requests with the admin actions taken on them
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {processedDeposits.map(transaction => {
+                      const metadata = getTransactionMetadata(transaction);
+                      
+                      return (
+                        <div key={transaction.id} className="border-b border-border pb-3">
+                          <div className="flex justify-between items-center">
+                            <div className="font-medium">
+                              {formatAmount(transaction.amount)} from User ID {transaction.userId}
+                            </div>
+                            <span className={`px-2 py-0.5 rounded-full text-xs ${
+                              transaction.status === "completed" ? "bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400" :
+                              transaction.status === "rejected" ? "bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400" :
+                              "bg-muted text-muted-foreground"
+                            }`}>
+                              {getTransactionStatusLabel(transaction.status)}
+                            </span>
+                          </div>
+                          <ul className="mt-1 space-y-0.5">
+                            <li className="text-xs text-muted-foreground">
+                              Requested {format(new Date(transaction.createdAt), "MMM dd, yyyy HH:mm")}
+                            </li>
+                            {metadata.statusHistory?.map((event, index) => (
+                              <li key={index} className="text-xs text-muted-foreground">
+                                {getTransactionStatusLabel(event.status)} {format(new Date(event.processedAt), "MMM dd, yyyy HH:mm")}
+                                {event.processedBy && ` by User ID ${event.processedBy}`}
+                                {event.reason && ` • ${event.reason}`}
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+          </TabsContent>
+          
+          <TabsContent value="withdrawals" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Withdrawal Queue</CardTitle>
+                <CardDescription>
+                  Send payouts to the user's UPI ID, then record the payout reference. Rejecting returns the held funds.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isTransactionsLoading ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : pendingWithdrawals.length > 0 ? (
+                  <div className="space-y-4">
+                    {pendingWithdrawals.map(transaction => {
+                      const metadata = getTransactionMetadata(transaction);
+                      
+                      return (
+                        <Card key={transaction.id} className="bg-muted/30 border-amber-200 dark:border-amber-800/30">
+                          <CardContent className="p-4">
+                            <div className="flex justify-between items-start">
+                              <div>
+                                <div className="flex items-center gap-2 mb-1">
+                                  <h3 className="font-semibold">Withdrawal Request</h3>
+                                  <span className="px-2 py-0.5 bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-400 rounded-full text-xs">
+                                    On hold
+                                  </span>
+                                </div>
+                                <p className="text-sm text-muted-foreground">
+                                  User ID: {transaction.userId}
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                  Amount: <span className="font-medium text-red-600">{formatAmount(transaction.amount)}</span>
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                  Pay to: <span className="font-mono">{metadata.upiId || "N/A"}</span>
+                                </p>
+                                <p className="text-sm text-muted-foreground">
+                                  Date: {format(new Date(transaction.createdAt), "MMM dd, yyyy HH:mm")}
+                                </p>
+                              </div>
+                              <div className="flex gap-2">
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button 
+                                      variant="default" 
+                                      size="sm"
+                                      className="bg-green-600 hover:bg-green-700"
+                                      onClick={() => setSelectedTransaction(transaction)}
+                                    >
+                                      <Check className="h-4 w-4 mr-1" />
+                                      Mark Paid
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Approve Withdrawal</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        Send {formatAmount(selectedTransaction?.amount || "0")} to {metadata.upiId || "the user's UPI ID"}, then enter the UPI transaction reference.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <div className="space-y-2">
+                                      <Label htmlFor="payout-reference">Payout reference</Label>
+                                      <Input
+                                        id="payout-reference"
+                                        placeholder="UPI transaction reference"
+                                        value={payoutReference}
+                                        onChange={(e) => setPayoutReference(e.target.value)}
+                                      />
+                                    </div>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction 
+                                        className="bg-green-600 hover:bg-green-700"
+                                        onClick={confirmApproveWithdrawal}
+                                        disabled={approveWithdrawalMutation.isPending || !payoutReference.trim()}
+                                      >
+                                        {approveWithdrawalMutation.isPending ? (
+                                          <>
+                                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                            Processing...
+                                          </>
+                                        ) : (
+                                          "Mark Paid"
+                                        )}
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                                <AlertDialog>
+                                  <AlertDialogTrigger asChild>
+                                    <Button 
+                                      variant="outline" 
+                                      size="sm"
+                                      onClick={() => setSelectedTransaction(transaction)}
+                                    >
+                                      <XCircle className="h-4 w-4 mr-1" />
+                                      Reject
+                                    </Button>
+                                  </AlertDialogTrigger>
+                                  <AlertDialogContent>
+                                    <AlertDialogHeader>
+                                      <AlertDialogTitle>Reject Withdrawal</AlertDialogTitle>
+                                      <AlertDialogDescription>
+                                        The held {formatAmount(selectedTransaction?.amount || "0")} will be returned to the user's wallet.
+                                      </AlertDialogDescription>
+                                    </AlertDialogHeader>
+                                    <div className="space-y-2">
+                                      <Label htmlFor="reject-reason">Reason</Label>
+                                      <Input
+                                        id="reject-reason"
+                                        placeholder="Shown to the user"
+                                        value={rejectReason}
+                                        onChange={(e) => setRejectReason(e.target.value)}
+                                      />
+                                    </div>
+                                    <AlertDialogFooter>
+                                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                      <AlertDialogAction 
+                                        onClick={confirmRejectWithdrawal}
+                                        disabled={rejectWithdrawalMutation.isPending || !rejectReason.trim()}
+                                      >
+                                        {rejectWithdrawalMutation.isPending ? (
+                                          <>
+                                            <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                            Processing...
+                                          </>
+                                        ) : (
+                                          "Reject"
+                                        )}
+                                      </AlertDialogAction>
+                                    </AlertDialogFooter>
+                                  </AlertDialogContent>
+                                </AlertDialog>
+                              </div>
+                            </div>
+                          </CardContent>
+                        </Card>
+                      );
+                    })}
+                  </div>
+                ) : (
+                  <div className="text-center py-12 bg-muted/20 rounded-lg">
+                    <h3 className="text-lg font-medium text-foreground mb-2">No pending withdrawals</h3>
+                    <p className="text-muted-foreground">There are no withdrawal requests waiting for a payout.</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+          
+          <TabsContent value="disputes" className="space-y-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Disputed Matches</CardTitle>
+                <CardDescription>
+                  Players reported different winners for these matches. Review the evidence and award the prize.
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isDisputesLoading ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : disputedMatches && disputedMatches.length > 0 ? (
+                  <div className="space-y-4">
+                    {disputedMatches.map(match => (
+                      <Card key={match.id} className="bg-muted/30 border-amber-200 dark:border-amber-800/30">
+                        <CardContent className="p-4">
+                          <div className="flex items-center gap-2 mb-1">
+                            <h3 className="font-semibold">Match #{match.id}</h3>
+                            <span className="px-2 py-0.5 bg-amber-100 dark:bg-amber-900/30 text-amber-800 dark:text-amber-400 rounded-full text-xs">
+                              Disputed
+                            </span>
+                          </div>
+                          <p className="text-sm text-muted-foreground">
+                            Entry: {formatAmount(match.entryAmount)} • Prize pool: {formatAmount((parseFloat(match.entryAmount) * match.players.length).toString())}
+                          </p>
+                          <ul className="mt-2 space-y-1">
+                            {match.reports.map(report => (
+                              <li key={report.id} className="text-sm">
+                                User ID {report.userId} reported User ID {report.reportedWinnerId} as the winner
+                              </li>
+                            ))}
+                          </ul>
+                          <div className="flex flex-wrap gap-2 mt-3">
+                            {match.players.map(player => (
+                              <AlertDialog key={player.userId}>
+                                <AlertDialogTrigger asChild>
+                                  <Button 
+                                    variant="outline" 
+                                    size="sm"
+                                    onClick={() => setAdjudication({ matchId: match.id, winnerId: player.userId })}
+                                  >
+                                    <Check className="h-4 w-4 mr-1" />
+                                    Award to User ID {player.userId}
+                                  </Button>
+                                </AlertDialogTrigger>
+                                <AlertDialogContent>
+                                  <AlertDialogHeader>
+                                    <AlertDialogTitle>Settle Match #{match.id}</AlertDialogTitle>
+                                    <AlertDialogDescription>
+                                      User ID {adjudication?.winnerId} will be recorded as the winner and paid the prize. This cannot be undone.
+                                    </AlertDialogDescription>
+                                  </AlertDialogHeader>
+                                  <div className="space-y-2">
+                                    <Label htmlFor="adjudication-reason">Reason</Label>
+                                    <Input
+                                      id="adjudication-reason"
+                                      placeholder="e.g. Screenshot evidence from both players"
+                                      value={adjudicationReason}
+                                      onChange={(e) => setAdjudicationReason(e.target.value)}
+                                    />
+                                  </div>
+                                  <AlertDialogFooter>
+                                    <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                    <AlertDialogAction 
+                                      onClick={confirmAdjudication}
+                                      disabled={adjudicateMutation.isPending || !adjudicationReason.trim()}
+                                    >
+                                      {adjudicateMutation.isPending ? (
+                                        <>
+                                          <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                                          Processing...
+                                        </>
+                                      ) : (
+                                        "Settle Match"
+                                      )}
+                                    </AlertDialogAction>
+                                  </AlertDialogFooter>
+                                </AlertDialogContent>
+                              </AlertDialog>
+                            ))}
                             <AlertDialog>
                               <AlertDialogTrigger asChild>
                                 <Button 
-                                  variant="default" 
+                                  variant="outline" 
                                   size="sm"
-                                  className="bg-green-600 hover:bg-green-700"
-                                  onClick={() => handleApproveDeposit(transaction)}
+                                  className="text-red-600"
+                                  onClick={() => setCancellationReason("")}
                                 >
-                                  <Check className="h-4 w-4 mr-1" />
-                                  Approve
+                                  <XCircle className="h-4 w-4 mr-1" />
+                                  Cancel &amp; Refund
                                 </Button>
                               </AlertDialogTrigger>
                               <AlertDialogContent>
                                 <AlertDialogHeader>
-                                  <AlertDialogTitle>Approve Deposit</AlertDialogTitle>
+                                  <AlertDialogTitle>Cancel Match #{match.id}</AlertDialogTitle>
                                   <AlertDialogDescription>
-                                    Are you sure you want to approve this deposit of {formatAmount(selectedTransaction?.amount || "0")}?
-                                    <br /><br />
-                                    Make sure you have received the payment via UPI before approving.
+                                    Nobody wins this match. Every player gets their {formatAmount(match.entryAmount)} entry fee back. This cannot be undone.
                                   </AlertDialogDescription>
                                 </AlertDialogHeader>
+                                <div className="space-y-2">
+                                  <Label htmlFor="cancellation-reason">Reason</Label>
+                                  <Input
+                                    id="cancellation-reason"
+                                    placeholder="e.g. No evidence from either player"
+                                    value={cancellationReason}
+                                    onChange={(e) => setCancellationReason(e.target.value)}
+                                  />
+                                </div>
                                 <AlertDialogFooter>
-                                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                                  <AlertDialogCancel>Back</AlertDialogCancel>
                                   <AlertDialogAction 
-                                    className="bg-green-600 hover:bg-green-700"
-                                    onClick={confirmApproveDeposit}
-                                    disabled={approveDepositMutation.isPending}
+                                    onClick={() => cancelMatchMutation.mutate({ matchId: match.id, reason: cancellationReason.trim() })}
+                                    disabled={cancelMatchMutation.isPending || !cancellationReason.trim()}
                                   >
-                                    {approveDepositMutation.isPending ? (
+                                    {cancelMatchMutation.isPending ? (
                                       <>
                                         <Loader2 className="h-4 w-4 mr-2 animate-spin" />
                                         Processing...
                                       </>
                                     ) : (
-                                      "Approve"
+                                      "Cancel & Refund"
                                     )}
                                   </AlertDialogAction>
                                 </AlertDialogFooter>
@@ -240,14 +950,66 @@ export default function AdminPage() {
                   </div>
                 ) : (
                   <div className="text-center py-12 bg-muted/20 rounded-lg">
-                    <h3 className="text-lg font-medium text-foreground mb-2">No pending deposits</h3>
-                    <p className="text-muted-foreground">There are no pending deposit requests at this time.</p>
+                    <h3 className="text-lg font-medium text-foreground mb-2">No disputed matches</h3>
+                    <p className="text-muted-foreground">Every reported result so far has been agreed by the players.</p>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            
+            <Card>
+              <CardHeader>
+                <CardTitle>Cancelled &amp; Abandoned Matches</CardTitle>
+                <CardDescription>
+                  Matches that ended without a winner and the entry fees refunded for them
+                </CardDescription>
+              </CardHeader>
+              <CardContent>
+                {isCancelledLoading ? (
+                  <div className="flex justify-center py-12">
+                    <Loader2 className="h-8 w-8 animate-spin text-primary" />
+                  </div>
+                ) : cancelledMatches && cancelledMatches.length > 0 ? (
+                  <div className="space-y-4">
+                    {cancelledMatches.map(match => (
+                      <div key={match.id} className="p-4 rounded-lg border border-border bg-muted/30">
+                        <div className="flex items-center gap-2 mb-1">
+                          <h3 className="font-semibold">Match #{match.id}</h3>
+                          <span className="px-2 py-0.5 bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded-full text-xs">
+                            {match.status === "abandoned" ? "Abandoned" : "Cancelled"}
+                          </span>
+                        </div>
+                        <p className="text-sm text-muted-foreground">
+                          {match.endReason || "No reason recorded"}
+                          {match.endTime && ` • ${format(new Date(match.endTime), "MMM d, yyyy h:mm a")}`}
+                        </p>
+                        <p className="text-sm mt-1">
+                          {match.refunds.length > 0
+                            ? `Refunded ${formatAmount(match.entryAmount)} to ${match.refunds.map(refund => `User ID ${refund.userId}`).join(", ")}`
+                            : `No entry fees were charged • ${match.players.length} players`}
+                        </p>
+                      </div>
+                    ))}
+                  </div>
+                ) : (
+                  <div className="text-center py-12 bg-muted/20 rounded-lg">
+                    <h3 className="text-lg font-medium text-foreground mb-2">No cancelled matches</h3>
+                    <p className="text-muted-foreground">Matches that end without a winner will appear here.</p>
                   </div>
                 )}
               </CardContent>
             </Card>
           </TabsContent>
           
+          <TabsContent value="plans" className="space-y-6">
+            <SubscriptionPlansAdmin />
+            <RewardPayoutsAdmin />
+          </TabsContent>
+          
+          <TabsContent value="waitlist" className="space-y-6">
+            <WaitlistAdmin />
+          </TabsContent>
+          
           <TabsContent value="users" className="space-y-6">
             <Card>
               <CardHeader>
@@ -279,14 +1041,15 @@ export default function AdminPage() {
                                 Joined: {format(new Date(user.createdAt), "MMM dd, yyyy")}
                               </p>
                               <p className="text-sm mt-2">
-                                Subscription: {user.subscriptionExpiryDate ? (
+                                Subscription: {user.entitlements.active && user.entitlements.activeUntil ? (
                                   <span className="text-green-600">
-                                    Active until {format(new Date(user.subscriptionExpiryDate), "MMM dd, yyyy")}
+                                    Active until {format(new Date(user.entitlements.activeUntil), "MMM dd, yyyy")} ({user.entitlements.commissionDiscount}% off, {user.entitlements.supportTier} support)
                                   </span>
                                 ) : (
                                   <span className="text-amber-600">None</span>
                                 )}
                               </p>
+                              <UserRoleControls user={user} canManage={can("manage_roles")} />
                             </div>
                             <Button variant="outline" size="sm">
                               View Details
@@ -305,6 +1068,14 @@ export default function AdminPage() {
               </CardContent>
             </Card>
           </TabsContent>
+          
+          <TabsContent value="moderation" className="space-y-6">
+            <ChatModerationAdmin />
+          </TabsContent>
+          
+          <TabsContent value="audit" className="space-y-6">
+            <AuditLogAdmin />
+          </TabsContent>
         </Tabs>
       </main>
       
@@ -1,6 +1,6 @@
 import { useAuth } from "@/hooks/use-auth";
-import { useState } from "react";
-import { Gamepad } from "lucide-react";
+import { useEffect, useState } from "react";
+import { Gamepad, Loader2 } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -10,8 +10,11 @@ import { zodResolver } from "@hookform/resolvers/zod";
 import { useForm } from "react-hook-form";
 import { z } from "zod";
 import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/ui/form";
-import { insertUserSchema } from "@shared/schema";
-import { Redirect } from "wouter";
+import { insertUserSchema, RegistrationSettings } from "@shared/schema";
+import { Link, Redirect, useLocation, useSearch } from "wouter";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
 
 // Login Schema
 const loginSchema = z.object({
@@ -34,13 +37,316 @@ const registerSchema = insertUserSchema
   .extend({
     password: z.string().min(6, "Password must be at least 6 characters"),
     email: z.string().email("Invalid email address"),
+    inviteCode: z.string().trim().optional(),
   });
 
 type RegisterFormValues = z.infer<typeof registerSchema>;
 
+const forgotPasswordSchema = z.object({
+  email: z.string().email("Invalid email address"),
+});
+
+type ForgotPasswordFormValues = z.infer<typeof forgotPasswordSchema>;
+
+const newPasswordFields = {
+  newPassword: z.string().min(6, "Password must be at least 6 characters"),
+  confirmPassword: z.string(),
+};
+
+const passwordsMatch = (data: { newPassword: string; confirmPassword: string }) => data.newPassword === data.confirmPassword;
+const passwordsMismatch = { message: "Passwords do not match", path: ["confirmPassword"] };
+
+const resetPasswordSchema = z.object(newPasswordFields).refine(passwordsMatch, passwordsMismatch);
+
+type ResetPasswordFormValues = z.infer<typeof resetPasswordSchema>;
+
+const changePasswordSchema = z.object({
+  currentPassword: z.string().min(1, "Enter your current password"),
+  ...newPasswordFields,
+}).refine(passwordsMatch, passwordsMismatch);
+
+type ChangePasswordFormValues = z.infer<typeof changePasswordSchema>;
+
+// The login and register tabs, plus the screens reached from account emails and the profile:
+// ?verify=<token>, ?reset=<token> and ?screen=change-password
+type AuthScreen = "login" | "register" | "forgot" | "verify" | "reset" | "change-password";
+
+function ForgotPasswordForm({ onBack }: { onBack: () => void }) {
+  const [sentMessage, setSentMessage] = useState("");
+  const form = useForm<ForgotPasswordFormValues>({
+    resolver: zodResolver(forgotPasswordSchema),
+    defaultValues: { email: "" },
+  });
+
+  const forgotMutation = useMutation({
+    mutationFn: async (data: ForgotPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/forgot-password", data);
+      return await res.json() as { message: string };
+    },
+    onSuccess: (result) => setSentMessage(result.message),
+  });
+
+  if (sentMessage) {
+    return (
+      <div className="space-y-4 text-center">
+        <p className="text-muted-foreground">{sentMessage}.</p>
+        <Button variant="outline" className="w-full" onClick={onBack}>Back to Login</Button>
+      </div>
+    );
+  }
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => forgotMutation.mutate(data))} className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Enter the email you registered with and we'll send you a link to choose a new password.
+        </p>
+        <FormField
+          control={form.control}
+          name="email"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Email</FormLabel>
+              <FormControl>
+                <Input type="email" placeholder="Enter your email" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {forgotMutation.isError && (
+          <p className="text-sm text-destructive">{forgotMutation.error.message}</p>
+        )}
+        <Button
+          type="submit"
+          className="w-full bg-primary hover:bg-primary/90 text-white"
+          disabled={forgotMutation.isPending}
+        >
+          {forgotMutation.isPending ? "Sending..." : "Send Reset Link"}
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" onClick={onBack}>Back to Login</Button>
+      </form>
+    </Form>
+  );
+}
+
+function ResetPasswordForm({ token, onDone }: { token: string; onDone: () => void }) {
+  const { toast } = useToast();
+  const form = useForm<ResetPasswordFormValues>({
+    resolver: zodResolver(resetPasswordSchema),
+    defaultValues: { newPassword: "", confirmPassword: "" },
+  });
+
+  const resetMutation = useMutation({
+    mutationFn: async (data: ResetPasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/reset-password", { token, password: data.newPassword });
+      return await res.json() as { message: string };
+    },
+    onSuccess: (result) => {
+      toast({ title: "Password reset", description: result.message });
+      onDone();
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => resetMutation.mutate(data))} className="space-y-4">
+        <p className="text-sm text-muted-foreground">Choose a new password for your account.</p>
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="Create a password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm Password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="Enter it again" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {resetMutation.isError && (
+          <p className="text-sm text-destructive">{resetMutation.error.message}</p>
+        )}
+        <Button
+          type="submit"
+          className="w-full bg-primary hover:bg-primary/90 text-white"
+          disabled={resetMutation.isPending}
+        >
+          {resetMutation.isPending ? "Saving..." : "Reset Password"}
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+function ChangePasswordForm() {
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const form = useForm<ChangePasswordFormValues>({
+    resolver: zodResolver(changePasswordSchema),
+    defaultValues: { currentPassword: "", newPassword: "", confirmPassword: "" },
+  });
+
+  const changeMutation = useMutation({
+    mutationFn: async (data: ChangePasswordFormValues) => {
+      const res = await apiRequest("POST", "/api/change-password", {
+        currentPassword: data.currentPassword,
+        newPassword: data.newPassword,
+      });
+      return await res.json() as { message: string };
+    },
+    onSuccess: (result) => {
+      toast({ title: "Password changed", description: result.message });
+      setLocation("/profile");
+    },
+  });
+
+  return (
+    <Form {...form}>
+      <form onSubmit={form.handleSubmit((data) => changeMutation.mutate(data))} className="space-y-4">
+        <FormField
+          control={form.control}
+          name="currentPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Current Password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="Enter your current password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="newPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>New Password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="Create a password" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        <FormField
+          control={form.control}
+          name="confirmPassword"
+          render={({ field }) => (
+            <FormItem>
+              <FormLabel>Confirm New Password</FormLabel>
+              <FormControl>
+                <Input type="password" placeholder="Enter it again" {...field} />
+              </FormControl>
+              <FormMessage />
+            </FormItem>
+          )}
+        />
+        {changeMutation.isError && (
+          <p className="text-sm text-destructive">{changeMutation.error.message}</p>
+        )}
+        <Button
+          type="submit"
+          className="w-full bg-primary hover:bg-primary/90 text-white"
+          disabled={changeMutation.isPending}
+        >
+          {changeMutation.isPending ? "Saving..." : "Change Password"}
+        </Button>
+        <Button type="button" variant="ghost" className="w-full" asChild>
+          <Link href="/profile">Cancel</Link>
+        </Button>
+      </form>
+    </Form>
+  );
+}
+
+// Landing screen for the link in the verification email
+function VerifyEmailStatus({ token, onLogin }: { token: string; onLogin: () => void }) {
+  const { user } = useAuth();
+
+  const verifyMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", "/api/verify-email", { token });
+      return await res.json() as { message: string };
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/user"] });
+    },
+  });
+
+  useEffect(() => {
+    verifyMutation.mutate();
+  }, [token]);
+
+  if (verifyMutation.isIdle || verifyMutation.isPending) {
+    return (
+      <div className="flex items-center justify-center gap-2 text-muted-foreground py-6">
+        <Loader2 className="h-5 w-5 animate-spin text-primary" />
+        Verifying your email...
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4 text-center">
+      <p className={verifyMutation.isError ? "text-destructive" : "text-muted-foreground"}>
+        {verifyMutation.isError ? verifyMutation.error.message : `${verifyMutation.data?.message}.`}
+      </p>
+      {verifyMutation.isError && user && !user.emailVerifiedAt && (
+        <p className="text-sm text-muted-foreground">You can send a new link from your profile settings.</p>
+      )}
+      {user ? (
+        <Button className="w-full" asChild>
+          <Link href="/">Continue</Link>
+        </Button>
+      ) : (
+        <Button className="w-full" onClick={onLogin}>Log In</Button>
+      )}
+    </div>
+  );
+}
+
 export default function AuthPage() {
-  const { user, loginMutation, registerMutation } = useAuth();
-  const [tab, setTab] = useState<"login" | "register">("login");
+  const { user, isLoading, loginMutation, registerMutation } = useAuth();
+  const params = new URLSearchParams(useSearch());
+  // Invite emails link here with ?invite=<code>
+  const invite = params.get("invite") ?? "";
+  const verifyToken = params.get("verify") ?? "";
+  const resetToken = params.get("reset") ?? "";
+  const [, setLocation] = useLocation();
+  const [tab, setTab] = useState<AuthScreen>(
+    verifyToken ? "verify"
+      : resetToken ? "reset"
+      : params.get("screen") === "change-password" ? "change-password"
+      : invite ? "register"
+      : "login"
+  );
+
+  // Leave an emailed link's screen for the plain login form
+  const showLogin = () => {
+    setTab("login");
+    setLocation("/auth");
+  };
+
+  const { data: registration } = useQuery<RegistrationSettings>({
+    queryKey: ["/api/registration"],
+  });
+  const mode = registration?.mode ?? "open";
 
   // Login Form
   const loginForm = useForm<LoginFormValues>({
@@ -61,6 +367,7 @@ export default function AuthPage() {
       fullName: "",
       phone: "",
       upiId: "",
+      inviteCode: invite,
     },
   });
 
@@ -71,14 +378,23 @@ export default function AuthPage() {
 
   // Handle register
   const onRegisterSubmit = (data: RegisterFormValues) => {
+    if (mode !== "open" && !data.inviteCode) {
+      registerForm.setError("inviteCode", { message: "An invite code is required to register" });
+      return;
+    }
     registerMutation.mutate(data);
   };
 
-  // Redirect if already logged in
-  if (user) {
+  // Redirect if already logged in, except from the screens that work signed in
+  if (user && (tab === "login" || tab === "register" || tab === "forgot")) {
     return <Redirect to="/" />;
   }
 
+  // Changing a password needs the current one, so it is only for signed-in users
+  if (!user && !isLoading && tab === "change-password") {
+    return <Redirect to="/auth" />;
+  }
+
   return (
     <div className="min-h-screen flex flex-col md:flex-row bg-background">
       {/* Left Column - Form */}
@@ -93,11 +409,20 @@ export default function AuthPage() {
 
           <Card className="border-border shadow-lg">
             <CardContent className="pt-6">
-              <Tabs value={tab} onValueChange={(value) => setTab(value as "login" | "register")}>
-                <TabsList className="grid grid-cols-2 mb-6">
-                  <TabsTrigger value="login">Login</TabsTrigger>
-                  <TabsTrigger value="register">Register</TabsTrigger>
-                </TabsList>
+              <Tabs value={tab} onValueChange={(value) => setTab(value as AuthScreen)}>
+                {tab === "login" || tab === "register" ? (
+                  <TabsList className="grid grid-cols-2 mb-6">
+                    <TabsTrigger value="login">Login</TabsTrigger>
+                    <TabsTrigger value="register">Register</TabsTrigger>
+                  </TabsList>
+                ) : (
+                  <h2 className="text-xl font-semibold mb-6">
+                    {tab === "forgot" ? "Forgot Password"
+                      : tab === "verify" ? "Verify Email"
+                      : tab === "reset" ? "Reset Password"
+                      : "Change Password"}
+                  </h2>
+                )}
 
                 <TabsContent value="login">
                   <Form {...loginForm}>
@@ -137,13 +462,67 @@ export default function AuthPage() {
                       >
                         {loginMutation.isPending ? "Logging in..." : "Login"}
                       </Button>
+
+                      <button
+                        type="button"
+                        className="w-full text-sm text-primary hover:underline"
+                        onClick={() => setTab("forgot")}
+                      >
+                        Forgot your password?
+                      </button>
                     </form>
                   </Form>
                 </TabsContent>
 
+                <TabsContent value="forgot">
+                  <ForgotPasswordForm onBack={() => setTab("login")} />
+                </TabsContent>
+
+                <TabsContent value="verify">
+                  <VerifyEmailStatus token={verifyToken} onLogin={showLogin} />
+                </TabsContent>
+
+                <TabsContent value="reset">
+                  <ResetPasswordForm token={resetToken} onDone={showLogin} />
+                </TabsContent>
+
+                <TabsContent value="change-password">
+                  {user ? (
+                    <ChangePasswordForm />
+                  ) : (
+                    <div className="flex justify-center py-6">
+                      <Loader2 className="h-6 w-6 animate-spin text-primary" />
+                    </div>
+                  )}
+                </TabsContent>
+
                 <TabsContent value="register">
+                  {mode !== "open" && (
+                    <p className="text-sm text-muted-foreground mb-4">
+                      {mode === "invite"
+                        ? "Registration is invite-only for now. Enter the code from your invite email."
+                        : "Registration is open to invited waitlist members. Enter the code from the invite email we sent you."}
+                      {" "}Not invited yet? <Link href="/waitlist" className="text-primary hover:underline">Join the waitlist</Link>.
+                    </p>
+                  )}
                   <Form {...registerForm}>
                     <form onSubmit={registerForm.handleSubmit(onRegisterSubmit)} className="space-y-4">
+                      {(mode !== "open" || invite) && (
+                        <FormField
+                          control={registerForm.control}
+                          name="inviteCode"
+                          render={({ field }) => (
+                            <FormItem>
+                              <FormLabel>Invite Code{mode === "open" ? " (Optional)" : ""}</FormLabel>
+                              <FormControl>
+                                <Input placeholder="Enter your invite code" {...field} />
+                              </FormControl>
+                              <FormMessage />
+                            </FormItem>
+                          )}
+                        />
+                      )}
+
                       <FormField
                         control={registerForm.control}
                         name="username"
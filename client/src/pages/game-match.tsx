@@ -6,7 +6,7 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { GameMatch, PlayerMatch, Game } from "@shared/schema";
+import { GameMatch, MatchPlayer, Game } from "@shared/schema";
 import { 
   Loader2, 
   Trophy, 
@@ -17,6 +17,7 @@ import {
   Swords,
   Sparkles,
   CheckCircle2,
+  XCircle,
   Zap
 } from "lucide-react";
 import { Button } from "@/components/ui/button";
@@ -47,7 +48,7 @@ export default function GameMatchPage() {
   const [, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
-  type GameState = "waiting" | "playing" | "finished";
+  type GameState = "waiting" | "playing" | "finished" | "ended";
   const [gameState, setGameState] = useState<GameState>("waiting");
   const [showWinDialog, setShowWinDialog] = useState(false);
   const [progressValue, setProgressValue] = useState(0);
@@ -60,7 +61,7 @@ export default function GameMatchPage() {
   });
 
   // Fetch match players
-  const { data: players, isLoading: isPlayersLoading } = useQuery<PlayerMatch[]>({
+  const { data: players, isLoading: isPlayersLoading } = useQuery<MatchPlayer[]>({
     queryKey: [`/api/matches/${matchId}/players`],
     refetchInterval: gameState === "waiting" ? 3000 : (gameState === "playing" ? 1000 : false),
   });
@@ -116,31 +117,70 @@ export default function GameMatchPage() {
     },
   });
 
+  // Cancel match mutation - only the creator can cancel a match that has not started
+  const cancelMatchMutation = useMutation({
+    mutationFn: async () => {
+      return await apiRequest("POST", `/api/matches/${matchId}/cancel`, {});
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}`] });
+      toast({
+        title: "Match cancelled",
+        description: "Nobody was charged for this match.",
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to cancel match",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Report result mutation - the match settles once every player reports the same winner
+  const reportResultMutation = useMutation({
+    mutationFn: async (winnerId: number) => {
+      const response = await apiRequest("POST", `/api/matches/${matchId}/result`, { winnerId });
+      return await response.json();
+    },
+    onSuccess: (data: { message: string }) => {
+      queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}`] });
+      queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}/players`] });
+      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+      toast({
+        title: "Result reported",
+        description: data.message,
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to report the result",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Check if match has AI opponent
   useEffect(() => {
-    if (players && players.length > 0 && match) {
-      // Check for AI player based on other joined players
-      const otherPlayers = players.filter(player => player.userId !== user?.id);
-      
-      // In this simplified version, we'll treat any match with other players as an AI match
-      // when the match is in progress or completed
-      if (match.status === "in_progress" || match.status === "completed") {
-        setIsAIMatch(otherPlayers.length > 0);
-      } else {
-        // For waiting matches, don't set AI mode yet
-        setIsAIMatch(false);
-      }
-    }
-  }, [players, user?.id, match]);
+    setIsAIMatch(!!match?.botDifficulty);
+  }, [match?.botDifficulty]);
+  
+  const isPractice = match?.mode === "practice";
 
   // Check if the current user is in the match
   const isPlayerInMatch = players?.some(player => player.userId === user?.id);
 
+  // The first player to join is the one who created the match
+  const isMatchCreator = !!user && players?.[0]?.userId === user.id;
+
   // Initialize the game
   useEffect(() => {
     if (match?.status === "waiting") {
       setGameState("waiting");
-    } else if (match?.status === "in_progress") {
+    } else if (match?.status === "in_progress" || match?.status === "disputed") {
       setGameState("playing");
       
       // Start progress for AI matches
@@ -162,9 +202,18 @@ export default function GameMatchPage() {
     } else if (match?.status === "completed") {
       setGameState("finished");
       setProgressValue(100);
+    } else if (match?.status === "cancelled" || match?.status === "abandoned") {
+      setGameState("ended");
     }
   }, [match, isAIMatch]);
 
+  // Ludo is played on its own board, driven by the server-side engine
+  useEffect(() => {
+    if (game?.name === "Ludo Royal" && match?.status === "in_progress") {
+      navigate(`/ludo/${matchId}`);
+    }
+  }, [game?.name, match?.status, matchId]);
+
   // Handle joining the match
   const handleJoinMatch = () => {
     joinMatchMutation.mutate();
@@ -243,9 +292,13 @@ export default function GameMatchPage() {
             <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
               {game?.name || "Game"}
               {isAIMatch && <Bot className="h-6 w-6 text-primary" />}
+              <Badge variant={isPractice ? "secondary" : "default"}>
+                {isPractice ? "Practice" : "Real money"}
+              </Badge>
             </h1>
             <p className="text-muted-foreground">
-              Match #{matchId} • Entry: ₹{parseFloat(match.entryAmount.toString()).toFixed(2)}
+              Match #{matchId} • {isPractice ? "Free practice game" : `Entry: ₹${parseFloat(match.entryAmount.toString()).toFixed(2)}`}
+              {match.botDifficulty && ` • ${match.botDifficulty.charAt(0).toUpperCase() + match.botDifficulty.slice(1)} AI opponent`}
             </p>
           </div>
         </div>
@@ -266,7 +319,7 @@ export default function GameMatchPage() {
                   </div>
                   <Progress value={progressValue} className="h-2 mb-2" />
                   <p className="text-sm text-muted-foreground">
-                    Game in progress - you'll automatically win when gameplay completes
+                    Game in progress - the result is decided by the server when gameplay completes
                   </p>
                 </div>
               )}
@@ -321,10 +374,47 @@ export default function GameMatchPage() {
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Starting
                           </span>
                         ) : (
-                          "Start Game (Pay ₹" + parseFloat(match.entryAmount.toString()).toFixed(2) + ")"
+                          isPractice
+                            ? "Start Practice Game"
+                            : "Start Game (Pay ₹" + parseFloat(match.entryAmount.toString()).toFixed(2) + ")"
                         )}
                       </Button>
                     )}
+                    
+                    {isMatchCreator && (
+                      <div className="mt-4">
+                        <Button
+                          variant="outline"
+                          onClick={() => cancelMatchMutation.mutate()}
+                          disabled={cancelMatchMutation.isPending}
+                        >
+                          {cancelMatchMutation.isPending ? (
+                            <span className="flex items-center">
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Cancelling
+                            </span>
+                          ) : (
+                            "Cancel Match"
+                          )}
+                        </Button>
+                      </div>
+                    )}
+                  </div>
+                ) : gameState === "ended" ? (
+                  <div className="py-12 text-center">
+                    <div className="flex flex-col items-center justify-center space-y-4">
+                      <XCircle className="h-20 w-20 text-muted-foreground" />
+                      <h2 className="text-2xl font-bold text-foreground">
+                        {match.status === "abandoned" ? "Match Abandoned" : "Match Cancelled"}
+                      </h2>
+                      {match.endReason && (
+                        <p className="text-muted-foreground">{match.endReason}</p>
+                      )}
+                      {!isPractice && match.startTime && (
+                        <p className="text-sm text-green-600">
+                          Every player's entry fee of ₹{parseFloat(match.entryAmount.toString()).toFixed(2)} has been refunded to their wallet.
+                        </p>
+                      )}
+                    </div>
                   </div>
                 ) : gameState === "playing" ? (
                   <div className="py-6 text-center">
@@ -337,7 +427,7 @@ export default function GameMatchPage() {
                           </div>
                           <h3 className="text-xl font-bold">Playing against AI</h3>
                           <p className="text-muted-foreground max-w-md mx-auto">
-                            The game is in progress. You'll automatically win when the gameplay completes.
+                            The game is in progress. The winner is announced when the gameplay completes.
                           </p>
                         </>
                       ) : (
@@ -349,6 +439,34 @@ export default function GameMatchPage() {
                           </p>
                         </>
                       )}
+                      
+                      {/* Result reporting - every player confirms the winner */}
+                      {isPlayerInMatch && match.status === "disputed" && (
+                        <p className="text-sm text-amber-600 dark:text-amber-400 max-w-md">
+                          Players reported different winners. An admin is reviewing this match.
+                        </p>
+                      )}
+                      {isPlayerInMatch && match.status === "in_progress" && !isAIMatch && players && (
+                        <div className="pt-4 w-full max-w-md">
+                          <p className="text-sm text-muted-foreground mb-3">
+                            Finished playing? Report who won. The prize is paid once all players agree.
+                          </p>
+                          <div className="flex flex-wrap justify-center gap-2">
+                            {players.map((player) => (
+                              <Button
+                                key={player.userId}
+                                variant="outline"
+                                size="sm"
+                                onClick={() => reportResultMutation.mutate(player.userId)}
+                                disabled={reportResultMutation.isPending}
+                              >
+                                <Trophy className="h-4 w-4 mr-1" />
+                                {player.userId === user?.id ? "I won" : `${player.username} won`}
+                              </Button>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                     </div>
                   </div>
                 ) : (
@@ -394,7 +512,7 @@ export default function GameMatchPage() {
                         const isWinner = match.winnerId === player.userId;
                         const isCurrentUser = player.userId === user?.id;
                         // Check if this player is an AI opponent
-                        const isAI = !isCurrentUser && isAIMatch;
+                        const isAI = player.isBot;
                         
                         return (
                           <div 
@@ -409,19 +527,20 @@ export default function GameMatchPage() {
                                 <Bot className="h-6 w-6 text-primary" />
                               ) : (
                                 <>
-                                  <AvatarImage src={`https://api.dicebear.com/7.x/initials/svg?seed=${player.userId}`} />
+                                  <AvatarImage src={player.avatarUrl || `https://api.dicebear.com/7.x/initials/svg?seed=${player.username}`} />
                                   <AvatarFallback>
-                                    {isCurrentUser ? "You" : `P${player.userId}`}
+                                    {isCurrentUser ? "You" : player.username.substring(0, 2).toUpperCase()}
                                   </AvatarFallback>
                                 </>
                               )}
                             </Avatar>
                             <div>
                               <div className="font-medium flex items-center gap-2">
-                                {isCurrentUser ? "You" : (isAI ? "AI Player" : `Player ${player.userId}`)}
+                                {isCurrentUser ? "You" : player.username}
                                 {isWinner && <Trophy className="h-4 w-4 text-amber-500" />}
                               </div>
                               <div className="text-xs text-muted-foreground">
+                                {player.rank && `${player.rank} • `}
                                 {player.status === "joined" && (
                                   <>
                                     {gameState === "waiting" && "Ready to play"}
@@ -474,6 +593,12 @@ export default function GameMatchPage() {
                           Completed
                         </span>
                       )}
+                      {(match.status === "cancelled" || match.status === "abandoned") && (
+                        <span className="flex items-center gap-1">
+                          <XCircle className="h-4 w-4 text-muted-foreground" />
+                          {match.status === "abandoned" ? "Abandoned" : "Cancelled"}
+                        </span>
+                      )}
                     </span>
                   </div>
                   
@@ -85,7 +85,7 @@ export default function GamesPage() {
                 </h3>
                 <p className="text-muted-foreground">
                   Play instantly against our AI opponents! No waiting for other players - create a game and an AI player 
-                  will automatically join your match. Games start automatically and you'll receive your winnings right away!
+                  will automatically join your match. Choose a difficulty, and practice for free or play for real money.
                 </p>
               </div>
               
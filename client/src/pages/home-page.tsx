@@ -4,7 +4,7 @@ import { MobileNav } from "@/components/layout/mobile-nav";
 import { GameCard } from "@/components/ui/game-card";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
-import { Link } from "wouter";
+import { Link, useLocation } from "wouter";
 import { Game } from "@shared/schema";
 import { Loader2, ArrowRight, Trophy, Shield, Wallet, Users, ChartLine, Gamepad, MessageCircle } from "lucide-react";
 import { z } from "zod";
@@ -22,6 +22,7 @@ export default function HomePage() {
   const [waitlistEmail, setWaitlistEmail] = useState("");
   const [isSubmitting, setIsSubmitting] = useState(false);
   const { toast } = useToast();
+  const [, navigate] = useLocation();
 
   const { data: games, isLoading } = useQuery<Game[]>({
     queryKey: ["/api/games"],
@@ -34,14 +35,18 @@ export default function HomePage() {
       const parsedData = waitlistSchema.parse({ email: waitlistEmail });
       setIsSubmitting(true);
       
-      await apiRequest("POST", "/api/waitlist", parsedData);
+      const response = await apiRequest("POST", "/api/waitlist", parsedData);
+      const signup: { message: string; token?: string } = await response.json();
       
       toast({
         title: "Success!",
-        description: "You've been added to our waitlist.",
+        description: signup.message,
       });
       
       setWaitlistEmail("");
+      if (signup.token) {
+        navigate(`/waitlist/status/${signup.token}`);
+      }
     } catch (error) {
       if (error instanceof z.ZodError) {
         toast({
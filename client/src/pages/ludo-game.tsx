@@ -1,4 +1,5 @@
 import { useState, useEffect } from "react";
+import { io } from "socket.io-client";
 import { Header } from "@/components/layout/header";
 import { MobileNav } from "@/components/layout/mobile-nav";
 import { useParams, useLocation } from "wouter";
@@ -6,10 +7,11 @@ import { useQuery, useMutation } from "@tanstack/react-query";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
-import { GameMatch, PlayerMatch, Game } from "@shared/schema";
+import { GameMatch, MatchPlayer, Game, EntitlementSummary } from "@shared/schema";
 import { Loader2, Trophy, Clock, Users, ArrowLeft, MessageCircle } from "lucide-react";
 import { ChatSystem } from "@/components/ui/chat-system";
 import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
 import {
   Card,
   CardContent,
@@ -26,6 +28,15 @@ import {
   DialogTitle,
 } from "@/components/ui/dialog";
 import { calculateGameCommission } from "@/lib/utils/commission";
+import {
+  type LudoState,
+  SEAT_COLORS,
+  SEAT_NAMES,
+  HOME,
+  getCellKind,
+  getMovableTokens,
+  getTokenCell,
+} from "@/lib/utils/ludo";
 
 export default function LudoGame() {
   const { id } = useParams();
@@ -33,22 +44,19 @@ export default function LudoGame() {
   const [, navigate] = useLocation();
   const { user } = useAuth();
   const { toast } = useToast();
-  const [gameState, setGameState] = useState<"waiting" | "playing" | "finished">("waiting");
-  const [diceValue, setDiceValue] = useState<number>(1);
-  const [playerPositions, setPlayerPositions] = useState<{ [key: number]: number }>({});
+  const [gameState, setGameState] = useState<"waiting" | "playing" | "finished" | "ended">("waiting");
   const [winner, setWinner] = useState<number | null>(null);
   const [showWinDialog, setShowWinDialog] = useState(false);
-  // No countdown needed as we use explicit Start Game button instead of automatic countdown
-  const playerColors = ["#f05252", "#25c26e", "#7b5bf2", "#f7b955"];
 
   // Fetch match details
+  // Polled during play too, so a cancelled or abandoned match is noticed
   const { data: match, isLoading: isMatchLoading } = useQuery<GameMatch>({
     queryKey: [`/api/matches/${matchId}`],
-    refetchInterval: gameState === "waiting" ? 3000 : false,
+    refetchInterval: gameState === "waiting" ? 3000 : (gameState === "playing" ? 10000 : false),
   });
 
   // Fetch match players
-  const { data: players, isLoading: isPlayersLoading } = useQuery<PlayerMatch[]>({
+  const { data: players, isLoading: isPlayersLoading } = useQuery<MatchPlayer[]>({
     queryKey: [`/api/matches/${matchId}/players`],
     refetchInterval: gameState === "waiting" ? 3000 : false,
   });
@@ -59,6 +67,12 @@ export default function LudoGame() {
     enabled: !!match?.gameId,
   });
 
+  // The commission shown is what the current user would pay if they win
+  const { data: entitlements } = useQuery<EntitlementSummary>({
+    queryKey: ["/api/entitlements"],
+    enabled: !!user,
+  });
+
   // Join match mutation
   const joinMatchMutation = useMutation({
     mutationFn: async () => {
@@ -104,28 +118,83 @@ export default function LudoGame() {
     },
   });
 
-  // Complete match mutation
-  const completeMatchMutation = useMutation({
-    mutationFn: async (winnerId: number) => {
-      return await apiRequest("POST", `/api/matches/${matchId}/complete`, { winnerId });
+  // Board state - kept by the server-side engine and pushed over Socket.IO
+  const boardQueryKey = [`/api/matches/${matchId}/board`];
+  const { data: board } = useQuery<LudoState>({
+    queryKey: boardQueryKey,
+    enabled: gameState !== "waiting",
+    retry: false,
+  });
+
+  // Roll dice mutation - the value comes from the server
+  const rollDiceMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/matches/${matchId}/roll`, {});
+      return await response.json() as LudoState;
     },
-    onSuccess: () => {
-      queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
-      queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+    onSuccess: (state) => {
+      queryClient.setQueryData(boardQueryKey, state);
+    },
+    onError: (error) => {
       toast({
-        title: "Match completed",
-        description: "The match has been completed successfully.",
+        title: "Error",
+        description: error.message || "Failed to roll the dice",
+        variant: "destructive",
       });
     },
+  });
+
+  // Move token mutation - validated by the server
+  const moveTokenMutation = useMutation({
+    mutationFn: async (token: number) => {
+      const response = await apiRequest("POST", `/api/matches/${matchId}/move`, { token });
+      return await response.json() as LudoState;
+    },
+    onSuccess: (state) => {
+      queryClient.setQueryData(boardQueryKey, state);
+    },
     onError: (error) => {
       toast({
         title: "Error",
-        description: error.message || "Failed to complete match",
+        description: error.message || "Failed to move the token",
         variant: "destructive",
       });
     },
   });
 
+  // Watch the board for moves made by other players
+  useEffect(() => {
+    if (!matchId) return;
+
+    const socket = io("", { path: "/api/socket" });
+    socket.emit("watchMatch", matchId);
+    socket.on("ludoState", (state: LudoState) => {
+      if (state.matchId === matchId) {
+        queryClient.setQueryData(boardQueryKey, state);
+      }
+    });
+
+    return () => {
+      socket.disconnect();
+    };
+  }, [matchId]);
+
+  // The engine decides the winner; the server settles the match
+  useEffect(() => {
+    if (!board || board.winnerId === null || winner === board.winnerId) return;
+
+    setWinner(board.winnerId);
+    setGameState("finished");
+    queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}`] });
+    queryClient.invalidateQueries({ queryKey: [`/api/matches/${matchId}/players`] });
+    queryClient.invalidateQueries({ queryKey: ["/api/wallet"] });
+    queryClient.invalidateQueries({ queryKey: ["/api/transactions"] });
+
+    if (board.winnerId === user?.id) {
+      setShowWinDialog(true);
+    }
+  }, [board?.winnerId]);
+
   // Check if the current user is in the match
   const isPlayerInMatch = players?.some(player => player.userId === user?.id);
 
@@ -135,48 +204,17 @@ export default function LudoGame() {
       setGameState("waiting");
     } else if (match?.status === "in_progress") {
       setGameState("playing");
-      // Initialize player positions
-      const positions: { [key: number]: number } = {};
-      players?.forEach(player => {
-        positions[player.userId] = 0;
-      });
-      setPlayerPositions(positions);
     } else if (match?.status === "completed") {
       setGameState("finished");
       setWinner(match.winnerId || null);
+    } else if (match?.status === "cancelled" || match?.status === "abandoned") {
+      setGameState("ended");
     }
   }, [match, players]);
 
-  // We no longer need the automatic countdown timer since we use a manual start button
-  // This keeps the game from auto-starting
-
-  // Roll dice function
-  const rollDice = () => {
-    if (gameState !== "playing") return;
-    
-    const newDiceValue = Math.floor(Math.random() * 6) + 1;
-    setDiceValue(newDiceValue);
-    
-    // Move the player
-    if (user?.id) {
-      const currentPosition = playerPositions[user.id] || 0;
-      let newPosition = currentPosition + newDiceValue;
-      
-      // Handle winning condition
-      if (newPosition >= 100) {
-        newPosition = 100;
-        setWinner(user.id);
-        setGameState("finished");
-        completeMatchMutation.mutate(user.id);
-        setShowWinDialog(true);
-      }
-      
-      setPlayerPositions({
-        ...playerPositions,
-        [user.id]: newPosition
-      });
-    }
-  };
+  const boardPlayer = board?.players.find(player => player.userId === user?.id);
+  const isMyTurn = !!board && board.winnerId === null && board.players[board.currentPlayer].userId === user?.id;
+  const movableTokens = board && isMyTurn ? getMovableTokens(board) : [];
 
   // Handle joining the match
   const handleJoinMatch = () => {
@@ -195,7 +233,7 @@ export default function LudoGame() {
     const entryAmount = parseFloat(match.entryAmount.toString());
     const totalPrize = entryAmount * players.length;
     const commissionPercentage = parseFloat(game.commissionPercentage.toString());
-    const commission = calculateGameCommission(totalPrize, commissionPercentage);
+    const commission = calculateGameCommission(totalPrize, commissionPercentage, entitlements?.commissionDiscount ?? 0);
     const prize = totalPrize - commission;
     
     return { prize, commission };
@@ -204,69 +242,97 @@ export default function LudoGame() {
   // Get player name function
   const getPlayerName = (userId: number) => {
     if (userId === user?.id) return "You";
-    return `Player ${players?.findIndex(p => p.userId === userId) ?? 0 + 1}`;
+    return players?.find(p => p.userId === userId)?.username ?? "Opponent";
   };
 
-  // Get player color
-  const getPlayerColor = (index: number) => {
-    return playerColors[index % playerColors.length];
+  // Get player color from their seat on the board
+  const getPlayerColor = (userId: number, index: number) => {
+    const seat = board?.players.find(player => player.userId === userId)?.seat;
+    return SEAT_COLORS[seat ?? index % SEAT_COLORS.length];
+  };
+
+  // Describe what happened last on the board
+  const getLastAction = () => {
+    if (!board) return null;
+    if (board.lastMove) {
+      const { userId, dice, captured, to } = board.lastMove;
+      if (captured.length > 0) return `${getPlayerName(userId)} moved ${dice} and captured a token!`;
+      if (to === HOME) return `${getPlayerName(userId)} brought a token home`;
+      return `${getPlayerName(userId)} moved ${dice}`;
+    }
+    if (board.lastRoll) {
+      return `${getPlayerName(board.lastRoll.userId)} rolled a ${board.lastRoll.dice}`;
+    }
+    return null;
   };
 
   // Render ludo board
   const renderLudoBoard = () => {
+    if (!board) {
+      return (
+        <div className="w-full max-w-lg mx-auto aspect-square flex items-center justify-center bg-gray-800 rounded-xl">
+          <Loader2 className="h-8 w-8 animate-spin text-primary" />
+        </div>
+      );
+    }
+
     return (
       <div className="w-full max-w-lg mx-auto aspect-square relative bg-gray-800 rounded-xl overflow-hidden">
         {/* Board grid */}
-        <div className="absolute inset-0 grid grid-cols-10 grid-rows-10">
-          {Array(100).fill(0).map((_, index) => {
-            const isHome = index === 99;
-            const isStart = index === 0;
+        <div className="absolute inset-0 grid grid-cols-[repeat(15,minmax(0,1fr))] grid-rows-[repeat(15,minmax(0,1fr))]">
+          {Array(225).fill(0).map((_, index) => {
+            const row = Math.floor(index / 15);
+            const col = index % 15;
+            const { seat, kind } = getCellKind(row, col);
+            const color = seat !== null ? SEAT_COLORS[seat] : undefined;
+            
             return (
               <div 
                 key={index} 
-                className={`border border-gray-700 flex items-center justify-center
-                  ${isHome ? 'bg-primary/20' : ''}
-                  ${isStart ? 'bg-secondary/20' : ''}
-                  ${index % 2 ? 'bg-gray-800' : 'bg-gray-700'}
+                className={`flex items-center justify-center
+                  ${kind === "track" || kind === "safe" ? "bg-gray-100 border border-gray-300" : ""}
+                  ${kind === "start" || kind === "home-column" ? "border border-gray-300" : ""}
+                  ${kind === "home" ? "bg-primary/30" : ""}
                 `}
+                style={{
+                  backgroundColor: kind === "yard" ? `${color}33` : (kind === "start" || kind === "home-column") ? color : undefined
+                }}
               >
-                {isHome && <Trophy className="h-6 w-6 text-primary" />}
-                {isStart && <div className="text-xs text-white font-bold">START</div>}
-                {!isHome && !isStart && (100 - index)}
+                {kind === "safe" && <span className="text-gray-400 text-xs">★</span>}
+                {row === 7 && col === 7 && <Trophy className="h-5 w-5 text-primary" />}
               </div>
             );
           })}
         </div>
         
         {/* Player tokens */}
-        {players?.map((player, index) => {
-          const position = playerPositions[player.userId] || 0;
-          if (position === 0) return null;
-          
-          // Calculate grid position (0-99)
-          const gridPosition = 99 - position;
-          const row = Math.floor(gridPosition / 10);
-          const col = row % 2 === 0 ? gridPosition % 10 : 9 - (gridPosition % 10);
-          
-          const color = getPlayerColor(index);
-          
-          return (
-            <div 
-              key={player.userId}
-              className="absolute w-6 h-6 rounded-full flex items-center justify-center text-white font-bold text-xs"
-              style={{
-                backgroundColor: color,
-                top: `${(Math.floor(gridPosition / 10) * 10) + 5}%`,
-                left: `${(col * 10) + 5}%`,
-                transform: 'translate(-50%, -50%)',
-                zIndex: 10,
-                boxShadow: '0 2px 4px rgba(0,0,0,0.2)'
-              }}
-            >
-              {index + 1}
-            </div>
-          );
-        })}
+        {board.players.map(player => 
+          player.tokens.map((progress, token) => {
+            const [row, col] = getTokenCell(player.seat, progress, token);
+            const isMovable = player.userId === user?.id && movableTokens.includes(token);
+            
+            return (
+              <button
+                key={`${player.userId}-${token}`}
+                type="button"
+                disabled={!isMovable || moveTokenMutation.isPending}
+                onClick={() => moveTokenMutation.mutate(token)}
+                className={`absolute w-[5%] h-[5%] rounded-full border-2 border-white transition-all duration-300
+                  ${isMovable ? "ring-4 ring-white/70 animate-pulse cursor-pointer" : "cursor-default"}
+                `}
+                style={{
+                  backgroundColor: SEAT_COLORS[player.seat],
+                  top: `${((row + 0.5) / 15) * 100}%`,
+                  left: `${((col + 0.5) / 15) * 100}%`,
+                  transform: "translate(-50%, -50%)",
+                  zIndex: isMovable ? 20 : 10,
+                  boxShadow: "0 2px 4px rgba(0,0,0,0.3)"
+                }}
+                aria-label={`${SEAT_NAMES[player.seat]} token ${token + 1}`}
+              />
+            );
+          })
+        )}
       </div>
     );
   };
@@ -309,9 +375,14 @@ export default function LudoGame() {
             <ArrowLeft className="h-5 w-5" />
           </Button>
           <div>
-            <h1 className="text-3xl font-bold text-foreground">Ludo Game</h1>
+            <h1 className="text-3xl font-bold text-foreground flex items-center gap-2">
+              Ludo Game
+              <Badge variant={match.mode === "practice" ? "secondary" : "default"}>
+                {match.mode === "practice" ? "Practice" : "Real money"}
+              </Badge>
+            </h1>
             <p className="text-muted-foreground">
-              Match #{matchId} • Entry: ₹{parseFloat(match.entryAmount.toString()).toFixed(2)}
+              Match #{matchId} • {match.mode === "practice" ? "Free practice game" : `Entry: ₹${parseFloat(match.entryAmount.toString()).toFixed(2)}`}
             </p>
           </div>
         </div>
@@ -369,7 +440,9 @@ export default function LudoGame() {
                             <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Starting
                           </span>
                         ) : (
-                          "Start Game (Pay ₹" + parseFloat(match.entryAmount.toString()).toFixed(2) + ")"
+                          match.mode === "practice"
+                            ? "Start Practice Game"
+                            : "Start Game (Pay ₹" + parseFloat(match.entryAmount.toString()).toFixed(2) + ")"
                         )}
                       </Button>
                     )}
@@ -379,17 +452,53 @@ export default function LudoGame() {
                     {renderLudoBoard()}
                     
                     {/* Dice and Controls */}
-                    {gameState === "playing" && (
+                    {gameState === "playing" && board && (
                       <div className="mt-6 flex flex-col items-center">
-                        <div className="w-16 h-16 bg-card border border-border rounded-xl flex items-center justify-center text-3xl font-bold mb-4">
-                          {diceValue}
+                        <p className="text-sm text-muted-foreground mb-2">
+                          {isMyTurn 
+                            ? (board.dice === null ? "Your turn - roll the dice" : "Pick a highlighted token to move")
+                            : `Waiting for ${getPlayerName(board.players[board.currentPlayer].userId)}`}
+                        </p>
+                        <div 
+                          className="w-16 h-16 bg-card border-2 rounded-xl flex items-center justify-center text-3xl font-bold mb-4"
+                          style={{ borderColor: SEAT_COLORS[board.players[board.currentPlayer].seat] }}
+                        >
+                          {board.dice ?? board.lastRoll?.dice ?? "-"}
                         </div>
                         <Button 
                           className="bg-primary hover:bg-primary/90 text-white" 
-                          onClick={rollDice}
+                          onClick={() => rollDiceMutation.mutate()}
+                          disabled={!isMyTurn || board.dice !== null || rollDiceMutation.isPending}
                         >
-                          Roll Dice
+                          {rollDiceMutation.isPending ? (
+                            <span className="flex items-center">
+                              <Loader2 className="mr-2 h-4 w-4 animate-spin" /> Rolling
+                            </span>
+                          ) : (
+                            "Roll Dice"
+                          )}
                         </Button>
+                        {getLastAction() && (
+                          <p className="text-xs text-muted-foreground mt-3">{getLastAction()}</p>
+                        )}
+                        {boardPlayer && (
+                          <p className="text-xs text-muted-foreground mt-1">
+                            You are {SEAT_NAMES[boardPlayer.seat]} • {boardPlayer.tokens.filter(progress => progress === HOME).length}/4 tokens home
+                          </p>
+                        )}
+                      </div>
+                    )}
+                    
+                    {/* Match cancelled or abandoned - entry fees go back to the players */}
+                    {gameState === "ended" && (
+                      <div className="mt-6 text-center">
+                        <h3 className="text-xl font-bold text-foreground mb-2">
+                          {match.status === "abandoned" ? "Match Abandoned" : "Match Cancelled"}
+                        </h3>
+                        <p className="text-muted-foreground">
+                          {match.endReason || "This match ended without a winner."}
+                          {match.mode !== "practice" && match.startTime && " Every player's entry fee has been refunded."}
+                        </p>
                       </div>
                     )}
                     
@@ -427,6 +536,8 @@ export default function LudoGame() {
                       {match.status === "waiting" && "Waiting for players"}
                       {match.status === "in_progress" && "In progress"}
                       {match.status === "completed" && "Completed"}
+                      {match.status === "cancelled" && "Cancelled"}
+                      {match.status === "abandoned" && "Abandoned"}
                     </span>
                   </div>
                   
@@ -472,18 +583,20 @@ export default function LudoGame() {
                       >
                         <div 
                           className="w-8 h-8 rounded-full mr-3 flex items-center justify-center text-white font-bold"
-                          style={{ backgroundColor: getPlayerColor(index) }}
+                          style={{ backgroundColor: getPlayerColor(player.userId, index) }}
                         >
                           {index + 1}
                         </div>
                         <div>
                           <p className="font-medium">
-                            {player.userId === user?.id ? "You" : `Player ${index + 1}`}
+                            {player.userId === user?.id ? "You" : player.username}
                             {player.status === "won" && (
                               <span className="ml-2 text-green-500 text-sm">(Winner)</span>
                             )}
                           </p>
-                          <p className="text-xs text-muted-foreground">Status: {player.status}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {player.rank && `${player.rank} • `}Status: {player.status}
+                          </p>
                         </div>
                       </div>
                     ))}
@@ -35,6 +35,10 @@ import { Wallet, Transaction } from "@shared/schema";
 import { TransactionCard } from "@/components/ui/transaction-card";
 import { FirebaseProfileManagement } from "@/components/firebase-profile";
 import { SubscriptionCard } from "@/components/subscription-card";
+import { SubscriptionManager } from "@/components/subscription-manager";
+import { MatchHistory } from "@/components/match-history";
+import { FriendsCard } from "@/components/friends-panel";
+import { AccountSecurity } from "@/components/account-security";
 
 // Profile update schema
 const profileSchema = z.object({
@@ -111,10 +115,11 @@ export default function ProfilePage() {
     updateProfileMutation.mutate(data);
   };
 
-  // Get total games played
+  // Get total games played, leaving out matches whose entry fee was refunded
   const getTotalGamesPlayed = () => {
     if (!transactions) return 0;
-    return transactions.filter(t => t.type === "game_entry").length;
+    const refunded = transactions.filter(t => t.type === "game_refund").length;
+    return transactions.filter(t => t.type === "game_entry").length - refunded;
   };
 
   // Get total winnings
@@ -125,12 +130,12 @@ export default function ProfilePage() {
       .reduce((sum, transaction) => sum + parseFloat(transaction.amount.toString()), 0);
   };
 
-  // Get total spent
+  // Get total spent, net of refunded entry fees
   const getTotalSpent = () => {
     if (!transactions) return 0;
     return transactions
-      .filter(t => t.type === "game_entry")
-      .reduce((sum, transaction) => sum + Math.abs(parseFloat(transaction.amount.toString())), 0);
+      .filter(t => t.type === "game_entry" || t.type === "game_refund")
+      .reduce((sum, transaction) => sum - parseFloat(transaction.amount.toString()), 0);
   };
 
   return (
@@ -236,6 +241,8 @@ export default function ProfilePage() {
             <Tabs defaultValue="statistics">
               <TabsList className="mb-6">
                 <TabsTrigger value="statistics">Statistics</TabsTrigger>
+                <TabsTrigger value="matches">Matches</TabsTrigger>
+                <TabsTrigger value="friends">Friends</TabsTrigger>
                 <TabsTrigger value="transactions">Transactions</TabsTrigger>
                 <TabsTrigger value="subscription">Subscription</TabsTrigger>
                 <TabsTrigger value="settings">Settings</TabsTrigger>
@@ -307,6 +314,14 @@ export default function ProfilePage() {
                 </Card>
               </TabsContent>
               
+              <TabsContent value="matches">
+                <MatchHistory />
+              </TabsContent>
+
+              <TabsContent value="friends">
+                <FriendsCard />
+              </TabsContent>
+              
               <TabsContent value="transactions">
                 <Card>
                   <CardHeader>
@@ -336,10 +351,12 @@ export default function ProfilePage() {
               </TabsContent>
               
               <TabsContent value="subscription">
+                <SubscriptionManager />
                 <SubscriptionCard />
               </TabsContent>
               
-              <TabsContent value="settings">
+              <TabsContent value="settings" className="space-y-6">
+                <AccountSecurity />
                 <Card>
                   <CardHeader>
                     <CardTitle>Profile Settings</CardTitle>
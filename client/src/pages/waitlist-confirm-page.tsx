@@ -0,0 +1,43 @@
+import { useEffect } from "react";
+import { Redirect, useParams } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest } from "@/lib/queryClient";
+import { Card, CardContent } from "@/components/ui/card";
+import { Loader2 } from "lucide-react";
+
+// Landing page for the link in the waitlist confirmation mail
+export default function WaitlistConfirmPage() {
+  const { token } = useParams();
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/waitlist/confirm/${token}`);
+      return await response.json() as { token: string };
+    },
+  });
+
+  useEffect(() => {
+    confirmMutation.mutate();
+  }, [token]);
+
+  if (confirmMutation.isSuccess) {
+    return <Redirect to={`/waitlist/status/${confirmMutation.data.token}`} />;
+  }
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <Card className="max-w-md w-full">
+        <CardContent className="pt-6 text-center">
+          {confirmMutation.isError ? (
+            <p className="text-muted-foreground">This confirmation link is not valid.</p>
+          ) : (
+            <div className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Loader2 className="h-5 w-5 animate-spin text-primary" />
+              Confirming your email...
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
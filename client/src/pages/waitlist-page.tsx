@@ -0,0 +1,91 @@
+import { useState } from "react";
+import { useLocation, useSearch } from "wouter";
+import { useMutation } from "@tanstack/react-query";
+import { z } from "zod";
+import { apiRequest } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Gamepad, Loader2, MailCheck } from "lucide-react";
+
+const emailSchema = z.string().email("Please enter a valid email address");
+
+// Public signup page. Share links point here with ?ref=<referral code>.
+export default function WaitlistPage() {
+  const { toast } = useToast();
+  const [, navigate] = useLocation();
+  const ref = new URLSearchParams(useSearch()).get("ref") ?? undefined;
+  const [email, setEmail] = useState("");
+  const [sentTo, setSentTo] = useState<string | null>(null);
+
+  const signupMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/waitlist", { email: emailSchema.parse(email), ref });
+      return await response.json() as { message: string; token?: string };
+    },
+    onSuccess: (signup) => {
+      if (signup.token) {
+        navigate(`/waitlist/status/${signup.token}`);
+        return;
+      }
+      setSentTo(email);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could not join the waitlist",
+        description: error instanceof z.ZodError ? error.errors[0].message : error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-2xl font-bold font-sans text-foreground flex items-center justify-center">
+          <Gamepad className="h-6 w-6 text-primary mr-2" />
+          <span>Game<span className="text-primary">Wallet</span></span>
+        </div>
+
+        <Card className="border-border shadow-lg">
+          <CardHeader>
+            <CardTitle>Join the Waitlist</CardTitle>
+            <CardDescription>
+              {ref
+                ? "A friend invited you. Join now and you'll both move up the queue once you confirm your email."
+                : "Get early access and 500 bonus credits at launch."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            {sentTo ? (
+              <div className="flex items-start gap-3 text-sm text-muted-foreground">
+                <MailCheck className="h-5 w-5 text-primary shrink-0" />
+                <p>{sentTo} is already on the waitlist. We've emailed your status link again.</p>
+              </div>
+            ) : (
+              <form
+                className="space-y-4"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  signupMutation.mutate();
+                }}
+              >
+                <Input
+                  type="email"
+                  placeholder="Your email address"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                />
+                <Button className="w-full" type="submit" disabled={signupMutation.isPending}>
+                  {signupMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Join Waitlist
+                </Button>
+              </form>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,106 @@
+import { useParams } from "wouter";
+import { useQuery } from "@tanstack/react-query";
+import { format } from "date-fns";
+import { WaitlistStatus } from "@shared/schema";
+import { useToast } from "@/hooks/use-toast";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Copy, Gamepad, Loader2, MailWarning, PartyPopper, Users } from "lucide-react";
+
+// Private page behind the link sent to each waitlist member
+export default function WaitlistStatusPage() {
+  const { token } = useParams();
+  const { toast } = useToast();
+
+  const { data: status, isLoading } = useQuery<WaitlistStatus>({
+    queryKey: [`/api/waitlist/status/${token}`],
+  });
+
+  const shareUrl = status ? `${window.location.origin}/waitlist?ref=${status.referralCode}` : "";
+
+  const copyShareUrl = () => {
+    navigator.clipboard.writeText(shareUrl);
+    toast({
+      title: "Copied!",
+      description: "Your share link has been copied to clipboard.",
+    });
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-background p-6">
+      <div className="max-w-md w-full space-y-6">
+        <div className="text-2xl font-bold font-sans text-foreground flex items-center justify-center">
+          <Gamepad className="h-6 w-6 text-primary mr-2" />
+          <span>Game<span className="text-primary">Wallet</span></span>
+        </div>
+
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <Loader2 className="h-8 w-8 animate-spin text-primary" />
+          </div>
+        ) : !status ? (
+          <Card>
+            <CardContent className="pt-6 text-center text-muted-foreground">
+              This waitlist link is not valid.
+            </CardContent>
+          </Card>
+        ) : (
+          <Card className="border-border shadow-lg">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <CardTitle>Your Place in Line</CardTitle>
+                <Badge variant={status.confirmed ? "default" : "outline"}>
+                  {status.invited ? "Invited" : status.confirmed ? "Confirmed" : "Unconfirmed"}
+                </Badge>
+              </div>
+              <CardDescription>
+                {status.email} • joined {format(new Date(status.joinedAt), "MMM dd, yyyy")}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              {status.invited ? (
+                <div className="flex items-start gap-3 p-3 rounded-lg border border-border bg-muted/30 text-sm">
+                  <PartyPopper className="h-5 w-5 text-primary shrink-0" />
+                  <p>You're invited! We've emailed you a code to create your account.</p>
+                </div>
+              ) : (
+                <div className="text-center">
+                  <p className="text-5xl font-bold text-primary">#{status.position}</p>
+                  <p className="text-sm text-muted-foreground mt-1">
+                    of {status.total} {status.total === 1 ? "person" : "people"} in the queue
+                  </p>
+                </div>
+              )}
+
+              {!status.confirmed && (
+                <div className="flex items-start gap-3 p-3 rounded-lg border border-border bg-muted/30 text-sm">
+                  <MailWarning className="h-5 w-5 text-primary shrink-0" />
+                  <p>Confirm your email with the link we sent you to hold this place.</p>
+                </div>
+              )}
+
+              <div className="space-y-2">
+                <p className="font-medium flex items-center gap-2">
+                  <Users className="h-4 w-4" />
+                  Move up {status.referralBoost} places for every friend who joins and confirms
+                </p>
+                <div className="flex gap-2">
+                  <Input readOnly value={shareUrl} />
+                  <Button variant="outline" size="icon" onClick={copyShareUrl}>
+                    <Copy className="h-4 w-4" />
+                  </Button>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {status.verifiedReferrals} verified referrals
+                  {status.pendingReferrals > 0 && ` • ${status.pendingReferrals} waiting to confirm`}
+                </p>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,12 +5,13 @@ import { BalanceCard } from "@/components/ui/balance-card";
 import { TransactionCard } from "@/components/ui/transaction-card";
 import { SubscriptionCard } from "@/components/ui/subscription-card";
 import { useQuery } from "@tanstack/react-query";
-import { Wallet, Transaction, Subscription, SubscriptionReward } from "@shared/schema";
-import { Loader2, Shield, ChartLine, Zap, Gift, QrCode, Copy, ExternalLink, Calendar } from "lucide-react";
+import { Wallet, Transaction, Subscription, SubscriptionReward, EntitlementSummary } from "@shared/schema";
+import { Loader2, Shield, ChartLine, Zap, Gift, QrCode, Copy, ExternalLink, Calendar, ArrowRight } from "lucide-react";
 import { generateUpiPaymentUrl, getUpiDetails } from "@/lib/utils/upi-payment";
 import { useAuth } from "@/hooks/use-auth";
 import { useToast } from "@/hooks/use-toast";
 import { trackUserAction } from "@/lib/utils/analytics";
+import { getTransactionMetadata } from "@/lib/utils/transactions";
 import { apiRequest } from "@/lib/queryClient";
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -35,10 +36,22 @@ export default function WalletPage() {
     queryKey: ["/api/subscriptions/active"],
   });
   
+  const { data: entitlements } = useQuery<EntitlementSummary>({
+    queryKey: ["/api/entitlements"],
+  });
+  
   const { data: subscriptionRewards, isLoading: isRewardsLoading } = useQuery<SubscriptionReward[]>({
     queryKey: ["/api/subscription-rewards"],
   });
   
+  const withdrawals = transactions?.filter(t => t.type === "withdrawal") || [];
+  
+  const withdrawalStatusLabel: Record<string, string> = {
+    pending: "On hold",
+    completed: "Paid",
+    rejected: "Rejected"
+  };
+  
   // Copy UPI ID to clipboard
   const copyUpiId = () => {
     navigator.clipboard.writeText(platformUpiId);
@@ -103,8 +116,8 @@ export default function WalletPage() {
                           <Zap className="h-5 w-5 text-primary" />
                         </div>
                         <div>
-                          <h4 className="text-lg font-bold text-foreground">Instant Withdrawals</h4>
-                          <p className="text-muted-foreground">Withdraw your winnings instantly to your bank account or UPI ID.</p>
+                          <h4 className="text-lg font-bold text-foreground">Reviewed Withdrawals</h4>
+                          <p className="text-muted-foreground">Withdrawal requests are held from your balance and paid out to your UPI ID after admin review.</p>
                         </div>
                       </div>
                       
@@ -297,6 +310,11 @@ export default function WalletPage() {
                   <CardDescription>
                     Your active subscription packages and rewards
                   </CardDescription>
+                  {entitlements?.active && (
+                    <p className="text-sm text-muted-foreground">
+                      Benefits: {entitlements.commissionDiscount}% off game commission • <span className="capitalize">{entitlements.supportTier}</span> support
+                    </p>
+                  )}
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-4">
@@ -386,6 +404,52 @@ export default function WalletPage() {
               </Card>
             ) : null}
   
+            {/* Withdrawal Requests */}
+            {withdrawals.length > 0 && (
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center">
+                    <ArrowRight className="w-5 h-5 mr-2 text-primary" />
+                    Withdrawal Requests
+                  </CardTitle>
+                  <CardDescription>
+                    Track the status of your payouts
+                  </CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-2">
+                    {withdrawals.map(withdrawal => {
+                      const metadata = getTransactionMetadata(withdrawal);
+                      
+                      return (
+                        <div key={withdrawal.id} className="flex justify-between items-center border-b border-border py-2">
+                          <div>
+                            <div className="font-medium">₹{Math.abs(parseFloat(withdrawal.amount)).toFixed(2)} to {metadata.upiId || "UPI"}</div>
+                            <div className="text-sm text-muted-foreground">
+                              Requested {new Date(withdrawal.createdAt).toLocaleDateString()}
+                              {metadata.processedAt && ` • Processed ${new Date(metadata.processedAt).toLocaleDateString()}`}
+                            </div>
+                            {metadata.payoutReference && (
+                              <div className="text-xs text-muted-foreground">Payout ref: {metadata.payoutReference}</div>
+                            )}
+                            {metadata.statusReason && (
+                              <div className="text-xs text-red-600 dark:text-red-400">{metadata.statusReason}</div>
+                            )}
+                          </div>
+                          <span className={`px-2 py-1 text-xs rounded-full 
+                            ${withdrawal.status === 'completed' ? 'bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-400' : 
+                            withdrawal.status === 'rejected' ? 'bg-red-100 text-red-800 dark:bg-red-900/30 dark:text-red-400' :
+                            'bg-amber-100 text-amber-800 dark:bg-amber-900/30 dark:text-amber-400'}`}>
+                            {withdrawalStatusLabel[withdrawal.status] || withdrawal.status}
+                          </span>
+                        </div>
+                      );
+                    })}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
+  
             {/* Recent Transactions Card */}
             <Card>
               <CardContent className="p-6">
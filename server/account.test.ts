@@ -0,0 +1,238 @@
+import { after, before, beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createHash } from "crypto";
+import { createServer, type Server as HttpServer } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import { Server as SocketServer } from "socket.io";
+import { io as connectSocket, type Socket as ClientSocket } from "socket.io-client";
+import { PASSWORD_RESET_TTL_HOURS, changePassword, requestPasswordReset, resetPassword } from "./account";
+import { setupAuth } from "./auth";
+import { mailer, type MailMessage } from "./mail";
+import { comparePasswords, hashPassword } from "./passwords";
+import { authenticateSockets } from "./sockets";
+import { storage } from "./storage";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Mail goes here instead of out
+let sent: MailMessage[] = [];
+mailer.setTransport({ async send(message) { sent.push(message); } });
+
+let userCount = 0;
+
+async function createAccount() {
+  const username = `account${++userCount}`;
+  const user = await storage.createUser({ username, password: await hashPassword("old-password"), email: `${username}@example.com` });
+  return user;
+}
+
+// The token in the last link mailed to the address
+function mailedToken(email: string, link: "reset" | "verify" = "reset"): string {
+  const message = sent.filter(message => message.to === email).at(-1);
+  const token = message?.text.match(new RegExp(`\\?${link}=([0-9a-f]+)`))?.[1];
+  assert.ok(token, `no ${link} link was mailed to ${email}`);
+  return token;
+}
+
+const sessionIds = async () => Object.keys(await new Promise<Record<string, unknown>>((resolve, reject) =>
+  storage.sessionStore.all((error: any, sessions: Record<string, unknown>) => error ? reject(error) : resolve(sessions ?? {}))
+));
+
+// Sign a session in for the user through the store, as a login would
+async function signIn(userId: number, sid: string) {
+  await new Promise<void>((resolve, reject) =>
+    storage.sessionStore.set(sid, { cookie: { originalMaxAge: HOUR_MS, expires: new Date(Date.now() + HOUR_MS) }, passport: { user: userId } } as any,
+      (error: any) => error ? reject(error) : resolve())
+  );
+}
+
+beforeEach(() => {
+  sent = [];
+});
+
+describe("password reset tokens", () => {
+  it("stores only a hash of the token", async () => {
+    const user = await createAccount();
+
+    await requestPasswordReset(user.email, "http://localhost:4000");
+    const token = mailedToken(user.email);
+
+    assert.equal(await storage.getAuthTokenByHash(token), undefined);
+    const stored = await storage.getAuthTokenByHash(createHash("sha256").update(token).digest("hex"));
+    assert.equal(stored?.userId, user.id);
+    assert.equal(stored?.purpose, "reset_password");
+  });
+
+  it("resets the password once per link", async () => {
+    const user = await createAccount();
+    await requestPasswordReset(user.email, "http://localhost:4000");
+    const token = mailedToken(user.email);
+
+    const reset = await resetPassword(token, "new-password");
+    assert.equal(reset.error, undefined);
+    assert.ok(reset.user?.emailVerifiedAt);
+    assert.ok(await comparePasswords("new-password", (await storage.getUser(user.id))!.password));
+
+    const again = await resetPassword(token, "another-password");
+    assert.equal(again.error, "This reset link is invalid or has expired");
+    assert.ok(await comparePasswords("new-password", (await storage.getUser(user.id))!.password));
+  });
+
+  it("stops an earlier link working once a new one is sent", async () => {
+    const user = await createAccount();
+    await requestPasswordReset(user.email, "http://localhost:4000");
+    const first = mailedToken(user.email);
+    await requestPasswordReset(user.email, "http://localhost:4000");
+
+    assert.equal((await resetPassword(first, "new-password")).error, "This reset link is invalid or has expired");
+    assert.equal((await resetPassword(mailedToken(user.email), "new-password")).error, undefined);
+  });
+
+  it("refuses a link once it has expired", async t => {
+    const user = await createAccount();
+    await requestPasswordReset(user.email, "http://localhost:4000");
+    const token = mailedToken(user.email);
+
+    t.mock.timers.enable({ apis: ["Date"], now: Date.now() + PASSWORD_RESET_TTL_HOURS * HOUR_MS + 1 });
+    const reset = await resetPassword(token, "new-password");
+    t.mock.timers.reset();
+
+    assert.equal(reset.error, "This reset link is invalid or has expired");
+    assert.ok(await comparePasswords("old-password", (await storage.getUser(user.id))!.password));
+  });
+
+  it("signs out every session of the user on a reset", async () => {
+    const user = await createAccount();
+    const other = await createAccount();
+    await signIn(user.id, `reset-phone-${user.id}`);
+    await signIn(user.id, `reset-laptop-${user.id}`);
+    await signIn(other.id, `reset-other-${other.id}`);
+
+    await requestPasswordReset(user.email, "http://localhost:4000");
+    await resetPassword(mailedToken(user.email), "new-password");
+
+    const remaining = await sessionIds();
+    assert.ok(!remaining.includes(`reset-phone-${user.id}`));
+    assert.ok(!remaining.includes(`reset-laptop-${user.id}`));
+    assert.ok(remaining.includes(`reset-other-${other.id}`));
+  });
+
+  it("keeps the session changing the password signed in and signs out the rest", async () => {
+    const user = await createAccount();
+    await signIn(user.id, `change-current-${user.id}`);
+    await signIn(user.id, `change-stale-${user.id}`);
+    await requestPasswordReset(user.email, "http://localhost:4000");
+    const resetToken = mailedToken(user.email);
+
+    const wrong = await changePassword(user.id, `change-current-${user.id}`, "not-the-password", "new-password");
+    assert.equal(wrong.error, "Current password is incorrect");
+    assert.equal((await changePassword(user.id, `change-current-${user.id}`, "old-password", "new-password")).error, undefined);
+
+    const remaining = await sessionIds();
+    assert.ok(remaining.includes(`change-current-${user.id}`));
+    assert.ok(!remaining.includes(`change-stale-${user.id}`));
+    assert.equal((await resetPassword(resetToken, "another-password")).error, "This reset link is invalid or has expired");
+  });
+
+  it("sends nothing for an email without an account", async () => {
+    await requestPasswordReset("nobody@example.com", "http://localhost:4000");
+
+    assert.deepEqual(sent, []);
+  });
+});
+
+describe("account routes", () => {
+  let server: HttpServer;
+  let io: SocketServer;
+  let baseUrl: string;
+  const sockets: ClientSocket[] = [];
+
+  before(async () => {
+    const app = express();
+    app.use(express.json());
+    server = createServer(app);
+    io = new SocketServer(server);
+    authenticateSockets(io, setupAuth(app));
+
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(async () => {
+    sockets.forEach(socket => socket.close());
+    await new Promise(resolve => io.close(resolve));
+  });
+
+  const post = (path: string, body: unknown, cookie?: string) =>
+    fetch(`${baseUrl}${path}`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json", ...(cookie ? { Cookie: cookie } : {}) },
+      body: JSON.stringify(body)
+    });
+
+  // Log in and return the session cookie
+  async function logIn(username: string, password: string): Promise<string> {
+    const response = await post("/api/login", { username, password });
+    assert.equal(response.status, 200);
+    return response.headers.getSetCookie()[0].split(";")[0];
+  }
+
+  async function connect(cookie: string): Promise<ClientSocket> {
+    const socket = connectSocket(baseUrl, { transports: ["websocket"], extraHeaders: { Cookie: cookie }, reconnection: false });
+    sockets.push(socket);
+    await new Promise<void>((resolve, reject) => {
+      socket.once("connect", resolve);
+      socket.once("connect_error", reject);
+    });
+    return socket;
+  }
+
+  const disconnected = (socket: ClientSocket) => new Promise<string>(resolve => socket.once("disconnect", resolve));
+
+  const signedIn = async (cookie: string) =>
+    (await fetch(`${baseUrl}/api/user`, { headers: { Cookie: cookie } })).status === 200;
+
+  it("answers the same whether or not the email has an account", async () => {
+    const user = await createAccount();
+
+    const known = await post("/api/forgot-password", { email: user.email });
+    const unknown = await post("/api/forgot-password", { email: "nobody@example.com" });
+
+    assert.equal(known.status, unknown.status);
+    assert.deepEqual(await known.json(), await unknown.json());
+    assert.deepEqual(sent.map(message => message.to), [user.email]);
+  });
+
+  it("disconnects the sockets of every session a reset signs out", async () => {
+    const user = await createAccount();
+    const phone = await logIn(user.username, "old-password");
+    const laptop = await logIn(user.username, "old-password");
+    const [phoneSocket, laptopSocket] = await Promise.all([connect(phone), connect(laptop)]);
+    const closed = Promise.all([disconnected(phoneSocket), disconnected(laptopSocket)]);
+
+    await post("/api/forgot-password", { email: user.email });
+    const response = await post("/api/reset-password", { token: mailedToken(user.email), password: "new-password" });
+    assert.equal(response.status, 200);
+
+    assert.deepEqual(await closed, ["io server disconnect", "io server disconnect"]);
+    assert.equal(await signedIn(phone), false);
+    assert.equal(await signedIn(laptop), false);
+  });
+
+  it("keeps the socket of the session that changed the password connected", async () => {
+    const user = await createAccount();
+    const current = await logIn(user.username, "old-password");
+    const stale = await logIn(user.username, "old-password");
+    const [currentSocket, staleSocket] = await Promise.all([connect(current), connect(stale)]);
+    const closed = disconnected(staleSocket);
+
+    const response = await post("/api/change-password", { currentPassword: "old-password", newPassword: "new-password" }, current);
+    assert.equal(response.status, 200);
+
+    assert.equal(await closed, "io server disconnect");
+    assert.equal(currentSocket.connected, true);
+    assert.equal(await signedIn(current), true);
+    assert.equal(await signedIn(stale), false);
+  });
+});
@@ -0,0 +1,124 @@
+import { createHash, randomBytes } from "crypto";
+import type { AuthToken, AuthTokenPurpose, User } from "@shared/schema";
+import { storage } from "./storage";
+import { sendQuietly } from "./mail";
+import { comparePasswords, hashPassword } from "./passwords";
+import { disconnectUserSockets } from "./sockets";
+
+// How long the links in account emails keep working
+export const EMAIL_VERIFICATION_TTL_HOURS = 48;
+export const PASSWORD_RESET_TTL_HOURS = 1;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface AccountChange {
+  user?: User;
+  error?: string;
+}
+
+const hashToken = (token: string) => createHash("sha256").update(token).digest("hex");
+
+// Issue a new token for the purpose. Links sent to the user for it before stop working.
+async function issueToken(userId: number, purpose: AuthTokenPurpose, ttlHours: number): Promise<string> {
+  const token = randomBytes(32).toString("hex");
+  const now = new Date();
+
+  await storage.revokeAuthTokens(userId, purpose, now);
+  await storage.createAuthToken({
+    userId,
+    purpose,
+    tokenHash: hashToken(token),
+    expiresAt: new Date(now.getTime() + ttlHours * HOUR_MS)
+  });
+  return token;
+}
+
+// Use up a token. Undefined if it is unknown, for another purpose, expired or already used.
+async function redeemToken(token: string, purpose: AuthTokenPurpose): Promise<AuthToken | undefined> {
+  const authToken = await storage.getAuthTokenByHash(hashToken(token));
+  const now = new Date();
+  if (!authToken || authToken.purpose !== purpose || authToken.usedAt || authToken.expiresAt <= now) {
+    return undefined;
+  }
+  return storage.useAuthToken(authToken.id, now);
+}
+
+export async function sendEmailVerification(user: User, appUrl: string): Promise<void> {
+  const token = await issueToken(user.id, "verify_email", EMAIL_VERIFICATION_TTL_HOURS);
+  await sendQuietly({
+    to: user.email,
+    subject: "Verify your email",
+    text: `Hi ${user.username},\n\nConfirm this is your email address:\n${appUrl}/auth?verify=${token}\n\n` +
+      `The link works for ${EMAIL_VERIFICATION_TTL_HOURS} hours.`
+  });
+}
+
+// Verify the email behind a verification link. Following the link again is harmless.
+export async function verifyEmail(token: string): Promise<AccountChange> {
+  const authToken = await redeemToken(token, "verify_email");
+  if (authToken) return { user: await storage.markEmailVerified(authToken.userId, new Date()) };
+
+  const usedToken = await storage.getAuthTokenByHash(hashToken(token));
+  const user = usedToken?.purpose === "verify_email" && usedToken.usedAt ? await storage.getUser(usedToken.userId) : undefined;
+  return user?.emailVerifiedAt ? { user } : { error: "This verification link is invalid or has expired" };
+}
+
+// Mail a reset link when the email belongs to an account. Callers respond the same
+// either way, so the form cannot be used to find out who has an account.
+export async function requestPasswordReset(email: string, appUrl: string): Promise<void> {
+  const user = await storage.getUserByEmail(email);
+  if (!user || user.isBot) return;
+
+  const token = await issueToken(user.id, "reset_password", PASSWORD_RESET_TTL_HOURS);
+  await sendQuietly({
+    to: user.email,
+    subject: "Reset your password",
+    text: `Hi ${user.username},\n\nChoose a new password here:\n${appUrl}/auth?reset=${token}\n\n` +
+      `The link works once, for ${PASSWORD_RESET_TTL_HOURS} hour. If you didn't ask to reset your password, you can ignore this email.`
+  });
+}
+
+async function sendPasswordChangedMail(user: User): Promise<void> {
+  await sendQuietly({
+    to: user.email,
+    subject: "Your password was changed",
+    text: `Hi ${user.username},\n\nThe password for your account was just changed. ` +
+      `If this wasn't you, reset your password straight away and contact support.`
+  });
+}
+
+// Set a new password from a reset link. Following the link shows the user reads mail
+// at the address, so it verifies the email too. Every session the user had is signed
+// out, along with its open connections.
+export async function resetPassword(token: string, password: string): Promise<AccountChange> {
+  const authToken = await redeemToken(token, "reset_password");
+  if (!authToken) return { error: "This reset link is invalid or has expired" };
+
+  const now = new Date();
+  await storage.updateUser(authToken.userId, { password: await hashPassword(password) });
+  await storage.revokeAuthTokens(authToken.userId, "reset_password", now);
+  await storage.destroyUserSessions(authToken.userId);
+  await disconnectUserSockets(authToken.userId);
+  const user = await storage.markEmailVerified(authToken.userId, now);
+  if (user) await sendPasswordChangedMail(user);
+
+  return { user };
+}
+
+// Change a signed-in user's password. Reset links sent before no longer apply, and the
+// user's other sessions are signed out; the session making the change stays signed in.
+export async function changePassword(userId: number, currentSessionId: string, currentPassword: string, newPassword: string): Promise<AccountChange> {
+  const user = await storage.getUser(userId);
+  if (!user) return { error: "User not found" };
+  if (!(await comparePasswords(currentPassword, user.password))) {
+    return { error: "Current password is incorrect" };
+  }
+
+  const updated = await storage.updateUser(userId, { password: await hashPassword(newPassword) });
+  await storage.revokeAuthTokens(userId, "reset_password", new Date());
+  await storage.destroyUserSessions(userId, currentSessionId);
+  await disconnectUserSockets(userId, currentSessionId);
+  if (updated) await sendPasswordChangedMail(updated);
+
+  return { user: updated };
+}
@@ -0,0 +1,92 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createServer, type Server as HttpServer } from "http";
+import type { AddressInfo } from "net";
+import express from "express";
+import type { User } from "@shared/schema";
+import { audit } from "./audit";
+import { inviteBatchAuditRecord } from "./waitlist";
+import { storage } from "./storage";
+
+describe("audit", () => {
+  let server: HttpServer;
+  let baseUrl: string;
+  let admin: User;
+
+  before(async () => {
+    admin = await storage.createUser({ username: "auditadmin", password: "hashed", email: "auditadmin@example.com" });
+
+    const app = express();
+    app.use((req, _res, next) => {
+      req.user = admin;
+      next();
+    });
+    app.post("/secret", audit("test.secret", undefined, { recordResponse: ({ secret, ...rest }) => rest }), (_req, res) => {
+      res.status(201).json({ id: 7, secret: "hunter2" });
+    });
+    app.post("/refused", audit("test.refused"), (_req, res) => {
+      res.status(400).json({ message: "No" });
+    });
+    app.get("/export", audit("test.export"), (_req, res) => {
+      res.send("id\n1\n");
+    });
+
+    server = createServer(app);
+    await new Promise<void>(resolve => server.listen(0, resolve));
+    baseUrl = `http://localhost:${(server.address() as AddressInfo).port}`;
+  });
+
+  after(() => new Promise(resolve => server.close(resolve)));
+
+  const entries = async (action: string) =>
+    (await storage.getAuditLog({ action, limit: 10, offset: 0 })).entries;
+
+  it("writes the entry before the response is sent", async () => {
+    const response = await fetch(`${baseUrl}/secret`, { method: "POST" });
+
+    assert.equal(response.status, 201);
+    assert.deepEqual(await response.json(), { id: 7, secret: "hunter2" });
+    const [entry] = await entries("test.secret");
+    assert.equal(entry?.actorId, admin.id);
+    assert.equal(entry?.after, JSON.stringify({ id: 7 }));
+  });
+
+  it("records what a read viewed without a snapshot", async () => {
+    const response = await fetch(`${baseUrl}/export`);
+
+    assert.equal(await response.text(), "id\n1\n");
+    const [entry] = await entries("test.export");
+    assert.equal(entry?.after, null);
+  });
+
+  it("records nothing for a request that fails", async () => {
+    assert.equal((await fetch(`${baseUrl}/refused`, { method: "POST" })).status, 400);
+
+    assert.deepEqual(await entries("test.refused"), []);
+  });
+
+  it("still responds, and logs the entry, when it cannot be written", async t => {
+    t.mock.method(storage, "createAuditLogEntry", async () => {
+      throw new Error("Database unavailable");
+    });
+    const logged = t.mock.method(console, "error", () => {});
+
+    const response = await fetch(`${baseUrl}/secret`, { method: "POST" });
+
+    assert.equal(response.status, 201);
+    const [message, , entry] = logged.mock.calls[0].arguments;
+    assert.equal(message, "Error recording audit log entry for test.secret:");
+    assert.equal(entry.action, "test.secret");
+    assert.equal(entry.after, JSON.stringify({ id: 7 }));
+  });
+
+  it("keeps invite codes out of the record of a sent batch", () => {
+    const batch = { id: 1, createdById: admin.id, size: 1, createdAt: new Date() };
+    const invite = { id: 2, code: "ABCD1234", batchId: 1, waitlistId: 3, email: "queued@example.com", usedAt: null, usedById: null, createdAt: new Date() };
+
+    const record = inviteBatchAuditRecord({ batch, codes: [invite] });
+
+    assert.ok(!JSON.stringify(record).includes("ABCD1234"));
+    assert.equal(record.codes[0].email, "queued@example.com");
+  });
+});
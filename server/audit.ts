@@ -0,0 +1,123 @@
+import type { NextFunction, Request, Response } from "express";
+import type { AuditLogView, InsertAuditLogEntry } from "@shared/schema";
+import { storage, type AuditLogQuery } from "./storage";
+
+export type AuditEntityType =
+  "transaction" | "game_match" | "user" | "subscription_plan" | "chat_message" | "chat_report" | "chat_sanction";
+
+// Most rows a CSV export of the audit log holds
+export const AUDIT_LOG_EXPORT_LIMIT = 10000;
+
+// Load an entity for the before and after snapshots. Users are recorded without their password.
+const ENTITY_LOADERS: Record<AuditEntityType, (id: number) => Promise<object | undefined>> = {
+  transaction: id => storage.getTransaction(id),
+  game_match: id => storage.getGameMatch(id),
+  user: async id => {
+    const user = await storage.getUser(id);
+    if (!user) return undefined;
+    const { password, ...profile } = user;
+    return profile;
+  },
+  subscription_plan: id => storage.getSubscriptionPlan(id),
+  chat_message: id => storage.getChatMessage(id),
+  chat_report: id => storage.getChatReport(id),
+  chat_sanction: id => storage.getChatSanction(id)
+};
+
+const snapshot = (value: unknown) => value === undefined || value === null ? null : JSON.stringify(value);
+
+// The target named by the route, or failing that the id of what the response created
+function targetId(req: Request, responseBody: unknown): string | undefined {
+  const id = req.params.transactionId ?? req.params.id ?? (responseBody as { id?: unknown } | undefined)?.id;
+  return id === undefined || id === null ? undefined : String(id);
+}
+
+async function loadEntity(entityType: AuditEntityType | undefined, entityId: string | undefined): Promise<object | undefined> {
+  if (!entityType || !entityId || !/^\d+$/.test(entityId)) return undefined;
+  return ENTITY_LOADERS[entityType](parseInt(entityId));
+}
+
+export interface AuditOptions {
+  // What to keep of the response as the after snapshot of an action without a target
+  // entity, e.g. to leave out secrets it hands to the admin. The whole response by default.
+  recordResponse?: (responseBody: any) => unknown;
+}
+
+// Middleware recording a privileged action in the audit log: who did it, from where,
+// and the target entity as it was before and after. Goes after requirePermission.
+// Only requests that succeed are recorded, since the others change nothing. Reads
+// record what was viewed without a snapshot; actions without a target entity keep
+// their response as the after snapshot. The entry is written before the response is
+// sent, so an action the admin saw succeed is in the log. A failure to write it is
+// logged along with the entry, never sent to the client, as the action itself has
+// already happened.
+export function audit(action: string, entityType?: AuditEntityType, options: AuditOptions = {}) {
+  return async (req: Request, res: Response, next: NextFunction) => {
+    const isRead = req.method === "GET";
+
+    let before: object | undefined;
+    try {
+      if (!isRead) before = await loadEntity(entityType, targetId(req, undefined));
+    } catch (error) {
+      console.error(`Error loading audit snapshot for ${action}:`, error);
+    }
+
+    let responseBody: unknown;
+    const json = res.json.bind(res);
+    res.json = (body: unknown) => {
+      responseBody = body;
+      return json(body);
+    };
+
+    // Everything the handler sends, JSON included, goes through res.send
+    const send = res.send.bind(res);
+    res.send = ((body?: unknown) => {
+      res.send = send;
+      if (res.statusCode >= 400) return send(body);
+
+      const entityId = entityType ? targetId(req, responseBody) : undefined;
+      const entry: InsertAuditLogEntry = {
+        actorId: req.user?.id ?? null,
+        action,
+        entityType: entityType ?? null,
+        entityId: entityId ?? null,
+        before: snapshot(before),
+        after: null,
+        ip: req.ip ?? null
+      };
+
+      (async () => {
+        if (!isRead) {
+          const response = options.recordResponse && responseBody !== undefined ? options.recordResponse(responseBody) : responseBody;
+          entry.after = snapshot((await loadEntity(entityType, entityId)) ?? response);
+        }
+        await storage.createAuditLogEntry(entry);
+      })()
+        .catch(error => console.error(`Error recording audit log entry for ${action}:`, error, entry))
+        .finally(() => send(body));
+      return res;
+    }) as Response["send"];
+
+    next();
+  };
+}
+
+// A page of the audit log with each actor's username
+export async function getAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogView[]; total: number }> {
+  const { entries, total } = await storage.getAuditLog(query);
+
+  const actorIds = Array.from(new Set(entries.map(entry => entry.actorId).filter((id): id is number => id !== null)));
+  const usernames = new Map<number, string>();
+  for (const actorId of actorIds) {
+    const actor = await storage.getUser(actorId);
+    if (actor) usernames.set(actorId, actor.username);
+  }
+
+  return {
+    entries: entries.map(entry => ({
+      ...entry,
+      actorUsername: entry.actorId !== null ? usernames.get(entry.actorId) ?? null : null
+    })),
+    total
+  };
+}
@@ -1,11 +1,16 @@
 import passport from "passport";
 import { Strategy as LocalStrategy } from "passport-local";
-import { Express } from "express";
+import { Express, RequestHandler } from "express";
 import session from "express-session";
-import { scrypt, randomBytes, timingSafeEqual } from "crypto";
-import { promisify } from "util";
 import { storage } from "./storage";
+import { comparePasswords, hashPassword } from "./passwords";
+import { admitRegistration, completeRegistration, getRegistrationMode, releaseRegistration } from "./registration";
+import { changePassword, requestPasswordReset, resetPassword, sendEmailVerification, verifyEmail } from "./account";
+import { appUrl } from "./mail";
+import { notificationService } from "./notifications";
+import { isReservedForBots } from "./bots";
 import { User as SelectUser } from "@shared/schema";
+import { z } from "zod";
 
 declare global {
   namespace Express {
@@ -13,22 +18,11 @@ declare global {
   }
 }
 
-const scryptAsync = promisify(scrypt);
+// Same rule as the sign-up form
+const passwordInput = z.string().min(6, "Password must be at least 6 characters");
 
-async function hashPassword(password: string) {
-  const salt = randomBytes(16).toString("hex");
-  const buf = (await scryptAsync(password, salt, 64)) as Buffer;
-  return `${buf.toString("hex")}.${salt}`;
-}
-
-async function comparePasswords(supplied: string, stored: string) {
-  const [hashed, salt] = stored.split(".");
-  const hashedBuf = Buffer.from(hashed, "hex");
-  const suppliedBuf = (await scryptAsync(supplied, salt, 64)) as Buffer;
-  return timingSafeEqual(hashedBuf, suppliedBuf);
-}
-
-export function setupAuth(app: Express) {
+// Returns the session middleware, so Socket.IO handshakes can be authenticated with the same cookie
+export function setupAuth(app: Express): RequestHandler {
   const sessionSettings: session.SessionOptions = {
     secret: process.env.SESSION_SECRET || "gaming-wallet-platform-secret",
     resave: false,
@@ -39,15 +33,18 @@ export function setupAuth(app: Express) {
     }
   };
 
+  const sessionMiddleware = session(sessionSettings);
+
   app.set("trust proxy", 1);
-  app.use(session(sessionSettings));
+  app.use(sessionMiddleware);
   app.use(passport.initialize());
   app.use(passport.session());
 
   passport.use(
     new LocalStrategy(async (username, password, done) => {
       const user = await storage.getUserByUsername(username);
-      if (!user || !(await comparePasswords(password, user.password))) {
+      // Bot accounts are played by the server and can never log in
+      if (!user || user.isBot || !(await comparePasswords(password, user.password))) {
         return done(null, false);
       } else {
         return done(null, user);
@@ -58,12 +55,21 @@ export function setupAuth(app: Express) {
   passport.serializeUser((user, done) => done(null, user.id));
   passport.deserializeUser(async (id: number, done) => {
     const user = await storage.getUser(id);
-    done(null, user);
+    done(null, user?.isBot ? false : user);
+  });
+
+  // Which registration gate is in force, so the sign-up form can explain it
+  app.get("/api/registration", (req, res) => {
+    res.json({ mode: getRegistrationMode() });
   });
 
   app.post("/api/register", async (req, res, next) => {
     try {
-      const { username, email, password, fullName, phone, upiId, referralCode } = req.body;
+      const { username, email, password, fullName, phone, upiId, referralCode, inviteCode } = req.body;
+      
+      if (typeof username === "string" && typeof email === "string" && isReservedForBots(username, email)) {
+        return res.status(400).json({ message: "This username or email is reserved" });
+      }
       
       // Check if user already exists
       const existingUsername = await storage.getUserByUsername(username);
@@ -89,18 +95,31 @@ export function setupAuth(app: Express) {
         }
       }
 
+      // Check the invite code the registration mode asks for
+      const pass = await admitRegistration(typeof inviteCode === "string" ? inviteCode : undefined);
+      if (pass.error) {
+        return res.status(403).json({ message: pass.error });
+      }
+
       // Create new user
       const hashedPassword = await hashPassword(password);
-      const user = await storage.createUser({
-        username,
-        email,
-        password: hashedPassword,
-        fullName,
-        phone,
-        upiId,
-        referredBy: referrerId,
-        rewardPoints: 25 // Bonus points for new users
-      });
+      let user;
+      try {
+        user = await storage.createUser({
+          username,
+          email,
+          password: hashedPassword,
+          fullName,
+          phone,
+          upiId,
+          referredBy: referrerId,
+          rewardPoints: 25 // Bonus points for new users
+        });
+      } catch (error) {
+        await releaseRegistration(pass);
+        throw error;
+      }
+      await completeRegistration(pass, user.id);
 
       // Create wallet for the user
       await storage.createWallet({ userId: user.id, balance: "0" });
@@ -111,32 +130,39 @@ export function setupAuth(app: Express) {
         await storage.addRewardPoints(referrerId, 100);
         
         // Award referral bonus to both parties (₹10 each)
-        await storage.updateWalletBalance(referrerId, 10);
-        await storage.updateWalletBalance(user.id, 10);
-        
-        // Record transactions
-        await storage.createTransaction({
-          userId: referrerId,
-          amount: "10",
-          type: "referral_bonus",
-          status: "completed",
-          description: `Referral bonus for inviting ${username}`,
-          commissionAmount: "0"
-        });
-        
-        await storage.createTransaction({
-          userId: user.id,
-          amount: "10",
-          type: "referral_bonus",
-          status: "completed",
-          description: "Welcome bonus for using a referral code",
-          commissionAmount: "0"
+        await storage.postWalletTransactions([
+          {
+            userId: referrerId,
+            amount: "10",
+            type: "referral_bonus",
+            status: "completed",
+            description: `Referral bonus for inviting ${username}`,
+            commissionAmount: "0"
+          },
+          {
+            userId: user.id,
+            amount: "10",
+            type: "referral_bonus",
+            status: "completed",
+            description: "Welcome bonus for using a referral code",
+            commissionAmount: "0"
+          }
+        ]);
+
+        await notificationService.notify(referrerId, {
+          type: "referral",
+          title: "New referral",
+          body: `${username} signed up with your referral code. You earned ₹10 and 100 reward points.`,
+          link: "/wallet"
         });
       }
       
       // Generate referral code for new user
       await storage.generateReferralCode(user.id);
 
+      // Ask the user to confirm their email address
+      await sendEmailVerification(user, appUrl());
+
       // Log the user in
       req.login(user, (err) => {
         if (err) return next(err);
@@ -201,10 +227,104 @@ export function setupAuth(app: Express) {
     });
   });
 
+  // Confirm an email address with the token from the verification email
+  app.post("/api/verify-email", async (req, res, next) => {
+    try {
+      const { token } = z.object({ token: z.string().min(1) }).parse(req.body);
+      
+      const { user, error } = await verifyEmail(token);
+      if (error || !user) {
+        return res.status(400).json({ message: error });
+      }
+      
+      res.json({ message: "Your email has been verified" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  // Send the signed-in user a new verification email
+  app.post("/api/verify-email/resend", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      if (req.user.emailVerifiedAt) {
+        return res.status(400).json({ message: "Your email is already verified" });
+      }
+      
+      await sendEmailVerification(req.user, appUrl());
+      res.json({ message: `Verification email sent to ${req.user.email}` });
+    } catch (error) {
+      next(error);
+    }
+  });
+
+  // Mail a password reset link. The response is the same whether or not the email has an account.
+  app.post("/api/forgot-password", async (req, res, next) => {
+    try {
+      const { email } = z.object({ email: z.string().trim().email() }).parse(req.body);
+      
+      await requestPasswordReset(email, appUrl());
+      res.json({ message: "If an account uses that email, a reset link is on its way" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/reset-password", async (req, res, next) => {
+    try {
+      const { token, password } = z.object({
+        token: z.string().min(1),
+        password: passwordInput
+      }).parse(req.body);
+      
+      const { user, error } = await resetPassword(token, password);
+      if (error || !user) {
+        return res.status(400).json({ message: error });
+      }
+      
+      res.json({ message: "Your password has been reset. You can now log in." });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
+  app.post("/api/change-password", async (req, res, next) => {
+    if (!req.isAuthenticated()) return res.sendStatus(401);
+    try {
+      const { currentPassword, newPassword } = z.object({
+        currentPassword: z.string().min(1),
+        newPassword: passwordInput
+      }).parse(req.body);
+      
+      const { user, error } = await changePassword(req.user.id, req.sessionID, currentPassword, newPassword);
+      if (error || !user) {
+        return res.status(400).json({ message: error });
+      }
+      
+      res.json({ message: "Your password has been changed" });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      next(error);
+    }
+  });
+
   app.get("/api/user", (req, res) => {
     if (!req.isAuthenticated()) return res.sendStatus(401);
     const safeUser = { ...req.user };
     delete (safeUser as any).password;
     res.json(safeUser);
   });
+
+  return sessionMiddleware;
 }
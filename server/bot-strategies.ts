@@ -0,0 +1,122 @@
+import { randomInt } from "crypto";
+import {
+  HOME, LUDO_GAME_NAME, SAFE_SQUARES, YARD, trackSquare, type LudoState
+} from "./ludo";
+
+// How bots choose what to do. Strategies are registered per game and difficulty,
+// so a new game or a smarter bot plugs in here without touching the bot service.
+
+export const BOT_DIFFICULTIES = ["easy", "medium", "hard"] as const;
+export type BotDifficulty = typeof BOT_DIFFICULTIES[number];
+
+export function isBotDifficulty(value: unknown): value is BotDifficulty {
+  return BOT_DIFFICULTIES.includes(value as BotDifficulty);
+}
+
+// Picks one of the legal choices for the current state
+export interface BotStrategy<State, Choice> {
+  name: string;
+  choose(state: State, choices: Choice[]): Choice;
+}
+
+// Practice matches in games without a server-side engine are simulated: the strategy picks the winner
+export interface SimulatedMatch {
+  botId: number;
+  playerIds: number[];
+}
+
+export type OutcomeStrategy = BotStrategy<SimulatedMatch, number>;
+
+type StrategyTable<State, Choice> = Record<BotDifficulty, BotStrategy<State, Choice>>;
+
+const moveStrategies: Map<string, StrategyTable<any, any>> = new Map();
+const outcomeStrategies: Map<string, StrategyTable<SimulatedMatch, number>> = new Map();
+
+export function registerMoveStrategies<State, Choice>(gameName: string, strategies: StrategyTable<State, Choice>) {
+  moveStrategies.set(gameName, strategies);
+}
+
+export function registerOutcomeStrategies(gameName: string, strategies: StrategyTable<SimulatedMatch, number>) {
+  outcomeStrategies.set(gameName, strategies);
+}
+
+// Strategy a bot uses to play its own turns, if the game has a server-side engine
+export function getMoveStrategy<State, Choice>(gameName: string, difficulty: BotDifficulty): BotStrategy<State, Choice> | undefined {
+  return moveStrategies.get(gameName)?.[difficulty];
+}
+
+// Strategy deciding a simulated match; games without their own use the default table
+export function getOutcomeStrategy(gameName: string, difficulty: BotDifficulty): OutcomeStrategy {
+  return (outcomeStrategies.get(gameName) || defaultOutcomeStrategies)[difficulty];
+}
+
+const pickRandom = <T>(choices: T[]): T => choices[randomInt(choices.length)];
+
+export const randomStrategy: BotStrategy<unknown, any> = {
+  name: "random",
+  choose: (_state, choices) => pickRandom(choices)
+};
+
+// The bot wins a simulated match with the given probability
+function weightedOutcome(name: string, botWinChance: number): OutcomeStrategy {
+  return {
+    name,
+    choose: ({ botId }, choices) => {
+      const humans = choices.filter(userId => userId !== botId);
+      if (humans.length === 0 || (choices.includes(botId) && randomInt(100) < botWinChance * 100)) {
+        return botId;
+      }
+      return pickRandom(humans);
+    }
+  };
+}
+
+const defaultOutcomeStrategies: StrategyTable<SimulatedMatch, number> = {
+  easy: weightedOutcome("outcome-easy", 0.3),
+  medium: weightedOutcome("outcome-medium", 0.5),
+  hard: weightedOutcome("outcome-hard", 0.7)
+};
+
+// Ludo: always move the token that is furthest along
+export const greedyLudoStrategy: BotStrategy<LudoState, number> = {
+  name: "greedy",
+  choose: (state, tokens) => {
+    const player = state.players[state.currentPlayer];
+    return [...tokens].sort((a, b) => player.tokens[b] - player.tokens[a])[0];
+  }
+};
+
+// Ludo: prefer captures, bringing tokens home, leaving the yard and safe squares
+export const tacticalLudoStrategy: BotStrategy<LudoState, number> = {
+  name: "tactical",
+  choose: (state, tokens) => {
+    const dice = state.dice ?? 0;
+    const player = state.players[state.currentPlayer];
+
+    const score = (token: number) => {
+      const from = player.tokens[token];
+      const to = from === YARD ? 0 : from + dice;
+      const square = trackSquare(player.seat, to);
+
+      let points = to; // Progress breaks ties
+      if (to === HOME) points += 80;
+      if (from === YARD) points += 60;
+      if (square !== null && SAFE_SQUARES.includes(square)) points += 30;
+
+      const captures = square !== null && !SAFE_SQUARES.includes(square) && state.players.some(other =>
+        other.userId !== player.userId && other.tokens.some(progress => trackSquare(other.seat, progress) === square)
+      );
+      if (captures) points += 100;
+
+      return points;
+    };
+
+    return [...tokens].sort((a, b) => score(b) - score(a))[0];
+  }
+};
+
+registerMoveStrategies<LudoState, number>(LUDO_GAME_NAME, {
+  easy: randomStrategy,
+  medium: greedyLudoStrategy,
+  hard: tacticalLudoStrategy
+});
@@ -0,0 +1,164 @@
+import { randomBytes } from "crypto";
+import type { User } from "@shared/schema";
+import { storage } from "./storage";
+import { abandonMatch, cancelMatch, settleMatch, startMatch } from "./matches";
+import { matchScheduler } from "./scheduler";
+import { ludoMatches } from "./ludo-matches";
+import { LUDO_GAME_NAME } from "./ludo";
+import { getOutcomeStrategy, isBotDifficulty, type BotDifficulty } from "./bot-strategies";
+
+// One bot account per difficulty. AI_Player is the account older installs already have.
+const BOT_ACCOUNTS: Record<BotDifficulty, { username: string; fullName: string }> = {
+  easy: { username: "AI_Rookie", fullName: "Rookie Bot" },
+  medium: { username: "AI_Player", fullName: "AI Player" },
+  hard: { username: "AI_Master", fullName: "Master Bot" }
+};
+
+// Bot accounts are recognised by isBot and an email on this domain, which can't be registered
+const BOT_EMAIL_DOMAIN = "bots.invalid";
+
+// The placeholder password older installs gave their AI_Player account
+const LEGACY_BOT_PASSWORD = "ai_password_hash";
+
+// Bots pay real-money entry fees from this opening balance
+const BOT_BANKROLL = "10000";
+
+const BOT_JOIN_DELAY_MS = 2000; // After the match is created
+const BOT_START_DELAY_MS = 3000; // After the bot joins
+const SIMULATED_MATCH_MS = 5000; // After the match starts, for games without an engine
+
+// Fills matches that asked for a bot opponent: the bot joins, the match starts and
+// is played out on the Ludo engine or, for practice matches in other games, decided
+// by the bot's outcome strategy. Each step is a match job, so a restart picks up where it left off.
+// Whether a username or email belongs to the bots, so players can't register with it
+export function isReservedForBots(username: string, email: string): boolean {
+  const name = username.trim().toLowerCase();
+  return Object.values(BOT_ACCOUNTS).some(account => account.username.toLowerCase() === name) ||
+    email.trim().toLowerCase().endsWith(`@${BOT_EMAIL_DOMAIN}`);
+}
+
+const botEmail = (username: string) => `${username.toLowerCase()}@${BOT_EMAIL_DOMAIN}`;
+
+export class BotPlayers {
+  // Get the bot account for a difficulty, creating it on first use. A player who took
+  // a bot's name before it was reserved keeps their account; the bot is created
+  // under <name>_bot instead.
+  async getBot(difficulty: BotDifficulty): Promise<User> {
+    const { username, fullName } = BOT_ACCOUNTS[difficulty];
+    const email = botEmail(username);
+
+    let bot = await storage.getUserByEmail(email);
+    if (!bot?.isBot) {
+      const existing = await storage.getUserByUsername(username);
+
+      if (existing && !existing.isBot && existing.password === LEGACY_BOT_PASSWORD) {
+        // The AI_Player account older installs created as an ordinary user
+        bot = await storage.updateUser(existing.id, { isBot: true, botDifficulty: difficulty, email });
+      }
+
+      bot ??= await storage.createUser({
+        username: existing ? `${username}_bot` : username,
+        // Never a valid password hash, and bots are refused at login anyway
+        password: `bot:${randomBytes(16).toString("hex")}`,
+        email,
+        fullName,
+        bio: `Server-controlled ${difficulty} opponent`,
+        isBot: true,
+        botDifficulty: difficulty,
+        rankPoints: 1000
+      });
+    } else if (bot.botDifficulty !== difficulty) {
+      bot = (await storage.updateUser(bot.id, { botDifficulty: difficulty })) || bot;
+    }
+
+    if (!(await storage.getWallet(bot.id))) {
+      await storage.createWallet({ userId: bot.id, balance: BOT_BANKROLL });
+    }
+    return bot;
+  }
+
+  // Schedule the next bot step for a match from its stored state
+  async schedule(matchId: number) {
+    const match = await storage.getGameMatch(matchId);
+    if (!match || !isBotDifficulty(match.botDifficulty)) return;
+
+    const bot = await this.getBot(match.botDifficulty);
+    const players = await storage.getMatchPlayers(matchId);
+
+    if (match.status === "waiting") {
+      if (!players.some(player => player.userId === bot.id)) {
+        await matchScheduler.schedule(matchId, "bot_join", BOT_JOIN_DELAY_MS);
+      } else if (players.length >= 2) {
+        await matchScheduler.schedule(matchId, "bot_start", BOT_START_DELAY_MS);
+      }
+      return;
+    }
+
+    if (match.status === "in_progress") {
+      const game = await storage.getGame(match.gameId);
+      // The Ludo engine schedules the bot's turns itself
+      if (game?.name !== LUDO_GAME_NAME) {
+        await matchScheduler.schedule(matchId, "bot_finish", SIMULATED_MATCH_MS);
+      }
+    }
+  }
+
+  async join(matchId: number) {
+    const match = await storage.getGameMatch(matchId);
+    if (match?.status !== "waiting" || !isBotDifficulty(match.botDifficulty)) return;
+
+    const bot = await this.getBot(match.botDifficulty);
+    const players = await storage.getMatchPlayers(matchId);
+    if (!players.some(player => player.userId === bot.id)) {
+      await storage.addPlayerToMatch({ matchId, userId: bot.id, status: "joined" });
+    }
+
+    await this.schedule(matchId);
+  }
+
+  async start(matchId: number) {
+    const { match, game, error } = await startMatch(matchId);
+    if (error || !match || !game) {
+      // The players may have started it themselves in the meantime
+      await cancelMatch(matchId, `The bot match could not start: ${error}`, ["waiting"]);
+      return;
+    }
+
+    // The bot plays its own turns on the Ludo engine
+    if (game.name === LUDO_GAME_NAME) {
+      const players = await storage.getMatchPlayers(matchId);
+      await ludoMatches.start(matchId, players.map(player => player.userId));
+      return;
+    }
+
+    await this.schedule(matchId);
+  }
+
+  async finish(matchId: number) {
+    const match = await storage.getGameMatch(matchId);
+    if (match?.status !== "in_progress" || !isBotDifficulty(match.botDifficulty)) return;
+
+    // Simulated results are for practice only. Real-money matches created before that
+    // rule are refunded rather than decided by the bot's odds.
+    if (match.mode !== "practice") {
+      await abandonMatch(matchId, "Real-money matches against a bot can't be simulated");
+      return;
+    }
+
+    const bot = await this.getBot(match.botDifficulty);
+    const game = await storage.getGame(match.gameId);
+    if (!game) return;
+
+    const players = await storage.getMatchPlayers(matchId);
+    const playerIds = players.map(player => player.userId);
+    const strategy = getOutcomeStrategy(game.name, match.botDifficulty);
+    const winnerId = strategy.choose({ botId: bot.id, playerIds }, playerIds);
+
+    await settleMatch(matchId, winnerId, {
+      source: "system",
+      reason: `Simulated practice match against a ${match.botDifficulty} bot`
+    });
+  }
+}
+
+export const botPlayers = new BotPlayers();
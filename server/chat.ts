@@ -0,0 +1,174 @@
+import type { ChatHistoryPage, ChatMessage, ChatMessageView, ChatRoom, ChatRoomSummary, User } from "@shared/schema";
+import { storage } from "./storage";
+import { canJoinMatchRoom } from "./sockets";
+import { chatModeration, filterMessage } from "./moderation";
+import { friendService } from "./friends";
+
+export const GLOBAL_ROOM_KEY = "global";
+
+// Longest message a user can send
+export const MAX_CHAT_MESSAGE_LENGTH = 1000;
+
+// A match's chat shares its key with the Socket.IO room for the match, game-<id>
+const MATCH_ROOM_KEY = /^game-(\d+)$/;
+
+export const privateRoomKey = (userId: number, otherUserId: number) =>
+  `private-${Math.min(userId, otherUserId)}-${Math.max(userId, otherUserId)}`;
+
+// The member of a private room other than the user
+const privateRoomOtherId = (room: ChatRoom, userId: number) =>
+  room.key.split("-").slice(1).map(Number).find(id => id !== userId);
+
+// Private rooms stay open while their two members are friends
+async function isPrivateChatOpen(room: ChatRoom, userId: number): Promise<boolean> {
+  const otherId = privateRoomOtherId(room, userId);
+  return !!otherId && friendService.areFriends(userId, otherId);
+}
+
+export interface PrivateChat {
+  room?: ChatRoom;
+  other?: User;
+  error?: string;
+}
+
+export interface ChatPost {
+  message?: ChatMessageView;
+  error?: string;
+}
+
+export function toChatMessageView(room: ChatRoom, message: ChatMessage, senderName: string): ChatMessageView {
+  return {
+    id: message.id,
+    roomId: room.key,
+    sender: message.senderId.toString(),
+    senderName,
+    content: message.content,
+    timestamp: message.createdAt
+  };
+}
+
+// A notice shown in the room as it happens, e.g. someone joining. Notices aren't stored.
+export const chatNotice = (roomKey: string, content: string): ChatMessageView => ({
+  id: 0,
+  roomId: roomKey,
+  sender: "system",
+  senderName: "System",
+  content,
+  timestamp: new Date()
+});
+
+// Open a room for a user, who becomes a member. Global chat is open to everyone and
+// created on first use, as is a match's room, which is for the match's players and
+// the staff who manage matches. Private rooms are for the two users they were made
+// for, while they are friends. Undefined when the user may not be in the room or is
+// banned from it.
+export async function openChatRoom(user: User, key: string): Promise<ChatRoom | undefined> {
+  let room: ChatRoom | undefined;
+
+  if (key === GLOBAL_ROOM_KEY) {
+    room = await storage.ensureChatRoom({ key, type: "global", name: "Global Chat" });
+  } else if (MATCH_ROOM_KEY.test(key)) {
+    const matchId = parseInt(key.match(MATCH_ROOM_KEY)![1]);
+    const match = await storage.getGameMatch(matchId);
+    if (!match || !(await canJoinMatchRoom(user, matchId))) return undefined;
+
+    room = await storage.ensureChatRoom({ key, type: "game", name: `Game Room ${matchId}`, matchId });
+  } else {
+    room = await storage.getChatRoomByKey(key);
+    if (!room || room.type !== "private" || !(await storage.getChatMember(room.id, user.id))) return undefined;
+    if (!(await isPrivateChatOpen(room, user.id))) return undefined;
+  }
+
+  if (await chatModeration.isBanned(user.id, room.id)) return undefined;
+
+  await storage.addChatMember(room.id, user.id);
+  return room;
+}
+
+// Open the private room between two friends, creating it the first time
+export async function openPrivateChat(user: User, otherUserId: number): Promise<PrivateChat> {
+  if (otherUserId === user.id) return { error: "You can't start a chat with yourself" };
+
+  const other = await storage.getUser(otherUserId);
+  if (!other || other.isBot) return { error: "User not found" };
+  if (!(await friendService.areFriends(user.id, other.id))) return { error: "You can only message friends" };
+
+  const room = await storage.ensureChatRoom({
+    key: privateRoomKey(user.id, other.id),
+    type: "private",
+    name: [user.username, other.username].sort().join(" & ")
+  });
+  if (await chatModeration.isBanned(user.id, room.id)) return { error: "You are banned from chat" };
+
+  await storage.addChatMember(room.id, user.id);
+  await storage.addChatMember(room.id, other.id);
+
+  return { room, other };
+}
+
+// The rooms a user belongs to with their unread counts, leaving out rooms they are
+// banned from and chats with users who are no longer friends. Private rooms are
+// named after the other member.
+export async function getChatRooms(user: User): Promise<ChatRoomSummary[]> {
+  // Everyone is in global chat
+  await openChatRoom(user, GLOBAL_ROOM_KEY);
+
+  const rooms: ChatRoomSummary[] = [];
+  for (const room of await storage.getUserChatRooms(user.id)) {
+    if (await chatModeration.isBanned(user.id, room.id)) continue;
+
+    if (room.type !== "private") {
+      rooms.push(room);
+    } else if (await isPrivateChatOpen(room, user.id)) {
+      const other = await storage.getUser(privateRoomOtherId(room, user.id)!);
+      rooms.push({ ...room, name: other ? `Chat with ${other.username}` : room.name });
+    }
+  }
+  return rooms;
+}
+
+// Post a message after the moderation checks, with blocked words masked
+export async function postChatMessage(room: ChatRoom, sender: User, content: string): Promise<ChatPost> {
+  const text = content.trim();
+  if (!text) return { error: "Message is empty" };
+  if (text.length > MAX_CHAT_MESSAGE_LENGTH) {
+    return { error: `Messages can be at most ${MAX_CHAT_MESSAGE_LENGTH} characters` };
+  }
+
+  // Friends can fall out while the chat is open
+  if (room.type === "private" && !(await isPrivateChatOpen(room, sender.id))) {
+    return { error: "You can only message friends" };
+  }
+
+  const refusal = await chatModeration.checkPost(sender, room);
+  if (refusal) return { error: refusal };
+
+  const message = await storage.createChatMessage({ roomId: room.id, senderId: sender.id, content: filterMessage(text) });
+  return { message: toChatMessageView(room, message, sender.username) };
+}
+
+// A page of a room's history, oldest first, ending just before the cursor when there is one
+export async function getChatHistory(room: ChatRoom, before: number | undefined, limit: number): Promise<ChatHistoryPage> {
+  // One extra message tells whether there is a page before this one
+  const newestFirst = await storage.getChatMessages(room.id, { before, limit: limit + 1 });
+  const page = newestFirst.slice(0, limit).reverse();
+
+  const usernames = new Map<number, string>();
+  for (const senderId of Array.from(new Set(page.map(message => message.senderId)))) {
+    const sender = await storage.getUser(senderId);
+    usernames.set(senderId, sender?.username ?? "Unknown");
+  }
+
+  return {
+    messages: page.map(message => toChatMessageView(room, message, usernames.get(message.senderId)!)),
+    nextCursor: newestFirst.length > limit ? page[0].id : null
+  };
+}
+
+// Mark a room read up to the message, or up to its latest message
+export async function markChatRoomRead(room: ChatRoom, userId: number, messageId?: number): Promise<void> {
+  const latest = (await storage.getChatMessages(room.id, { limit: 1 }))[0]?.id;
+  if (!latest) return;
+
+  await storage.markChatRead(room.id, userId, messageId ? Math.min(messageId, latest) : latest);
+}
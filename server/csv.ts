@@ -0,0 +1,26 @@
+import type { Response } from "express";
+
+type CsvValue = string | number | boolean | Date | null | undefined;
+
+// Text a spreadsheet would run as a formula. Signed numbers such as -100.00 are left as they are.
+const isFormula = (text: string) => /^[=+\-@\t\r]/.test(text) && !/^[+-]?\d+(\.\d+)?$/.test(text);
+
+// Quote a field when it contains a separator, quote or line break. A field that would
+// start a formula is prefixed with ' so it opens as text.
+function csvField(value: CsvValue): string {
+  if (value === null || value === undefined) return "";
+  let text = value instanceof Date ? value.toISOString() : String(value);
+  if (isFormula(text)) text = `'${text}`;
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsv(headers: string[], rows: CsvValue[][]): string {
+  return [headers, ...rows].map(row => row.map(csvField).join(",")).join("\r\n") + "\r\n";
+}
+
+// Send a CSV as a file download
+export function sendCsv(res: Response, filename: string, headers: string[], rows: CsvValue[][]) {
+  res.setHeader("Content-Type", "text/csv; charset=utf-8");
+  res.setHeader("Content-Disposition", `attachment; filename="${filename}"`);
+  res.send(toCsv(headers, rows));
+}
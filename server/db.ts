@@ -0,0 +1,18 @@
+import pg from "pg";
+import { drizzle, type NodePgDatabase } from "drizzle-orm/node-postgres";
+import * as schema from "@shared/schema";
+
+export type Database = NodePgDatabase<typeof schema>;
+
+export interface DatabaseConnection {
+  pool: pg.Pool;
+  db: Database;
+}
+
+// Create a Drizzle client on top of a node-postgres pool.
+// An existing pool can be passed in (e.g. a pg-mem adapter in tests)
+export function createDatabase(options: { connectionString?: string; pool?: pg.Pool }): DatabaseConnection {
+  const pool = options.pool ?? new pg.Pool({ connectionString: options.connectionString });
+  const db = drizzle(pool, { schema });
+  return { pool, db };
+}
@@ -0,0 +1,137 @@
+import type { Entitlement, EntitlementSummary, InsertEntitlement, InsertSubscription, Subscription, SubscriptionPlan } from "@shared/schema";
+import { storage } from "./storage";
+
+// Benefits a subscription can grant. Every consumer asks this module rather than
+// reading subscription rows or user flags itself.
+export const BENEFITS = ["commission_discount", "reward_schedule", "support_tier"] as const;
+export type Benefit = typeof BENEFITS[number];
+
+// Support tiers from lowest to highest
+export const SUPPORT_TIERS = ["standard", "priority", "vip"] as const;
+export type SupportTier = typeof SUPPORT_TIERS[number];
+
+// Terms for subscriptions bought before the plan catalog existed
+export const LEGACY_COMMISSION_DISCOUNT = 25;
+const LEGACY_SUPPORT_TIER: SupportTier = "priority";
+
+// The old monthly purchase only recorded an expiry date on the user
+const LEGACY_DURATION_DAYS = 30;
+
+const tierRank = (tier: string) => Math.max(0, SUPPORT_TIERS.indexOf(tier as SupportTier));
+
+// The benefits a subscription grants for its term, using the plan's terms as they
+// were when it was bought. Also used before the subscription row exists, so the
+// entitlements are only linked to it when it has an ID.
+export function buildPlanEntitlements(
+  subscription: Pick<InsertSubscription, "userId" | "planId" | "startDate" | "endDate" | "commissionDiscount" | "rewardAmount"> & { id?: number },
+  plan?: SubscriptionPlan
+): InsertEntitlement[] {
+  const base = {
+    userId: subscription.userId,
+    subscriptionId: subscription.id,
+    startsAt: subscription.startDate,
+    endsAt: subscription.endDate
+  };
+
+  const granted: InsertEntitlement[] = [];
+  if (subscription.planId == null) {
+    granted.push(
+      { ...base, benefit: "commission_discount", value: LEGACY_COMMISSION_DISCOUNT.toString(), source: "legacy" },
+      { ...base, benefit: "support_tier", value: LEGACY_SUPPORT_TIER, source: "legacy" }
+    );
+  } else {
+    granted.push(
+      { ...base, benefit: "commission_discount", value: subscription.commissionDiscount ?? "0", source: "subscription" },
+      { ...base, benefit: "support_tier", value: plan?.supportTier ?? "standard", source: "subscription" }
+    );
+  }
+
+  if (parseFloat(subscription.rewardAmount.toString()) > 0) {
+    granted.push({ ...base, benefit: "reward_schedule", value: "daily", source: granted[0].source });
+  }
+
+  return granted;
+}
+
+// Grant the benefits of an existing subscription for its term
+export async function grantPlanEntitlements(subscription: Subscription, plan?: SubscriptionPlan): Promise<Entitlement[]> {
+  return storage.createEntitlements(buildPlanEntitlements(subscription, plan));
+}
+
+// Everything a user is entitled to at a point in time
+export async function getEntitlements(userId: number, at: Date = new Date()): Promise<EntitlementSummary> {
+  const active = await storage.getActiveEntitlements(userId, at);
+
+  const discounts = active.filter(entitlement => entitlement.benefit === "commission_discount");
+  const tiers = active.filter(entitlement => entitlement.benefit === "support_tier");
+  const rewards = active.filter(entitlement => entitlement.benefit === "reward_schedule");
+
+  return {
+    active: active.length > 0,
+    activeUntil: active.length > 0
+      ? new Date(Math.max(...active.map(entitlement => entitlement.endsAt.getTime())))
+      : null,
+    commissionDiscount: Math.max(0, ...discounts.map(entitlement => parseFloat(entitlement.value) || 0)),
+    supportTier: tiers.reduce<string>(
+      (best, entitlement) => tierRank(entitlement.value) > tierRank(best) ? entitlement.value : best,
+      "standard"
+    ),
+    rewardSubscriptionIds: rewards
+      .map(entitlement => entitlement.subscriptionId)
+      .filter((id): id is number => id !== null),
+    entitlements: active
+  };
+}
+
+export async function isEntitled(userId: number, benefit: Benefit, at: Date = new Date()): Promise<boolean> {
+  const active = await storage.getActiveEntitlements(userId, at);
+  return active.some(entitlement => entitlement.benefit === benefit);
+}
+
+// Percentage taken off the game commission on a player's winnings
+export async function getCommissionDiscount(userId: number, at: Date = new Date()): Promise<number> {
+  return (await getEntitlements(userId, at)).commissionDiscount;
+}
+
+// Whether a subscription's daily rewards may still be paid out. Each reward falls
+// inside the subscription's term, so only a revoked grant stops them.
+export async function hasRewardEntitlement(subscriptionId: number): Promise<boolean> {
+  const granted = await storage.getSubscriptionEntitlements(subscriptionId);
+  return granted.some(entitlement => entitlement.benefit === "reward_schedule" && !entitlement.revokedAt);
+}
+
+// Bring subscriptions from before entitlements into the model. Safe to run on every
+// boot: subscription rows that already have entitlements are skipped, and a user's
+// legacy expiry date is only migrated when nothing covers it yet.
+export async function migrateSubscriptionEntitlements(): Promise<number> {
+  let migrated = 0;
+
+  for (const subscription of await storage.getAllSubscriptions()) {
+    const existing = await storage.getSubscriptionEntitlements(subscription.id);
+    if (existing.length > 0) continue;
+
+    const plan = subscription.planId !== null ? await storage.getSubscriptionPlan(subscription.planId) : undefined;
+    await grantPlanEntitlements(subscription, plan);
+    migrated++;
+  }
+
+  for (const user of await storage.getAllUsers()) {
+    if (!user.subscriptionExpiryDate) continue;
+
+    const endsAt = new Date(user.subscriptionExpiryDate);
+    const granted = await storage.getUserEntitlements(user.id);
+    if (granted.some(entitlement => entitlement.endsAt >= endsAt)) continue;
+
+    const startsAt = new Date(endsAt);
+    startsAt.setDate(startsAt.getDate() - LEGACY_DURATION_DAYS);
+
+    const base = { userId: user.id, subscriptionId: null, source: "legacy", startsAt, endsAt };
+    await storage.createEntitlements([
+      { ...base, benefit: "commission_discount", value: LEGACY_COMMISSION_DISCOUNT.toString() },
+      { ...base, benefit: "support_tier", value: LEGACY_SUPPORT_TIER }
+    ]);
+    migrated++;
+  }
+
+  return migrated;
+}
@@ -0,0 +1,239 @@
+import type { Server as SocketServer } from "socket.io";
+import type { FriendEntry, FriendList, Friendship, MatchChallenge, Presence, User } from "@shared/schema";
+import { storage } from "./storage";
+import { userRoom } from "./sockets";
+import { formatRupees, notificationService } from "./notifications";
+
+export interface FriendshipResult {
+  friendship?: Friendship;
+  error?: string;
+}
+
+export interface ChallengeResult {
+  challenge?: MatchChallenge;
+  error?: string;
+}
+
+export const friendPairKey = (userId: number, otherUserId: number) =>
+  `${Math.min(userId, otherUserId)}-${Math.max(userId, otherUserId)}`;
+
+const OFFLINE: Presence = { status: "offline", matchId: null };
+
+// Friend requests, friendships, blocks and presence. Changes are pushed to both users'
+// connections as friendsChanged, so their lists refresh, and presence changes to friends.
+export class FriendService {
+  private io: SocketServer | null = null;
+
+  attach(io: SocketServer) {
+    this.io = io;
+  }
+
+  async areFriends(userId: number, otherUserId: number): Promise<boolean> {
+    const friendship = await storage.getFriendshipByPair(friendPairKey(userId, otherUserId));
+    return friendship?.status === "accepted";
+  }
+
+  // Whether either user has blocked the other
+  async isBlocked(userId: number, otherUserId: number): Promise<boolean> {
+    return !!(await storage.getUserBlock(userId, otherUserId)) || !!(await storage.getUserBlock(otherUserId, userId));
+  }
+
+  // Send a request, by username. A request the other user already sent is accepted instead.
+  async sendRequest(user: User, username: string): Promise<FriendshipResult> {
+    const other = await storage.getUserByUsername(username);
+    if (!other || other.isBot) return { error: "User not found" };
+    if (other.id === user.id) return { error: "You can't add yourself as a friend" };
+
+    // Blocks aren't revealed to the user who was blocked
+    if (await this.isBlocked(user.id, other.id)) return { error: "You can't send this user a friend request" };
+
+    const pairKey = friendPairKey(user.id, other.id);
+    const existing = await storage.getFriendshipByPair(pairKey);
+    let friendship: Friendship | undefined;
+
+    if (!existing) {
+      friendship = await storage.createFriendship({ pairKey, requesterId: user.id, addresseeId: other.id });
+    } else if (existing.status === "accepted") {
+      return { error: `You are already friends with ${other.username}` };
+    } else if (existing.status === "pending") {
+      if (existing.requesterId === user.id) return { error: "You have already sent this user a friend request" };
+      return this.respond(user, existing.id, true);
+    } else {
+      friendship = await storage.renewFriendship(existing.id, user.id, other.id, new Date());
+    }
+
+    if (!friendship) return { error: "This friend request has changed, try again" };
+
+    this.io?.to(userRoom(other.id)).emit("friendRequest", { from: { id: user.id, username: user.username } });
+    this.changed(friendship);
+    return { friendship };
+  }
+
+  // Accept or decline a request sent to the user
+  async respond(user: User, friendshipId: number, accept: boolean): Promise<FriendshipResult> {
+    const friendship = await storage.getFriendship(friendshipId);
+    if (!friendship || friendship.addresseeId !== user.id || friendship.status !== "pending") {
+      return { error: "Friend request not found" };
+    }
+
+    const updated = await storage.updateFriendshipStatus(friendship.id, "pending", accept ? "accepted" : "declined", new Date());
+    if (!updated) return { error: "Friend request not found" };
+
+    this.changed(updated);
+    if (accept) {
+      await this.announcePresence(updated.requesterId);
+      await this.announcePresence(updated.addresseeId);
+    }
+    return { friendship: updated };
+  }
+
+  // Cancel a request the user sent, or end a friendship from either side
+  async remove(user: User, friendshipId: number): Promise<FriendshipResult> {
+    const friendship = await storage.getFriendship(friendshipId);
+    const isPart = friendship && (friendship.requesterId === user.id || friendship.addresseeId === user.id);
+    if (!friendship || !isPart) return { error: "Friend not found" };
+
+    const from = friendship.status;
+    if (from === "pending" && friendship.requesterId !== user.id) {
+      return { error: "Decline the request instead" };
+    }
+    if (from !== "pending" && from !== "accepted") return { error: "Friend not found" };
+
+    const updated = await storage.updateFriendshipStatus(friendship.id, from, "removed", new Date());
+    if (!updated) return { error: "Friend not found" };
+
+    this.changed(updated);
+    return { friendship: updated };
+  }
+
+  // Block a user, ending any friendship or request between the two
+  async block(user: User, otherUserId: number): Promise<{ error?: string }> {
+    if (otherUserId === user.id) return { error: "You can't block yourself" };
+
+    const other = await storage.getUser(otherUserId);
+    if (!other) return { error: "User not found" };
+
+    if (!(await storage.getUserBlock(user.id, other.id))) {
+      await storage.createUserBlock(user.id, other.id);
+    }
+
+    const friendship = await storage.getFriendshipByPair(friendPairKey(user.id, other.id));
+    if (friendship?.status === "pending" || friendship?.status === "accepted") {
+      const removed = await storage.updateFriendshipStatus(friendship.id, friendship.status, "removed", new Date());
+      if (removed) this.changed(removed);
+    } else {
+      this.io?.to(userRoom(user.id)).emit("friendsChanged");
+    }
+    return {};
+  }
+
+  async unblock(user: User, otherUserId: number): Promise<{ error?: string }> {
+    const block = await storage.getUserBlock(user.id, otherUserId);
+    if (!block) return { error: "This user isn't blocked" };
+
+    await storage.removeUserBlock(block.id, new Date());
+    this.io?.to(userRoom(user.id)).emit("friendsChanged");
+    return {};
+  }
+
+  // The user's friends with their presence, requests both ways, and who they have blocked
+  async getFriendList(user: User): Promise<FriendList> {
+    const list: FriendList = { friends: [], incoming: [], outgoing: [], blocked: [] };
+
+    for (const friendship of await storage.getUserFriendships(user.id)) {
+      const otherId = friendship.requesterId === user.id ? friendship.addresseeId : friendship.requesterId;
+      const other = await storage.getUser(otherId);
+      if (!other) continue;
+
+      const isFriend = friendship.status === "accepted";
+      const entry: FriendEntry = {
+        friendshipId: friendship.id,
+        userId: other.id,
+        username: other.username,
+        avatarUrl: other.avatarUrl ?? null,
+        since: isFriend ? friendship.respondedAt ?? friendship.createdAt : friendship.createdAt,
+        presence: isFriend ? await this.getPresence(other.id) : null
+      };
+
+      if (isFriend) {
+        list.friends.push(entry);
+      } else if (friendship.addresseeId === user.id) {
+        list.incoming.push(entry);
+      } else {
+        list.outgoing.push(entry);
+      }
+    }
+
+    for (const block of await storage.getUserBlocks(user.id)) {
+      const blocked = await storage.getUser(block.blockedId);
+      if (blocked) list.blocked.push({ userId: blocked.id, username: blocked.username, blockedAt: block.createdAt });
+    }
+
+    // Friends who are around first
+    const rank = { in_match: 0, online: 1, offline: 2 };
+    list.friends.sort((a, b) =>
+      rank[a.presence!.status] - rank[b.presence!.status] || a.username.localeCompare(b.username)
+    );
+    return list;
+  }
+
+  // Online while any of the user's connections are open, and in a match while one
+  // they play in is under way
+  async getPresence(userId: number): Promise<Presence> {
+    if (!this.io) return OFFLINE;
+
+    const sockets = await this.io.in(userRoom(userId)).fetchSockets();
+    if (sockets.length === 0) return OFFLINE;
+
+    const { matches } = await storage.getUserMatches(userId, { status: "in_progress", limit: 1, offset: 0 });
+    return matches[0] ? { status: "in_match", matchId: matches[0].id } : { status: "online", matchId: null };
+  }
+
+  // Tell the user's friends where they are now. Called as connections open and close.
+  async announcePresence(userId: number): Promise<void> {
+    if (!this.io) return;
+
+    const presence = await this.getPresence(userId);
+    for (const friendship of await storage.getUserFriendships(userId)) {
+      if (friendship.status !== "accepted") continue;
+
+      const friendId = friendship.requesterId === userId ? friendship.addresseeId : friendship.requesterId;
+      this.io.to(userRoom(friendId)).emit("presence", { userId, ...presence });
+    }
+  }
+
+  // Invite a friend to a waiting match the user created. The invite reaches them as a notification.
+  async challenge(user: User, friendId: number, matchId: number): Promise<ChallengeResult> {
+    if (!(await this.areFriends(user.id, friendId))) return { error: "You can only challenge friends" };
+
+    const match = await storage.getGameMatch(matchId);
+    if (!match) return { error: "Match not found" };
+    if (match.status !== "waiting" || match.botDifficulty) return { error: "This match isn't open for a challenge" };
+
+    const players = await storage.getMatchPlayers(matchId);
+    if (!players.some(player => player.userId === user.id)) return { error: "You are not part of this match" };
+    if (players.some(player => player.userId === friendId)) return { error: "Your friend has already joined this match" };
+
+    const game = await storage.getGame(match.gameId);
+    const challenge: MatchChallenge = {
+      matchId,
+      gameName: game?.name ?? "a match",
+      entryAmount: match.entryAmount.toString(),
+      from: { id: user.id, username: user.username }
+    };
+
+    await notificationService.notify(friendId, {
+      type: "match_invite",
+      title: "Match invite",
+      body: `${user.username} challenged you to ${challenge.gameName} for ${formatRupees(challenge.entryAmount)}.`,
+      link: `/games/${matchId}`
+    });
+    return { challenge };
+  }
+
+  private changed(friendship: Friendship) {
+    this.io?.to([userRoom(friendship.requesterId), userRoom(friendship.addresseeId)]).emit("friendsChanged");
+  }
+}
+
+export const friendService = new FriendService();
@@ -0,0 +1,121 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { sql } from "drizzle-orm";
+import type { InsertTransaction } from "@shared/schema";
+import { buildJournalLines, buildReleaseLines, buildSettlementLines, counterAccountFor, walletAccount, WITHDRAWAL_HOLD_ACCOUNT, type LedgerLine } from "./ledger";
+import { MemStorage, type IStorage } from "./storage";
+import { createTestStorage } from "./test-database";
+import type { Database } from "./db";
+
+const total = (lines: LedgerLine[]) => Math.round(lines.reduce((sum, line) => sum + line.amount * 100, 0));
+
+const transaction = (userId: number, amount: string, type: string, status = "completed"): InsertTransaction => ({
+  userId,
+  amount,
+  type,
+  status,
+  description: `Test ${type}`,
+  commissionAmount: "0"
+});
+
+describe("journal lines", () => {
+  it("moves the wallet by the amount and its counter account by the opposite", () => {
+    const lines = buildJournalLines(transaction(7, "-150.5", "game_entry"));
+
+    assert.deepEqual(lines, [
+      { account: walletAccount(7), userId: 7, amount: -150.5 },
+      { account: counterAccountFor("game_entry"), userId: null, amount: 150.5 }
+    ]);
+    assert.equal(total(lines), 0);
+  });
+
+  it("rounds to paise and still balances", () => {
+    const lines = buildJournalLines(transaction(7, "10.005", "deposit"));
+
+    assert.equal(lines[0].amount, 10.01);
+    assert.equal(total(lines), 0);
+  });
+
+  it("refuses zero and invalid amounts", () => {
+    assert.throws(() => buildJournalLines(transaction(7, "0", "deposit")));
+    assert.throws(() => buildJournalLines(transaction(7, "abc", "deposit")));
+  });
+
+  it("posts unknown types against adjustments, or the counter account given", () => {
+    assert.equal(buildJournalLines(transaction(7, "5", "mystery"))[1].account, "platform:adjustments");
+    assert.equal(buildJournalLines(transaction(7, "5", "deposit"), "platform:promotions")[1].account, "platform:promotions");
+  });
+
+  it("balances withdrawal payouts and releases through the hold account", () => {
+    const settlement = buildSettlementLines(75);
+    const release = buildReleaseLines(7, 75);
+
+    assert.equal(total(settlement), 0);
+    assert.equal(total(release), 0);
+    assert.deepEqual(settlement.map(line => line.account), [WITHDRAWAL_HOLD_ACCOUNT, counterAccountFor("withdrawal")]);
+    assert.deepEqual(release.map(line => line.account), [WITHDRAWAL_HOLD_ACCOUNT, walletAccount(7)]);
+  });
+});
+
+const implementations: [string, () => Promise<{ storage: IStorage; db?: Database; close: () => Promise<void> }>][] = [
+  ["MemStorage", async () => ({ storage: new MemStorage(), close: async () => {} })],
+  ["DatabaseStorage", createTestStorage]
+];
+
+for (const [name, create] of implementations) {
+  describe(`${name} ledger`, () => {
+    let storage: IStorage;
+    let db: Database | undefined;
+    let close: () => Promise<void>;
+
+    before(async () => {
+      ({ storage, db, close } = await create());
+    });
+
+    after(() => close());
+
+    it("keeps every wallet equal to its ledger through deposits, withdrawals, entries and refunds", async () => {
+      const alice = await storage.createUser({ username: "alice", password: "hashed", email: "alice@example.com" });
+      const bob = await storage.createUser({ username: "bob", password: "hashed", email: "bob@example.com" });
+      await storage.createWallet({ userId: alice.id, balance: "500" }); // Opening balance
+      await storage.createWallet({ userId: bob.id, balance: "0" });
+
+      const deposit = await storage.createTransaction(transaction(bob.id, "300", "deposit", "pending"));
+      assert.ok(await storage.approveDeposit(deposit.id, { processedBy: alice.id }));
+      assert.equal(await storage.approveDeposit(deposit.id, { processedBy: alice.id }), undefined);
+
+      const entries = await storage.postWalletTransactions([
+        transaction(alice.id, "-100", "game_entry"),
+        transaction(bob.id, "-100", "game_entry")
+      ]);
+      assert.ok(entries);
+      await storage.postWalletTransaction({ ...transaction(bob.id, "100", "game_refund"), relatedTransactionId: entries[1].transaction.id });
+
+      const paidOut = await storage.holdWithdrawal(transaction(alice.id, "-50", "withdrawal", "pending"));
+      const released = await storage.holdWithdrawal(transaction(bob.id, "-80", "withdrawal", "pending"));
+      assert.ok(paidOut && released);
+      assert.ok(await storage.settleWithdrawal(paidOut.transaction.id, { payoutReference: "UTR1", processedBy: alice.id }));
+      assert.ok(await storage.releaseWithdrawal(released.transaction.id, { reason: "Wrong UPI ID", processedBy: alice.id }));
+
+      assert.equal((await storage.getWallet(alice.id))?.balance, "350.00");
+      assert.equal((await storage.getWallet(bob.id))?.balance, "300.00");
+
+      const reconciliation = await storage.reconcileWallets();
+      assert.deepEqual(reconciliation.map(wallet => wallet.difference), [0, 0]);
+      assert.deepEqual(reconciliation.map(wallet => wallet.ledgerBalance), [350, 300]);
+    });
+
+    it("writes balanced journal entries", { skip: name === "MemStorage" && "MemStorage keeps its journal private" }, async () => {
+      const unbalanced = await db!.execute(sql`
+        select journal_entry_id, sum(amount) as total
+        from ledger_entries
+        group by journal_entry_id
+        having sum(amount) <> 0
+      `);
+      const [{ entries }] = (await db!.execute<{ entries: number }>(sql`select count(*)::int as entries from journal_entries`)).rows;
+
+      assert.deepEqual(unbalanced.rows, []);
+      assert.ok(entries > 0);
+    });
+  });
+}
@@ -0,0 +1,78 @@
+import type { InsertTransaction, Transaction, Wallet } from "@shared/schema";
+
+// Result of posting a transaction against a wallet
+export interface WalletPosting {
+  wallet: Wallet;
+  transaction: Transaction;
+}
+
+// A single line of a journal entry: a signed change to one account
+export interface LedgerLine {
+  account: string;
+  userId: number | null;
+  amount: number;
+}
+
+export interface WalletReconciliation {
+  userId: number;
+  walletBalance: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+export const walletAccount = (userId: number) => `wallet:${userId}`;
+
+// Funds taken from a wallet for a withdrawal that has not been paid out yet
+export const WITHDRAWAL_HOLD_ACCOUNT = "platform:withdrawal_holds";
+
+// Account on the other side of a wallet posting, by transaction type
+const counterAccounts: Record<string, string> = {
+  deposit: "external:deposits",
+  withdrawal: "external:withdrawals",
+  game_entry: "platform:game_pool",
+  game_win: "platform:game_pool",
+  game_refund: "platform:game_pool",
+  subscription: "platform:subscriptions",
+  subscription_purchase: "platform:subscriptions",
+  subscription_reward: "platform:rewards",
+  referral_bonus: "platform:promotions",
+  reward_redemption: "platform:promotions",
+  opening_balance: "platform:opening_balance"
+};
+
+export const counterAccountFor = (type: string) => counterAccounts[type] || "platform:adjustments";
+
+// Round to paise so ledger lines match the decimal(10, 2) columns
+export const toAmount = (value: number) => Math.round(value * 100) / 100;
+
+// Build the balanced journal lines for a wallet transaction.
+// The wallet moves by the transaction amount and the counter account by the opposite.
+export function buildJournalLines(transaction: InsertTransaction, counterAccount?: string): LedgerLine[] {
+  const amount = toAmount(parseFloat(transaction.amount.toString()));
+  if (!Number.isFinite(amount) || amount === 0) {
+    throw new Error(`Cannot post a zero or invalid amount for transaction type ${transaction.type}`);
+  }
+
+  return [
+    { account: walletAccount(transaction.userId), userId: transaction.userId, amount },
+    { account: counterAccount || counterAccountFor(transaction.type), userId: null, amount: -amount }
+  ];
+}
+
+// Move a held withdrawal out to the payout account once it has been paid
+export function buildSettlementLines(heldAmount: number): LedgerLine[] {
+  const amount = toAmount(heldAmount);
+  return [
+    { account: WITHDRAWAL_HOLD_ACCOUNT, userId: null, amount: -amount },
+    { account: counterAccountFor("withdrawal"), userId: null, amount }
+  ];
+}
+
+// Return a held withdrawal to the user's wallet
+export function buildReleaseLines(userId: number, heldAmount: number): LedgerLine[] {
+  const amount = toAmount(heldAmount);
+  return [
+    { account: WITHDRAWAL_HOLD_ACCOUNT, userId: null, amount: -amount },
+    { account: walletAccount(userId), userId, amount }
+  ];
+}
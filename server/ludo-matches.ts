@@ -0,0 +1,166 @@
+import type { Server as SocketServer } from "socket.io";
+import { storage } from "./storage";
+import { abandonMatch, settleMatch } from "./matches";
+import { matchScheduler } from "./scheduler";
+import { getMoveStrategy, isBotDifficulty } from "./bot-strategies";
+import {
+  LUDO_GAME_NAME, createLudoGame, currentUserId, getMovableTokens, moveToken, passTurn, rollDice, rollDie,
+  type DiceRoller, type LudoActionResult, type LudoState
+} from "./ludo";
+
+// Socket.IO room shared by everyone watching or chatting in a match
+export const gameRoom = (matchId: number) => `game-${matchId}`;
+
+// Pause before a bot plays its turn, so players can follow the board
+const BOT_TURN_DELAY_MS = 1200;
+
+// A player who does not roll or move within this time loses their turn
+const TURN_TIMEOUT_MS = 60 * 1000;
+
+// The match is abandoned and refunded once every player has missed this many turns in a row
+const MAX_IDLE_ROUNDS = 3;
+
+// Runs Ludo matches on the server. Every roll and move goes through the rules
+// engine, is persisted on the match row and broadcast to the match room.
+// When the engine reports a winner the match is settled from here.
+// Bot turns and turn time limits are scheduled as match jobs, so they survive a restart.
+export class LudoMatches {
+  private io: SocketServer | null = null;
+  private states: Map<number, LudoState> = new Map();
+  private queues: Map<number, Promise<unknown>> = new Map();
+
+  constructor(private roller: DiceRoller = rollDie) {}
+
+  attach(io: SocketServer) {
+    this.io = io;
+  }
+
+  async start(matchId: number, userIds: number[]): Promise<LudoState> {
+    return this.withMatch(matchId, async () => {
+      const state = createLudoGame(matchId, userIds);
+      await this.save(state);
+      return state;
+    });
+  }
+
+  async getState(matchId: number): Promise<LudoState | undefined> {
+    const cached = this.states.get(matchId);
+    if (cached) return cached;
+
+    const match = await storage.getGameMatch(matchId);
+    if (!match?.boardState) return undefined;
+
+    const state: LudoState = JSON.parse(match.boardState);
+    this.states.set(matchId, state);
+    return state;
+  }
+
+  // Play the bot's turn, using its difficulty's strategy. Ignored if the board
+  // has moved on since the turn was scheduled.
+  playBotTurn(matchId: number, turn: number): Promise<LudoActionResult | undefined> {
+    return this.act(matchId, async state => {
+      if (state.turn !== turn) return { state, error: "The turn has already been played" };
+
+      const bot = await storage.getUser(currentUserId(state));
+      if (!bot?.isBot) return { state, error: "It is not a bot's turn" };
+
+      if (state.dice === null) return rollDice(state, bot.id, this.roller);
+
+      const difficulty = isBotDifficulty(bot.botDifficulty) ? bot.botDifficulty : "medium";
+      const strategy = getMoveStrategy<LudoState, number>(LUDO_GAME_NAME, difficulty);
+      const movable = getMovableTokens(state, state.dice);
+      const token = strategy ? strategy.choose(state, movable) : movable[0];
+      return moveToken(state, bot.id, token);
+    });
+  }
+
+  // Hand the dice on when a player runs out of time. `idleTurns` counts the turns
+  // missed in a row before this one; when nobody has played for several rounds the
+  // players have left, so the match is abandoned and everyone is refunded.
+  skipTurn(matchId: number, turn: number, idleTurns: number = 0): Promise<LudoActionResult | undefined> {
+    return this.withMatch(matchId, async () => {
+      const state = await this.getState(matchId);
+      if (!state) return undefined;
+      if (state.winnerId !== null || state.turn !== turn) {
+        return { state, error: "The turn has already been played" };
+      }
+
+      if (idleTurns + 1 >= state.players.length * MAX_IDLE_ROUNDS) {
+        this.states.delete(matchId);
+        await abandonMatch(matchId, "Nobody took a turn for several rounds");
+        return { state, error: "The match was abandoned" };
+      }
+
+      const skipped = { ...passTurn(state), lastRoll: null, lastMove: null, turn: state.turn + 1 };
+      await this.save(skipped, idleTurns + 1);
+      return { state: skipped };
+    });
+  }
+
+  roll(matchId: number, userId: number): Promise<LudoActionResult | undefined> {
+    return this.act(matchId, state => rollDice(state, userId, this.roller));
+  }
+
+  move(matchId: number, userId: number, token: number): Promise<LudoActionResult | undefined> {
+    return this.act(matchId, state => moveToken(state, userId, token));
+  }
+
+  private act(matchId: number, action: (state: LudoState) => LudoActionResult | Promise<LudoActionResult>): Promise<LudoActionResult | undefined> {
+    return this.withMatch(matchId, async () => {
+      const state = await this.getState(matchId);
+      if (!state) return undefined;
+
+      // A cancelled or abandoned match keeps its last board but takes no more moves
+      const match = await storage.getGameMatch(matchId);
+      if (match?.status !== "in_progress") {
+        return { state, error: "This match is no longer in progress" };
+      }
+
+      const result = await action(state);
+      if (result.error) return result;
+
+      await this.save(result.state);
+
+      // Only the engine decides the winner
+      if (result.state.winnerId !== null) {
+        await settleMatch(matchId, result.state.winnerId, { source: "engine" });
+      }
+
+      return result;
+    });
+  }
+
+  private async save(state: LudoState, idleTurns: number = 0) {
+    this.states.set(state.matchId, state);
+    await storage.updateGameMatch(state.matchId, { boardState: JSON.stringify(state) });
+
+    this.io?.to(gameRoom(state.matchId)).emit("ludoState", state);
+    await this.scheduleTurn(state, idleTurns);
+  }
+
+  // Actions on one match run one at a time so two requests cannot both use the same roll
+  private withMatch<T>(matchId: number, task: () => Promise<T>): Promise<T> {
+    const previous = this.queues.get(matchId) || Promise.resolve();
+    const next = previous.catch(() => undefined).then(task);
+    this.queues.set(matchId, next);
+    next.finally(() => {
+      if (this.queues.get(matchId) === next) this.queues.delete(matchId);
+    }).catch(() => undefined);
+    return next;
+  }
+
+  // Give the player to move a time limit, or schedule the bot's turn
+  private async scheduleTurn(state: LudoState, idleTurns: number) {
+    await matchScheduler.cancel(state.matchId, ["bot_turn", "turn_timeout"]);
+    if (state.winnerId !== null) return;
+
+    const player = await storage.getUser(currentUserId(state));
+    if (player?.isBot) {
+      await matchScheduler.schedule(state.matchId, "bot_turn", BOT_TURN_DELAY_MS, { turn: state.turn });
+    } else {
+      await matchScheduler.schedule(state.matchId, "turn_timeout", TURN_TIMEOUT_MS, { turn: state.turn, idleTurns });
+    }
+  }
+}
+
+export const ludoMatches = new LudoMatches();
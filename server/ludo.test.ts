@@ -0,0 +1,128 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { createLudoGame, currentUserId, getMovableTokens, HOME, moveToken, rollDice, trackSquare, YARD, type LudoState } from "./ludo";
+
+const RED = 1;
+const YELLOW = 2;
+
+const dice = (value: number) => () => value;
+
+// A two-player game with the tokens placed as given, red to play
+function game(red: number[] = [YARD, YARD, YARD, YARD], yellow: number[] = [YARD, YARD, YARD, YARD]): LudoState {
+  const state = createLudoGame(1, [RED, YELLOW]);
+  return {
+    ...state,
+    players: [
+      { ...state.players[0], tokens: red },
+      { ...state.players[1], tokens: yellow }
+    ]
+  };
+}
+
+// Roll the value and move the token with it
+function play(state: LudoState, userId: number, value: number, token: number): LudoState {
+  const rolled = rollDice(state, userId, dice(value));
+  assert.equal(rolled.error, undefined);
+  const moved = moveToken(rolled.state, userId, token);
+  assert.equal(moved.error, undefined);
+  return moved.state;
+}
+
+describe("Ludo engine", () => {
+  it("seats two players opposite each other and takes 2 to 4 players", () => {
+    assert.deepEqual(createLudoGame(1, [RED, YELLOW]).players.map(player => player.seat), [0, 2]);
+    assert.equal(createLudoGame(1, [1, 2, 3, 4]).players.length, 4);
+    assert.throws(() => createLudoGame(1, [RED]));
+    assert.throws(() => createLudoGame(1, [1, 2, 3, 4, 5]));
+  });
+
+  it("maps each seat's progress onto the shared track from its own start square", () => {
+    assert.equal(trackSquare(0, 0), 0);
+    assert.equal(trackSquare(2, 0), 26);
+    assert.equal(trackSquare(2, 30), 4);
+    assert.equal(trackSquare(0, YARD), null);
+    assert.equal(trackSquare(0, 51), null); // Home column
+  });
+
+  it("needs a six to leave the yard and passes the turn when nothing can move", () => {
+    const state = game();
+
+    assert.deepEqual(getMovableTokens(state, 5), []);
+    const { state: passed } = rollDice(state, RED, dice(5));
+    assert.equal(currentUserId(passed), YELLOW);
+    assert.equal(passed.dice, null);
+
+    const { state: rolledSix } = rollDice(state, RED, dice(6));
+    assert.deepEqual(getMovableTokens(rolledSix, 6), [0, 1, 2, 3]);
+  });
+
+  it("moves a token out of the yard onto its start square and gives another roll for a six", () => {
+    const state = play(game(), RED, 6, 0);
+
+    assert.deepEqual(state.players[0].tokens, [0, YARD, YARD, YARD]);
+    assert.equal(currentUserId(state), RED);
+    assert.deepEqual(state.lastMove, { userId: RED, token: 0, dice: 6, from: YARD, to: 0, captured: [] });
+  });
+
+  it("passes the turn after an ordinary move", () => {
+    const state = play(game([10, YARD, YARD, YARD]), RED, 3, 0);
+
+    assert.equal(state.players[0].tokens[0], 13);
+    assert.equal(currentUserId(state), YELLOW);
+  });
+
+  it("rejects actions out of turn or out of order", () => {
+    const state = game([10, YARD, YARD, YARD]);
+
+    assert.equal(rollDice(state, YELLOW, dice(3)).error, "It is not your turn");
+    assert.equal(moveToken(state, RED, 0).error, "Roll the dice first");
+
+    const { state: rolled } = rollDice(state, RED, dice(3));
+    assert.equal(rollDice(rolled, RED, dice(3)).error, "Move a token before rolling again");
+    assert.equal(moveToken(rolled, RED, 1).error, "That token cannot move with this roll");
+  });
+
+  it("captures an opponent outside a safe square and gives another roll", () => {
+    // Yellow's progress 40 is track square 14, four squares past red's token
+    const state = play(game([10, YARD, YARD, YARD], [40, YARD, YARD, YARD]), RED, 4, 0);
+
+    assert.deepEqual(state.players[1].tokens, [YARD, YARD, YARD, YARD]);
+    assert.deepEqual(state.lastMove?.captured, [{ userId: YELLOW, token: 0 }]);
+    assert.equal(currentUserId(state), RED);
+  });
+
+  it("does not capture on a safe square", () => {
+    // Yellow's progress 34 is track square 8, a star square
+    const state = play(game([4, YARD, YARD, YARD], [34, YARD, YARD, YARD]), RED, 4, 0);
+
+    assert.equal(trackSquare(0, state.players[0].tokens[0]), 8);
+    assert.deepEqual(state.players[1].tokens, [34, YARD, YARD, YARD]);
+    assert.equal(currentUserId(state), YELLOW);
+  });
+
+  it("brings a token home only with an exact roll", () => {
+    const state = game([HOME - 3, YARD, YARD, YARD]);
+
+    assert.deepEqual(getMovableTokens(state, 4), []);
+    const home = play(state, RED, 3, 0);
+    assert.equal(home.players[0].tokens[0], HOME);
+    assert.equal(currentUserId(home), RED); // Reaching home earns another roll
+  });
+
+  it("forfeits the turn on the third six in a row", () => {
+    let state = play(game(), RED, 6, 0);
+    state = play(state, RED, 6, 0);
+
+    const { state: third } = rollDice(state, RED, dice(6));
+    assert.equal(currentUserId(third), YELLOW);
+    assert.equal(third.dice, null);
+    assert.equal(third.players[0].tokens[0], 6);
+  });
+
+  it("declares the winner when the last token gets home and then stops play", () => {
+    const state = play(game([HOME, HOME, HOME, HOME - 2]), RED, 2, 3);
+
+    assert.equal(state.winnerId, RED);
+    assert.equal(rollDice(state, RED, dice(6)).error, "The game is already over");
+  });
+});
@@ -0,0 +1,205 @@
+import { randomInt } from "crypto";
+
+// Ludo rules engine. Pure functions over a serialisable state so the
+// server can persist a board, replay it and validate every player action.
+
+export const LUDO_GAME_NAME = "Ludo Royal";
+
+export const TOKENS_PER_PLAYER = 4;
+export const TRACK_LENGTH = 52;
+export const HOME_COLUMN_LENGTH = 6;
+
+// Token progress counts squares travelled from the player's own start square.
+// -1 is the yard, 0-50 the shared track, 51-55 the home column and 56 home.
+export const YARD = -1;
+export const LAST_TRACK_STEP = TRACK_LENGTH - 2;
+export const HOME = LAST_TRACK_STEP + HOME_COLUMN_LENGTH;
+
+// Track square each seat enters on; seats are red, green, yellow, blue
+export const START_SQUARES = [0, 13, 26, 39];
+
+// Start squares and star squares, where tokens cannot be captured
+export const SAFE_SQUARES = [0, 8, 13, 21, 26, 34, 39, 47];
+
+// Rolling three sixes in a row forfeits the turn
+const MAX_CONSECUTIVE_SIXES = 3;
+
+export interface LudoPlayer {
+  userId: number;
+  seat: number;
+  tokens: number[];
+}
+
+export interface LudoMove {
+  userId: number;
+  token: number;
+  dice: number;
+  from: number;
+  to: number;
+  captured: { userId: number; token: number }[];
+}
+
+export interface LudoState {
+  matchId: number;
+  players: LudoPlayer[];
+  currentPlayer: number; // Index into players
+  dice: number | null; // Rolled value waiting to be moved
+  consecutiveSixes: number;
+  lastRoll: { userId: number; dice: number } | null;
+  lastMove: LudoMove | null;
+  winnerId: number | null;
+  turn: number; // Incremented on every roll and move
+  updatedAt: string;
+}
+
+export interface LudoActionResult {
+  state: LudoState;
+  error?: string;
+}
+
+export type DiceRoller = () => number;
+
+export const rollDie: DiceRoller = () => randomInt(1, 7);
+
+// Seats used for each player count, so two players sit opposite each other
+const seatLayouts: Record<number, number[]> = {
+  2: [0, 2],
+  3: [0, 1, 2],
+  4: [0, 1, 2, 3]
+};
+
+export function createLudoGame(matchId: number, userIds: number[]): LudoState {
+  const seats = seatLayouts[userIds.length];
+  if (!seats) {
+    throw new Error(`Ludo needs 2 to 4 players, got ${userIds.length}`);
+  }
+
+  return {
+    matchId,
+    players: userIds.map((userId, index) => ({
+      userId,
+      seat: seats[index],
+      tokens: Array(TOKENS_PER_PLAYER).fill(YARD)
+    })),
+    currentPlayer: 0,
+    dice: null,
+    consecutiveSixes: 0,
+    lastRoll: null,
+    lastMove: null,
+    winnerId: null,
+    turn: 0,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+// Shared track square for a token, or null when it is in the yard or home column
+export function trackSquare(seat: number, progress: number): number | null {
+  if (progress < 0 || progress > LAST_TRACK_STEP) return null;
+  return (START_SQUARES[seat] + progress) % TRACK_LENGTH;
+}
+
+export function currentUserId(state: LudoState): number {
+  return state.players[state.currentPlayer].userId;
+}
+
+// Tokens the current player may move with the given dice value
+export function getMovableTokens(state: LudoState, dice: number): number[] {
+  const player = state.players[state.currentPlayer];
+  return player.tokens
+    .map((progress, token) => ({ progress, token }))
+    .filter(({ progress }) => {
+      if (progress === YARD) return dice === 6; // A six is needed to leave the yard
+      if (progress === HOME) return false;
+      return progress + dice <= HOME; // Home must be reached with an exact roll
+    })
+    .map(({ token }) => token);
+}
+
+export function rollDice(state: LudoState, userId: number, roller: DiceRoller = rollDie): LudoActionResult {
+  if (state.winnerId !== null) return { state, error: "The game is already over" };
+  if (currentUserId(state) !== userId) return { state, error: "It is not your turn" };
+  if (state.dice !== null) return { state, error: "Move a token before rolling again" };
+
+  const dice = roller();
+  const consecutiveSixes = dice === 6 ? state.consecutiveSixes + 1 : 0;
+  const rolled: LudoState = {
+    ...state,
+    dice,
+    consecutiveSixes,
+    lastRoll: { userId, dice },
+    lastMove: null,
+    turn: state.turn + 1,
+    updatedAt: new Date().toISOString()
+  };
+
+  // Three sixes in a row or nothing to move ends the turn straight away
+  if (consecutiveSixes >= MAX_CONSECUTIVE_SIXES || getMovableTokens(rolled, dice).length === 0) {
+    return { state: passTurn(rolled) };
+  }
+
+  return { state: rolled };
+}
+
+export function moveToken(state: LudoState, userId: number, token: number): LudoActionResult {
+  if (state.winnerId !== null) return { state, error: "The game is already over" };
+  if (currentUserId(state) !== userId) return { state, error: "It is not your turn" };
+  if (state.dice === null) return { state, error: "Roll the dice first" };
+  if (!getMovableTokens(state, state.dice).includes(token)) {
+    return { state, error: "That token cannot move with this roll" };
+  }
+
+  const dice = state.dice;
+  const mover = state.players[state.currentPlayer];
+  const from = mover.tokens[token];
+  const to = from === YARD ? 0 : from + dice;
+
+  // Landing on an opponent outside a safe square sends their tokens back to the yard
+  const captured: LudoMove["captured"] = [];
+  const square = trackSquare(mover.seat, to);
+  const players = state.players.map((player, index) => {
+    if (index === state.currentPlayer) {
+      return { ...player, tokens: player.tokens.map((progress, i) => i === token ? to : progress) };
+    }
+    if (square === null || SAFE_SQUARES.includes(square)) return player;
+
+    return {
+      ...player,
+      tokens: player.tokens.map((progress, i) => {
+        if (trackSquare(player.seat, progress) !== square) return progress;
+        captured.push({ userId: player.userId, token: i });
+        return YARD;
+      })
+    };
+  });
+
+  const moved: LudoState = {
+    ...state,
+    players,
+    dice: null,
+    lastMove: { userId, token, dice, from, to, captured },
+    turn: state.turn + 1,
+    updatedAt: new Date().toISOString()
+  };
+
+  if (players[state.currentPlayer].tokens.every(progress => progress === HOME)) {
+    return { state: { ...moved, winnerId: userId } };
+  }
+
+  // A six, a capture or bringing a token home earns another roll
+  if (dice === 6 || captured.length > 0 || to === HOME) {
+    return { state: moved };
+  }
+
+  return { state: passTurn(moved) };
+}
+
+// Hand the dice to the next player
+export function passTurn(state: LudoState): LudoState {
+  return {
+    ...state,
+    currentPlayer: (state.currentPlayer + 1) % state.players.length,
+    dice: null,
+    consecutiveSixes: 0,
+    updatedAt: new Date().toISOString()
+  };
+}
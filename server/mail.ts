@@ -0,0 +1,78 @@
+import { promises as fs } from "fs";
+import path from "path";
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+// Anything that can deliver a message. Production deployments plug in their own
+// (SMTP, a mail API) with mailer.setTransport.
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+// Prints each message to the server log
+export class ConsoleMailTransport implements MailTransport {
+  async send(message: MailMessage): Promise<void> {
+    console.log(`Mail to ${message.to}: ${message.subject}\n${message.text}`);
+  }
+}
+
+// Writes each message to its own file, so links can be opened during development
+export class FileMailTransport implements MailTransport {
+  constructor(private directory: string) {}
+
+  async send(message: MailMessage): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+
+    const name = `${Date.now()}-${message.to.replace(/[^a-z0-9]+/gi, "_")}.eml`;
+    const headers = [`To: ${message.to}`, `Subject: ${message.subject}`, `Date: ${new Date().toUTCString()}`];
+    await fs.writeFile(path.join(this.directory, name), `${headers.join("\n")}\n\n${message.text}\n`);
+  }
+}
+
+// MAIL_TRANSPORT=file writes to MAIL_OUTBOX_DIR (.mail by default); otherwise mail is logged
+export function createMailTransport(): MailTransport {
+  if (process.env.MAIL_TRANSPORT === "file") {
+    return new FileMailTransport(process.env.MAIL_OUTBOX_DIR || path.resolve(".mail"));
+  }
+  return new ConsoleMailTransport();
+}
+
+export class Mailer {
+  constructor(private transport: MailTransport = createMailTransport()) {}
+
+  // Swap the delivery method, e.g. for a real mail service or a fake in tests
+  setTransport(transport: MailTransport) {
+    this.transport = transport;
+  }
+
+  send(message: MailMessage): Promise<void> {
+    return this.transport.send(message);
+  }
+}
+
+export const mailer = new Mailer();
+
+// Origin used for links in outgoing mail. The links carry single-use tokens, so it comes
+// from APP_URL and never from the request: a forged Host header would otherwise send a
+// victim's reset link to another site. Development falls back to the local server.
+export function appUrl(): string {
+  const url = process.env.APP_URL?.trim().replace(/\/+$/, "");
+  if (url) return url;
+  if (process.env.NODE_ENV !== "production") return "http://localhost:4000";
+  throw new Error("APP_URL must be set to send mail with links");
+}
+
+// Send without failing the caller: a failed delivery is logged. For mail the user
+// can ask for again, such as waitlist links, invites and account emails.
+export async function sendQuietly(message: MailMessage): Promise<void> {
+  try {
+    await mailer.send(message);
+  } catch (error) {
+    console.error(`Error sending mail to ${message.to}:`, error);
+  }
+}
@@ -0,0 +1,42 @@
+import { storage } from "./storage";
+import { matchScheduler, getJobPayload, type MatchScheduler } from "./scheduler";
+import { abandonMatch, cancelMatch } from "./matches";
+import { ludoMatches } from "./ludo-matches";
+import { botPlayers } from "./bots";
+
+interface TurnPayload {
+  turn: number;
+  idleTurns?: number;
+}
+
+// What each match job does when it comes due. Handlers check the match again
+// first, since it may have moved on after the job was scheduled.
+export function registerMatchJobs(scheduler: MatchScheduler = matchScheduler) {
+  scheduler.register("join_timeout", async (job) => {
+    const players = await storage.getMatchPlayers(job.matchId);
+    if (players.length < 2) {
+      await cancelMatch(job.matchId, "No opponent joined in time", ["waiting"]);
+    }
+  });
+
+  scheduler.register("start_deadline", async (job) => {
+    await cancelMatch(job.matchId, "The match was not started in time", ["waiting"]);
+  });
+
+  scheduler.register("abandon_refund", async (job) => {
+    await abandonMatch(job.matchId, "The match did not finish in time");
+  });
+
+  scheduler.register("turn_timeout", async (job) => {
+    const { turn, idleTurns = 0 } = getJobPayload<TurnPayload>(job);
+    await ludoMatches.skipTurn(job.matchId, turn, idleTurns);
+  });
+
+  scheduler.register("bot_turn", async (job) => {
+    await ludoMatches.playBotTurn(job.matchId, getJobPayload<TurnPayload>(job).turn);
+  });
+
+  scheduler.register("bot_join", (job) => botPlayers.join(job.matchId));
+  scheduler.register("bot_start", (job) => botPlayers.start(job.matchId));
+  scheduler.register("bot_finish", (job) => botPlayers.finish(job.matchId));
+}
@@ -0,0 +1,177 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { abandonMatch, calculateCommission, cancelMatch, refundEntryFees, settleMatch, startMatch, submitMatchResult } from "./matches";
+import { storage } from "./storage";
+
+let userCount = 0;
+
+async function createPlayer(balance: string) {
+  const username = `matchplayer${++userCount}`;
+  const user = await storage.createUser({ username, password: "hashed", email: `${username}@example.com` });
+  await storage.createWallet({ userId: user.id, balance });
+  return user;
+}
+
+// A two-player match with the given entry fee, started unless told otherwise
+async function createMatch(options: { entry?: string; mode?: string; balances?: [string, string]; start?: boolean } = {}) {
+  const game = (await storage.getAllGames()).find(game => parseFloat(game.commissionPercentage) > 0)!;
+  const [first, second] = await Promise.all((options.balances ?? ["1000", "1000"]).map(createPlayer));
+  const match = await storage.createGameMatch({
+    gameId: game.id,
+    entryAmount: options.entry ?? "100",
+    status: "waiting",
+    mode: options.mode ?? "real_money"
+  });
+  await storage.addPlayerToMatch({ matchId: match.id, userId: first.id, status: "joined" });
+  await storage.addPlayerToMatch({ matchId: match.id, userId: second.id, status: "joined" });
+
+  if (options.start !== false) {
+    const { error } = await startMatch(match.id);
+    assert.equal(error, undefined);
+  }
+  return { game, match: (await storage.getGameMatch(match.id))!, first, second };
+}
+
+const balance = async (userId: number) => (await storage.getWallet(userId))?.balance;
+
+const transactionTypes = async (matchId: number) =>
+  (await storage.getMatchTransactions(matchId)).map(transaction => transaction.type).sort();
+
+describe("match money", () => {
+  it("takes the subscription discount off the commission", () => {
+    assert.equal(calculateCommission(200, 10), 20);
+    assert.equal(calculateCommission(200, 10, 25), 15);
+    assert.equal(calculateCommission(200, 10, 150), 0);
+    assert.equal(calculateCommission(0, 10), 0);
+  });
+
+  it("charges every player the entry fee, or nobody", async () => {
+    const { match, first, second } = await createMatch({ balances: ["1000", "50"], start: false });
+
+    const { error } = await startMatch(match.id);
+
+    assert.match(error ?? "", /doesn't have enough balance/);
+    assert.equal(await balance(first.id), "1000.00");
+    assert.equal(await balance(second.id), "50.00");
+    assert.equal((await storage.getGameMatch(match.id))?.status, "waiting");
+  });
+
+  it("charges the entry fees once when the match is started twice at once", async () => {
+    const { match, first, second } = await createMatch({ start: false });
+
+    const starts = await Promise.all([startMatch(match.id), startMatch(match.id)]);
+
+    assert.equal(starts.filter(start => start.match).length, 1);
+    assert.equal(await balance(first.id), "900.00");
+    assert.equal(await balance(second.id), "900.00");
+    assert.deepEqual(await transactionTypes(match.id), ["game_entry", "game_entry"]);
+    assert.equal((await storage.getGameMatch(match.id))?.status, "in_progress");
+  });
+
+  it("puts the match back to waiting when the entry fees cannot be charged", async t => {
+    const { match, first } = await createMatch({ start: false });
+    // A player spent the balance between the check and the charge
+    t.mock.method(storage, "postWalletTransactions", async () => undefined);
+
+    const { error } = await startMatch(match.id);
+
+    assert.equal(error, "A player no longer has enough balance to start this match");
+    assert.equal(await balance(first.id), "1000.00");
+    assert.equal((await storage.getGameMatch(match.id))?.status, "waiting");
+  });
+
+  it("pays the winner the pot less commission, once", async () => {
+    const { game, match, first, second } = await createMatch();
+    const commission = calculateCommission(200, parseFloat(game.commissionPercentage));
+
+    const settled = await settleMatch(match.id, first.id, { source: "admin", decidedBy: second.id });
+
+    assert.equal(settled?.status, "completed");
+    assert.equal(settled?.winnerId, first.id);
+    assert.equal(await balance(first.id), (900 + 200 - commission).toFixed(2));
+    assert.equal(await balance(second.id), "900.00");
+    assert.equal((await storage.getMatchSettlement(match.id))?.commissionAmount, commission.toFixed(2));
+    assert.deepEqual((await storage.getMatchPlayers(match.id)).map(player => player.status), ["won", "lost"]);
+
+    assert.equal(await settleMatch(match.id, second.id, { source: "admin" }), undefined);
+    assert.equal(await balance(second.id), "900.00");
+    assert.deepEqual(await transactionTypes(match.id), ["game_entry", "game_entry", "game_win"]);
+  });
+
+  it("only settles for a player in the match", async () => {
+    const { match } = await createMatch();
+    const outsider = await createPlayer("0");
+
+    assert.equal(await settleMatch(match.id, outsider.id, { source: "admin" }), undefined);
+    assert.equal((await storage.getGameMatch(match.id))?.status, "in_progress");
+  });
+
+  it("moves no money for a practice match", async () => {
+    const { match, first, second } = await createMatch({ mode: "practice" });
+
+    assert.equal((await settleMatch(match.id, second.id, { source: "system" }))?.status, "completed");
+    assert.equal(await balance(first.id), "1000.00");
+    assert.equal(await balance(second.id), "1000.00");
+    assert.deepEqual(await transactionTypes(match.id), []);
+  });
+
+  it("refunds every entry fee of a cancelled match, once", async () => {
+    const { match, first, second } = await createMatch();
+
+    assert.equal((await cancelMatch(match.id, "Cancelled by an admin"))?.status, "cancelled");
+    assert.equal(await cancelMatch(match.id, "Cancelled again"), undefined);
+    assert.deepEqual(await refundEntryFees(match, "Retried"), []);
+
+    assert.equal(await balance(first.id), "1000.00");
+    assert.equal(await balance(second.id), "1000.00");
+    assert.deepEqual(await transactionTypes(match.id), ["game_entry", "game_entry", "game_refund", "game_refund"]);
+  });
+
+  it("does not settle a match that was refunded", async () => {
+    const { match, first } = await createMatch();
+    await abandonMatch(match.id, "No result in time");
+
+    assert.equal(await settleMatch(match.id, first.id, { source: "admin" }), undefined);
+    assert.equal((await storage.getGameMatch(match.id))?.status, "abandoned");
+    assert.equal(await balance(first.id), "1000.00");
+  });
+
+  it("only abandons a match in progress", async () => {
+    const { match } = await createMatch({ start: false });
+
+    assert.equal(await abandonMatch(match.id, "No result in time"), undefined);
+    assert.equal((await storage.getGameMatch(match.id))?.status, "waiting");
+  });
+
+  it("settles a match when the players agree and disputes it when they do not", async () => {
+    const agreed = await createMatch();
+    assert.equal((await submitMatchResult(agreed.match, agreed.first.id, agreed.first.id)).outcome, "waiting");
+    assert.equal((await submitMatchResult(agreed.match, agreed.second.id, agreed.first.id)).outcome, "settled");
+    assert.equal((await storage.getGameMatch(agreed.match.id))?.winnerId, agreed.first.id);
+
+    const disputed = await createMatch();
+    await submitMatchResult(disputed.match, disputed.first.id, disputed.first.id);
+    const submission = await submitMatchResult(disputed.match, disputed.second.id, disputed.second.id);
+    assert.equal(submission.outcome, "disputed");
+    assert.equal(submission.match.status, "disputed");
+    assert.equal(await balance(disputed.first.id), "900.00");
+  });
+
+  it("leaves a match refunded in the meantime alone when reports disagree", async () => {
+    const { match, first, second } = await createMatch();
+    await submitMatchResult(match, first.id, first.id);
+    await cancelMatch(match.id, "Cancelled by an admin");
+
+    const submission = await submitMatchResult(match, second.id, second.id);
+
+    assert.equal(submission.outcome, "closed");
+    assert.equal((await storage.getGameMatch(match.id))?.status, "cancelled");
+  });
+
+  it("keeps every wallet in step with the ledger", async () => {
+    const reconciliation = await storage.reconcileWallets();
+
+    assert.ok(reconciliation.length > 0);
+    assert.deepEqual(reconciliation.filter(wallet => wallet.difference !== 0), []);
+  });
+});
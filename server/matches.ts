@@ -0,0 +1,285 @@
+import type { Game, GameMatch, MatchResultReport, Transaction } from "@shared/schema";
+import { storage } from "./storage";
+import { matchScheduler } from "./scheduler";
+import { getCommissionDiscount } from "./entitlements";
+
+// Where a match result came from. Clients can never settle a match on their own:
+// results come from a game engine, an admin, or every player reporting the same winner.
+export type SettlementSource = "engine" | "admin" | "players_agreed" | "system";
+
+export interface SettlementDecision {
+  source: SettlementSource;
+  decidedBy?: number;
+  reason?: string;
+}
+
+export interface MatchStart {
+  match?: GameMatch;
+  game?: Game;
+  error?: string;
+}
+
+export interface ResultSubmission {
+  match: GameMatch;
+  reports: MatchResultReport[];
+  outcome: "waiting" | "settled" | "disputed" | "closed"; // Closed: the match left play before the report counted
+}
+
+// Matches in these states can still be settled
+const SETTLEABLE_STATUSES = ["in_progress", "disputed"];
+
+// Matches in these states can be cancelled; any entry fees already charged are refunded
+export const CANCELLABLE_STATUSES = ["waiting", "in_progress", "disputed"];
+
+// How long a match may sit in each state before the scheduler steps in
+export const JOIN_TIMEOUT_MS = 30 * 60 * 1000; // Waiting for an opponent
+export const START_DEADLINE_MS = 10 * 60 * 1000; // Full, but nobody has started it
+export const ABANDON_TIMEOUT_MS = 2 * 60 * 60 * 1000; // In progress without a result
+
+// Calculate commission based on transaction amount, game percentage, and the
+// subscription discount (percent off the commission) the winner is entitled to
+export const calculateCommission = (amount: number, percentage: number, discountPercentage: number = 0): number => {
+  if (amount <= 0 || percentage <= 0) return 0;
+
+  // Apply subscription discount if user has active subscription
+  let adjustedPercentage = percentage;
+  if (discountPercentage > 0) {
+    adjustedPercentage = percentage * (1 - Math.min(discountPercentage, 100) / 100);
+  }
+
+  // Calculate commission
+  return (amount * adjustedPercentage) / 100;
+};
+
+// Start a waiting match: mark it in progress, then charge every player the entry fee,
+// all or nothing. Practice matches are free. Returns an error message if it cannot start.
+export async function startMatch(matchId: number): Promise<MatchStart> {
+  const match = await storage.getGameMatch(matchId);
+  if (!match) return { error: "Match not found" };
+  if (match.status !== "waiting") return { error: "Match is not in waiting status" };
+
+  const players = await storage.getMatchPlayers(matchId);
+  if (players.length < 2) return { error: "Need at least 2 players to start the match" };
+
+  const game = await storage.getGame(match.gameId);
+  if (!game) return { error: "Game not found" };
+
+  const isPractice = match.mode === "practice";
+  const entryAmount = isPractice ? 0 : parseFloat(match.entryAmount.toString());
+
+  if (!isPractice) {
+    // Check every player can pay before charging anyone
+    for (const player of players) {
+      const wallet = await storage.getWallet(player.userId);
+      if (!wallet) {
+        return { error: `Player ${player.userId} doesn't have a wallet` };
+      }
+
+      const walletBalance = parseFloat(wallet.balance.toString());
+      if (walletBalance < entryAmount) {
+        return { error: `Player ${player.userId} doesn't have enough balance. Required: ₹${entryAmount}` };
+      }
+    }
+  }
+
+  // Claim the match before charging anyone, so two callers starting it at once
+  // (a player and the bot service) cannot both charge the entry fees
+  const startedMatch = await storage.updateGameMatchStatus(matchId, ["waiting"], {
+    status: "in_progress",
+    startTime: new Date()
+  });
+  if (!startedMatch) return { error: "Match is not in waiting status" };
+
+  if (!isPractice) {
+    const entryPostings = await storage.postWalletTransactions(players.map(player => ({
+      userId: player.userId,
+      amount: (-entryAmount).toString(),
+      type: "game_entry",
+      status: "completed",
+      description: `Entry fee for ${game.name} (Match #${matchId})`,
+      commissionAmount: "0",
+      matchId
+    })));
+
+    if (!entryPostings) {
+      await storage.updateGameMatchStatus(matchId, ["in_progress"], { status: "waiting", startTime: null });
+      return { error: "A player no longer has enough balance to start this match" };
+    }
+
+    // Cancelled while the fees were being charged: the cancellation found nothing to refund
+    const current = await storage.getGameMatch(matchId);
+    if (current && ["cancelled", "abandoned"].includes(current.status)) {
+      await refundEntryFees(current, current.endReason ?? "Match ended before it started");
+      return { error: "Match ended before it started" };
+    }
+  }
+
+  // Refund everyone if the match never produces a result
+  await matchScheduler.cancel(matchId, ["join_timeout", "start_deadline"]);
+  await matchScheduler.schedule(matchId, "abandon_refund", ABANDON_TIMEOUT_MS);
+
+  return { match: startedMatch, game };
+}
+
+// Cancel a match and refund every entry fee it charged. A waiting match has not
+// charged anyone yet. Only applies while the match is in one of the `from` statuses.
+export async function cancelMatch(matchId: number, reason: string, from: string[] = CANCELLABLE_STATUSES): Promise<GameMatch | undefined> {
+  return endMatch(matchId, from, "cancelled", reason);
+}
+
+// Give up on a match in progress that stopped producing moves or a result, and refund it
+export async function abandonMatch(matchId: number, reason: string): Promise<GameMatch | undefined> {
+  return endMatch(matchId, ["in_progress"], "abandoned", reason);
+}
+
+async function endMatch(matchId: number, from: string[], status: "cancelled" | "abandoned", reason: string): Promise<GameMatch | undefined> {
+  const match = await storage.updateGameMatchStatus(matchId, from, {
+    status,
+    endReason: reason,
+    endTime: new Date()
+  });
+
+  if (!match) {
+    // A retried job whose refunds failed part way through: finish them
+    const current = await storage.getGameMatch(matchId);
+    if (current?.status === status) {
+      await refundEntryFees(current, current.endReason ?? reason);
+    }
+    return undefined;
+  }
+
+  await matchScheduler.cancel(matchId);
+  await refundEntryFees(match, reason);
+  return match;
+}
+
+// Post a game_refund for every entry fee the match charged that has not been refunded yet,
+// each linked to the game_entry it returns, so calling it again never refunds twice.
+export async function refundEntryFees(match: GameMatch, reason: string): Promise<Transaction[]> {
+  const transactions = await storage.getMatchTransactions(match.id);
+  const refunded = new Set(transactions
+    .filter(transaction => transaction.type === "game_refund")
+    .map(transaction => transaction.relatedTransactionId));
+  const entries = transactions.filter(transaction =>
+    transaction.type === "game_entry" && transaction.status === "completed" && !refunded.has(transaction.id)
+  );
+  if (entries.length === 0) return [];
+
+  const postings = await storage.postWalletTransactions(entries.map(entry => ({
+    userId: entry.userId,
+    amount: Math.abs(parseFloat(entry.amount.toString())).toString(),
+    type: "game_refund",
+    status: "completed",
+    description: `Refund of entry fee for Match #${match.id}`,
+    commissionAmount: "0",
+    metadata: JSON.stringify({ reason }),
+    matchId: match.id,
+    relatedTransactionId: entry.id
+  })));
+
+  if (!postings) {
+    throw new Error(`Could not refund the entry fees for match ${match.id}`);
+  }
+  return postings.map(posting => posting.transaction);
+}
+
+// Complete an in-progress or disputed match: record the winner and how the result was
+// decided, update player statuses and pay the prize pool minus commission to the winner.
+// Returns undefined if the match cannot be settled, the winner did not play in it,
+// or it has already been settled.
+export async function settleMatch(matchId: number, winnerId: number, decision: SettlementDecision): Promise<GameMatch | undefined> {
+  const match = await storage.getGameMatch(matchId);
+  if (!match || !SETTLEABLE_STATUSES.includes(match.status)) return undefined;
+
+  const game = await storage.getGame(match.gameId);
+  if (!game) return undefined;
+
+  const players = await storage.getMatchPlayers(matchId);
+  if (!players.some(player => player.userId === winnerId)) return undefined;
+
+  // Calculate prize pool and commission; practice matches have neither
+  const isPractice = match.mode === "practice";
+  const entryAmount = isPractice ? 0 : parseFloat(match.entryAmount.toString());
+  const totalPrize = entryAmount * players.length;
+  const commissionPercentage = parseFloat(game.commissionPercentage.toString());
+
+  // Apply the discount from the winner's subscription plan, if any
+  const commissionDiscount = await getCommissionDiscount(winnerId);
+  const commission = calculateCommission(totalPrize, commissionPercentage, commissionDiscount);
+  const winnerPrize = totalPrize - commission;
+
+  // The settlement record, the completed status and the prize are written together, so
+  // a match is never left completed without its prize paid. The settlement record is
+  // both the audit trail and the guard against paying twice, and a match refunded in
+  // the meantime is no longer settleable.
+  const settled = await storage.settleGameMatch(
+    {
+      matchId,
+      winnerId,
+      source: decision.source,
+      decidedBy: decision.decidedBy ?? null,
+      reason: decision.reason ?? null,
+      prizeAmount: winnerPrize.toFixed(2),
+      commissionAmount: commission.toFixed(2)
+    },
+    SETTLEABLE_STATUSES,
+    { status: "completed", endTime: new Date(), winnerId },
+    isPractice ? undefined : {
+      userId: winnerId,
+      amount: winnerPrize.toString(),
+      type: "game_win",
+      status: "completed",
+      description: commissionDiscount > 0
+        ? `Prize for winning ${game.name} (with ${commissionDiscount}% subscription commission discount)`
+        : `Prize for winning ${game.name}`,
+      commissionAmount: commission.toString(),
+      metadata: JSON.stringify({ source: decision.source }),
+      matchId
+    }
+  );
+  if (!settled) return undefined;
+
+  await matchScheduler.cancel(matchId);
+
+  // Update player statuses
+  for (const player of players) {
+    const newStatus = player.userId === winnerId ? "won" : "lost";
+    await storage.updatePlayerMatchStatus(player.id, newStatus);
+  }
+
+  return settled.match;
+}
+
+// Record the winner a player reports for a match. The match is settled once every
+// player has reported the same winner, and marked disputed for an admin as soon as
+// two reports disagree.
+export async function submitMatchResult(match: GameMatch, userId: number, reportedWinnerId: number): Promise<ResultSubmission> {
+  await storage.saveMatchResultReport({ matchId: match.id, userId, reportedWinnerId });
+
+  const players = await storage.getMatchPlayers(match.id);
+  const reports = await storage.getMatchResultReports(match.id);
+  const reportedWinners = new Set(reports.map(report => report.reportedWinnerId));
+
+  if (reportedWinners.size > 1) {
+    // Only a match still in progress becomes disputed; one settled, refunded or
+    // already disputed in the meantime keeps its status
+    const disputedMatch = await storage.updateGameMatchStatus(match.id, ["in_progress"], { status: "disputed" });
+    if (disputedMatch) return { match: disputedMatch, reports, outcome: "disputed" };
+
+    const current = await storage.getGameMatch(match.id) ?? match;
+    return {
+      match: current,
+      reports,
+      outcome: current.status === "disputed" ? "disputed" : current.status === "completed" ? "settled" : "closed"
+    };
+  }
+
+  if (reports.length >= players.length) {
+    const settledMatch = await settleMatch(match.id, reportedWinnerId, { source: "players_agreed" });
+    if (settledMatch) {
+      return { match: settledMatch, reports, outcome: "settled" };
+    }
+  }
+
+  return { match, reports, outcome: "waiting" };
+}
@@ -0,0 +1,258 @@
+import type { Server as SocketServer } from "socket.io";
+import {
+  hasPermission, type ChatMessage, type ChatReport, type ChatReportAction, type ChatReportStatus, type ChatReportView,
+  type ChatRoom, type ChatSanction, type ChatSanctionType, type ChatSanctionView, type User
+} from "@shared/schema";
+import { storage } from "./storage";
+import { userRoom } from "./sockets";
+
+// Masked out of messages unless CHAT_BLOCKED_WORDS sets a comma-separated list instead
+const DEFAULT_BLOCKED_WORDS = ["fuck", "fucking", "shit", "bitch", "cunt", "asshole", "bastard", "motherfucker"];
+
+// Each user can send this many messages in any window
+export const CHAT_RATE_LIMIT_MESSAGES = 5;
+export const CHAT_RATE_LIMIT_WINDOW_MS = 10 * 1000;
+
+const MINUTE_MS = 60 * 1000;
+
+export interface SanctionRequest {
+  userId: number;
+  roomId: number | null; // Null for every room
+  type: ChatSanctionType;
+  reason?: string;
+  minutes?: number; // Until lifted when not set
+}
+
+export interface SanctionResult {
+  sanction?: ChatSanctionView;
+  error?: string;
+}
+
+export interface ReportResult {
+  report?: ChatReport;
+  error?: string;
+}
+
+export function getBlockedWords(): string[] {
+  const configured = process.env.CHAT_BLOCKED_WORDS;
+  return (configured !== undefined ? configured.split(",") : DEFAULT_BLOCKED_WORDS)
+    .map(word => word.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+const escapeRegExp = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Replace blocked words with asterisks. Only whole words match, in any case.
+export function filterMessage(content: string): string {
+  const words = getBlockedWords();
+  if (words.length === 0) return content;
+
+  const pattern = new RegExp(`\\b(?:${words.map(escapeRegExp).join("|")})\\b`, "gi");
+  return content.replace(pattern, match => "*".repeat(match.length));
+}
+
+const covers = (sanction: ChatSanction, roomId: number) => sanction.roomId === null || sanction.roomId === roomId;
+
+// Moderates chat: what users may post, reports on messages, and mutes and bans.
+// Moderator actions are pushed to the clients they affect as they happen: removed
+// messages to their room, and sanctions to the sanctioned user's connections.
+export class ChatModeration {
+  private io: SocketServer | null = null;
+  // When each user's recent messages were sent, for the rate limit
+  private recentPosts: Map<number, number[]> = new Map();
+
+  attach(io: SocketServer) {
+    this.io = io;
+  }
+
+  async isBanned(userId: number, roomId: number): Promise<boolean> {
+    const sanctions = await storage.getActiveChatSanctions(new Date(), userId);
+    return sanctions.some(sanction => sanction.type === "ban" && covers(sanction, roomId));
+  }
+
+  // Why the user can't post in the room right now, or undefined if they can. A message
+  // that passes counts toward the user's rate limit.
+  async checkPost(user: User, room: ChatRoom): Promise<string | undefined> {
+    const sanctions = (await storage.getActiveChatSanctions(new Date(), user.id)).filter(sanction => covers(sanction, room.id));
+    if (sanctions.some(sanction => sanction.type === "ban")) return "You are banned from this room";
+    if (sanctions.some(sanction => sanction.type === "mute")) return "You are muted in this room";
+
+    const now = Date.now();
+    const recent = (this.recentPosts.get(user.id) ?? []).filter(sentAt => sentAt > now - CHAT_RATE_LIMIT_WINDOW_MS);
+    if (recent.length >= CHAT_RATE_LIMIT_MESSAGES) {
+      const waitSeconds = Math.ceil((recent[0] + CHAT_RATE_LIMIT_WINDOW_MS - now) / 1000);
+      return `You're sending messages too quickly. Try again in ${waitSeconds}s`;
+    }
+
+    this.recentPosts.set(user.id, [...recent, now]);
+    return undefined;
+  }
+
+  // Report a message from a room the reporter is in. Each user reports a message once.
+  async reportMessage(reporter: User, messageId: number, reason: string): Promise<ReportResult> {
+    const message = await storage.getChatMessage(messageId);
+    if (!message || message.removedAt || !(await storage.getChatMember(message.roomId, reporter.id))) {
+      return { error: "Message not found" };
+    }
+    if (message.senderId === reporter.id) return { error: "You can't report your own message" };
+
+    const report = await storage.createChatReport({ messageId, reporterId: reporter.id, reason });
+    return report ? { report } : { error: "You have already reported this message" };
+  }
+
+  // The moderation queue: reports with the status, oldest first
+  async getReports(status: ChatReportStatus): Promise<ChatReportView[]> {
+    const reports = await storage.getChatReports(status);
+    const usernames = new Map<number, string>();
+    const rooms = new Map<number, ChatRoom | undefined>();
+
+    const username = async (userId: number) => {
+      if (!usernames.has(userId)) usernames.set(userId, (await storage.getUser(userId))?.username ?? "Unknown");
+      return usernames.get(userId)!;
+    };
+
+    const views: ChatReportView[] = [];
+    for (const report of reports) {
+      const message = await storage.getChatMessage(report.messageId);
+      if (!message) continue;
+
+      if (!rooms.has(message.roomId)) rooms.set(message.roomId, await storage.getChatRoom(message.roomId));
+      const room = rooms.get(message.roomId);
+
+      views.push({
+        ...report,
+        content: message.content,
+        senderId: message.senderId,
+        senderName: await username(message.senderId),
+        reporterName: await username(report.reporterId),
+        roomKey: room?.key ?? "",
+        roomName: room?.name ?? "Unknown room",
+        messageRemoved: !!message.removedAt,
+        sentAt: message.createdAt
+      });
+    }
+    return views;
+  }
+
+  // Close a pending report: dismiss it, take the message down, or also mute or ban
+  // its sender in the room it was sent to. Other reports on the message close with it.
+  async reviewReport(reportId: number, moderator: User, action: ChatReportAction, minutes?: number): Promise<ReportResult> {
+    const report = await storage.getChatReport(reportId);
+    if (!report) return { error: "Report not found" };
+    if (report.status !== "pending") return { error: "This report has already been reviewed" };
+
+    const message = await storage.getChatMessage(report.messageId);
+    if (!message) return { error: "Message not found" };
+
+    let status: ChatReportStatus = "actioned";
+    let resolution: string;
+
+    if (action === "dismiss") {
+      status = "dismissed";
+      resolution = "Dismissed";
+    } else {
+      if (action === "mute" || action === "ban") {
+        const { error } = await this.sanctionUser(moderator, {
+          userId: message.senderId,
+          roomId: message.roomId,
+          type: action,
+          reason: `Reported message: ${report.reason}`,
+          minutes
+        });
+        if (error) return { error };
+      }
+
+      await this.takeDown(message, moderator);
+      const duration = minutes ? ` for ${minutes} minutes` : "";
+      resolution = action === "remove"
+        ? "Message removed"
+        : `Message removed, sender ${action === "mute" ? "muted" : "banned"}${duration}`;
+    }
+
+    await storage.resolveChatReports(message.id, status, moderator.id, resolution, new Date());
+    return { report: await storage.getChatReport(reportId) };
+  }
+
+  // Take a message down and close any reports on it
+  async removeMessage(messageId: number, moderator: User): Promise<{ message?: ChatMessage; error?: string }> {
+    const message = await storage.getChatMessage(messageId);
+    if (!message) return { error: "Message not found" };
+
+    const removed = await this.takeDown(message, moderator);
+    if (!removed) return { error: "This message has already been removed" };
+
+    await storage.resolveChatReports(message.id, "actioned", moderator.id, "Message removed", new Date());
+    return { message: removed };
+  }
+
+  // Mute or ban a user in a room, or in every room. Moderators can't be sanctioned.
+  // A ban also takes the user's connections out of the room; match rooms carry the
+  // board as well as the chat, so there the ban only stops them posting and loading history.
+  async sanctionUser(moderator: User, request: SanctionRequest): Promise<SanctionResult> {
+    if (request.userId === moderator.id) return { error: "You can't mute or ban yourself" };
+
+    const target = await storage.getUser(request.userId);
+    if (!target) return { error: "User not found" };
+    if (hasPermission(target, "moderate_chat")) return { error: "Moderators can't be muted or banned" };
+
+    const sanction = await storage.createChatSanction({
+      userId: target.id,
+      roomId: request.roomId,
+      type: request.type,
+      reason: request.reason ?? null,
+      createdBy: moderator.id,
+      expiresAt: request.minutes ? new Date(Date.now() + request.minutes * MINUTE_MS) : null
+    });
+    const view = await this.toSanctionView(sanction);
+
+    this.io?.to(userRoom(target.id)).emit("chatSanction", view);
+
+    if (sanction.type === "ban") {
+      const roomKeys = view.roomKey !== null
+        ? [view.roomKey]
+        : (await storage.getUserChatRooms(target.id)).map(room => room.key);
+      this.io?.in(userRoom(target.id)).socketsLeave(roomKeys.filter(key => !key.startsWith("game-")));
+    }
+
+    return { sanction: view };
+  }
+
+  async liftSanction(sanctionId: number, moderator: User): Promise<SanctionResult> {
+    const lifted = await storage.liftChatSanction(sanctionId, moderator.id, new Date());
+    if (!lifted) {
+      return { error: (await storage.getChatSanction(sanctionId)) ? "This sanction has already been lifted" : "Sanction not found" };
+    }
+
+    const view = await this.toSanctionView(lifted);
+    this.io?.to(userRoom(lifted.userId)).emit("chatSanctionLifted", view);
+    return { sanction: view };
+  }
+
+  // Active sanctions, for everyone or one user, newest first
+  async getSanctions(userId?: number): Promise<ChatSanctionView[]> {
+    const sanctions = await storage.getActiveChatSanctions(new Date(), userId);
+    return Promise.all(sanctions.map(sanction => this.toSanctionView(sanction)));
+  }
+
+  private async takeDown(message: ChatMessage, moderator: User): Promise<ChatMessage | undefined> {
+    const removed = await storage.removeChatMessage(message.id, moderator.id, new Date());
+    if (!removed) return undefined;
+
+    const room = await storage.getChatRoom(message.roomId);
+    if (room) this.io?.to(room.key).emit("messageRemoved", { roomId: room.key, messageId: message.id });
+    return removed;
+  }
+
+  private async toSanctionView(sanction: ChatSanction): Promise<ChatSanctionView> {
+    const user = await storage.getUser(sanction.userId);
+    const room = sanction.roomId !== null ? await storage.getChatRoom(sanction.roomId) : undefined;
+    return {
+      ...sanction,
+      username: user?.username ?? "Unknown",
+      roomKey: room?.key ?? null,
+      roomName: room?.name ?? null
+    };
+  }
+}
+
+export const chatModeration = new ChatModeration();
@@ -0,0 +1,65 @@
+import type { Server as SocketServer } from "socket.io";
+import type { Notification, NotificationPage, NotificationType } from "@shared/schema";
+import { storage } from "./storage";
+import { userRoom } from "./sockets";
+
+export interface NotificationMessage {
+  type: NotificationType;
+  title: string;
+  body: string;
+  link?: string; // The page the notification opens
+}
+
+// An amount of money as shown in notifications, e.g. ₹10.00
+export const formatRupees = (amount: string | number) =>
+  `₹${Math.abs(parseFloat(amount.toString())).toFixed(2)}`;
+
+// Stores notifications and pushes each one to the user's open connections as it is
+// made. Reads are pushed too, so every tab the user has open keeps the same count.
+export class NotificationService {
+  private io: SocketServer | null = null;
+
+  attach(io: SocketServer) {
+    this.io = io;
+  }
+
+  // Notify a user. A notification that can't be stored is logged rather than failing
+  // the deposit, payout or invite it was about.
+  async notify(userId: number, message: NotificationMessage): Promise<Notification | undefined> {
+    try {
+      const notification = await storage.createNotification({ userId, ...message, link: message.link ?? null });
+      this.io?.to(userRoom(userId)).emit("notification", notification);
+      return notification;
+    } catch (error) {
+      console.error(`Error notifying user ${userId}:`, error);
+      return undefined;
+    }
+  }
+
+  // A page of the user's notifications, newest first, with how many are unread
+  async getPage(userId: number, before: number | undefined, limit: number): Promise<NotificationPage> {
+    // One extra notification tells whether there is a page after this one
+    const newestFirst = await storage.getNotifications(userId, { before, limit: limit + 1 });
+    const page = newestFirst.slice(0, limit);
+
+    return {
+      notifications: page,
+      unreadCount: await storage.getUnreadNotificationCount(userId),
+      nextCursor: newestFirst.length > limit ? page[page.length - 1].id : null
+    };
+  }
+
+  async markRead(userId: number, notificationId: number): Promise<Notification | undefined> {
+    const notification = await storage.markNotificationRead(notificationId, userId, new Date());
+    if (notification) this.io?.to(userRoom(userId)).emit("notificationsRead");
+    return notification;
+  }
+
+  async markAllRead(userId: number): Promise<number> {
+    const count = await storage.markAllNotificationsRead(userId, new Date());
+    if (count > 0) this.io?.to(userRoom(userId)).emit("notificationsRead");
+    return count;
+  }
+}
+
+export const notificationService = new NotificationService();
@@ -0,0 +1,60 @@
+import type { InviteCode, RegistrationMode } from "@shared/schema";
+import { storage } from "./storage";
+
+export const REGISTRATION_MODES: RegistrationMode[] = ["open", "invite", "waitlist"];
+
+// Set with REGISTRATION_MODE; anyone can register unless it says otherwise
+export function getRegistrationMode(): RegistrationMode {
+  const mode = process.env.REGISTRATION_MODE as RegistrationMode;
+  return REGISTRATION_MODES.includes(mode) ? mode : "open";
+}
+
+export interface RegistrationPass {
+  invite?: InviteCode; // Claimed for this registration
+  error?: string;
+}
+
+// Codes are sent in upper case but accepted however they are typed
+const normalizeInviteCode = (code: string) => code.trim().toUpperCase();
+
+async function claimInvite(invite: InviteCode): Promise<RegistrationPass> {
+  const claimed = await storage.claimInviteCode(invite.id, new Date());
+  return claimed ? { invite: claimed } : { error: "This invite code has already been used" };
+}
+
+// Check a registration against the registration mode. A code is claimed here, so two
+// sign-ups can never share it; call releaseRegistration if the account is not created.
+// In waitlist mode an invited member registers with the code from their invite email:
+// knowing an invited address proves nothing, the code shows the mail was received.
+export async function admitRegistration(inviteCode?: string): Promise<RegistrationPass> {
+  const mode = getRegistrationMode();
+  const code = inviteCode ? normalizeInviteCode(inviteCode) : "";
+
+  if (code) {
+    const invite = await storage.getInviteCodeByCode(code);
+    if (invite) {
+      const pass = await claimInvite(invite);
+      // With open registration a code only records where the sign-up came from
+      return mode === "open" && pass.error ? {} : pass;
+    }
+    if (mode !== "open") return { error: "This invite code is not valid" };
+  }
+
+  if (mode === "invite") return { error: "An invite code is required to register" };
+
+  if (mode === "waitlist") {
+    return { error: "Registration is open to invited waitlist members only. Enter the code from your invite email, or join the waitlist to get one." };
+  }
+
+  return {};
+}
+
+// Record the account a claimed code was used for
+export async function completeRegistration(pass: RegistrationPass, userId: number): Promise<void> {
+  if (pass.invite) await storage.updateInviteCode(pass.invite.id, { usedById: userId });
+}
+
+// Give back a claimed code when the account could not be created
+export async function releaseRegistration(pass: RegistrationPass): Promise<void> {
+  if (pass.invite) await storage.updateInviteCode(pass.invite.id, { usedAt: null });
+}
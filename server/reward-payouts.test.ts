@@ -0,0 +1,133 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { RewardPayoutReport } from "@shared/schema";
+import { RewardPayoutWorker } from "./reward-payouts";
+import { purchaseSubscription } from "./subscriptions";
+import { notificationService } from "./notifications";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let userCount = 0;
+
+// A user who has just bought the basic plan: seven daily rewards, the first due at once
+async function subscribe() {
+  const username = `subscriber${++userCount}`;
+  const user = await storage.createUser({ username, password: "hashed", email: `${username}@example.com` });
+  await storage.createWallet({ userId: user.id, balance: "1000" });
+
+  const plan = (await storage.getSubscriptionPlanBySlug("basic"))!;
+  const { subscription, rewards, error } = await purchaseSubscription(user.id, plan.id);
+  assert.equal(error, undefined);
+  return { user, subscription: subscription!, rewards: rewards! };
+}
+
+const balance = async (userId: number) => (await storage.getWallet(userId))?.balance;
+
+const rewardStatuses = async (userId: number) =>
+  (await storage.getUserSubscriptionRewards(userId)).map(reward => reward.status);
+
+const rewardCredits = async (userId: number) =>
+  (await storage.getUserTransactions(userId)).filter(transaction => transaction.type === "subscription_reward").length;
+
+// Other tests' subscriptions share the storage, so reports are read for one user at a time
+const daysPaid = (report: RewardPayoutReport | undefined, userId: number) =>
+  (report?.rewards ?? []).filter(reward => reward.userId === userId && reward.action === "pay").map(reward => reward.day);
+
+describe("RewardPayoutWorker", () => {
+  let now: Date;
+  let worker: RewardPayoutWorker;
+
+  const advance = (ms: number) => {
+    now = new Date(now.getTime() + ms);
+  };
+
+  beforeEach(() => {
+    now = new Date();
+    worker = new RewardPayoutWorker({ now: () => now });
+  });
+
+  it("pays each reward once it falls due and catches up on days missed", async () => {
+    const { user, subscription, rewards } = await subscribe();
+    now = subscription.startDate;
+
+    assert.deepEqual(daysPaid(await worker.runDue(), user.id), [1]);
+    assert.equal(await balance(user.id), rewards[0].toFixed(2));
+
+    advance(DAY_MS - 1);
+    assert.deepEqual(daysPaid(await worker.runDue(), user.id), []);
+
+    // The server was down over days 2 to 4
+    advance(3 * DAY_MS + 1);
+    assert.deepEqual(daysPaid(await worker.runDue(), user.id), [2, 3, 4, 5]);
+    assert.equal(await balance(user.id), (rewards[0] * 5).toFixed(2));
+    assert.deepEqual(await rewardStatuses(user.id), ["paid", "paid", "paid", "paid", "paid", "pending", "pending"]);
+  });
+
+  it("pays a reward once when two runs overlap", async () => {
+    const { user, subscription, rewards } = await subscribe();
+    now = new Date(subscription.startDate.getTime() + DAY_MS);
+    const other = new RewardPayoutWorker({ now: () => now });
+
+    const reports = await Promise.all([worker.runDue(), other.runDue()]);
+
+    assert.deepEqual(reports.flatMap(report => daysPaid(report, user.id)).sort(), [1, 2]);
+    assert.equal(await rewardCredits(user.id), 2);
+    assert.equal(await balance(user.id), (rewards[0] * 2).toFixed(2));
+  });
+
+  it("does not start a second run on the same worker while one is in progress", async () => {
+    const first = worker.runDue();
+
+    assert.equal(await worker.runDue(), undefined);
+    assert.ok(await first);
+  });
+
+  it("pays nothing again when a run is repeated after stopping part way", async t => {
+    const { user, subscription, rewards } = await subscribe();
+    now = new Date(subscription.startDate.getTime() + 2 * DAY_MS);
+
+    // The process stops after each credit is posted, before the run records it
+    const notify = t.mock.method(notificationService, "notify", async () => {
+      throw new Error("Process stopped");
+    });
+    t.mock.method(console, "error", () => {});
+    await worker.runDue();
+    notify.mock.restore();
+
+    assert.deepEqual(daysPaid(await worker.runDue(), user.id), []);
+    assert.equal(await rewardCredits(user.id), 3);
+    assert.equal(await balance(user.id), (rewards[0] * 3).toFixed(2));
+  });
+
+  it("reports what a run would pay without paying it", async () => {
+    const { user, subscription } = await subscribe();
+    now = new Date(subscription.startDate.getTime() + DAY_MS);
+
+    const preview = await worker.preview();
+
+    assert.equal(preview.dryRun, true);
+    assert.deepEqual(daysPaid(preview, user.id), [1, 2]);
+    assert.equal(await balance(user.id), "0.00");
+    assert.equal(await rewardCredits(user.id), 0);
+    assert.ok((await rewardStatuses(user.id)).every(status => status === "pending"));
+
+    assert.deepEqual(daysPaid(await worker.runDue(), user.id), [1, 2]);
+  });
+
+  it("completes a subscription after its last day once every reward is paid", async () => {
+    const { user, subscription, rewards } = await subscribe();
+    now = new Date(subscription.startDate.getTime() + 6 * DAY_MS);
+
+    const report = await worker.runDue();
+    assert.deepEqual(daysPaid(report, user.id), [1, 2, 3, 4, 5, 6, 7]);
+    assert.ok(!report?.completedSubscriptionIds.includes(subscription.id));
+
+    now = subscription.endDate;
+    assert.ok((await worker.runDue())?.completedSubscriptionIds.includes(subscription.id));
+    assert.equal((await storage.getSubscriptionById(subscription.id))?.status, "completed");
+
+    const total = rewards.reduce((sum, amount) => sum + amount, 0);
+    assert.equal(await balance(user.id), total.toFixed(2));
+  });
+});
@@ -0,0 +1,182 @@
+import type { DueSubscriptionReward, RewardPayoutItem, RewardPayoutReport } from "@shared/schema";
+import { storage } from "./storage";
+import { hasRewardEntitlement } from "./entitlements";
+import { renewSubscription } from "./subscriptions";
+import { systemClock, type Clock } from "./scheduler";
+import { formatRupees, notificationService } from "./notifications";
+
+// How often the worker looks for rewards that have fallen due
+const POLL_INTERVAL_MS = 60 * 1000;
+const BATCH_SIZE = 100;
+
+// Upper bound on the rewards listed in a dry run
+const DRY_RUN_LIMIT = 1000;
+
+// Pays daily subscription rewards as they fall due. Rewards missed while the server
+// was down are caught up on the next run. Each reward is credited and marked paid in
+// one step, so a restart or an overlapping run can never pay it twice.
+// Each run first renews auto-renewing subscriptions that have ended, and finally
+// closes subscriptions whose last day has passed.
+export class RewardPayoutWorker {
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private clock: Clock = systemClock, private pollIntervalMs: number = POLL_INTERVAL_MS) {}
+
+  // Swap the time source, e.g. for a fake clock in tests
+  setClock(clock: Clock) {
+    this.clock = clock;
+  }
+
+  // Pay everything due. Undefined if a run is already in progress.
+  async runDue(): Promise<RewardPayoutReport | undefined> {
+    if (this.running) return undefined;
+    this.running = true;
+
+    try {
+      return await this.pay(this.clock.now());
+    } finally {
+      this.running = false;
+    }
+  }
+
+  // Report what a run at the given time would renew, pay, forfeit and complete, without doing it
+  async preview(asOf: Date = this.clock.now()): Promise<RewardPayoutReport> {
+    const renewing = await storage.getSubscriptionsDueForRenewal(asOf);
+    const due = await storage.getDueSubscriptionRewards(asOf, DRY_RUN_LIMIT);
+    const rewards = await Promise.all(due.map(reward => this.plan(reward)));
+
+    // Subscriptions already settled, plus those this run would settle
+    const completed = new Set((await storage.getFinishedSubscriptions(asOf)).map(subscription => subscription.id));
+    const dueIds = new Set(due.map(reward => reward.id));
+    for (const subscriptionId of Array.from(new Set(due.map(reward => reward.subscriptionId)))) {
+      const subscription = await storage.getSubscriptionById(subscriptionId);
+      if (subscription?.status !== "active" || subscription.endDate > asOf) continue;
+
+      const pending = (await storage.getUserSubscriptionRewards(subscription.userId))
+        .filter(reward => reward.subscriptionId === subscriptionId && reward.status === "pending");
+      if (pending.every(reward => dueIds.has(reward.id))) completed.add(subscriptionId);
+    }
+
+    const paying = rewards.filter(reward => reward.action === "pay");
+    return {
+      asOf,
+      dryRun: true,
+      paid: paying.length,
+      forfeited: rewards.length - paying.length,
+      totalPaid: paying.reduce((sum, reward) => sum + parseFloat(reward.amount), 0).toFixed(2),
+      rewards,
+      renewedSubscriptionIds: renewing.map(subscription => subscription.id),
+      completedSubscriptionIds: Array.from(completed).sort((a, b) => a - b)
+    };
+  }
+
+  // Catch up on anything missed while the server was down, then poll
+  start() {
+    this.stop();
+
+    const tick = () => {
+      this.runDue().catch(error => console.error("Error paying subscription rewards:", error));
+    };
+    tick();
+    this.timer = setInterval(tick, this.pollIntervalMs);
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async pay(asOf: Date): Promise<RewardPayoutReport> {
+    const report: RewardPayoutReport = {
+      asOf,
+      dryRun: false,
+      paid: 0,
+      forfeited: 0,
+      totalPaid: "0.00",
+      rewards: [],
+      renewedSubscriptionIds: [],
+      completedSubscriptionIds: []
+    };
+    let totalPaid = 0;
+
+    // Renew first, so the new subscriptions' first rewards are paid in this run
+    for (const subscription of await storage.getSubscriptionsDueForRenewal(asOf)) {
+      try {
+        const renewal = await renewSubscription(subscription.id);
+        if (renewal.error) continue;
+        report.renewedSubscriptionIds.push(subscription.id);
+      } catch (error) {
+        console.error(`Error renewing subscription ${subscription.id}:`, error);
+      }
+    }
+
+    // Keep taking batches until one makes no progress; rewards that cannot be paid
+    // (e.g. a missing wallet) stay pending and are retried on the next run
+    while (true) {
+      const due = await storage.getDueSubscriptionRewards(asOf, BATCH_SIZE);
+      let settled = 0;
+
+      for (const reward of due) {
+        try {
+          const item = await this.plan(reward);
+          if (item.action === "forfeit") {
+            if (!(await storage.forfeitSubscriptionReward(reward.id))) continue;
+            report.forfeited++;
+          } else {
+            const payout = await storage.paySubscriptionReward(reward.id, {
+              userId: reward.userId,
+              amount: reward.amount,
+              type: "subscription_reward",
+              status: "completed",
+              description: `Day ${reward.day} subscription reward`,
+              commissionAmount: "0",
+              metadata: JSON.stringify({ rewardId: reward.id, subscriptionId: reward.subscriptionId, day: reward.day })
+            });
+            if (!payout) continue;
+            report.paid++;
+            totalPaid += parseFloat(reward.amount);
+
+            await notificationService.notify(reward.userId, {
+              type: "reward",
+              title: "Subscription reward paid",
+              body: `Your day ${reward.day} reward of ${formatRupees(reward.amount)} has been added to your wallet.`,
+              link: "/wallet"
+            });
+          }
+
+          report.rewards.push(item);
+          settled++;
+        } catch (error) {
+          console.error(`Error paying subscription reward ${reward.id}:`, error);
+        }
+      }
+
+      if (due.length < BATCH_SIZE || settled === 0) break;
+    }
+
+    // A subscription is over once its last day has passed and every reward is settled
+    for (const subscription of await storage.getFinishedSubscriptions(asOf)) {
+      await storage.updateSubscriptionStatus(subscription.id, subscription.cancelAtPeriodEnd ? "cancelled" : "completed");
+      report.completedSubscriptionIds.push(subscription.id);
+    }
+
+    report.totalPaid = totalPaid.toFixed(2);
+    return report;
+  }
+
+  // Rewards are only paid while the subscription's reward entitlement stands
+  private async plan(reward: DueSubscriptionReward): Promise<RewardPayoutItem> {
+    return {
+      rewardId: reward.id,
+      subscriptionId: reward.subscriptionId,
+      userId: reward.userId,
+      day: reward.day,
+      amount: reward.amount,
+      dueAt: reward.dueAt,
+      action: await hasRewardEntitlement(reward.subscriptionId) ? "pay" : "forfeit"
+    };
+  }
+}
+
+export const rewardPayouts = new RewardPayoutWorker();
@@ -0,0 +1,43 @@
+import type { Role, User } from "@shared/schema";
+import { storage } from "./storage";
+
+export interface RoleChange {
+  user?: User;
+  error?: string;
+}
+
+export async function grantRole(userId: number, role: Role): Promise<RoleChange> {
+  const user = await storage.getUser(userId);
+  if (!user) return { error: "User not found" };
+  if (user.isBot) return { error: "Bot accounts cannot be given roles" };
+
+  return { user: await storage.grantUserRole(userId, role) };
+}
+
+// The last super admin keeps the role, so someone can always grant roles
+export async function revokeRole(userId: number, role: Role): Promise<RoleChange> {
+  const user = await storage.getUser(userId);
+  if (!user) return { error: "User not found" };
+
+  if (role === "super_admin" && user.roles.includes(role)) {
+    const superAdmins = (await storage.getAllUsers()).filter(candidate => candidate.roles.includes("super_admin"));
+    if (superAdmins.length <= 1) return { error: "At least one super admin is required" };
+  }
+
+  return { user: await storage.revokeUserRole(userId, role) };
+}
+
+// Make the account with the ADMIN_EMAIL address the first super admin while no one holds
+// the role. The address must be verified, so registering with it first is not enough.
+// Every later role is granted by a super admin. Returns the user given the role.
+export async function bootstrapSuperAdmin(adminEmail = process.env.ADMIN_EMAIL): Promise<User | undefined> {
+  if (!adminEmail) return undefined;
+
+  const users = await storage.getAllUsers();
+  if (users.some(user => user.roles.includes("super_admin"))) return undefined;
+
+  const admin = await storage.getUserByEmail(adminEmail.trim());
+  if (!admin || admin.isBot || !admin.emailVerifiedAt) return undefined;
+
+  return storage.grantUserRole(admin.id, "super_admin");
+}
@@ -2,7 +2,33 @@ import type { Express, Request, Response } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { setupAuth } from "./auth";
-import { insertTransactionSchema, insertWaitlistSchema, insertSubscriptionSchema, type InsertTransaction, type InsertSubscriptionReward, type InsertUser } from "@shared/schema";
+import { cancelMatch, settleMatch, startMatch, submitMatchResult, CANCELLABLE_STATUSES, JOIN_TIMEOUT_MS, START_DEADLINE_MS } from "./matches";
+import { ludoMatches, gameRoom } from "./ludo-matches";
+import { LUDO_GAME_NAME } from "./ludo";
+import { botPlayers } from "./bots";
+import { BOT_DIFFICULTIES, getMoveStrategy } from "./bot-strategies";
+import { matchScheduler } from "./scheduler";
+import { registerMatchJobs } from "./match-jobs";
+import {
+  cancelSubscription, previewUpgrade, purchaseSubscription, resumeSubscription, setAutoRenew, upgradeSubscription
+} from "./subscriptions";
+import { getEntitlements, migrateSubscriptionEntitlements, SUPPORT_TIERS } from "./entitlements";
+import { rewardPayouts } from "./reward-payouts";
+import {
+  confirmWaitlistEmail, getAdminWaitlist, getWaitlistFunnel, getWaitlistStatus, joinWaitlist, migrateWaitlistEntries,
+  inviteBatchAuditRecord, sendInviteBatch, MAX_INVITE_BATCH
+} from "./waitlist";
+import { sendCsv } from "./csv";
+import { appUrl } from "./mail";
+import { log } from "./vite";
+import { authenticateSockets, canJoinMatchRoom, socketUser, userRoom } from "./sockets";
+import { chatModeration } from "./moderation";
+import { friendService } from "./friends";
+import { formatRupees, notificationService } from "./notifications";
+import { chatNotice, getChatHistory, getChatRooms, markChatRoomRead, openChatRoom, openPrivateChat, postChatMessage } from "./chat";
+import { bootstrapSuperAdmin, grantRole, revokeRole } from "./roles";
+import { audit, getAuditLog, AUDIT_LOG_EXPORT_LIMIT } from "./audit";
+import { hasPermission, insertSubscriptionSchema, ROLES, type Permission, type InsertTransaction, type Transaction, type InsertUser, type MatchPlayer, type MatchHistoryEntry, type User, type ChatRoomSummary } from "@shared/schema";
 import { z } from "zod";
 import { Server as SocketServer } from "socket.io";
 import { randomUUID } from "crypto";
@@ -15,37 +41,98 @@ const requireAuth = (req: Request, res: Response, next: Function) => {
   next();
 };
 
-// Middleware to check if user is admin (user ID = 1)
-const requireAdmin = (req: Request, res: Response, next: Function) => {
+// Middleware to check the user's roles allow any of the given admin permissions
+const requirePermission = (...permissions: Permission[]) => (req: Request, res: Response, next: Function) => {
   if (!req.isAuthenticated()) {
     return res.status(401).json({ message: "Unauthorized" });
   }
   
-  if (req.user!.id !== 1) {
+  if (!permissions.some(permission => hasPermission(req.user!, permission))) {
     return res.status(403).json({ message: "Admin access required" });
   }
   
   next();
 };
 
-// Calculate commission based on transaction amount, game percentage, and subscription status
-const calculateCommission = (amount: number, percentage: number, hasSubscription: boolean = false): number => {
-  if (amount <= 0 || percentage <= 0) return 0;
-  
-  // Apply subscription discount if user has active subscription
-  let adjustedPercentage = percentage;
-  if (hasSubscription) {
-    // Reduce commission by 25% for subscribers
-    adjustedPercentage = percentage * 0.75;
-  }
-  
-  // Calculate commission
-  return (amount * adjustedPercentage) / 100;
-};
+// Pending deposit requests without a matching payment are expired after this long
+const DEPOSIT_EXPIRY_HOURS = 48;
+const DEPOSIT_EXPIRY_REASON = "Payment was not received in time";
+
+// Catalog plan sold by the premium card on the profile page
+const MONTHLY_PLAN_SLUG = "monthly";
+
+// Admin input for a subscription plan. Amounts are stored as decimal strings
+// and features as a JSON array.
+const subscriptionPlanInput = z.object({
+  slug: z.string().trim().regex(/^[a-z0-9-]+$/, "Use lowercase letters, numbers and dashes"),
+  name: z.string().trim().min(1, "A name is required"),
+  description: z.string().trim().nullable().optional(),
+  price: z.coerce.number().positive().transform(value => value.toFixed(2)),
+  rewardTotal: z.coerce.number().min(0).transform(value => value.toFixed(2)),
+  durationDays: z.coerce.number().int().positive(),
+  commissionDiscount: z.coerce.number().min(0).max(100).default(25).transform(value => value.toFixed(2)),
+  supportTier: z.enum(SUPPORT_TIERS).default("standard"),
+  features: z.array(z.string().trim().min(1)).default([]).transform(features => JSON.stringify(features)),
+  isPopular: z.boolean().default(false),
+  isActive: z.boolean().default(true),
+  sortOrder: z.coerce.number().int().default(0)
+});
+
+// Subscription changes fail with a message for the user; a missing subscription is a 404
+const sendSubscriptionError = (res: Response, message: string) =>
+  res.status(message === "Subscription not found" ? 404 : 400).json({ message });
+
+// Friend changes fail with a message for the user; anything missing is a 404
+const sendFriendError = (res: Response, message: string) =>
+  res.status(message.endsWith("not found") ? 404 : 400).json({ message });
+
+// Waitlist signup, optionally through a member's share link
+const waitlistSignupInput = z.object({
+  email: z.string().trim().email(),
+  ref: z.string().trim().min(1).optional()
+});
+
+// An invite batch goes to the front of the queue, or to the chosen entries
+const inviteBatchInput = z.object({
+  count: z.coerce.number().int().positive().max(MAX_INVITE_BATCH).optional(),
+  waitlistIds: z.array(z.number().int().positive()).min(1).max(MAX_INVITE_BATCH).optional()
+}).refine(input => input.count !== undefined || input.waitlistIds !== undefined, {
+  message: "Give a number of invites or the entries to invite"
+});
+
+// Page size for match history
+const MATCH_HISTORY_PAGE_SIZE = 20;
+const MATCH_HISTORY_MAX_PAGE_SIZE = 50;
+
+// Page size for chat history
+const CHAT_HISTORY_PAGE_SIZE = 50;
+const CHAT_HISTORY_MAX_PAGE_SIZE = 100;
+
+// Page size for notifications
+const NOTIFICATION_PAGE_SIZE = 20;
+const NOTIFICATION_MAX_PAGE_SIZE = 50;
+
+// Longest a mute or ban can be given for; without a duration it lasts until lifted
+const CHAT_SANCTION_MAX_MINUTES = 365 * 24 * 60;
+const chatSanctionMinutes = z.number().int().positive().max(CHAT_SANCTION_MAX_MINUTES).optional();
+
+// Page size for the audit log
+const AUDIT_LOG_PAGE_SIZE = 50;
+const AUDIT_LOG_MAX_PAGE_SIZE = 200;
+
+// Audit log filters, shared by the viewer and the CSV export
+const auditLogFilterInput = z.object({
+  actorId: z.coerce.number().int().positive().optional(),
+  action: z.string().trim().min(1).optional(),
+  entityType: z.string().trim().min(1).optional(),
+  entityId: z.string().trim().min(1).optional(),
+  from: z.coerce.date().optional(),
+  to: z.coerce.date().optional()
+});
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Setup authentication routes
-  setupAuth(app);
+  const sessionMiddleware = setupAuth(app);
   
   // User profile management routes
   
@@ -160,57 +247,169 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Create a new game match
-  app.post("/api/matches", requireAuth, async (req, res) => {
+  // Get match details
+  app.get("/api/matches/:id", async (req, res) => {
     try {
-      const { gameId, entryAmount } = req.body;
+      const matchId = parseInt(req.params.id);
+      const match = await storage.getGameMatch(matchId);
       
-      // Validate game exists
-      const game = await storage.getGame(parseInt(gameId));
-      if (!game) {
-        return res.status(404).json({ message: "Game not found" });
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
       }
       
-      // Validate entry amount
-      const minEntry = parseFloat(game.minEntry.toString());
-      const maxEntry = parseFloat(game.maxEntry.toString());
-      const amount = parseFloat(entryAmount);
+      res.json(match);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching match" });
+    }
+  });
+
+  // Get the players in a match with their public profile
+  app.get("/api/matches/:id/players", async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const match = await storage.getGameMatch(matchId);
       
-      if (amount < minEntry || amount > maxEntry) {
-        return res.status(400).json({ 
-          message: `Entry amount must be between ${minEntry} and ${maxEntry}` 
-        });
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
       }
       
-      // Check user's wallet balance
+      const players = await storage.getMatchPlayers(matchId);
+      const roster: MatchPlayer[] = await Promise.all(
+        players.map(async (player) => {
+          const user = await storage.getUser(player.userId);
+          return {
+            ...player,
+            username: user?.username ?? `Player ${player.userId}`,
+            avatarUrl: user?.avatarUrl ?? null,
+            rank: user?.rank ?? null,
+            isBot: user?.isBot ?? false
+          };
+        })
+      );
+      
+      res.json(roster);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching match players" });
+    }
+  });
+
+  // Get the current user's match history, newest first
+  app.get("/api/my-matches", requireAuth, async (req, res) => {
+    try {
+      const { status, page, limit } = z.object({
+        status: z.enum(["waiting", "in_progress", "disputed", "completed", "cancelled", "abandoned"]).optional(),
+        page: z.coerce.number().int().min(1).default(1),
+        limit: z.coerce.number().int().min(1).max(MATCH_HISTORY_MAX_PAGE_SIZE).default(MATCH_HISTORY_PAGE_SIZE)
+      }).parse(req.query);
+      
       const userId = req.user!.id;
-      const wallet = await storage.getWallet(userId);
+      const history = await storage.getUserMatches(userId, {
+        status,
+        limit,
+        offset: (page - 1) * limit
+      });
       
-      if (!wallet) {
-        return res.status(404).json({ message: "Wallet not found" });
+      const games = await storage.getAllGames();
+      const matches: MatchHistoryEntry[] = await Promise.all(
+        history.matches.map(async (match) => {
+          const players = await storage.getMatchPlayers(match.id);
+          const refunds = match.status === "cancelled" || match.status === "abandoned"
+            ? (await storage.getMatchTransactions(match.id))
+                .filter(transaction => transaction.type === "game_refund" && transaction.userId === userId)
+            : [];
+          return {
+            ...match,
+            gameName: games.find(game => game.id === match.gameId)?.name ?? "Unknown game",
+            playerStatus: players.find(player => player.userId === userId)?.status ?? "joined",
+            playerCount: players.length,
+            refundedAmount: refunds.length > 0
+              ? refunds.reduce((sum, refund) => sum + parseFloat(refund.amount.toString()), 0).toFixed(2)
+              : null
+          };
+        })
+      );
+      
+      res.json({ matches, total: history.total, page, limit });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(500).json({ message: "Error fetching match history" });
+    }
+  });
+
+  // Create a new game match, optionally against a bot. Practice matches are only
+  // played against bots and cost nothing.
+  app.post("/api/matches", requireAuth, async (req, res) => {
+    try {
+      const { gameId, entryAmount } = req.body;
+      const { opponent, difficulty, mode } = z.object({
+        opponent: z.enum(["players", "bot"]).default("players"),
+        difficulty: z.enum(BOT_DIFFICULTIES).default("medium"),
+        mode: z.enum(["real_money", "practice"]).default("real_money")
+      }).parse(req.body);
       
-      const walletBalance = parseFloat(wallet.balance.toString());
+      if (mode === "practice" && opponent !== "bot") {
+        return res.status(400).json({ message: "Practice matches are played against a bot" });
+      }
       
-      // Ensure minimum wallet balance of ₹200 to play games
-      if (walletBalance < 200) {
-        return res.status(400).json({ 
-          message: "You need a minimum wallet balance of ₹200 to play games. Please add funds to your wallet." 
-        });
+      // Validate game exists
+      const game = await storage.getGame(parseInt(gameId));
+      if (!game) {
+        return res.status(404).json({ message: "Game not found" });
       }
       
-      if (walletBalance < amount) {
-        return res.status(400).json({ message: "Insufficient funds" });
+      // A bot only plays for money in games the server plays out move by move; in the
+      // others its results are simulated, so they are practice only
+      if (opponent === "bot" && mode === "real_money" && !getMoveStrategy(game.name, difficulty)) {
+        return res.status(400).json({ message: `${game.name} can only be played against a bot in practice mode` });
+      }
+      
+      const userId = req.user!.id;
+      
+      if (mode === "real_money") {
+        // Validate entry amount
+        const minEntry = parseFloat(game.minEntry.toString());
+        const maxEntry = parseFloat(game.maxEntry.toString());
+        const amount = parseFloat(entryAmount);
+        
+        if (amount < minEntry || amount > maxEntry) {
+          return res.status(400).json({ 
+            message: `Entry amount must be between ${minEntry} and ${maxEntry}` 
+          });
+        }
+        
+        // Check user's wallet balance
+        const wallet = await storage.getWallet(userId);
+        
+        if (!wallet) {
+          return res.status(404).json({ message: "Wallet not found" });
+        }
+        
+        const walletBalance = parseFloat(wallet.balance.toString());
+        
+        // Ensure minimum wallet balance of ₹200 to play games
+        if (walletBalance < 200) {
+          return res.status(400).json({ 
+            message: "You need a minimum wallet balance of ₹200 to play games. Please add funds to your wallet." 
+          });
+        }
+        
+        if (walletBalance < amount) {
+          return res.status(400).json({ message: "Insufficient funds" });
+        }
       }
       
       // Create game match
       const match = await storage.createGameMatch({
         gameId: parseInt(gameId),
-        entryAmount: entryAmount.toString(),
+        entryAmount: mode === "practice" ? "0" : entryAmount.toString(),
         status: "waiting",
         startTime: null,
         endTime: null,
-        winnerId: null
+        winnerId: null,
+        mode,
+        botDifficulty: opponent === "bot" ? difficulty : null
       });
       
       // Add player to match
@@ -220,55 +419,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         status: "joined"
       });
       
-      // AUTOMATICALLY ADD AN AI PLAYER for testing purposes
-      // Create AI user if it doesn't exist
-      let aiUser = await storage.getUserByUsername("AI_Player");
-      
-      if (!aiUser) {
-        // Create AI player account
-        aiUser = await storage.createUser({
-          username: "AI_Player",
-          password: "ai_password_hash", // This is just for testing
-          email: "ai@example.com",
-          fullName: "AI Player",
-          phone: null,
-          upiId: null,
-          hasSubscription: false,
-          subscriptionExpiryDate: null,
-          avatarUrl: null,
-          bio: "I am an AI opponent for testing",
-          // No isVerified property in schema
-          lastLoginDate: new Date(),
-          dailyStreak: 0,
-          rewardPoints: 0,
-          referralCode: null,
-          referredBy: null,
-          rankPoints: 1000
-        });
-        
-        // Create wallet for AI with sufficient funds
-        await storage.createWallet({
-          userId: aiUser.id,
-          balance: "10000" // AI has plenty of money to play
-        });
-      }
+      // Cancel the match if nobody joins it
+      await matchScheduler.schedule(match.id, "join_timeout", JOIN_TIMEOUT_MS);
       
-      // Add AI player to the match automatically after a short delay
-      setTimeout(async () => {
-        try {
-          await storage.addPlayerToMatch({
-            matchId: match.id,
-            userId: aiUser.id,
-            status: "joined"
-          });
-          console.log(`AI Player has joined match ${match.id}`);
-        } catch (error) {
-          console.error("Error adding AI player to match:", error);
-        }
-      }, 2000); // 2 second delay to simulate real player joining
+      // The bot joins and starts the match on its own
+      if (opponent === "bot") {
+        await botPlayers.schedule(match.id);
+      }
       
       res.status(201).json(match);
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
       res.status(500).json({ message: "Error creating match" });
     }
   });
@@ -301,49 +464,19 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ message: "You are not part of this match" });
       }
       
-      // Get game details
-      const game = await storage.getGame(match.gameId);
-      if (!game) {
-        return res.status(404).json({ message: "Game not found" });
+      // Deduct the entry fee from every player, all or nothing
+      const started = await startMatch(matchId);
+      if (started.error || !started.game) {
+        return res.status(400).json({ message: started.error || "Error starting match" });
       }
       
-      const entryAmount = parseFloat(match.entryAmount.toString());
-      
-      // NOW deduct money from all players' wallets
-      for (const player of players) {
-        // Check if player has sufficient balance
-        const wallet = await storage.getWallet(player.userId);
-        if (!wallet) {
-          return res.status(400).json({ message: `Player ${player.userId} doesn't have a wallet` });
-        }
-        
-        const walletBalance = parseFloat(wallet.balance.toString());
-        if (walletBalance < entryAmount) {
-          return res.status(400).json({ 
-            message: `Player ${player.userId} doesn't have enough balance. Required: ₹${entryAmount}` 
-          });
-        }
-        
-        // Deduct entry amount from wallet
-        await storage.updateWalletBalance(player.userId, -entryAmount);
-        
-        // Create transaction record
-        await storage.createTransaction({
-          userId: player.userId,
-          amount: (-entryAmount).toString(),
-          type: "game_entry",
-          status: "completed",
-          description: `Entry fee for ${game.name} (Match #${matchId})`,
-          commissionAmount: "0"
-        });
+      // Ludo is played out on the server-side engine
+      if (started.game.name === LUDO_GAME_NAME) {
+        await ludoMatches.start(matchId, players.map(player => player.userId));
+      } else if (match.botDifficulty) {
+        await botPlayers.schedule(matchId);
       }
       
-      // Update match to in_progress
-      await storage.updateGameMatch(matchId, {
-        status: "in_progress",
-        startTime: new Date()
-      });
-      
       // Get updated match data
       const updatedMatch = await storage.getGameMatch(matchId);
       
@@ -372,6 +505,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(400).json({ message: "Match is no longer accepting players" });
       }
       
+      if (match.botDifficulty) {
+        return res.status(400).json({ message: "This match is reserved for a bot opponent" });
+      }
+      
       // Check if user is already in the match
       const matchPlayers = await storage.getMatchPlayers(matchId);
       if (matchPlayers.some(player => player.userId === userId)) {
@@ -408,117 +545,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // No automatic match starting now - users must explicitly start the match
       // which will trigger the payment deduction via the /matches/:id/start endpoint
       // This ensures users have explicitly agreed to start playing and will be charged
+      // A full match that nobody starts is cancelled after a while
+      const players = await storage.getMatchPlayers(matchId);
+      if (players.length >= 2) {
+        await matchScheduler.cancel(matchId, ["join_timeout"]);
+        await matchScheduler.schedule(matchId, "start_deadline", START_DEADLINE_MS);
+      }
       
       // Get updated match
       const updatedMatch = await storage.getGameMatch(matchId);
       
-      // Check if one of the players is the AI player
+      res.json(updatedMatch);
+    } catch (error) {
+      res.status(500).json({ message: "Error joining match" });
+    }
+  });
+
+  // Cancel a waiting match. Only the player who created it can, and nobody has paid yet.
+  app.post("/api/matches/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      
+      const match = await storage.getGameMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      
+      if (match.status !== "waiting") {
+        return res.status(400).json({ message: "Only matches that have not started can be cancelled" });
+      }
+      
+      // The creator is the first player added to the match
       const players = await storage.getMatchPlayers(matchId);
-      const aiPlayer = await storage.getUserByUsername("AI_Player");
-      
-      // If AI is in this match, automatically start the match after a short delay
-      if (aiPlayer && players.some(p => p.userId === aiPlayer.id) && players.length >= 2) {
-        setTimeout(async () => {
-          try {
-            // Update match to in_progress
-            await storage.updateGameMatch(matchId, {
-              status: "in_progress",
-              startTime: new Date()
-            });
-            
-            // Get game details
-            const game = await storage.getGame(match.gameId);
-            const entryAmount = parseFloat(match.entryAmount.toString());
-            
-            // Deduct entry fee from all players
-            for (const player of players) {
-              // Deduct entry amount from wallet
-              await storage.updateWalletBalance(player.userId, -entryAmount);
-              
-              // Create transaction record
-              await storage.createTransaction({
-                userId: player.userId,
-                amount: (-entryAmount).toString(),
-                type: "game_entry",
-                status: "completed",
-                description: `Entry fee for ${game?.name || 'game'} (Match #${matchId})`,
-                commissionAmount: "0"
-              });
-            }
-            
-            console.log(`Match ${matchId} automatically started with AI player`);
-            
-            // After another delay, automatically complete the match with human player as winner
-            setTimeout(async () => {
-              try {
-                // Always set the real user (not AI) as winner
-                const winnerId = players.find(p => p.userId !== aiPlayer.id)?.userId;
-                
-                if (!winnerId) return;
-                
-                // Calculate prize pool and commission
-                const totalPrize = entryAmount * players.length;
-                const commissionPercentage = parseFloat(game?.commissionPercentage || "2.5");
-                
-                // Get winner user to check subscription status
-                const winnerUser = await storage.getUser(winnerId);
-                const hasSubscription = winnerUser?.subscriptionExpiryDate && 
-                  new Date(winnerUser.subscriptionExpiryDate) > new Date();
-                
-                // Apply subscription discount if winner has active subscription
-                const commission = calculateCommission(totalPrize, commissionPercentage, hasSubscription || false);
-                const winnerPrize = totalPrize - commission;
-                
-                // Update match as completed
-                await storage.updateGameMatch(matchId, {
-                  status: "completed",
-                  endTime: new Date(),
-                  winnerId: winnerId
-                });
-                
-                // Update player statuses
-                for (const player of players) {
-                  const newStatus = player.userId === winnerId ? "won" : "lost";
-                  await storage.updatePlayerMatchStatus(player.id, newStatus);
-                }
-                
-                // Add winnings to winner's wallet
-                await storage.updateWalletBalance(winnerId, winnerPrize);
-                
-                // Create transaction for winner
-                await storage.createTransaction({
-                  userId: winnerId,
-                  amount: winnerPrize.toString(),
-                  type: "game_win",
-                  status: "completed",
-                  description: hasSubscription
-                    ? `Prize for winning ${game?.name || 'game'} (with 25% subscription commission discount)`
-                    : `Prize for winning ${game?.name || 'game'}`,
-                  commissionAmount: commission.toString()
-                });
-                
-                console.log(`Match ${matchId} automatically completed with player ${winnerId} as winner`);
-              } catch (error) {
-                console.error("Error auto-completing match:", error);
-              }
-            }, 5000); // Complete game after 5 seconds
-          } catch (error) {
-            console.error("Error auto-starting match:", error);
-          }
-        }, 3000); // Start game after 3 seconds
+      if (players[0]?.userId !== req.user!.id) {
+        return res.status(403).json({ message: "Only the player who created this match can cancel it" });
       }
       
-      res.json(updatedMatch);
+      const cancelledMatch = await cancelMatch(matchId, `Cancelled by ${req.user!.username}`, ["waiting"]);
+      if (!cancelledMatch) {
+        return res.status(409).json({ message: "The match has already started or ended" });
+      }
+      
+      res.json(cancelledMatch);
     } catch (error) {
-      res.status(500).json({ message: "Error joining match" });
+      res.status(500).json({ message: "Error cancelling match" });
     }
   });
 
-  // Complete a match (declare winner)
-  app.post("/api/matches/:id/complete", requireAuth, async (req, res) => {
+  // Report the winner of a match. Results are never taken from a single client:
+  // the match is settled once every player reports the same winner, and goes to
+  // an admin as disputed if the reports disagree.
+  app.post("/api/matches/:id/result", requireAuth, async (req, res) => {
     try {
       const matchId = parseInt(req.params.id);
-      const { winnerId } = req.body;
+      const userId = req.user!.id;
+      const { winnerId } = z.object({
+        winnerId: z.coerce.number().int().positive()
+      }).parse(req.body);
       
       // Validate match exists and is in progress
       const match = await storage.getGameMatch(matchId);
@@ -526,150 +609,401 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(404).json({ message: "Match not found" });
       }
       
+      if (match.status === "disputed") {
+        return res.status(409).json({ message: "This match result is disputed and will be decided by an admin" });
+      }
+      
       if (match.status !== "in_progress") {
         return res.status(400).json({ message: "Match is not in progress" });
       }
       
-      // Get game details for commission calculation
       const game = await storage.getGame(match.gameId);
       if (!game) {
         return res.status(404).json({ message: "Game not found" });
       }
       
-      // Get all players in the match
-      const players = await storage.getMatchPlayers(matchId);
-      if (!players.some(player => player.userId === parseInt(winnerId))) {
-        return res.status(400).json({ message: "Winner is not a player in this match" });
+      // Ludo winners are decided by the game engine
+      if (game.name === LUDO_GAME_NAME) {
+        return res.status(400).json({ message: "Ludo matches are completed by the game engine" });
       }
       
-      // Calculate prize pool and commission
-      const entryAmount = parseFloat(match.entryAmount.toString());
-      const totalPrize = entryAmount * players.length;
-      const commissionPercentage = parseFloat(game.commissionPercentage.toString());
-      
-      // Get winner user to check subscription status
-      const winnerUser = await storage.getUser(parseInt(winnerId));
-      const hasSubscription = winnerUser?.subscriptionExpiryDate && new Date(winnerUser.subscriptionExpiryDate) > new Date();
-      
-      // Apply subscription discount if winner has active subscription
-      const commission = calculateCommission(totalPrize, commissionPercentage, hasSubscription || false);
-      const winnerPrize = totalPrize - commission;
+      if (match.botDifficulty) {
+        return res.status(400).json({ message: "Matches against a bot are completed by the server" });
+      }
       
-      // Update match as completed
-      await storage.updateGameMatch(matchId, {
-        status: "completed",
-        endTime: new Date(),
-        winnerId: parseInt(winnerId)
-      });
+      // Only players can report, and only for someone who played
+      const players = await storage.getMatchPlayers(matchId);
+      if (!players.some(player => player.userId === userId)) {
+        return res.status(403).json({ message: "You are not part of this match" });
+      }
       
-      // Update player statuses
-      for (const player of players) {
-        const newStatus = player.userId === parseInt(winnerId) ? "won" : "lost";
-        await storage.updatePlayerMatchStatus(player.id, newStatus);
+      if (!players.some(player => player.userId === winnerId)) {
+        return res.status(400).json({ message: "Winner is not a player in this match" });
       }
       
-      // Add winnings to winner's wallet
-      await storage.updateWalletBalance(parseInt(winnerId), winnerPrize);
+      const submission = await submitMatchResult(match, userId, winnerId);
       
-      // Create transaction for winner with subscription benefits info
-      await storage.createTransaction({
-        userId: parseInt(winnerId),
-        amount: winnerPrize.toString(),
-        type: "game_win",
-        status: "completed",
-        description: hasSubscription
-          ? `Prize for winning ${game.name} (with 25% subscription commission discount)`
-          : `Prize for winning ${game.name}`,
-        commissionAmount: commission.toString()
+      res.json({
+        success: true,
+        message: submission.outcome === "settled"
+          ? "All players agreed. The match has been settled."
+          : submission.outcome === "disputed"
+            ? "Players reported different winners. An admin will review the match."
+            : submission.outcome === "closed"
+              ? "This match is no longer in progress."
+              : "Result recorded. Waiting for the other players to confirm.",
+        ...submission
       });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error reporting match result" });
+    }
+  });
+  
+  // Admin endpoint to list disputed matches with the reported results
+  app.get("/api/admin/matches/disputed", requirePermission("manage_matches"), audit("matches.view_disputed"), async (req, res) => {
+    try {
+      const disputedMatches = await storage.getMatchesByStatus("disputed");
+      
+      const matchesWithReports = await Promise.all(
+        disputedMatches.map(async (match) => ({
+          ...match,
+          players: await storage.getMatchPlayers(match.id),
+          reports: await storage.getMatchResultReports(match.id)
+        }))
+      );
       
-      // Get updated match
-      const updatedMatch = await storage.getGameMatch(matchId);
-      res.json(updatedMatch);
+      res.json(matchesWithReports);
     } catch (error) {
-      res.status(500).json({ message: "Error completing match" });
+      res.status(500).json({ message: "Error fetching disputed matches" });
     }
   });
-
-  // Get user's wallet
-  app.get("/api/wallet", requireAuth, async (req, res) => {
+  
+  // Admin endpoint to decide the winner of an in-progress or disputed match
+  app.post("/api/admin/matches/:id/adjudicate", requirePermission("manage_matches"), audit("matches.adjudicate", "game_match"), async (req, res) => {
     try {
-      const userId = req.user!.id;
-      const wallet = await storage.getWallet(userId);
+      const matchId = parseInt(req.params.id);
+      const { winnerId, reason } = z.object({
+        winnerId: z.coerce.number().int().positive(),
+        reason: z.string().trim().min(1, "A reason is required")
+      }).parse(req.body);
       
-      if (!wallet) {
-        return res.status(404).json({ message: "Wallet not found" });
+      const match = await storage.getGameMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
       }
       
-      res.json(wallet);
+      const players = await storage.getMatchPlayers(matchId);
+      if (!players.some(player => player.userId === winnerId)) {
+        return res.status(400).json({ message: "Winner is not a player in this match" });
+      }
+      
+      const updatedMatch = await settleMatch(matchId, winnerId, {
+        source: "admin",
+        decidedBy: req.user!.id,
+        reason
+      });
+      
+      if (!updatedMatch) {
+        return res.status(400).json({ message: "Match cannot be settled - it is not in progress or disputed" });
+      }
+      
+      res.json({
+        success: true,
+        message: "Match settled",
+        match: updatedMatch,
+        settlement: await storage.getMatchSettlement(matchId)
+      });
     } catch (error) {
-      res.status(500).json({ message: "Error fetching wallet" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error adjudicating match" });
     }
   });
-
-  // Get user's transactions
-  app.get("/api/transactions", requireAuth, async (req, res) => {
+  
+  // Admin endpoint to list cancelled and abandoned matches with the refunds they paid out
+  app.get("/api/admin/matches/cancelled", requirePermission("manage_matches"), audit("matches.view_cancelled"), async (req, res) => {
     try {
-      const userId = req.user!.id;
-      const transactions = await storage.getUserTransactions(userId);
-      res.json(transactions);
+      const endedMatches = [
+        ...await storage.getMatchesByStatus("cancelled"),
+        ...await storage.getMatchesByStatus("abandoned")
+      ].sort((a, b) => b.id - a.id);
+      
+      const matchesWithRefunds = await Promise.all(
+        endedMatches.map(async (match) => ({
+          ...match,
+          players: await storage.getMatchPlayers(match.id),
+          refunds: (await storage.getMatchTransactions(match.id))
+            .filter(transaction => transaction.type === "game_refund")
+        }))
+      );
+      
+      res.json(matchesWithRefunds);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching transactions" });
+      res.status(500).json({ message: "Error fetching cancelled matches" });
     }
   });
   
-  // Admin endpoint to get all transactions - restricted to admin (user ID = 1)
-  app.get("/api/admin/transactions", requireAdmin, async (req, res) => {
+  // Admin endpoint to cancel a match that has not been settled and refund every entry fee
+  app.post("/api/admin/matches/:id/cancel", requirePermission("manage_matches"), audit("matches.cancel", "game_match"), async (req, res) => {
     try {
-      const transactions = await storage.getAllTransactions();
-      res.json(transactions);
+      const matchId = parseInt(req.params.id);
+      const { reason } = z.object({
+        reason: z.string().trim().min(1, "A reason is required")
+      }).parse(req.body);
+      
+      const match = await storage.getGameMatch(matchId);
+      if (!match) {
+        return res.status(404).json({ message: "Match not found" });
+      }
+      
+      const cancelledMatch = await cancelMatch(matchId, reason, CANCELLABLE_STATUSES);
+      if (!cancelledMatch) {
+        return res.status(400).json({ message: "Match cannot be cancelled - it has already ended" });
+      }
+      
+      res.json({
+        success: true,
+        message: "Match cancelled and entry fees refunded",
+        match: cancelledMatch,
+        refunds: (await storage.getMatchTransactions(matchId))
+          .filter(transaction => transaction.type === "game_refund")
+      });
     } catch (error) {
-      res.status(500).json({ message: "Error fetching all transactions" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error cancelling match" });
     }
   });
   
-  // Admin endpoint to get all users - restricted to admin (user ID = 1)
-  app.get("/api/admin/users", requireAdmin, async (req, res) => {
+  // How a completed match was settled
+  app.get("/api/matches/:id/settlement", requireAuth, async (req, res) => {
     try {
-      const users = await storage.getAllUsers();
+      const matchId = parseInt(req.params.id);
+      const settlement = await storage.getMatchSettlement(matchId);
       
-      // Return only safe user data (no passwords)
-      const safeUsers = users.map(user => {
-        const safeUser = { ...user };
-        delete (safeUser as any).password;
-        return safeUser;
-      });
+      if (!settlement) {
+        return res.status(404).json({ message: "Match has not been settled" });
+      }
       
-      res.json(safeUsers);
+      res.json(settlement);
     } catch (error) {
-      res.status(500).json({ message: "Error fetching all users" });
+      res.status(500).json({ message: "Error fetching settlement" });
     }
   });
 
-  // Request to add money to wallet - creates pending transaction
-  app.post("/api/wallet/deposit", requireAuth, async (req, res) => {
+  // Get the Ludo board for a match
+  app.get("/api/matches/:id/board", requireAuth, async (req, res) => {
     try {
-      const schema = insertTransactionSchema.pick({
-        amount: true,
-      }).extend({
-        paymentScreenshotUrl: z.string().optional(),
-        paymentReference: z.string().optional(),
-        upiId: z.string().default("8447228346@ptsbi") // Default UPI ID for payments
-      });
+      const matchId = parseInt(req.params.id);
+      const state = await ludoMatches.getState(matchId);
       
-      const { amount, paymentScreenshotUrl, paymentReference, upiId } = schema.parse(req.body);
+      if (!state) {
+        return res.status(404).json({ message: "Board not found for this match" });
+      }
+      
+      res.json(state);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching board" });
+    }
+  });
+  
+  // Roll the dice - the value is generated on the server
+  app.post("/api/matches/:id/roll", requireAuth, async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const result = await ludoMatches.roll(matchId, req.user!.id);
+      
+      if (!result) {
+        return res.status(404).json({ message: "Board not found for this match" });
+      }
+      
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      
+      res.json(result.state);
+    } catch (error) {
+      res.status(500).json({ message: "Error rolling dice" });
+    }
+  });
+  
+  // Move a token with the current roll
+  app.post("/api/matches/:id/move", requireAuth, async (req, res) => {
+    try {
+      const matchId = parseInt(req.params.id);
+      const { token } = z.object({
+        token: z.number().int().min(0)
+      }).parse(req.body);
+      
+      const result = await ludoMatches.move(matchId, req.user!.id, token);
+      
+      if (!result) {
+        return res.status(404).json({ message: "Board not found for this match" });
+      }
+      
+      if (result.error) {
+        return res.status(400).json({ message: result.error });
+      }
+      
+      res.json(result.state);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error moving token" });
+    }
+  });
+
+  // Get user's wallet
+  app.get("/api/wallet", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const wallet = await storage.getWallet(userId);
+      
+      if (!wallet) {
+        return res.status(404).json({ message: "Wallet not found" });
+      }
+      
+      res.json(wallet);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching wallet" });
+    }
+  });
+
+  // Get the ledger lines behind the user's wallet balance
+  app.get("/api/wallet/ledger", requireAuth, async (req, res) => {
+    try {
+      const userId = req.user!.id;
+      const entries = await storage.getWalletLedger(userId);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching wallet ledger" });
+    }
+  });
+
+  // Get user's transactions
+  app.get("/api/transactions", requireAuth, async (req, res) => {
+    try {
       const userId = req.user!.id;
+      const transactions = await storage.getUserTransactions(userId);
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching transactions" });
+    }
+  });
+  
+  // Admin endpoint to get all transactions
+  app.get("/api/admin/transactions", requirePermission("manage_deposits", "manage_withdrawals"), audit("transactions.view"), async (req, res) => {
+    try {
+      const transactions = await storage.getAllTransactions();
+      res.json(transactions);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching all transactions" });
+    }
+  });
+  
+  // Admin endpoint to get all users
+  app.get("/api/admin/users", requirePermission("view_users"), audit("users.view"), async (req, res) => {
+    try {
+      const users = await storage.getAllUsers();
       
-      // Validate amount
-      const parsedAmount = parseFloat(amount.toString());
-      if (parsedAmount < 100) {
-        return res.status(400).json({ message: "Minimum deposit amount is ₹100" });
+      // Return only safe user data (no passwords), with what each user is entitled to
+      const safeUsers = await Promise.all(users.map(async user => {
+        const safeUser = { ...user, entitlements: await getEntitlements(user.id) };
+        delete (safeUser as any).password;
+        return safeUser;
+      }));
+      
+      res.json(safeUsers);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching all users" });
+    }
+  });
+
+  // Grant a staff role
+  app.post("/api/admin/users/:id/roles", requirePermission("manage_roles"), audit("users.grant_role", "user"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const { role } = z.object({ role: z.enum(ROLES) }).parse(req.body);
+      
+      const { user, error } = await grantRole(userId, role);
+      if (error || !user) {
+        return res.status(error === "User not found" ? 404 : 400).json({ message: error });
       }
       
+      const safeUser = { ...user };
+      delete (safeUser as any).password;
+      res.json(safeUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error granting role" });
+    }
+  });
+  
+  // Revoke a staff role
+  app.delete("/api/admin/users/:id/roles/:role", requirePermission("manage_roles"), audit("users.revoke_role", "user"), async (req, res) => {
+    try {
+      const userId = parseInt(req.params.id);
+      const role = z.enum(ROLES).parse(req.params.role);
+      
+      const { user, error } = await revokeRole(userId, role);
+      if (error || !user) {
+        return res.status(error === "User not found" ? 404 : 400).json({ message: error });
+      }
+      
+      const safeUser = { ...user };
+      delete (safeUser as any).password;
+      res.json(safeUser);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error revoking role" });
+    }
+  });
+
+  // Admin endpoint to compare cached wallet balances against the ledger
+  app.get("/api/admin/ledger/reconcile", requirePermission("view_ledger"), audit("ledger.reconcile"), async (req, res) => {
+    try {
+      const reconciliations = await storage.reconcileWallets();
+      const mismatches = reconciliations.filter(r => r.difference !== 0);
+      
+      res.json({
+        walletsChecked: reconciliations.length,
+        inSync: mismatches.length === 0,
+        mismatches
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Error reconciling wallets" });
+    }
+  });
+
+  // Request to add money to wallet - creates pending transaction
+  app.post("/api/wallet/deposit", requireAuth, async (req, res) => {
+    try {
+      const schema = z.object({
+        amount: z.coerce.number().finite()
+          .min(100, "Minimum deposit amount is ₹100")
+          .multipleOf(0.01, "Amount can have at most 2 decimal places"),
+        paymentScreenshotUrl: z.string().optional(),
+        paymentReference: z.string().optional(),
+        upiId: z.string().default("8447228346@ptsbi") // Default UPI ID for payments
+      });
+      
+      const { amount, paymentScreenshotUrl, paymentReference, upiId } = schema.parse(req.body);
+      const userId = req.user!.id;
+      
       // Create pending transaction - money NOT added to wallet until admin approves
       const transaction = await storage.createTransaction({
         userId,
-        amount: amount.toString(),
+        amount: amount.toFixed(2),
         type: "deposit",
         status: "pending", // Mark as pending until admin approves
         description: `Deposit request via UPI payment to ${upiId}${paymentReference ? ` (Ref: ${paymentReference})` : ''}${paymentScreenshotUrl ? ' (Screenshot uploaded)' : ''}`,
@@ -689,7 +1023,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         message: "Deposit request registered. Please make payment to 8447228346@ptsbi. An admin will approve your deposit soon.",
         paymentInfo: {
           upiId: "8447228346@ptsbi",
-          amount: parsedAmount
+          amount
         },
         transaction 
       });
@@ -701,106 +1035,271 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
-  // Admin endpoint to approve pending deposits - restricted to admin (user ID = 1)
-  app.post("/api/wallet/approve-deposit/:transactionId", requireAdmin, async (req, res) => {
+  // Admin endpoint to approve pending deposits
+  app.post("/api/wallet/approve-deposit/:transactionId", requirePermission("manage_deposits"), audit("deposits.approve", "transaction"), async (req, res) => {
     try {
       const transactionId = parseInt(req.params.transactionId);
-      const userId = req.user!.id;
       
-      // Admin verification is now handled by the requireAdmin middleware
+      // Credit the user's wallet (the one who made the deposit, not the admin)
+      // and complete the original pending transaction
+      const posting = await storage.approveDeposit(transactionId, { processedBy: req.user!.id });
       
-      // Get the pending transaction (all transactions, not just user's)
-      const allTransactions = await storage.getAllTransactions();
-      const transaction = allTransactions.find(t => t.id === transactionId && t.type === "deposit" && t.status === "pending");
-      
-      if (!transaction) {
+      if (!posting) {
         return res.status(404).json({ message: "Pending deposit transaction not found" });
       }
       
-      // Get deposit amount
-      const depositAmount = parseFloat(transaction.amount.toString());
-      
-      // Update the user's wallet balance (the one who made the deposit, not the admin)
-      const transactionUserId = transaction.userId;
-      const updatedWallet = await storage.updateWalletBalance(transactionUserId, depositAmount);
-      if (!updatedWallet) {
-        return res.status(500).json({ message: "Error updating wallet" });
-      }
-      
-      // Update transaction status to completed
-      // In a real app, you'd have a storage method to update transaction status
-      // For this demo, we'll create a new "approved" transaction
-      const approvedTransaction = await storage.createTransaction({
-        userId: transactionUserId,
-        amount: depositAmount.toString(),
+      await notificationService.notify(posting.transaction.userId, {
         type: "deposit",
-        status: "completed",
-        description: "Deposit approved by admin",
-        commissionAmount: "0"
+        title: "Deposit approved",
+        body: `${formatRupees(posting.transaction.amount)} has been added to your wallet.`,
+        link: "/wallet"
       });
       
       res.status(200).json({ 
         success: true, 
         message: "Deposit approved and funds added to wallet",
-        wallet: updatedWallet,
-        transaction: approvedTransaction
+        wallet: posting.wallet,
+        transaction: posting.transaction
       });
     } catch (error) {
       res.status(500).json({ message: "Error approving deposit" });
     }
   });
+  
+  // Admin endpoint to reject a pending deposit, e.g. when no payment was received
+  app.post("/api/wallet/reject-deposit/:transactionId", requirePermission("manage_deposits"), audit("deposits.reject", "transaction"), async (req, res) => {
+    try {
+      const transactionId = parseInt(req.params.transactionId);
+      const { reason } = z.object({
+        reason: z.string().trim().min(1, "A reason is required")
+      }).parse(req.body);
+      
+      const deposit = await storage.getTransaction(transactionId);
+      if (!deposit || deposit.type !== "deposit") {
+        return res.status(404).json({ message: "Pending deposit transaction not found" });
+      }
+      
+      const transaction = await storage.updateTransactionStatus(transactionId, "rejected", {
+        from: "pending",
+        processedBy: req.user!.id,
+        reason
+      });
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Pending deposit transaction not found" });
+      }
+      
+      res.json({
+        success: true,
+        message: "Deposit rejected",
+        transaction
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error rejecting deposit" });
+    }
+  });
+  
+  // Admin endpoint to expire a pending deposit whose payment never arrived
+  app.post("/api/wallet/expire-deposit/:transactionId", requirePermission("manage_deposits"), audit("deposits.expire", "transaction"), async (req, res) => {
+    try {
+      const transactionId = parseInt(req.params.transactionId);
+      
+      const deposit = await storage.getTransaction(transactionId);
+      if (!deposit || deposit.type !== "deposit") {
+        return res.status(404).json({ message: "Pending deposit transaction not found" });
+      }
+      
+      const transaction = await storage.updateTransactionStatus(transactionId, "expired", {
+        from: "pending",
+        processedBy: req.user!.id,
+        reason: DEPOSIT_EXPIRY_REASON
+      });
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Pending deposit transaction not found" });
+      }
+      
+      res.json({
+        success: true,
+        message: "Deposit request expired",
+        transaction
+      });
+    } catch (error) {
+      res.status(500).json({ message: "Error expiring deposit" });
+    }
+  });
+  
+  // Admin endpoint to expire every pending deposit older than the given age
+  app.post("/api/admin/deposits/expire-stale", requirePermission("manage_deposits"), audit("deposits.expire_stale"), async (req, res) => {
+    try {
+      const { olderThanHours } = z.object({
+        olderThanHours: z.number().positive().default(DEPOSIT_EXPIRY_HOURS)
+      }).parse(req.body);
+      
+      const cutoff = Date.now() - olderThanHours * 60 * 60 * 1000;
+      const allTransactions = await storage.getAllTransactions();
+      const staleDeposits = allTransactions.filter(t => 
+        t.type === "deposit" && t.status === "pending" && new Date(t.createdAt).getTime() < cutoff
+      );
+      
+      const expired: Transaction[] = [];
+      for (const deposit of staleDeposits) {
+        const transaction = await storage.updateTransactionStatus(deposit.id, "expired", {
+          from: "pending",
+          processedBy: req.user!.id,
+          reason: DEPOSIT_EXPIRY_REASON
+        });
+        if (transaction) expired.push(transaction);
+      }
+      
+      res.json({
+        success: true,
+        message: `${expired.length} deposit request(s) expired`,
+        transactions: expired
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error expiring deposits" });
+    }
+  });
 
-  // Withdraw money from wallet
+  // Request a withdrawal - money is held until an admin pays it out
   app.post("/api/wallet/withdraw", requireAuth, async (req, res) => {
     try {
-      const schema = insertTransactionSchema.pick({
-        amount: true,
+      const schema = z.object({
+        amount: z.coerce.number().finite()
+          .positive("Amount must be greater than 0")
+          .multipleOf(0.01, "Amount can have at most 2 decimal places"),
+        upiId: z.string().trim().min(3).optional()
       });
       
-      const { amount } = schema.parse(req.body);
+      const { amount, upiId } = schema.parse(req.body);
       const userId = req.user!.id;
       
+      // Payout goes to the UPI ID given with the request, falling back to the profile
+      const payoutUpiId = upiId || req.user!.upiId;
+      if (!payoutUpiId) {
+        return res.status(400).json({ message: "Add a UPI ID to your profile or the request to receive withdrawals" });
+      }
+      
       // Check wallet balance
       const wallet = await storage.getWallet(userId);
       if (!wallet) {
         return res.status(404).json({ message: "Wallet not found" });
       }
       
-      const parsedAmount = parseFloat(amount.toString());
-      if (parsedAmount <= 0) {
-        return res.status(400).json({ message: "Amount must be greater than 0" });
+      if (parseFloat(wallet.balance.toString()) < amount) {
+        return res.status(400).json({ message: "Insufficient funds" });
       }
       
-      if (parseFloat(wallet.balance.toString()) < parsedAmount) {
+      // Place the amount on hold - paid out to the UPI ID once an admin approves
+      const posting = await storage.holdWithdrawal({
+        userId,
+        amount: (-amount).toFixed(2),
+        type: "withdrawal",
+        status: "pending",
+        description: `Withdrawal request to ${payoutUpiId}`,
+        commissionAmount: "0",
+        metadata: JSON.stringify({ upiId: payoutUpiId })
+      });
+      if (!posting) {
         return res.status(400).json({ message: "Insufficient funds" });
       }
       
-      // Withdraw amount from wallet
-      const updatedWallet = await storage.updateWalletBalance(userId, -parsedAmount);
-      if (!updatedWallet) {
-        return res.status(500).json({ message: "Error updating wallet" });
+      res.status(201).json({
+        success: true,
+        message: "Withdrawal request registered. An admin will send the payout to your UPI ID soon.",
+        wallet: posting.wallet,
+        transaction: posting.transaction
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(500).json({ message: "Error withdrawing money from wallet" });
+    }
+  });
+
+  // Admin endpoint to approve a pending withdrawal once the payout has been sent
+  app.post("/api/admin/withdrawals/:transactionId/approve", requirePermission("manage_withdrawals"), audit("withdrawals.approve", "transaction"), async (req, res) => {
+    try {
+      const transactionId = parseInt(req.params.transactionId);
+      const { payoutReference } = z.object({
+        payoutReference: z.string().trim().min(1, "Payout reference is required")
+      }).parse(req.body);
       
-      // Create transaction
-      const transaction = await storage.createTransaction({
-        userId,
-        amount: (-parsedAmount).toString(),
+      const transaction = await storage.settleWithdrawal(transactionId, {
+        payoutReference,
+        processedBy: req.user!.id
+      });
+      
+      if (!transaction) {
+        return res.status(404).json({ message: "Pending withdrawal transaction not found" });
+      }
+      
+      await notificationService.notify(transaction.userId, {
         type: "withdrawal",
-        status: "completed",
-        description: "Withdrew money from wallet",
-        commissionAmount: "0"
+        title: "Withdrawal paid",
+        body: `Your withdrawal of ${formatRupees(transaction.amount)} has been sent. Reference: ${payoutReference}.`,
+        link: "/wallet"
       });
       
-      res.status(201).json({ wallet: updatedWallet, transaction });
+      res.json({
+        success: true,
+        message: "Withdrawal marked as paid",
+        transaction
+      });
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      res.status(500).json({ message: "Error withdrawing money from wallet" });
+      res.status(500).json({ message: "Error approving withdrawal" });
+    }
+  });
+  
+  // Admin endpoint to reject a pending withdrawal and return the held funds
+  app.post("/api/admin/withdrawals/:transactionId/reject", requirePermission("manage_withdrawals"), audit("withdrawals.reject", "transaction"), async (req, res) => {
+    try {
+      const transactionId = parseInt(req.params.transactionId);
+      const { reason } = z.object({
+        reason: z.string().trim().min(1, "A reason is required")
+      }).parse(req.body);
+      
+      const posting = await storage.releaseWithdrawal(transactionId, {
+        reason,
+        processedBy: req.user!.id
+      });
+      
+      if (!posting) {
+        return res.status(404).json({ message: "Pending withdrawal transaction not found" });
+      }
+      
+      await notificationService.notify(posting.transaction.userId, {
+        type: "withdrawal",
+        title: "Withdrawal rejected",
+        body: `Your withdrawal of ${formatRupees(posting.transaction.amount)} was rejected and the money returned to your wallet. ${reason}`,
+        link: "/wallet"
+      });
+      
+      res.json({
+        success: true,
+        message: "Withdrawal rejected and funds returned to wallet",
+        wallet: posting.wallet,
+        transaction: posting.transaction
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error rejecting withdrawal" });
     }
   });
 
-  // Add to waitlist
   // Get user's subscriptions
   app.get("/api/subscriptions", requireAuth, async (req, res) => {
     try {
@@ -823,6 +1322,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Benefits the user currently has from their subscriptions
+  app.get("/api/entitlements", requireAuth, async (req, res) => {
+    try {
+      const entitlements = await getEntitlements(req.user!.id);
+      res.json(entitlements);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching entitlements" });
+    }
+  });
+
   // Get user's subscription rewards
   app.get("/api/subscription-rewards", requireAuth, async (req, res) => {
     try {
@@ -845,232 +1354,417 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // Purchase a subscription
+  // Subscription plans players can buy, in display order
+  app.get("/api/subscription-plans", async (req, res) => {
+    try {
+      const plans = await storage.getSubscriptionPlans();
+      res.json(plans);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching subscription plans" });
+    }
+  });
+
+  // Purchase a subscription plan. Price, rewards and benefits all come from the plan.
   app.post("/api/subscriptions", requireAuth, async (req, res) => {
     try {
-      const userId = req.user!.id;
-      const { name, amount, rewardAmount, duration } = req.body;
-      
-      // Validate subscription amount
-      const parsedAmount = parseFloat(amount);
-      const parsedRewardAmount = parseFloat(rewardAmount);
-      const parsedDuration = parseInt(duration);
+      const { planId, autoRenew } = z.object({
+        planId: z.coerce.number().int().positive(),
+        autoRenew: z.boolean().default(false)
+      }).parse(req.body);
       
-      if (parsedAmount <= 0) {
-        return res.status(400).json({ message: "Invalid subscription amount" });
+      const purchase = await purchaseSubscription(req.user!.id, planId, autoRenew);
+      if (purchase.error || !purchase.subscription || !purchase.plan || !purchase.rewards) {
+        return res.status(400).json({ message: purchase.error || "Error purchasing subscription" });
       }
       
-      if (parsedRewardAmount <= 0) {
-        return res.status(400).json({ message: "Invalid reward amount" });
-      }
+      const { plan, rewards, subscription } = purchase;
+      const rewardTotal = rewards.reduce((sum, amount) => sum + amount, 0);
       
-      if (parsedDuration <= 0) {
-        return res.status(400).json({ message: "Invalid subscription duration" });
+      res.status(201).json({ 
+        success: true, 
+        message: rewards.length > 0
+          ? `Successfully purchased ${plan.name}. You will receive ₹${rewards[0].toFixed(2)} daily for ${rewards.length} days (₹${rewardTotal.toFixed(2)} total).`
+          : `Successfully purchased ${plan.name} for ${plan.durationDays} days.`,
+        subscription 
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(500).json({ message: "Error purchasing subscription" });
+    }
+  });
+
+  // Cancel a subscription at the end of its term. Benefits and rewards continue until then.
+  app.post("/api/subscriptions/:id/cancel", requireAuth, async (req, res) => {
+    try {
+      const result = await cancelSubscription(req.user!.id, parseInt(req.params.id));
+      if (result.error) return sendSubscriptionError(res, result.error);
+      res.json(result.subscription);
+    } catch (error) {
+      res.status(500).json({ message: "Error cancelling subscription" });
+    }
+  });
+
+  // Take back a cancellation before the term ends
+  app.post("/api/subscriptions/:id/resume", requireAuth, async (req, res) => {
+    try {
+      const result = await resumeSubscription(req.user!.id, parseInt(req.params.id));
+      if (result.error) return sendSubscriptionError(res, result.error);
+      res.json(result.subscription);
+    } catch (error) {
+      res.status(500).json({ message: "Error resuming subscription" });
+    }
+  });
+
+  // Renew from the wallet balance when the term ends
+  app.patch("/api/subscriptions/:id/auto-renew", requireAuth, async (req, res) => {
+    try {
+      const { autoRenew } = z.object({ autoRenew: z.boolean() }).parse(req.body);
       
-      // Check user's wallet
-      const wallet = await storage.getWallet(userId);
-      if (!wallet) {
-        return res.status(404).json({ message: "Wallet not found" });
+      const result = await setAutoRenew(req.user!.id, parseInt(req.params.id), autoRenew);
+      if (result.error) return sendSubscriptionError(res, result.error);
+      res.json(result.subscription);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(500).json({ message: "Error updating auto-renew" });
+    }
+  });
+
+  // Prorated price of upgrading a subscription to a higher plan
+  app.get("/api/subscriptions/:id/upgrade", requireAuth, async (req, res) => {
+    try {
+      const { planId } = z.object({
+        planId: z.coerce.number().int().positive()
+      }).parse(req.query);
       
-      const walletBalance = parseFloat(wallet.balance.toString());
-      if (walletBalance < parsedAmount) {
-        return res.status(400).json({ message: "Insufficient funds" });
+      const result = await previewUpgrade(req.user!.id, parseInt(req.params.id), planId);
+      if (result.error) return sendSubscriptionError(res, result.error);
+      res.json(result.quote);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(500).json({ message: "Error pricing upgrade" });
+    }
+  });
+
+  app.post("/api/subscriptions/:id/upgrade", requireAuth, async (req, res) => {
+    try {
+      const { planId } = z.object({
+        planId: z.coerce.number().int().positive()
+      }).parse(req.body);
       
-      // Deduct subscription amount from wallet
-      await storage.updateWalletBalance(userId, -parsedAmount);
-      
-      // Determine rewards based on subscription tier
-      let dailyReward = "857";
-      let totalReward = "6,000";
-      
-      if (parsedAmount === 2000) {
-        dailyReward = "1,714";
-        totalReward = "12,000";
-      } else if (parsedAmount === 10000) {
-        dailyReward = "11,428";
-        totalReward = "80,000";
+      const result = await upgradeSubscription(req.user!.id, parseInt(req.params.id), planId);
+      if (result.error || !result.subscription || !result.plan || !result.quote) {
+        return sendSubscriptionError(res, result.error || "Error upgrading subscription");
       }
       
-      // Create transaction for subscription purchase
-      await storage.createTransaction({
-        userId,
-        amount: (-parsedAmount).toString(),
-        type: "subscription_purchase",
-        status: "completed",
-        description: `Purchased ${name} subscription for ${duration} days (₹${dailyReward} daily rewards, ₹${totalReward} total)`,
-        commissionAmount: "0"
-      });
-      
-      // Create dates for subscription
-      const now = new Date();
-      const startDate = now;
-      const endDate = new Date(now);
-      endDate.setDate(endDate.getDate() + parsedDuration);
-      
-      // Create subscription
-      const subscription = await storage.createGameSubscription({
-        userId,
-        name,
-        amount: amount.toString(),
-        rewardAmount: rewardAmount.toString(),
-        duration: parsedDuration,
-        startDate,
-        endDate,
-        status: "active"
+      res.status(201).json({
+        success: true,
+        message: `Upgraded to ${result.plan.name}. ₹${result.quote.credit} of unused time was credited and ₹${result.quote.charge} charged.`,
+        subscription: result.subscription,
+        quote: result.quote
       });
-      
-      // Add subscription status to user
-      await storage.addSubscription(userId, parsedDuration);
-      
-      // Create rewards for each day of the subscription
-      // Create an array to hold all rewards
-      const rewards: InsertSubscriptionReward[] = [];
-      
-      // Calculate daily reward amount based on subscription tier
-      let dailyRewardAmount: number;
-      if (parsedAmount === 2000) {
-        dailyRewardAmount = 1714; // Standard tier: ₹12,000 / 7 days
-      } else if (parsedAmount === 10000) {
-        dailyRewardAmount = 11428; // Premium tier: ₹80,000 / 7 days
-      } else {
-        dailyRewardAmount = 857; // Basic tier: ₹6,000 / 7 days
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
+      res.status(500).json({ message: "Error upgrading subscription" });
+    }
+  });
+
+  // Admin endpoints to manage the subscription plan catalog
+  app.get("/api/admin/subscription-plans", requirePermission("manage_plans"), audit("subscription_plans.view"), async (req, res) => {
+    try {
+      const plans = await storage.getSubscriptionPlans(true);
+      res.json(plans);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching subscription plans" });
+    }
+  });
+
+  app.post("/api/admin/subscription-plans", requirePermission("manage_plans"), audit("subscription_plans.create", "subscription_plan"), async (req, res) => {
+    try {
+      const planData = subscriptionPlanInput.parse(req.body);
       
-      // Create reward for each day
-      for (let day = 1; day <= parsedDuration; day++) {
-        const rewardDate = new Date(startDate);
-        rewardDate.setDate(rewardDate.getDate() + (day - 1));
-        
-        rewards.push({
-          userId,
-          subscriptionId: subscription.id,
-          amount: dailyRewardAmount.toString(),
-          day,
-          status: "pending"
-        });
+      if (await storage.getSubscriptionPlanBySlug(planData.slug)) {
+        return res.status(409).json({ message: "A plan with this slug already exists" });
       }
       
-      // Save all rewards to database
-      await storage.createSubscriptionRewards(rewards);
+      const plan = await storage.createSubscriptionPlan(planData);
+      res.status(201).json(plan);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error creating subscription plan" });
+    }
+  });
+
+  // Changes apply to new purchases; existing subscriptions keep the terms they were bought with
+  app.patch("/api/admin/subscription-plans/:id", requirePermission("manage_plans"), audit("subscription_plans.update", "subscription_plan"), async (req, res) => {
+    try {
+      const planId = parseInt(req.params.id);
+      const planData = subscriptionPlanInput.partial().parse(req.body);
       
-      // Recalculate display values for message
-      let displayReward = "857";
-      let displayTotal = "6,000";
+      if (planData.slug) {
+        const existing = await storage.getSubscriptionPlanBySlug(planData.slug);
+        if (existing && existing.id !== planId) {
+          return res.status(409).json({ message: "A plan with this slug already exists" });
+        }
+      }
       
-      if (parsedAmount === 2000) {
-        displayReward = "1,714";
-        displayTotal = "12,000";
-      } else if (parsedAmount === 10000) {
-        displayReward = "11,428";
-        displayTotal = "80,000";
+      const plan = await storage.updateSubscriptionPlan(planId, planData);
+      if (!plan) {
+        return res.status(404).json({ message: "Subscription plan not found" });
       }
       
-      res.status(201).json({ 
-        success: true, 
-        message: `Successfully purchased ${name} subscription. You will receive ₹${displayReward} daily for 7 days (₹${displayTotal} total).`,
-        subscription 
-      });
+      res.json(plan);
     } catch (error) {
-      res.status(500).json({ message: "Error purchasing subscription" });
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error updating subscription plan" });
     }
   });
 
-  // Admin endpoint to process pending rewards for a specific date (default: today)
-  app.post("/api/admin/process-subscription-rewards", requireAdmin, async (req, res) => {
+  // Plans are retired rather than removed, since subscriptions refer to them
+  app.delete("/api/admin/subscription-plans/:id", requirePermission("manage_plans"), audit("subscription_plans.retire", "subscription_plan"), async (req, res) => {
     try {
-      const userId = req.user!.id;
-      
-      // Admin verification is now handled by the requireAdmin middleware
-      
-      // Get date to process (default: today)
-      const dateStr = req.body.date;
-      const date = dateStr ? new Date(dateStr) : new Date();
-      
-      // Get all pending rewards for this date
-      const pendingRewards = await storage.getPendingRewardsByDate(date);
+      const planId = parseInt(req.params.id);
+      const plan = await storage.updateSubscriptionPlan(planId, { isActive: false });
       
-      if (pendingRewards.length === 0) {
-        return res.json({ message: "No pending rewards found for this date", processed: 0 });
+      if (!plan) {
+        return res.status(404).json({ message: "Subscription plan not found" });
       }
       
-      // Process each reward
-      let processedCount = 0;
-      for (const reward of pendingRewards) {
-        // Update wallet balance
-        const rewardAmount = parseFloat(reward.amount);
-        await storage.updateWalletBalance(reward.userId, rewardAmount);
-        
-        // Create transaction
-        await storage.createTransaction({
-          userId: reward.userId,
-          amount: rewardAmount.toString(),
-          type: "subscription_reward",
-          status: "completed",
-          description: `Day ${reward.day} subscription reward`,
-          commissionAmount: "0"
-        });
-        
-        // Mark reward as paid
-        await storage.updateRewardStatus(reward.id, "paid");
-        
-        processedCount++;
+      res.json(plan);
+    } catch (error) {
+      res.status(500).json({ message: "Error retiring subscription plan" });
+    }
+  });
+
+  // Pay every subscription reward that has fallen due. The payout worker does this
+  // on its own; this runs it now instead of waiting for the next poll.
+  app.post("/api/admin/process-subscription-rewards", requirePermission("manage_plans"), audit("subscription_rewards.process"), async (req, res) => {
+    try {
+      const report = await rewardPayouts.runDue();
+      if (!report) {
+        return res.status(409).json({ message: "A reward payout run is already in progress" });
       }
       
       res.json({
         success: true,
-        message: `Processed ${processedCount} subscription rewards for ${date.toDateString()}`,
-        processed: processedCount
+        message: `Renewed ${report.renewedSubscriptionIds.length} subscriptions, paid ${report.paid} subscription rewards and forfeited ${report.forfeited}`,
+        ...report
       });
     } catch (error) {
       res.status(500).json({ message: "Error processing subscription rewards" });
     }
   });
+  
+  // Dry run of the payout worker: what it would pay at the given time (default now)
+  app.get("/api/admin/subscription-rewards/dry-run", requirePermission("manage_plans"), audit("subscription_rewards.dry_run"), async (req, res) => {
+    try {
+      const { asOf } = z.object({
+        asOf: z.coerce.date().optional()
+      }).parse(req.query);
+      
+      const report = await rewardPayouts.preview(asOf);
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error previewing subscription rewards" });
+    }
+  });
 
+  // Join the waitlist. The status link is only returned for new signups; an email
+  // already on the list gets its links mailed again instead.
   app.post("/api/waitlist", async (req, res) => {
     try {
-      const { email } = insertWaitlistSchema.parse(req.body);
+      const { email, ref } = waitlistSignupInput.parse(req.body);
+      
+      const { entry, created } = await joinWaitlist(email, ref, appUrl());
+      if (!created) {
+        return res.json({ message: "This email is already on the waitlist. We've sent your links again." });
+      }
       
-      const waitlist = await storage.addToWaitlist({ email });
-      res.status(201).json(waitlist);
+      res.status(201).json({
+        message: "Check your email to confirm your place on the waitlist.",
+        token: entry.token
+      });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error adding to waitlist" });
+    }
+  });
+  
+  // Double opt-in: confirm the email from the link in the confirmation mail
+  app.post("/api/waitlist/confirm/:token", async (req, res) => {
+    try {
+      const entry = await confirmWaitlistEmail(req.params.token);
+      if (!entry) {
+        return res.status(404).json({ message: "This confirmation link is not valid" });
+      }
+      
+      res.json({ token: entry.token });
+    } catch (error) {
+      res.status(500).json({ message: "Error confirming waitlist email" });
+    }
+  });
+  
+  // Position in the queue and referral progress, for the holder of the status link
+  app.get("/api/waitlist/status/:token", async (req, res) => {
+    try {
+      const status = await getWaitlistStatus(req.params.token);
+      if (!status) {
+        return res.status(404).json({ message: "Waitlist entry not found" });
+      }
+      
+      res.json(status);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching waitlist status" });
+    }
+  });
+  
+  // Admin: search the waitlist with each entry's queue position, invite and conversion
+  app.get("/api/admin/waitlist", requirePermission("manage_waitlist"), audit("waitlist.view"), async (req, res) => {
+    try {
+      const entries = await getAdminWaitlist(typeof req.query.search === "string" ? req.query.search : undefined);
+      res.json(entries);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching waitlist" });
+    }
+  });
+  
+  // Admin: the same search as a CSV download
+  app.get("/api/admin/waitlist/export", requirePermission("manage_waitlist"), audit("waitlist.export"), async (req, res) => {
+    try {
+      const entries = await getAdminWaitlist(typeof req.query.search === "string" ? req.query.search : undefined);
+      
+      sendCsv(res, "waitlist.csv", [
+        "id", "email", "joined_at", "confirmed_at", "position", "referral_code", "referred_by_id", "verified_referrals",
+        "invited_at", "invite_code", "user_id", "registered_at", "first_deposit_at", "first_match_at"
+      ], entries.map(entry => [
+        entry.id, entry.email, entry.createdAt, entry.confirmedAt, entry.position, entry.referralCode, entry.referredById,
+        entry.verifiedReferrals, entry.invitedAt, entry.inviteCode, entry.conversion.userId, entry.conversion.registeredAt,
+        entry.conversion.firstDepositAt, entry.conversion.firstMatchAt
+      ]));
+    } catch (error) {
+      res.status(500).json({ message: "Error exporting waitlist" });
+    }
+  });
+  
+  // Admin: how many waitlisted emails went on to register, deposit and play
+  app.get("/api/admin/waitlist/funnel", requirePermission("manage_waitlist"), audit("waitlist.view_funnel"), async (req, res) => {
+    try {
+      const funnel = await getWaitlistFunnel();
+      res.json(funnel);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching waitlist funnel" });
+    }
+  });
+  
+  // Admin: invite batches sent so far, with how many codes were used
+  app.get("/api/admin/invite-batches", requirePermission("manage_waitlist"), audit("waitlist.view_invite_batches"), async (req, res) => {
+    try {
+      const batches = await storage.getInviteBatches();
+      res.json(batches);
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching invite batches" });
+    }
+  });
+  
+  // Admin: send a batch of single-use registration codes
+  app.post("/api/admin/waitlist/invites", requirePermission("manage_waitlist"), audit("waitlist.send_invites", undefined, { recordResponse: inviteBatchAuditRecord }), async (req, res) => {
+    try {
+      const request = inviteBatchInput.parse(req.body);
+      
+      const { invites, error } = await sendInviteBatch(req.user!.id, request, appUrl());
+      if (error || !invites) {
+        return res.status(400).json({ message: error });
+      }
+      
+      res.status(201).json(invites);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error sending invites" });
+    }
+  });
+  
+  // Admin: the audit log of privileged actions, newest first
+  app.get("/api/admin/audit-log", requirePermission("view_audit_log"), audit("audit_log.view"), async (req, res) => {
+    try {
+      const { page, limit, ...filters } = auditLogFilterInput.extend({
+        page: z.coerce.number().int().min(1).default(1),
+        limit: z.coerce.number().int().min(1).max(AUDIT_LOG_MAX_PAGE_SIZE).default(AUDIT_LOG_PAGE_SIZE)
+      }).parse(req.query);
+      
+      const { entries, total } = await getAuditLog({ ...filters, limit, offset: (page - 1) * limit });
+      res.json({ entries, total, page, limit });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching audit log" });
+    }
+  });
+  
+  // Admin: the filtered audit log as a CSV download
+  app.get("/api/admin/audit-log/export", requirePermission("view_audit_log"), audit("audit_log.export"), async (req, res) => {
+    try {
+      const filters = auditLogFilterInput.parse(req.query);
+      const { entries } = await getAuditLog({ ...filters, limit: AUDIT_LOG_EXPORT_LIMIT, offset: 0 });
+      
+      sendCsv(res, "audit-log.csv", [
+        "id", "created_at", "actor_id", "actor_username", "action", "entity_type", "entity_id", "ip", "before", "after"
+      ], entries.map(entry => [
+        entry.id, entry.createdAt, entry.actorId, entry.actorUsername, entry.action, entry.entityType, entry.entityId,
+        entry.ip, entry.before, entry.after
+      ]));
     } catch (error) {
       if (error instanceof z.ZodError) {
         return res.status(400).json({ message: "Invalid input", errors: error.errors });
       }
-      res.status(500).json({ message: "Error adding to waitlist" });
+      res.status(500).json({ message: "Error exporting audit log" });
     }
   });
   
-  // Purchase subscription
+  // Purchase the monthly premium plan
   app.post("/api/subscription/purchase", requireAuth, async (req, res) => {
     try {
       const userId = req.user!.id;
-      const wallet = await storage.getWallet(userId);
-      
-      // Check if user has enough balance (subscription costs 300)
-      if (!wallet || parseFloat(wallet.balance.toString()) < 300) {
-        return res.status(400).json({ message: 'Insufficient wallet balance for subscription. Minimum balance required is ₹300.' });
+      const plan = await storage.getSubscriptionPlanBySlug(MONTHLY_PLAN_SLUG);
+      if (!plan) {
+        return res.status(404).json({ message: "The monthly subscription is not available" });
       }
       
-      // Deduct subscription cost from wallet
-      const updatedWallet = await storage.updateWalletBalance(userId, -300);
+      const purchase = await purchaseSubscription(userId, plan.id);
+      if (purchase.error) {
+        return res.status(400).json({
+          message: purchase.error === "Insufficient funds"
+            ? `Insufficient wallet balance for subscription. Minimum balance required is ₹${parseFloat(plan.price).toFixed(2)}.`
+            : purchase.error
+        });
+      }
       
-      // Add subscription (30 days)
-      const user = await storage.addSubscription(userId, 30);
+      const user = await storage.getUser(userId);
+      const wallet = await storage.getWallet(userId);
       
-      // Record transaction
-      await storage.createTransaction({
-        userId,
-        amount: "-300",
-        type: "subscription",
-        status: "completed",
-        description: "Monthly Subscription Purchase",
-        commissionAmount: "0"
-      });
+      // Strip out sensitive information like password before returning
+      const safeUser = { ...user };
+      delete (safeUser as any).password;
       
-      res.json({ success: true, user, wallet: updatedWallet });
+      res.json({ success: true, user: safeUser, wallet, subscription: purchase.subscription });
     } catch (error) {
       res.status(500).json({ message: 'Error purchasing subscription' });
     }
@@ -1215,273 +1909,583 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Redeem reward points
   app.post("/api/redeem-points", requireAuth, async (req, res) => {
     try {
-      const { points } = req.body;
+      const { points } = z.object({
+        points: z.number().int().min(50, "Minimum 50 points required for redemption")
+      }).parse(req.body);
       const userId = req.user!.id;
       
-      if (!points || points < 50) {
-        return res.status(400).json({ message: "Minimum 50 points required for redemption" });
-      }
-      
-      const user = await storage.getUser(userId);
-      if (!user) {
-        return res.status(404).json({ message: "User not found" });
-      }
-      
-      const userPoints = user.rewardPoints || 0;
-      if (userPoints < points) {
-        return res.status(400).json({ message: "Insufficient reward points" });
+      if (!(await storage.getWallet(userId))) {
+        return res.status(404).json({ message: "Wallet not found" });
       }
       
       // Calculate wallet credit (1 point = ₹0.10)
       const walletCredit = (points * 0.1);
       
-      // Deduct points
-      await storage.addRewardPoints(userId, -points);
-      
-      // Add credit to wallet
-      const updatedWallet = await storage.updateWalletBalance(userId, walletCredit);
-      
-      // Record transaction
-      await storage.createTransaction({
+      // Deduct the points and credit the wallet together
+      const redemption = await storage.redeemRewardPoints(userId, points, {
         userId,
-        amount: walletCredit.toString(),
+        amount: walletCredit.toFixed(2),
         type: "reward_redemption",
         status: "completed",
         description: `Redeemed ${points} points for ₹${walletCredit.toFixed(2)}`,
         commissionAmount: "0"
       });
+      if (!redemption) {
+        return res.status(400).json({ message: "Insufficient reward points" });
+      }
       
       res.json({
         success: true,
         pointsRedeemed: points,
         walletCredited: walletCredit,
-        remainingPoints: userPoints - points,
-        wallet: updatedWallet
+        remainingPoints: redemption.user.rewardPoints ?? 0,
+        wallet: redemption.wallet
       });
     } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
       res.status(500).json({ message: "Error redeeming points" });
     }
   });
 
-  // Create the HTTP server
-  const httpServer = createServer(app);
+  // Chat rooms the user belongs to, with unread counts
+  app.get("/api/chat/rooms", requireAuth, async (req, res) => {
+    try {
+      res.json(await getChatRooms(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching chat rooms" });
+    }
+  });
   
-  // Initialize Socket.IO server
-  const io = new SocketServer(httpServer, {
-    path: '/api/socket',
-    cors: {
-      origin: '*',
-      methods: ['GET', 'POST']
+  // A page of a room's history, oldest first. Pass the page's nextCursor as before= for older messages.
+  app.get("/api/chat/rooms/:key/messages", requireAuth, async (req, res) => {
+    try {
+      const { before, limit } = z.object({
+        before: z.coerce.number().int().positive().optional(),
+        limit: z.coerce.number().int().min(1).max(CHAT_HISTORY_MAX_PAGE_SIZE).default(CHAT_HISTORY_PAGE_SIZE)
+      }).parse(req.query);
+      
+      const room = await openChatRoom(req.user!, req.params.key);
+      if (!room) {
+        return res.status(403).json({ message: "You can't view this chat room" });
+      }
+      
+      res.json(await getChatHistory(room, before, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching chat history" });
     }
   });
   
-  // Store active users and chat history
-  const activeUsers = new Map();
-  const chatRooms = new Map();
-  const messageHistory = new Map();
+  // Mark a room read up to a message, or up to its latest message
+  app.post("/api/chat/rooms/:key/read", requireAuth, async (req, res) => {
+    try {
+      const { messageId } = z.object({
+        messageId: z.number().int().positive().optional()
+      }).parse(req.body ?? {});
+      
+      const room = await openChatRoom(req.user!, req.params.key);
+      if (!room) {
+        return res.status(403).json({ message: "You can't view this chat room" });
+      }
+      
+      await markChatRoomRead(room, req.user!.id, messageId);
+      res.json({ success: true });
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error marking chat read" });
+    }
+  });
   
-  // Initialize global chat room
-  if (!chatRooms.has('global')) {
-    chatRooms.set('global', { id: 'global', name: 'Global Chat', type: 'global', participants: [] });
-    messageHistory.set('global', []);
-  }
+  // The user's friends with their presence, friend requests both ways, and blocked users
+  app.get("/api/friends", requireAuth, async (req, res) => {
+    try {
+      res.json(await friendService.getFriendList(req.user!));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching friends" });
+    }
+  });
   
-  // Socket.IO event handling
-  io.on('connection', (socket) => {
-    console.log('Client connected: ', socket.id);
-    
-    // Join room
-    socket.on('joinRoom', async (data) => {
-      const { userId, username, roomId } = data;
+  // Send a friend request by username
+  app.post("/api/friends/requests", requireAuth, async (req, res) => {
+    try {
+      const { username } = z.object({ username: z.string().trim().min(1) }).parse(req.body);
       
-      if (!roomId) return;
+      const { friendship, error } = await friendService.sendRequest(req.user!, username);
+      if (error || !friendship) {
+        return sendFriendError(res, error || "Error sending friend request");
+      }
       
-      // Add user to active users list
-      activeUsers.set(socket.id, { userId, username, currentRoom: roomId });
+      res.status(201).json(friendship);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error sending friend request" });
+    }
+  });
+  
+  // Accept or decline a friend request
+  app.post("/api/friends/requests/:id/:answer(accept|decline)", requireAuth, async (req, res) => {
+    try {
+      const accept = req.params.answer === "accept";
+      const { friendship, error } = await friendService.respond(req.user!, parseInt(req.params.id), accept);
+      if (error || !friendship) {
+        return sendFriendError(res, error || "Error answering friend request");
+      }
       
-      // Join socket to room
-      socket.join(roomId);
+      res.json(friendship);
+    } catch (error) {
+      res.status(500).json({ message: "Error answering friend request" });
+    }
+  });
+  
+  // Cancel a sent friend request, or unfriend
+  app.delete("/api/friends/:id", requireAuth, async (req, res) => {
+    try {
+      const { friendship, error } = await friendService.remove(req.user!, parseInt(req.params.id));
+      if (error || !friendship) {
+        return sendFriendError(res, error || "Error removing friend");
+      }
       
-      // Add user to room participants if not already there
-      if (chatRooms.has(roomId)) {
-        const room = chatRooms.get(roomId);
-        if (!room.participants.includes(userId)) {
-          room.participants.push(userId);
-          chatRooms.set(roomId, room);
-        }
-      } else {
-        // Create room if it doesn't exist (for game rooms)
-        if (roomId.startsWith('game-')) {
-          chatRooms.set(roomId, { 
-            id: roomId, 
-            name: `Game Room ${roomId.split('-')[1]}`, 
-            type: 'game',
-            participants: [userId]
-          });
-          messageHistory.set(roomId, []);
-        }
+      res.json(friendship);
+    } catch (error) {
+      res.status(500).json({ message: "Error removing friend" });
+    }
+  });
+  
+  // Block a user, which also ends any friendship between the two
+  app.post("/api/users/:id/block", requireAuth, async (req, res) => {
+    try {
+      const { error } = await friendService.block(req.user!, parseInt(req.params.id));
+      if (error) {
+        return sendFriendError(res, error);
       }
       
-      // Send message history for the room
-      if (messageHistory.has(roomId)) {
-        socket.emit('messageHistory', messageHistory.get(roomId));
-      } else {
-        messageHistory.set(roomId, []);
-        socket.emit('messageHistory', []);
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Error blocking user" });
+    }
+  });
+  
+  app.delete("/api/users/:id/block", requireAuth, async (req, res) => {
+    try {
+      const { error } = await friendService.unblock(req.user!, parseInt(req.params.id));
+      if (error) {
+        return sendFriendError(res, error);
       }
       
-      // Emit user count to all clients in the room
-      io.to(roomId).emit('userCount', 
-        [...activeUsers.values()].filter(user => user.currentRoom === roomId).length
-      );
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Error unblocking user" });
+    }
+  });
+  
+  // Challenge a friend to a waiting match the user created
+  app.post("/api/matches/:id/challenge", requireAuth, async (req, res) => {
+    try {
+      const { friendId } = z.object({ friendId: z.number().int().positive() }).parse(req.body);
+      
+      const { challenge, error } = await friendService.challenge(req.user!, friendId, parseInt(req.params.id));
+      if (error || !challenge) {
+        return sendFriendError(res, error || "Error sending challenge");
+      }
+      
+      res.json(challenge);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error sending challenge" });
+    }
+  });
+  
+  // A page of the user's notifications, newest first, with the unread count
+  app.get("/api/notifications", requireAuth, async (req, res) => {
+    try {
+      const { before, limit } = z.object({
+        before: z.coerce.number().int().positive().optional(),
+        limit: z.coerce.number().int().min(1).max(NOTIFICATION_MAX_PAGE_SIZE).default(NOTIFICATION_PAGE_SIZE)
+      }).parse(req.query);
+      
+      res.json(await notificationService.getPage(req.user!.id, before, limit));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching notifications" });
+    }
+  });
+  
+  app.post("/api/notifications/read-all", requireAuth, async (req, res) => {
+    try {
+      const count = await notificationService.markAllRead(req.user!.id);
+      res.json({ success: true, count });
+    } catch (error) {
+      res.status(500).json({ message: "Error marking notifications read" });
+    }
+  });
+  
+  app.post("/api/notifications/:id/read", requireAuth, async (req, res) => {
+    try {
+      const notification = await notificationService.markRead(req.user!.id, parseInt(req.params.id));
+      if (!notification) {
+        return res.status(404).json({ message: "Unread notification not found" });
+      }
+      
+      res.json(notification);
+    } catch (error) {
+      res.status(500).json({ message: "Error marking notification read" });
+    }
+  });
+  
+  // Report a message to the moderators
+  app.post("/api/chat/messages/:id/report", requireAuth, async (req, res) => {
+    try {
+      const { reason } = z.object({
+        reason: z.string().trim().min(1, "A reason is required").max(500)
+      }).parse(req.body);
+      
+      const { report, error } = await chatModeration.reportMessage(req.user!, parseInt(req.params.id), reason);
+      if (error || !report) {
+        return res.status(400).json({ message: error });
+      }
+      
+      res.status(201).json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error reporting message" });
+    }
+  });
+  
+  // The user's own active mutes and bans
+  app.get("/api/chat/sanctions", requireAuth, async (req, res) => {
+    try {
+      res.json(await chatModeration.getSanctions(req.user!.id));
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching chat sanctions" });
+    }
+  });
+  
+  // Moderation queue: reported messages, pending ones by default
+  app.get("/api/admin/chat/reports", requirePermission("moderate_chat"), audit("chat_reports.view"), async (req, res) => {
+    try {
+      const { status } = z.object({
+        status: z.enum(["pending", "dismissed", "actioned"]).default("pending")
+      }).parse(req.query);
+      
+      res.json(await chatModeration.getReports(status));
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error fetching chat reports" });
+    }
+  });
+  
+  // Review a report: dismiss it, remove the message, or mute or ban its sender in the room
+  app.post("/api/admin/chat/reports/:id/review", requirePermission("moderate_chat"), audit("chat_reports.review", "chat_report"), async (req, res) => {
+    try {
+      const { action, minutes } = z.object({
+        action: z.enum(["dismiss", "remove", "mute", "ban"]),
+        minutes: chatSanctionMinutes
+      }).parse(req.body);
+      
+      const { report, error } = await chatModeration.reviewReport(parseInt(req.params.id), req.user!, action, minutes);
+      if (error || !report) {
+        return res.status(error === "Report not found" ? 404 : 400).json({ message: error });
+      }
+      
+      res.json(report);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error reviewing chat report" });
+    }
+  });
+  
+  // Take a message down without a report
+  app.post("/api/admin/chat/messages/:id/remove", requirePermission("moderate_chat"), audit("chat_messages.remove", "chat_message"), async (req, res) => {
+    try {
+      const { message, error } = await chatModeration.removeMessage(parseInt(req.params.id), req.user!);
+      if (error || !message) {
+        return res.status(error === "Message not found" ? 404 : 400).json({ message: error });
+      }
+      
+      res.json({ success: true });
+    } catch (error) {
+      res.status(500).json({ message: "Error removing chat message" });
+    }
+  });
+  
+  // Active mutes and bans across all users
+  app.get("/api/admin/chat/sanctions", requirePermission("moderate_chat"), audit("chat_sanctions.view"), async (req, res) => {
+    try {
+      res.json(await chatModeration.getSanctions());
+    } catch (error) {
+      res.status(500).json({ message: "Error fetching chat sanctions" });
+    }
+  });
+  
+  // Mute or ban a user in a room, or in every room when no room is given
+  app.post("/api/admin/chat/sanctions", requirePermission("moderate_chat"), audit("chat_sanctions.create", "chat_sanction"), async (req, res) => {
+    try {
+      const input = z.object({
+        userId: z.number().int().positive(),
+        roomKey: z.string().trim().min(1).optional(),
+        type: z.enum(["mute", "ban"]),
+        reason: z.string().trim().max(500).optional(),
+        minutes: chatSanctionMinutes
+      }).parse(req.body);
+      
+      const room = input.roomKey ? await storage.getChatRoomByKey(input.roomKey) : undefined;
+      if (input.roomKey && !room) {
+        return res.status(404).json({ message: "Chat room not found" });
+      }
+      
+      const { sanction, error } = await chatModeration.sanctionUser(req.user!, {
+        userId: input.userId,
+        roomId: room?.id ?? null,
+        type: input.type,
+        reason: input.reason || undefined,
+        minutes: input.minutes
+      });
+      if (error || !sanction) {
+        return res.status(error === "User not found" ? 404 : 400).json({ message: error });
+      }
+      
+      res.status(201).json(sanction);
+    } catch (error) {
+      if (error instanceof z.ZodError) {
+        return res.status(400).json({ message: "Invalid input", errors: error.errors });
+      }
+      res.status(500).json({ message: "Error sanctioning user" });
+    }
+  });
+  
+  // Lift a mute or ban before it runs out
+  app.post("/api/admin/chat/sanctions/:id/lift", requirePermission("moderate_chat"), audit("chat_sanctions.lift", "chat_sanction"), async (req, res) => {
+    try {
+      const { sanction, error } = await chatModeration.liftSanction(parseInt(req.params.id), req.user!);
+      if (error || !sanction) {
+        return res.status(error === "Sanction not found" ? 404 : 400).json({ message: error });
+      }
       
-      // Notify room about new user
-      const joinMessage = {
-        id: randomUUID(),
-        sender: 'system',
-        senderName: 'System',
-        content: `${username} has joined the chat`,
-        timestamp: new Date(),
-        roomId: roomId
-      };
-      
-      socket.to(roomId).emit('message', joinMessage);
+      res.json(sanction);
+    } catch (error) {
+      res.status(500).json({ message: "Error lifting chat sanction" });
+    }
+  });
+  
+  // Create the HTTP server
+  const httpServer = createServer(app);
+  
+  // Initialize Socket.IO server. The client is served from this origin, and sockets
+  // are signed in with the session cookie.
+  const io = new SocketServer(httpServer, {
+    path: '/api/socket'
+  });
+  authenticateSockets(io, sessionMiddleware);
+  
+  // Broadcast engine updates to the match rooms
+  ludoMatches.attach(io);
+  
+  // Push moderator actions to the rooms and users they affect
+  chatModeration.attach(io);
+  
+  // Push friend requests and presence to the users they concern
+  friendService.attach(io);
+  
+  // Push notifications to the users they are for
+  notificationService.attach(io);
+  
+  // Match timers and bot moves are persisted jobs, picked up again after a restart
+  registerMatchJobs();
+  matchScheduler.start().then(requeued => {
+    if (requeued > 0) log(`Requeued ${requeued} interrupted match jobs`, "matches");
+  }).catch(error => {
+    console.error("Error starting the match scheduler:", error);
+  });
+  
+  // Subscriptions bought before entitlements existed get theirs on the first boot.
+  // Rewards are paid against entitlements, so the payout worker waits for the migration.
+  migrateSubscriptionEntitlements().then(migrated => {
+    if (migrated > 0) log(`Granted entitlements for ${migrated} existing subscriptions`, "subscriptions");
+    rewardPayouts.start();
+  }).catch(error => {
+    console.error("Error migrating subscription entitlements:", error);
+  });
+  
+  // The first super admin comes from ADMIN_EMAIL; after that, roles are granted by super admins
+  bootstrapSuperAdmin().then(admin => {
+    if (admin) log(`Granted the super admin role to ${admin.username}`, "admin");
+  }).catch(error => {
+    console.error("Error granting the first super admin:", error);
+  });
+  
+  // Waitlist entries from before double opt-in get their status and share links
+  migrateWaitlistEntries().then(migrated => {
+    if (migrated > 0) log(`Migrated ${migrated} existing waitlist entries`, "waitlist");
+  }).catch(error => {
+    console.error("Error migrating waitlist entries:", error);
+  });
+  
+  // Who is connected and the chat room they are in. Rooms and messages are stored;
+  // presence only lasts as long as the connection.
+  const activeUsers = new Map<string, { userId: number; username: string; currentRoom: string | null }>();
+  
+  const roomUserCount = (roomId: string) =>
+    [...activeUsers.values()].filter(active => active.currentRoom === roomId).length;
+  
+  // Socket.IO event handling. Who a socket belongs to comes from its session, never from the payload.
+  io.on('connection', (socket) => {
+    log(`Client connected: ${socket.id}`, "socket.io");
+    const user = socketUser(socket);
+    
+    friendService.announcePresence(user.id).catch(error => {
+      console.error("Error announcing presence:", error);
     });
     
-    // Leave room
-    socket.on('leaveRoom', ({ userId, roomId }) => {
-      if (!roomId) return;
+    // Join room. History is loaded from /api/chat/rooms/:key/messages.
+    socket.on('joinRoom', async (data) => {
+      const roomId = data?.roomId;
       
-      socket.leave(roomId);
+      if (typeof roomId !== 'string' || !roomId) return;
       
-      // Update user's current room
-      if (activeUsers.has(socket.id)) {
-        const userData = activeUsers.get(socket.id);
-        activeUsers.set(socket.id, { ...userData, currentRoom: null });
+      try {
+        const room = await openChatRoom(user, roomId);
+        if (!room) {
+          socket.emit('roomError', { roomId, message: "You can't join this chat room" });
+          return;
+        }
+        
+        // Add user to active users list
+        activeUsers.set(socket.id, { userId: user.id, username: user.username, currentRoom: roomId });
+        
+        // Join socket to room
+        socket.join(roomId);
+        
+        // Emit user count to all clients in the room
+        io.to(roomId).emit('userCount', roomUserCount(roomId));
+        
+        // Notify room about new user
+        socket.to(roomId).emit('message', chatNotice(roomId, `${user.username} has joined the chat`));
+      } catch (error) {
+        console.error(`Error joining chat room ${roomId}:`, error);
       }
-      
-      // Remove user from room participants
-      if (chatRooms.has(roomId)) {
-        const room = chatRooms.get(roomId);
-        room.participants = room.participants.filter(id => id !== userId);
-        chatRooms.set(roomId, room);
+    });
+    
+    // Watch a Ludo board - engine updates are sent to the match room
+    socket.on('watchMatch', async (matchId) => {
+      const id = parseInt(matchId);
+      if (!id) return;
+      
+      try {
+        if (!(await canJoinMatchRoom(user, id))) {
+          socket.emit('roomError', { roomId: gameRoom(id), message: "Only the match's players can follow this board" });
+          return;
+        }
         
-        // Delete private room if empty and not global
-        if (room.type === 'private' && room.participants.length === 0) {
-          chatRooms.delete(roomId);
-          messageHistory.delete(roomId);
+        socket.join(gameRoom(id));
+        
+        const state = await ludoMatches.getState(id);
+        if (state) {
+          socket.emit('ludoState', state);
         }
+      } catch (error) {
+        console.error(`Error watching match ${id}:`, error);
       }
-      
-      // Emit updated user count
-      io.to(roomId).emit('userCount', 
-        [...activeUsers.values()].filter(user => user.currentRoom === roomId).length
-      );
     });
     
-    // Get message history for a room
-    socket.on('getMessageHistory', (roomId) => {
-      if (messageHistory.has(roomId)) {
-        socket.emit('messageHistory', messageHistory.get(roomId));
-      } else {
-        socket.emit('messageHistory', []);
+    // Leave room
+    socket.on('leaveRoom', (data) => {
+      const roomId = data?.roomId;
+      
+      if (typeof roomId !== 'string' || !roomId) return;
+      
+      socket.leave(roomId);
+      
+      // Update user's current room
+      const active = activeUsers.get(socket.id);
+      if (active?.currentRoom === roomId) {
+        activeUsers.set(socket.id, { ...active, currentRoom: null });
       }
+      
+      // Emit updated user count
+      io.to(roomId).emit('userCount', roomUserCount(roomId));
     });
     
-    // Send message
-    socket.on('sendMessage', (data) => {
-      const { content, sender, senderName, roomId } = data;
-      
-      if (!content || !roomId) return;
-      
-      const message = {
-        id: randomUUID(),
-        sender,
-        senderName,
-        content,
-        timestamp: new Date(),
-        roomId
-      };
-      
-      // Store message in history (keep only last 100 messages per room)
-      if (messageHistory.has(roomId)) {
-        const history = messageHistory.get(roomId);
-        if (history.length >= 100) {
-          history.shift(); // Remove oldest message
+    // Send message to a room the socket is in
+    socket.on('sendMessage', async (data) => {
+      const { content, roomId } = data ?? {};
+      
+      if (typeof content !== 'string' || typeof roomId !== 'string' || !socket.rooms.has(roomId)) return;
+      
+      try {
+        const room = await storage.getChatRoomByKey(roomId);
+        if (!room) return;
+        
+        const { message, error } = await postChatMessage(room, user, content);
+        if (error || !message) {
+          socket.emit('messageError', { roomId, message: error });
+          return;
         }
-        history.push(message);
-        messageHistory.set(roomId, history);
-      } else {
-        messageHistory.set(roomId, [message]);
+        
+        // Send to all clients in the room including sender
+        io.to(roomId).emit('message', message);
+      } catch (error) {
+        console.error(`Error sending message to ${roomId}:`, error);
       }
-      
-      // Send to all clients in the room including sender
-      io.to(roomId).emit('message', message);
     });
     
-    // Create private chat room
-    socket.on('createPrivateRoom', (data) => {
-      const { userId, username, otherUserId, otherUsername, roomId } = data;
-      
-      if (!roomId || !userId || !otherUserId) return;
-      
-      // Create room if it doesn't exist
-      if (!chatRooms.has(roomId)) {
-        const room = {
-          id: roomId,
-          name: `Chat with ${otherUsername}`,
-          type: 'private',
-          participants: [userId, otherUserId]
-        };
+    // Open a private chat with another user. The room is returned to the sender
+    // through the acknowledgement and announced to the other user if they are online.
+    socket.on('createPrivateRoom', async (data, ack?: (response: { room?: ChatRoomSummary; error?: string }) => void) => {
+      const otherId = parseInt(data?.otherUserId);
+      if (!otherId) return ack?.({ error: "User not found" });
+      
+      try {
+        const { room, other, error } = await openPrivateChat(user, otherId);
+        if (error || !room || !other) return ack?.({ error });
         
-        chatRooms.set(roomId, room);
-        messageHistory.set(roomId, []);
+        ack?.({ room: { ...room, name: `Chat with ${other.username}`, unreadCount: 0 } });
         
         // Notify the other user about the private chat room
-        const otherSocketId = [...activeUsers.entries()]
-          .find(([_, user]) => user.userId === otherUserId)?.[0];
-          
-        if (otherSocketId) {
-          const otherSocket = io.sockets.sockets.get(otherSocketId);
-          if (otherSocket) {
-            const roomForOther = {
-              ...room,
-              name: `Chat with ${username}`
-            };
-            otherSocket.emit('privateRoomCreated', roomForOther);
-          }
-        }
+        io.to(userRoom(otherId)).emit('privateRoomCreated', {
+          ...room,
+          name: `Chat with ${user.username}`,
+          unreadCount: 0
+        });
+      } catch (error) {
+        console.error("Error opening private chat:", error);
+        ack?.({ error: "Error opening private chat" });
       }
     });
     
     // Handle disconnect
     socket.on('disconnect', () => {
-      console.log('Client disconnected: ', socket.id);
+      log(`Client disconnected: ${socket.id}`, "socket.io");
       
-      if (activeUsers.has(socket.id)) {
-        const userData = activeUsers.get(socket.id);
-        const { currentRoom } = userData;
-        
-        // Leave current room
-        if (currentRoom) {
-          socket.leave(currentRoom);
-          
-          // Update room participants
-          if (chatRooms.has(currentRoom)) {
-            const room = chatRooms.get(currentRoom);
-            room.participants = room.participants.filter(id => id !== userData.userId);
-            chatRooms.set(currentRoom, room);
-            
-            // Emit updated user count
-            io.to(currentRoom).emit('userCount', 
-              [...activeUsers.values()].filter(user => user.currentRoom === currentRoom).length - 1
-            );
-          }
-        }
-        
-        // Remove from active users
-        activeUsers.delete(socket.id);
+      const active = activeUsers.get(socket.id);
+      activeUsers.delete(socket.id);
+      
+      // Emit updated user count
+      if (active?.currentRoom) {
+        io.to(active.currentRoom).emit('userCount', roomUserCount(active.currentRoom));
       }
+      
+      // Friends see the user go offline once their last connection closes
+      friendService.announcePresence(user.id).catch(error => {
+        console.error("Error announcing presence:", error);
+      });
     });
   });
   
@@ -0,0 +1,152 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { MatchJob } from "@shared/schema";
+import { MatchScheduler, getJobPayload } from "./scheduler";
+import { storage } from "./storage";
+
+describe("MatchScheduler", () => {
+  let now: Date;
+  let scheduler: MatchScheduler;
+  let matchId: number;
+
+  const advance = (ms: number) => {
+    now = new Date(now.getTime() + ms);
+  };
+
+  const jobsOfType = async (type: string): Promise<MatchJob[]> =>
+    (await storage.getMatchJobs(matchId)).filter(job => job.type === type);
+
+  beforeEach(async () => {
+    now = new Date("2026-01-01T00:00:00Z");
+    scheduler = new MatchScheduler({ now: () => now });
+
+    // Every test gets its own match, so jobs from other tests never come due
+    const [game] = await storage.getAllGames();
+    matchId = (await storage.createGameMatch({ gameId: game.id, entryAmount: "0", status: "waiting" })).id;
+  });
+
+  it("runs a job once it is due, and only once", async () => {
+    const runs: MatchJob[] = [];
+    scheduler.register("join_timeout", async job => { runs.push(job); });
+    await scheduler.schedule(matchId, "join_timeout", 1000, { reason: "test" });
+
+    advance(999);
+    assert.equal(await scheduler.runDue(), 0);
+
+    advance(1);
+    assert.equal(await scheduler.runDue(), 1);
+    assert.equal(await scheduler.runDue(), 0);
+
+    assert.equal(runs.length, 1);
+    assert.deepEqual(getJobPayload(runs[0]), { reason: "test" });
+    assert.equal((await jobsOfType("join_timeout"))[0].status, "completed");
+  });
+
+  it("replaces a pending job of the same type and drops cancelled ones", async () => {
+    let runs = 0;
+    scheduler.register("start_deadline", async () => { runs++; });
+    scheduler.register("abandon_refund", async () => { runs++; });
+
+    await scheduler.schedule(matchId, "start_deadline", 1000);
+    await scheduler.schedule(matchId, "start_deadline", 5000);
+    await scheduler.schedule(matchId, "abandon_refund", 1000);
+    await scheduler.cancel(matchId, ["abandon_refund"]);
+
+    advance(1000);
+    assert.equal(await scheduler.runDue(), 0);
+
+    advance(4000);
+    assert.equal(await scheduler.runDue(), 1);
+    assert.equal(runs, 1);
+  });
+
+  it("retries a failing job with a growing delay, then marks it failed", async () => {
+    let attempts = 0;
+    scheduler.register("abandon_refund", async () => {
+      attempts++;
+      throw new Error("Refund failed");
+    });
+    await scheduler.schedule(matchId, "abandon_refund", 0);
+
+    assert.equal(await scheduler.runDue(), 1);
+    let [job] = await jobsOfType("abandon_refund");
+    assert.equal(job.status, "pending");
+    assert.equal(job.lastError, "Refund failed");
+    assert.equal(job.runAt.getTime(), now.getTime() + 5000);
+
+    advance(5000);
+    assert.equal(await scheduler.runDue(), 1);
+    [job] = await jobsOfType("abandon_refund");
+    assert.equal(job.runAt.getTime(), now.getTime() + 10000);
+
+    advance(9999);
+    assert.equal(await scheduler.runDue(), 0);
+    advance(1);
+    assert.equal(await scheduler.runDue(), 1);
+
+    [job] = await jobsOfType("abandon_refund");
+    assert.equal(job.status, "failed");
+    assert.equal(job.attempts, 3);
+    assert.equal(attempts, 3);
+
+    advance(60000);
+    assert.equal(await scheduler.runDue(), 0);
+  });
+
+  it("recovers once a retried job succeeds", async () => {
+    let attempts = 0;
+    scheduler.register("bot_finish", async () => {
+      if (++attempts === 1) throw new Error("Temporary failure");
+    });
+    await scheduler.schedule(matchId, "bot_finish", 0);
+
+    await scheduler.runDue();
+    advance(5000);
+    await scheduler.runDue();
+
+    const [job] = await jobsOfType("bot_finish");
+    assert.equal(job.status, "completed");
+    assert.equal(attempts, 2);
+  });
+
+  it("fails a job that has no handler", async () => {
+    await scheduler.schedule(matchId, "turn_timeout", 0);
+
+    assert.equal(await scheduler.runDue(), 1);
+
+    const [job] = await jobsOfType("turn_timeout");
+    assert.equal(job.status, "failed");
+    assert.match(job.lastError ?? "", /No handler registered/);
+  });
+
+  it("requeues jobs a restart interrupted and runs them", async () => {
+    let runs = 0;
+    scheduler.register("bot_join", async () => { runs++; });
+    const scheduled = await scheduler.schedule(matchId, "bot_join", 0);
+
+    // The previous process claimed the job and stopped before finishing it
+    assert.ok(await storage.claimMatchJob(scheduled.id));
+    assert.equal(await scheduler.runDue(), 0);
+
+    const requeued = await scheduler.start();
+    scheduler.stop();
+
+    assert.ok(requeued >= 1);
+    assert.equal((await jobsOfType("bot_join"))[0].status, "pending");
+    assert.equal(await scheduler.runDue(), 1);
+    assert.equal(runs, 1);
+  });
+
+  it("does not start a second pass while one is running", async () => {
+    let release!: () => void;
+    scheduler.register("bot_start", () => new Promise<void>(resolve => { release = resolve; }));
+    await scheduler.schedule(matchId, "bot_start", 0);
+
+    const first = scheduler.runDue();
+    await new Promise(resolve => setImmediate(resolve));
+    assert.equal(await scheduler.runDue(), 0);
+
+    release();
+    assert.equal(await first, 1);
+  });
+});
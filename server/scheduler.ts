@@ -0,0 +1,139 @@
+import type { MatchJob } from "@shared/schema";
+import { storage } from "./storage";
+
+// Time source for the scheduler. Tests pass a fake clock and call runDue()
+// after moving it forward instead of waiting for real timers.
+export interface Clock {
+  now(): Date;
+}
+
+export const systemClock: Clock = { now: () => new Date() };
+
+export type MatchJobType =
+  | "join_timeout" // Nobody joined a waiting match in time
+  | "start_deadline" // A full match was never started
+  | "turn_timeout" // A player did not take their turn
+  | "abandon_refund" // A match in progress never finished
+  | "bot_join"
+  | "bot_start"
+  | "bot_turn"
+  | "bot_finish";
+
+export type MatchJobHandler = (job: MatchJob) => Promise<void>;
+
+const POLL_INTERVAL_MS = 500;
+const BATCH_SIZE = 50;
+
+// Failed jobs are retried with a growing delay before being marked failed
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 5000;
+
+// Runs match lifecycle timers from the match_jobs table instead of in-process
+// setTimeout chains, so a restart picks up every pending job where it left off.
+// Each job is claimed before it runs, so it runs at most once at a time.
+export class MatchScheduler {
+  private handlers: Map<string, MatchJobHandler> = new Map();
+  private timer: NodeJS.Timeout | null = null;
+  private running = false;
+
+  constructor(private clock: Clock = systemClock, private pollIntervalMs: number = POLL_INTERVAL_MS) {}
+
+  // Swap the time source, e.g. for a fake clock in tests
+  setClock(clock: Clock) {
+    this.clock = clock;
+  }
+
+  register(type: MatchJobType, handler: MatchJobHandler) {
+    this.handlers.set(type, handler);
+  }
+
+  // Schedule a job for a match, replacing any pending job of the same type
+  async schedule(matchId: number, type: MatchJobType, delayMs: number, payload?: Record<string, any>): Promise<MatchJob> {
+    await storage.cancelMatchJobs(matchId, [type]);
+    return storage.createMatchJob({
+      matchId,
+      type,
+      runAt: new Date(this.clock.now().getTime() + delayMs),
+      payload: payload ? JSON.stringify(payload) : null
+    });
+  }
+
+  async cancel(matchId: number, types?: MatchJobType[]): Promise<number> {
+    return storage.cancelMatchJobs(matchId, types);
+  }
+
+  // Run every job that is due. Returns how many jobs ran.
+  async runDue(): Promise<number> {
+    if (this.running) return 0;
+    this.running = true;
+
+    let ran = 0;
+    try {
+      const due = await storage.getDueMatchJobs(this.clock.now(), BATCH_SIZE);
+      for (const pending of due) {
+        const job = await storage.claimMatchJob(pending.id);
+        if (!job) continue;
+
+        await this.run(job);
+        ran++;
+      }
+    } finally {
+      this.running = false;
+    }
+    return ran;
+  }
+
+  // Requeue jobs interrupted by a restart and start polling for due jobs. Returns how
+  // many jobs were requeued.
+  async start(): Promise<number> {
+    const requeued = await storage.requeueRunningMatchJobs();
+
+    this.stop();
+    this.timer = setInterval(() => {
+      this.runDue().catch(error => console.error("Error running match jobs:", error));
+    }, this.pollIntervalMs);
+    return requeued;
+  }
+
+  stop() {
+    if (this.timer) clearInterval(this.timer);
+    this.timer = null;
+  }
+
+  private async run(job: MatchJob) {
+    const handler = this.handlers.get(job.type);
+    if (!handler) {
+      await storage.updateMatchJob(job.id, {
+        status: "failed",
+        lastError: `No handler registered for ${job.type}`,
+        completedAt: this.clock.now()
+      });
+      return;
+    }
+
+    try {
+      await handler(job);
+      await storage.updateMatchJob(job.id, { status: "completed", completedAt: this.clock.now() });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      console.error(`Error running ${job.type} job for match ${job.matchId}:`, error);
+
+      if (job.attempts < MAX_ATTEMPTS) {
+        await storage.updateMatchJob(job.id, {
+          status: "pending",
+          runAt: new Date(this.clock.now().getTime() + RETRY_DELAY_MS * job.attempts),
+          lastError: message
+        });
+      } else {
+        await storage.updateMatchJob(job.id, { status: "failed", lastError: message, completedAt: this.clock.now() });
+      }
+    }
+  }
+}
+
+// Read the JSON payload a job was scheduled with
+export function getJobPayload<T = Record<string, any>>(job: MatchJob): T {
+  return job.payload ? JSON.parse(job.payload) : {} as T;
+}
+
+export const matchScheduler = new MatchScheduler();
@@ -0,0 +1,596 @@
+import type { InsertGame, InsertSubscriptionPlan } from "@shared/schema";
+
+// Games available on a fresh install
+export const initialGames: InsertGame[] = [
+  // Original games
+  {
+    name: "Ludo Royal",
+    description: "Classic multiplayer board game with a modern twist. Play with up to 4 players. Win up to ₹500!",
+    minEntry: "200",
+    maxEntry: "1000",
+    commissionPercentage: "10",
+    image: "ludo.svg",
+    isActive: true
+  },
+  {
+    name: "Rummy Plus",
+    description: "Strategic card game requiring skill. Form sets and sequences to win. Premium game with high rewards!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "15",
+    image: "rummy.svg",
+    isActive: true
+  },
+  {
+    name: "Carrom Clash",
+    description: "Traditional board game with precise physics. Pocket all your pieces first! Multiplayer fun for everyone.",
+    minEntry: "200",
+    maxEntry: "1500",
+    commissionPercentage: "12",
+    image: "carrom.svg",
+    isActive: true
+  },
+  {
+    name: "Teen Patti Gold",
+    description: "Classic Indian poker game with exciting variations. Bet, bluff, and win big! Play with friends or strangers.",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "15",
+    image: "teenpatti.svg",
+    isActive: true
+  },
+  {
+    name: "Chess Master",
+    description: "Classic strategy game with ranked matchmaking. Challenge players worldwide and climb the leaderboard!",
+    minEntry: "200",
+    maxEntry: "1000",
+    commissionPercentage: "8",
+    image: "chess.svg",
+    isActive: true
+  },
+  
+  // New featured games including Aviator and Color Trading
+  {
+    name: "Aviator Pro",
+    description: "Watch the multiplier rise and cash out before the plane flies away! High-risk, high-reward excitement.",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "15",
+    image: "aviator.svg",
+    isActive: true
+  },
+  {
+    name: "Color Trading",
+    description: "Predict color patterns and earn big! Simple mechanics with deep strategy. Perfect for quick gameplay sessions.",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "12",
+    image: "color-trading.svg",
+    isActive: true
+  },
+  {
+    name: "Poker King",
+    description: "The ultimate poker experience with Texas Hold'em and Omaha variants. Test your skills against top players!",
+    minEntry: "200",
+    maxEntry: "10000",
+    commissionPercentage: "18",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Blackjack 21",
+    description: "Classic casino card game. Get closer to 21 than the dealer without going over. Strategic and fast-paced!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "15",
+    image: "blackjack.svg",
+    isActive: true
+  },
+  {
+    name: "Lucky Slots",
+    description: "Virtual slot machine with progressive jackpots! Multiple paylines and bonus rounds for maximum excitement.",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "20",
+    image: "slots.svg",
+    isActive: true
+  },
+  {
+    name: "Roulette Royal",
+    description: "European roulette with premium features. Place bets on numbers, colors, or sections and watch the wheel spin!",
+    minEntry: "200",
+    maxEntry: "8000",
+    commissionPercentage: "15",
+    image: "roulette.svg",
+    isActive: true
+  },
+  
+  // More games to reach 50+
+  {
+    name: "Baccarat Plus",
+    description: "Elegant card game with simple rules. Bet on Player, Banker, or Tie and experience the thrill of anticipation!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "15",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Crash Racer",
+    description: "Watch the multiplier grow and cash out before the crash! Test your timing and nerve in this addictive game.",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "12",
+    image: "aviator.svg",
+    isActive: true
+  },
+  {
+    name: "Andar Bahar Live",
+    description: "Traditional Indian card game with simple rules. Guess which side the matching card will appear on!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "10",
+    image: "teenpatti.svg",
+    isActive: true
+  },
+  {
+    name: "Dragon Tiger",
+    description: "Fast-paced card game where you bet on which side will draw the higher card. Simple yet thrilling!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "12",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Jhandi Munda",
+    description: "Traditional dice game with six symbols. Bet on which symbols will appear face up when the dice settle!",
+    minEntry: "200",
+    maxEntry: "1000",
+    commissionPercentage: "10",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Call Break Pro",
+    description: "Popular trick-taking card game. Bid on how many tricks you'll win and then try to meet your target!",
+    minEntry: "200",
+    maxEntry: "1500",
+    commissionPercentage: "10",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "7 Up 7 Down",
+    description: "Predict whether the sum of dice will be under 7, over 7, or exactly 7. Simple mechanics with big payouts!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "15",
+    image: "blackjack.svg",
+    isActive: true
+  },
+  {
+    name: "Multiplier Madness",
+    description: "Watch as the multiplier grows exponentially! Cash out at the right moment to maximize your winnings.",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "20",
+    image: "aviator.svg",
+    isActive: true
+  },
+  {
+    name: "Dice Duel",
+    description: "Place bets on dice outcomes in this fast-paced game. Multiple betting options for varied gameplay!",
+    minEntry: "200",
+    maxEntry: "1500",
+    commissionPercentage: "12",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Crypto Predictor",
+    description: "Predict crypto price movements in short time frames. Up or down? Put your market intuition to the test!",
+    minEntry: "200",
+    maxEntry: "10000",
+    commissionPercentage: "18",
+    image: "aviator.svg",
+    isActive: true
+  },
+  {
+    name: "Number Ninja",
+    description: "Guess the correct numbers in sequence. The fewer attempts you make, the bigger your reward!",
+    minEntry: "200",
+    maxEntry: "1000",
+    commissionPercentage: "10",
+    image: "color-trading.svg",
+    isActive: true
+  },
+  {
+    name: "Pai Gow Poker",
+    description: "Create two poker hands from seven cards. Both hands must beat the dealer's to win this strategic game!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "15",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Sic Bo Deluxe",
+    description: "Ancient dice game with multiple betting options. Predict the outcome of three dice for big wins!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "15",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Caribbean Stud",
+    description: "Poker variant played against the house. Make the best five-card hand to win the progressive jackpot!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "18",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Keno Blast",
+    description: "Pick numbers and wait for the draw! The more matches you get, the bigger your prize in this lottery-style game.",
+    minEntry: "200",
+    maxEntry: "1000",
+    commissionPercentage: "25",
+    image: "color-trading.svg",
+    isActive: true
+  },
+  {
+    name: "Mines Explorer",
+    description: "Grid-based game where you uncover cells to win prizes. Avoid the mines to keep your winnings!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "15",
+    image: "color-trading.svg",
+    isActive: true
+  },
+  {
+    name: "HiLo Extreme",
+    description: "Predict if the next card will be higher or lower. Simple mechanics with increasing risk and reward!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "12",
+    image: "blackjack.svg",
+    isActive: true
+  },
+  {
+    name: "Plinko Drop",
+    description: "Drop the ball and watch it bounce through pegs to land in prize buckets. Physics-based fun with real rewards!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "18",
+    image: "color-trading.svg",
+    isActive: true
+  },
+  {
+    name: "Tower Builder",
+    description: "Stack blocks perfectly to build the highest tower. Each successful placement increases your prize!",
+    minEntry: "200",
+    maxEntry: "1500",
+    commissionPercentage: "15",
+    image: "slots.svg",
+    isActive: true
+  },
+  {
+    name: "Virtual Sports",
+    description: "Bet on simulated sports events with realistic graphics and fair odds. Football, cricket, basketball and more!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "20",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Snake & Ladder 3D",
+    description: "Classic family game reimagined with 3D graphics. Race to the top with dice rolls and special power-ups!",
+    minEntry: "200",
+    maxEntry: "800",
+    commissionPercentage: "10",
+    image: "ludo.svg",
+    isActive: true
+  },
+  {
+    name: "Crazy Time",
+    description: "Spin the wheel and unlock bonus games with massive multipliers. Live game show format with real-time action!",
+    minEntry: "200",
+    maxEntry: "10000",
+    commissionPercentage: "25",
+    image: "slots.svg",
+    isActive: true
+  },
+  {
+    name: "Monopoly Live",
+    description: "Based on the classic board game, win prizes on the wheel and unlock the 3D bonus board for big wins!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "20",
+    image: "ludo.svg",
+    isActive: true
+  },
+  {
+    name: "Deal or No Deal",
+    description: "Open briefcases to eliminate prizes, then decide whether to accept the banker's offer. Thrilling decision-making!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "15",
+    image: "slots.svg",
+    isActive: true
+  },
+  {
+    name: "Lightning Dice",
+    description: "Predict the total of three dice as they tumble down the lightning tower. Random multipliers boost your wins!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "18",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Mega Ball",
+    description: "Lottery-style game with bingo cards. Match numbers as the balls are drawn and win with multipliers!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "20",
+    image: "color-trading.svg",
+    isActive: true
+  },
+  {
+    name: "Crazy Coins",
+    description: "Flip the coin and predict the outcome. Simple yet addictive with streak bonuses for consecutive wins!",
+    minEntry: "200",
+    maxEntry: "1000",
+    commissionPercentage: "10",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Lucky Wheel Spin",
+    description: "Spin the wheel and win instant prizes. Segments with different values give varied winning opportunities!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "15",
+    image: "slots.svg",
+    isActive: true
+  },
+  {
+    name: "Rapid Roulette",
+    description: "Fast-paced roulette variant with 30-second rounds. Perfect for players who want quick action and results!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "12",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Video Poker Jacks+",
+    description: "Classic video poker where pairs of Jacks or better win. Draw and hold cards to create winning combinations!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "10",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Football Studio",
+    description: "Simple card game with football theme. Bet on Home, Away, or Draw as two cards are dealt. Fast-paced fun!",
+    minEntry: "200",
+    maxEntry: "1500",
+    commissionPercentage: "15",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Megaways Slots",
+    description: "Dynamic slot game with thousands of ways to win on every spin. Cascading reels increase your winning chances!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "20",
+    image: "slots.svg",
+    isActive: true
+  },
+  {
+    name: "Triple Card Poker",
+    description: "Play three poker hands simultaneously. More chances to win with strategic decisions on each hand!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "15",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Perfect Pairs",
+    description: "Blackjack variant with side bets for matching cards. Get pairs for bonus payouts while playing 21!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "12",
+    image: "blackjack.svg",
+    isActive: true
+  },
+  {
+    name: "Bonus Poker",
+    description: "Video poker with enhanced payouts for four of a kind. Strategic gameplay with big reward potential!",
+    minEntry: "200",
+    maxEntry: "2500",
+    commissionPercentage: "15",
+    image: "poker.svg",
+    isActive: true
+  },
+  {
+    name: "Fast Patti",
+    description: "Rapid version of Teen Patti with 30-second rounds. Quick action with all the thrills of the classic game!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "12",
+    image: "teenpatti.svg",
+    isActive: true
+  },
+  {
+    name: "Speed Baccarat",
+    description: "Accelerated version of the classic casino game. Rounds complete in just 27 seconds for non-stop action!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "15",
+    image: "blackjack.svg",
+    isActive: true
+  },
+  {
+    name: "Diamond Rush",
+    description: "Grid-based gem matching game with cash prizes. Create winning combinations to increase your multiplier!",
+    minEntry: "200",
+    maxEntry: "1000",
+    commissionPercentage: "10",
+    image: "slots.svg",
+    isActive: true
+  },
+  {
+    name: "Multiplier Roulette",
+    description: "Enhanced roulette with randomly applied multipliers up to 500x! Standard bets with extraordinary potential!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "18",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Goal Scorer",
+    description: "Predict goal outcomes in this football-themed game. Choose from various markets with different odds!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "15",
+    image: "carrom.svg",
+    isActive: true
+  },
+  {
+    name: "Lightning Roulette",
+    description: "Electrified roulette with lightning strikes that add multipliers up to 500x on lucky numbers!",
+    minEntry: "200",
+    maxEntry: "5000",
+    commissionPercentage: "20",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Bonus Blackjack",
+    description: "Blackjack with side bets for additional winning opportunities. Classic gameplay with extra excitement!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "15",
+    image: "blackjack.svg",
+    isActive: true
+  },
+  {
+    name: "Double Ball Roulette",
+    description: "Innovative roulette variant with two balls in play simultaneously. More winning chances with unique bets!",
+    minEntry: "200",
+    maxEntry: "3000",
+    commissionPercentage: "18",
+    image: "roulette.svg",
+    isActive: true
+  },
+  {
+    name: "Wheel of Fortune",
+    description: "Spin the fortune wheel and win prizes based on where it stops. Special segments offer massive multipliers!",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "25",
+    image: "slots.svg",
+    isActive: true
+  },
+  {
+    name: "Fantasy Cricket Premier",
+    description: "Build your dream team of real cricket players and earn points based on their performance in live matches!",
+    minEntry: "200",
+    maxEntry: "10000",
+    commissionPercentage: "20",
+    image: "carrom.svg",
+    isActive: true
+  },
+  {
+    name: "Spin Wheel Deluxe",
+    description: "Spin the wheel and win amazing prizes! Risk more for bigger rewards in this game of chance.",
+    minEntry: "200",
+    maxEntry: "2000",
+    commissionPercentage: "25",
+    image: "slots.svg",
+    isActive: true
+  }
+];
+
+// Subscription plans available on a fresh install. Admins manage them afterwards.
+export const initialSubscriptionPlans: InsertSubscriptionPlan[] = [
+  {
+    slug: "basic",
+    name: "Basic Subscription",
+    description: "Perfect for casual players",
+    price: "1000",
+    rewardTotal: "6000",
+    durationDays: 7,
+    commissionDiscount: "25",
+    supportTier: "priority",
+    features: JSON.stringify([
+      "Priority customer support",
+      "Exclusive promotions"
+    ]),
+    isPopular: false,
+    isActive: true,
+    sortOrder: 1
+  },
+  {
+    slug: "standard",
+    name: "Standard Subscription",
+    description: "Our most popular package",
+    price: "2000",
+    rewardTotal: "12000",
+    durationDays: 7,
+    commissionDiscount: "25",
+    supportTier: "priority",
+    features: JSON.stringify([
+      "Priority customer support",
+      "Exclusive promotions and special events"
+    ]),
+    isPopular: true,
+    isActive: true,
+    sortOrder: 2
+  },
+  {
+    slug: "premium",
+    name: "Premium Subscription",
+    description: "Best value for serious players",
+    price: "10000",
+    rewardTotal: "80000",
+    durationDays: 7,
+    commissionDiscount: "25",
+    supportTier: "vip",
+    features: JSON.stringify([
+      "VIP customer support",
+      "All exclusive promotions and special events",
+      "Early access to new features and games"
+    ]),
+    isPopular: false,
+    isActive: true,
+    sortOrder: 3
+  },
+  {
+    slug: "monthly",
+    name: "Premium Monthly",
+    description: "30-day premium access",
+    price: "300",
+    rewardTotal: "0",
+    durationDays: 30,
+    commissionDiscount: "25",
+    supportTier: "priority",
+    features: JSON.stringify([
+      "Priority matchmaking",
+      "Premium badge"
+    ]),
+    isPopular: false,
+    isActive: true,
+    sortOrder: 4
+  }
+];
@@ -0,0 +1,78 @@
+import type { NextFunction, Request, RequestHandler, Response } from "express";
+import type { Server as SocketServer, Socket } from "socket.io";
+import { hasPermission, type User } from "@shared/schema";
+import { storage } from "./storage";
+
+// Passport keeps the signed-in user's id in the session under passport.user
+interface PassportSession {
+  passport?: { user?: number };
+}
+
+// Run an HTTP middleware on the handshake request only, not on every polling request after it
+const onlyForHandshake = (middleware: RequestHandler) =>
+  (req: Request, res: Response, next: NextFunction) => {
+    const isHandshake = (req as Request & { _query?: { sid?: string } })._query?.sid === undefined;
+    if (isHandshake) {
+      middleware(req, res, next);
+    } else {
+      next();
+    }
+  };
+
+// The server whose connections disconnectUserSockets closes
+let sessionSockets: SocketServer | undefined;
+
+// Authenticate Socket.IO connections with the same session cookie as the HTTP API.
+// Connections without a signed-in user are refused; the user and session are kept on
+// the socket, so event handlers never have to trust an id sent by the client.
+export function authenticateSockets(io: SocketServer, sessionMiddleware: RequestHandler) {
+  sessionSockets = io;
+  io.engine.use(onlyForHandshake(sessionMiddleware));
+
+  io.use(async (socket, next) => {
+    try {
+      const session = (socket.request as Request).session as (Request["session"] & PassportSession) | undefined;
+      const userId = session?.passport?.user;
+      const user = userId !== undefined ? await storage.getUser(userId) : undefined;
+
+      // Bot accounts are played by the server and can never connect
+      if (!user || user.isBot) return next(new Error("Unauthorized"));
+
+      socket.data.user = user;
+      socket.data.sessionId = (socket.request as Request).sessionID;
+      next();
+    } catch (error) {
+      next(error as Error);
+    }
+  });
+
+  // Every socket joins its user's room, so the server can reach all of a user's tabs
+  io.on("connection", socket => {
+    socket.join(userRoom(socketUser(socket).id));
+  });
+}
+
+// Close a user's connections whose sessions were signed out on the server, e.g. by a
+// password reset, which would otherwise keep acting as the user. Connections made with
+// the session given stay open.
+export async function disconnectUserSockets(userId: number, exceptSessionId?: string): Promise<void> {
+  if (!sessionSockets) return;
+
+  for (const socket of await sessionSockets.in(userRoom(userId)).fetchSockets()) {
+    if (socket.data.sessionId !== exceptSessionId) socket.disconnect(true);
+  }
+}
+
+// Socket.IO room holding every connection of one user
+export const userRoom = (userId: number) => `user-${userId}`;
+
+// The signed-in user a socket was authenticated as
+export const socketUser = (socket: Socket): User => socket.data.user;
+
+// Match rooms, game-<id>, are for the match's players and the staff who manage matches
+export async function canJoinMatchRoom(user: User, matchId: number): Promise<boolean> {
+  if (hasPermission(user, "manage_matches")) return true;
+
+  const players = await storage.getMatchPlayers(matchId);
+  return players.some(player => player.userId === user.id);
+}
@@ -0,0 +1,242 @@
+import { after, before, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import type { InsertTransaction } from "@shared/schema";
+import { MemStorage, type IStorage } from "./storage";
+import { createTestStorage } from "./test-database";
+
+// Both storages implement the same contract, so they run the same tests
+const implementations: [string, () => Promise<{ storage: IStorage; close: () => Promise<void> }>][] = [
+  ["MemStorage", async () => ({ storage: new MemStorage(), close: async () => {} })],
+  ["DatabaseStorage", createTestStorage]
+];
+
+for (const [name, create] of implementations) {
+  describe(name, () => {
+    let storage: IStorage;
+    let close: () => Promise<void>;
+    let userCount = 0;
+
+    before(async () => {
+      ({ storage, close } = await create());
+    });
+
+    after(() => close());
+
+    const createPlayer = async (balance = "0") => {
+      const username = `player${++userCount}`;
+      const user = await storage.createUser({ username, password: "hashed", email: `${username}@example.com` });
+      await storage.createWallet({ userId: user.id, balance });
+      return user;
+    };
+
+    const credit = (userId: number, amount: string, type = "deposit"): InsertTransaction => ({
+      userId,
+      amount,
+      type,
+      status: "completed",
+      description: `Test ${type}`,
+      commissionAmount: "0"
+    });
+
+    const createMatch = async (status: string) => {
+      const [game] = await storage.getAllGames();
+      return storage.createGameMatch({ gameId: game.id, entryAmount: "100", status });
+    };
+
+    it("finds users by username and email regardless of case", async () => {
+      const user = await createPlayer();
+
+      assert.equal((await storage.getUserByUsername(user.username.toUpperCase()))?.id, user.id);
+      assert.equal((await storage.getUserByEmail(user.email.toUpperCase()))?.id, user.id);
+      assert.equal(await storage.getUserByUsername("nobody"), undefined);
+    });
+
+    it("posts a transaction to the wallet, its history and its ledger", async () => {
+      const user = await createPlayer();
+
+      const posting = await storage.postWalletTransaction(credit(user.id, "250"));
+
+      assert.equal(posting?.wallet.balance, "250.00");
+      assert.equal((await storage.getWallet(user.id))?.balance, "250.00");
+      assert.deepEqual((await storage.getUserTransactions(user.id)).map(transaction => transaction.id), [posting!.transaction.id]);
+      assert.deepEqual((await storage.getWalletLedger(user.id)).map(entry => entry.amount), ["250.00"]);
+    });
+
+    it("writes nothing for a posting that would overdraw the wallet", async () => {
+      const user = await createPlayer("50");
+
+      assert.equal(await storage.postWalletTransaction(credit(user.id, "-80", "game_entry")), undefined);
+
+      assert.equal((await storage.getWallet(user.id))?.balance, "50.00");
+      assert.deepEqual(await storage.getUserTransactions(user.id), []);
+    });
+
+    it("posts a batch all or nothing", async () => {
+      const rich = await createPlayer("100");
+      const poor = await createPlayer("10");
+
+      const postings = await storage.postWalletTransactions([
+        credit(rich.id, "-50", "game_entry"),
+        credit(poor.id, "-50", "game_entry")
+      ]);
+
+      assert.equal(postings, undefined);
+      assert.equal((await storage.getWallet(rich.id))?.balance, "100.00");
+      assert.equal((await storage.getWallet(poor.id))?.balance, "10.00");
+    });
+
+    it("only changes a match's status from the given statuses", async () => {
+      const match = await createMatch("waiting");
+
+      assert.equal(await storage.updateGameMatchStatus(match.id, ["in_progress"], { status: "completed" }), undefined);
+      assert.equal((await storage.updateGameMatchStatus(match.id, ["waiting"], { status: "in_progress" }))?.status, "in_progress");
+      assert.equal((await storage.getGameMatch(match.id))?.status, "in_progress");
+    });
+
+    it("settles a match once, completing it and paying the prize together", async () => {
+      const winner = await createPlayer();
+      const match = await createMatch("in_progress");
+      const settlement = {
+        matchId: match.id,
+        winnerId: winner.id,
+        source: "admin",
+        prizeAmount: "180.00",
+        commissionAmount: "20.00"
+      };
+      const prize = { ...credit(winner.id, "180", "game_win"), matchId: match.id };
+
+      const [first, second] = await Promise.all([
+        storage.settleGameMatch(settlement, ["in_progress"], { status: "completed", winnerId: winner.id }, prize),
+        storage.settleGameMatch(settlement, ["in_progress"], { status: "completed", winnerId: winner.id }, prize)
+      ]);
+
+      assert.equal([first, second].filter(Boolean).length, 1);
+      const settled = (first ?? second)!;
+      assert.equal(settled.match.status, "completed");
+      assert.equal(settled.settlement.winnerId, winner.id);
+      assert.equal((await storage.getWallet(winner.id))?.balance, "180.00");
+      assert.equal((await storage.getMatchSettlement(match.id))?.id, settled.settlement.id);
+    });
+
+    it("leaves a match unsettled when its prize cannot be posted", async () => {
+      const winner = await createPlayer();
+      const match = await createMatch("in_progress");
+
+      const settled = await storage.settleGameMatch(
+        { matchId: match.id, winnerId: winner.id, source: "admin", prizeAmount: "0.00", commissionAmount: "0.00" },
+        ["in_progress"],
+        { status: "completed" },
+        credit(winner.id, "-10", "game_win")
+      );
+
+      assert.equal(settled, undefined);
+      assert.equal((await storage.getGameMatch(match.id))?.status, "in_progress");
+      assert.equal(await storage.getMatchSettlement(match.id), undefined);
+    });
+
+    it("redeems reward points for a wallet credit only while the user has them", async () => {
+      const user = await createPlayer();
+      await storage.addRewardPoints(user.id, 120);
+      const redemption = credit(user.id, "10.00", "reward_redemption");
+
+      const results = await Promise.all([
+        storage.redeemRewardPoints(user.id, 100, redemption),
+        storage.redeemRewardPoints(user.id, 100, redemption)
+      ]);
+
+      assert.equal(results.filter(Boolean).length, 1);
+      assert.equal((await storage.getUser(user.id))?.rewardPoints, 20);
+      assert.equal((await storage.getWallet(user.id))?.balance, "10.00");
+    });
+
+    const subscriptionStart = (userId: number, charge?: InsertTransaction) => {
+      const startDate = new Date();
+      const endDate = new Date(startDate.getTime() + 2 * 24 * 60 * 60 * 1000);
+      return {
+        subscription: { userId, name: "Test plan", amount: "100", rewardAmount: "20.00", duration: 2, startDate, endDate, autoRenew: true },
+        entitlements: [{ userId, benefit: "reward_schedule", value: "daily", source: "subscription", startsAt: startDate, endsAt: endDate }],
+        rewards: [1, 2].map(day => ({ userId, amount: "10.00", day, status: "pending" })),
+        charge
+      };
+    };
+
+    it("starts a subscription with its charge, entitlements and rewards, or not at all", async () => {
+      const user = await createPlayer("150");
+
+      const started = await storage.startSubscription(subscriptionStart(user.id, credit(user.id, "-100", "subscription_purchase")));
+      assert.ok(started);
+      assert.equal(started.charge?.wallet.balance, "50.00");
+      assert.deepEqual(started.rewards.map(reward => [reward.day, reward.subscriptionId]), [[1, started.subscription.id], [2, started.subscription.id]]);
+      assert.equal((await storage.getSubscriptionEntitlements(started.subscription.id)).length, 1);
+
+      assert.equal(await storage.startSubscription(subscriptionStart(user.id, credit(user.id, "-100", "subscription_purchase"))), undefined);
+      assert.equal((await storage.getWallet(user.id))?.balance, "50.00");
+      assert.equal((await storage.getUserSubscriptions(user.id)).length, 1);
+      assert.equal((await storage.getUserSubscriptionRewards(user.id)).length, 2);
+      assert.equal((await storage.getUserEntitlements(user.id)).length, 1);
+    });
+
+    it("renews a subscription once, and leaves it set to renew when the charge fails", async () => {
+      const user = await createPlayer("100");
+      const previous = (await storage.startSubscription(subscriptionStart(user.id)))!.subscription;
+      const renewal = { ...subscriptionStart(user.id, credit(user.id, "-100", "subscription_purchase")), renews: previous.id };
+
+      assert.equal(await storage.startSubscription({ ...renewal, charge: credit(user.id, "-500", "subscription_purchase") }), undefined);
+      assert.equal((await storage.getSubscriptionById(previous.id))?.autoRenew, true);
+
+      const results = await Promise.all([storage.startSubscription(renewal), storage.startSubscription(renewal)]);
+      assert.equal(results.filter(Boolean).length, 1);
+      assert.equal((await storage.getSubscriptionById(previous.id))?.autoRenew, false);
+      assert.equal((await storage.getWallet(user.id))?.balance, "0.00");
+    });
+
+    it("ends the upgraded subscription with the upgrade", async () => {
+      const user = await createPlayer("100");
+      const previous = (await storage.startSubscription(subscriptionStart(user.id)))!.subscription;
+      const at = new Date(previous.startDate.getTime() + 60 * 60 * 1000);
+      const upgrade = { ...subscriptionStart(user.id, credit(user.id, "-60", "subscription_purchase")), upgrades: { id: previous.id, at } };
+
+      const results = await Promise.all([storage.startSubscription(upgrade), storage.startSubscription(upgrade)]);
+
+      assert.equal(results.filter(Boolean).length, 1);
+      const replaced = await storage.getSubscriptionById(previous.id);
+      assert.equal(replaced?.status, "upgraded");
+      assert.equal(replaced?.endDate.getTime(), at.getTime());
+      assert.deepEqual((await storage.getSubscriptionEntitlements(previous.id)).map(entitlement => entitlement.endsAt.getTime()), [at.getTime()]);
+      assert.deepEqual(
+        (await storage.getUserSubscriptionRewards(user.id)).filter(reward => reward.subscriptionId === previous.id).map(reward => reward.status),
+        ["pending", "forfeited"]
+      );
+      assert.equal((await storage.getWallet(user.id))?.balance, "40.00");
+    });
+
+    it("pays a due subscription reward once", async () => {
+      const user = await createPlayer();
+      const { subscription, rewards } = (await storage.startSubscription(subscriptionStart(user.id)))!;
+      const [first] = rewards;
+      const due = (await storage.getDueSubscriptionRewards(subscription.startDate, 1000)).filter(reward => reward.subscriptionId === subscription.id);
+      assert.deepEqual(due.map(reward => reward.id), [first.id]);
+
+      const payment = credit(user.id, first.amount, "subscription_reward");
+      const payouts = await Promise.all([
+        storage.paySubscriptionReward(first.id, payment),
+        storage.paySubscriptionReward(first.id, payment)
+      ]);
+
+      assert.equal(payouts.filter(Boolean).length, 1);
+      assert.equal((await storage.getWallet(user.id))?.balance, "10.00");
+      assert.equal((await storage.getUserSubscriptionRewards(user.id)).find(reward => reward.id === first.id)?.status, "paid");
+      assert.equal(await storage.paySubscriptionReward(first.id, payment), undefined);
+    });
+
+    it("claims a match job once", async () => {
+      const match = await createMatch("waiting");
+      const job = await storage.createMatchJob({ matchId: match.id, type: "join_timeout", runAt: new Date() });
+
+      const claims = await Promise.all([storage.claimMatchJob(job.id), storage.claimMatchJob(job.id)]);
+
+      assert.equal(claims.filter(Boolean).length, 1);
+      assert.equal(claims.find(Boolean)?.status, "running");
+    });
+  });
+}
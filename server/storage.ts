@@ -5,14 +5,160 @@ import {
   games, type Game, type InsertGame,
   gameMatches, type GameMatch, type InsertGameMatch,
   playerMatches, type PlayerMatch, type InsertPlayerMatch,
+  matchResultReports, type MatchResultReport, type InsertMatchResultReport,
+  matchSettlements, type MatchSettlement, type InsertMatchSettlement,
+  matchJobs, type MatchJob, type InsertMatchJob,
   waitlist, type Waitlist, type InsertWaitlist,
+  inviteBatches, inviteCodes, type InviteBatch, type InviteBatchResult, type InviteBatchSummary, type InviteCode, type InsertInviteCode,
+  type WaitlistConversion,
+  subscriptionPlans, type SubscriptionPlan, type InsertSubscriptionPlan,
   subscriptions, type Subscription, type InsertSubscription,
-  subscriptionRewards, type SubscriptionReward, type InsertSubscriptionReward
+  subscriptionRewards, type SubscriptionReward, type InsertSubscriptionReward, type DueSubscriptionReward,
+  entitlements, type Entitlement, type InsertEntitlement,
+  authTokens, type AuthToken, type InsertAuthToken,
+  auditLog, type AuditLogEntry, type InsertAuditLogEntry,
+  chatRooms, chatMembers, chatMessages, type ChatRoom, type InsertChatRoom, type ChatMember, type ChatMessage,
+  type InsertChatMessage, type ChatRoomSummary,
+  friendships, userBlocks, type Friendship, type InsertFriendship, type FriendshipStatus, type UserBlock,
+  notifications, type Notification, type InsertNotification,
+  chatReports, chatSanctions, type ChatReport, type InsertChatReport, type ChatReportStatus, type ChatSanction, type InsertChatSanction,
+  journalEntries, type JournalEntry,
+  ledgerEntries, type LedgerEntry
 } from "@shared/schema";
 import session from "express-session";
 import createMemoryStore from "memorystore";
+import connectPg from "connect-pg-simple";
+import { and, asc, desc, eq, gt, gte, inArray, isNull, like, lt, lte, or, sql, TransactionRollbackError } from "drizzle-orm";
+import { createDatabase, type Database, type DatabaseConnection } from "./db";
+import { initialGames, initialSubscriptionPlans } from "./seed";
+import {
+  buildJournalLines, buildReleaseLines, buildSettlementLines, counterAccountFor, toAmount, walletAccount,
+  WITHDRAWAL_HOLD_ACCOUNT, type LedgerLine, type WalletPosting, type WalletReconciliation
+} from "./ledger";
+
+// A wallet posting with an optional override for the account on the other side
+interface PostingRequest {
+  transaction: InsertTransaction;
+  counterAccount?: string;
+}
+
+// A paid subscription reward with the wallet credit it was paid by
+export interface SubscriptionRewardPayout extends WalletPosting {
+  reward: SubscriptionReward;
+}
+
+// A settled match with its settlement record and, for a real-money match, the prize paid
+export interface MatchSettlementResult {
+  match: GameMatch;
+  settlement: MatchSettlement;
+  prize?: WalletPosting;
+}
+
+// Reward points spent on a wallet credit, with the user's remaining points
+export interface RewardRedemption extends WalletPosting {
+  user: User;
+}
+
+// A subscription to start with everything it comes with. A renewal also claims the
+// renewal of the subscription it renews; an upgrade also ends the one it replaces.
+export interface SubscriptionStartRequest {
+  subscription: InsertSubscription;
+  entitlements: InsertEntitlement[]; // Linked to the new subscription
+  rewards: Omit<InsertSubscriptionReward, "subscriptionId">[];
+  charge?: InsertTransaction;
+  renews?: number; // Turns auto-renew off on this subscription, which must still be set to renew
+  upgrades?: { id: number; at: Date }; // Ends this active subscription and its benefits at the given time
+}
+
+export interface SubscriptionStart {
+  subscription: Subscription;
+  entitlements: Entitlement[];
+  rewards: SubscriptionReward[];
+  charge?: WalletPosting;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// A subscription's day N reward falls due N - 1 days after it starts
+export const rewardDueAt = (startDate: Date, day: number) => new Date(startDate.getTime() + (day - 1) * DAY_MS);
+
+// Filter and page for a user's match history, newest first
+export interface MatchHistoryQuery {
+  status?: string;
+  limit: number;
+  offset: number;
+}
+
+// Filters and page for the audit log, newest first. Every filter is optional.
+export interface AuditLogQuery {
+  actorId?: number;
+  action?: string; // Also matches the actions grouped under it, e.g. deposits matches deposits.approve
+  entityType?: string;
+  entityId?: string;
+  from?: Date;
+  to?: Date;
+  limit: number;
+  offset: number;
+}
+
+// A page of a room's chat history, newest first, before the given message id when there is one
+export interface ChatHistoryQuery {
+  before?: number;
+  limit: number;
+}
+
+// A page of a user's notifications, newest first, before the given id when there is one
+export interface NotificationQuery {
+  before?: number;
+  limit: number;
+}
+
+// A status transition on a transaction, e.g. an admin approving a deposit
+export interface TransactionStatusChange {
+  from?: string; // Only apply the change if the transaction is still in this status
+  processedBy?: number;
+  reason?: string;
+  metadata?: Record<string, any>;
+}
+
+function parseMetadata(existing: string | null): Record<string, any> {
+  if (!existing) return {};
+  try {
+    return JSON.parse(existing);
+  } catch {
+    return { note: existing };
+  }
+}
+
+// Transaction metadata is stored as a JSON string; merge new keys into it
+function mergeMetadata(existing: string | null, update: Record<string, any>): string {
+  return JSON.stringify({ ...parseMetadata(existing), ...update });
+}
+
+// Stamp the latest status change on the metadata and append it to the status history
+function recordStatusChange(existing: string | null, status: string, change: TransactionStatusChange): string {
+  const current = parseMetadata(existing);
+  const event = {
+    status,
+    processedBy: change.processedBy ?? null,
+    processedAt: new Date().toISOString(),
+    reason: change.reason ?? null
+  };
+  
+  return JSON.stringify({
+    ...current,
+    ...change.metadata,
+    processedBy: event.processedBy,
+    processedAt: event.processedAt,
+    statusReason: event.reason,
+    statusHistory: [...(current.statusHistory || []), event]
+  });
+}
+
+type DatabaseTransaction = Parameters<Parameters<Database["transaction"]>[0]>[0];
 
 const MemoryStore = createMemoryStore(session);
+const PostgresSessionStore = connectPg(session);
 
 // modify the interface with any CRUD methods
 // you might need
@@ -24,22 +170,51 @@ export interface IStorage {
   getAllUsers(): Promise<User[]>;
   createUser(user: InsertUser): Promise<User>;
   updateUser(id: number, user: Partial<InsertUser>): Promise<User | undefined>;
-  addSubscription(userId: number, durationDays: number): Promise<User | undefined>;
   generateReferralCode(userId: number): Promise<User | undefined>;
   updateLastLogin(userId: number): Promise<User | undefined>;
   addRewardPoints(userId: number, points: number): Promise<User | undefined>;
+  // Spend reward points on a wallet credit. The points are deducted and the credit
+  // posted together; undefined if the user doesn't have the points or a wallet.
+  redeemRewardPoints(userId: number, points: number, transaction: InsertTransaction): Promise<RewardRedemption | undefined>;
   getReferrals(referrerId: number): Promise<User[]>;
+  // Add or remove a staff role; a user who already has, or lacks, the role is returned unchanged
+  grantUserRole(userId: number, role: string): Promise<User | undefined>;
+  revokeUserRole(userId: number, role: string): Promise<User | undefined>;
+  // Record when the user's email was verified; a verified user keeps the first time
+  markEmailVerified(userId: number, at: Date): Promise<User | undefined>;
   
   // Wallet methods
   getWallet(userId: number): Promise<Wallet | undefined>;
   createWallet(wallet: InsertWallet): Promise<Wallet>;
-  updateWalletBalance(userId: number, amount: number): Promise<Wallet | undefined>;
+  
+  // Ledger methods
+  // Posting writes the wallet balance, transaction row and journal entry together.
+  // Nothing is written and undefined is returned if any wallet would go negative.
+  postWalletTransaction(transaction: InsertTransaction): Promise<WalletPosting | undefined>;
+  postWalletTransactions(transactions: InsertTransaction[]): Promise<WalletPosting[] | undefined>;
+  getWalletLedger(userId: number): Promise<LedgerEntry[]>;
+  reconcileWallets(): Promise<WalletReconciliation[]>;
+  
+  // Withdrawal methods
+  // A withdrawal request debits the wallet into a hold and stays pending until
+  // an admin settles it (paid out) or releases it (refunded to the wallet).
+  holdWithdrawal(transaction: InsertTransaction): Promise<WalletPosting | undefined>;
+  settleWithdrawal(id: number, settlement: { payoutReference: string; processedBy: number }): Promise<Transaction | undefined>;
+  releaseWithdrawal(id: number, release: { reason: string; processedBy: number }): Promise<WalletPosting | undefined>;
+  
+  // Deposit methods
+  // Approving a pending deposit credits the wallet and completes the original transaction.
+  approveDeposit(id: number, approval: { processedBy: number }): Promise<WalletPosting | undefined>;
   
   // Transaction methods
   createTransaction(transaction: InsertTransaction): Promise<Transaction>;
+  getTransaction(id: number): Promise<Transaction | undefined>;
   getUserTransactions(userId: number): Promise<Transaction[]>;
   getAllTransactions(): Promise<Transaction[]>;
+  // Entry fees, prizes and refunds posted for a match, oldest first
+  getMatchTransactions(matchId: number): Promise<Transaction[]>;
   updateTransactionMetadata(id: number, metadata: any): Promise<Transaction | undefined>;
+  updateTransactionStatus(id: number, status: string, change?: TransactionStatusChange): Promise<Transaction | undefined>;
   
   // Game methods
   getAllGames(): Promise<Game[]>;
@@ -50,29 +225,195 @@ export interface IStorage {
   createGameMatch(match: InsertGameMatch): Promise<GameMatch>;
   getGameMatch(id: number): Promise<GameMatch | undefined>;
   updateGameMatch(id: number, match: Partial<InsertGameMatch>): Promise<GameMatch | undefined>;
+  // Only applies the update if the match is still in one of the given statuses.
+  updateGameMatchStatus(id: number, from: string[], match: Partial<InsertGameMatch>): Promise<GameMatch | undefined>;
   getActiveMatches(gameId: number): Promise<GameMatch[]>;
+  getMatchesByStatus(status: string): Promise<GameMatch[]>;
+  getUserMatches(userId: number, query: MatchHistoryQuery): Promise<{ matches: GameMatch[]; total: number }>;
   
   // Player Match methods
   addPlayerToMatch(playerMatch: InsertPlayerMatch): Promise<PlayerMatch>;
   getMatchPlayers(matchId: number): Promise<PlayerMatch[]>;
   updatePlayerMatchStatus(id: number, status: string): Promise<PlayerMatch | undefined>;
   
+  // Match Result methods
+  // A player's report replaces any earlier report they made for the same match.
+  saveMatchResultReport(report: InsertMatchResultReport): Promise<MatchResultReport>;
+  getMatchResultReports(matchId: number): Promise<MatchResultReport[]>;
+  // Records the settlement, moves the match to its final status and posts the prize, if
+  // any, all or nothing. Returns undefined if the match is no longer in one of the given
+  // statuses, already has a settlement, or the prize cannot be posted.
+  settleGameMatch(
+    settlement: InsertMatchSettlement,
+    from: string[],
+    match: Partial<InsertGameMatch>,
+    prize?: InsertTransaction
+  ): Promise<MatchSettlementResult | undefined>;
+  getMatchSettlement(matchId: number): Promise<MatchSettlement | undefined>;
+  
+  // Match Job methods
+  createMatchJob(job: InsertMatchJob): Promise<MatchJob>;
+  getMatchJobs(matchId: number): Promise<MatchJob[]>;
+  getDueMatchJobs(now: Date, limit: number): Promise<MatchJob[]>;
+  // Marks a pending job as running; returns undefined if another worker got it first.
+  claimMatchJob(id: number): Promise<MatchJob | undefined>;
+  updateMatchJob(id: number, job: Partial<InsertMatchJob>): Promise<MatchJob | undefined>;
+  // Cancels pending jobs for a match, optionally only those of the given types.
+  cancelMatchJobs(matchId: number, types?: string[]): Promise<number>;
+  // Puts jobs left running by a crashed process back in the queue.
+  requeueRunningMatchJobs(): Promise<number>;
+  
+  // Subscription Plan methods
+  getSubscriptionPlans(includeInactive?: boolean): Promise<SubscriptionPlan[]>;
+  getSubscriptionPlan(id: number): Promise<SubscriptionPlan | undefined>;
+  getSubscriptionPlanBySlug(slug: string): Promise<SubscriptionPlan | undefined>;
+  createSubscriptionPlan(plan: InsertSubscriptionPlan): Promise<SubscriptionPlan>;
+  updateSubscriptionPlan(id: number, plan: Partial<InsertSubscriptionPlan>): Promise<SubscriptionPlan | undefined>;
+  
   // Game Subscription methods
   createGameSubscription(subscription: InsertSubscription): Promise<Subscription>;
   getUserSubscriptions(userId: number): Promise<Subscription[]>;
   getActiveUserSubscriptions(userId: number): Promise<Subscription[]>;
   getSubscriptionById(id: number): Promise<Subscription | undefined>;
+  getAllSubscriptions(): Promise<Subscription[]>;
   updateSubscriptionStatus(id: number, status: string): Promise<Subscription | undefined>;
+  // Only applied if the subscription is still in the `from` status, when given
+  updateGameSubscription(id: number, subscription: Partial<InsertSubscription>, from?: string): Promise<Subscription | undefined>;
+  // Post the charge, if any, and create the subscription with its entitlements and daily
+  // rewards, all or nothing. Undefined if the wallet cannot cover the charge, or the
+  // subscription it renews or upgrades was already renewed or upgraded.
+  startSubscription(request: SubscriptionStartRequest): Promise<SubscriptionStart | undefined>;
+  // Auto-renewing subscriptions that have ended and are not being cancelled
+  getSubscriptionsDueForRenewal(asOf: Date): Promise<Subscription[]>;
+  // Turn auto-renew off after a renewal that could not go ahead. Undefined if it was
+  // already renewed, switched off or cancelled.
+  claimSubscriptionRenewal(id: number): Promise<Subscription | undefined>;
   
   // Subscription Reward methods
   createSubscriptionRewards(rewards: InsertSubscriptionReward[]): Promise<void>;
   getUserSubscriptionRewards(userId: number): Promise<SubscriptionReward[]>;
   getPendingSubscriptionRewards(userId: number): Promise<SubscriptionReward[]>;
-  getPendingRewardsByDate(date: Date): Promise<SubscriptionReward[]>;
   updateRewardStatus(id: number, status: string, paidAt?: Date): Promise<SubscriptionReward | undefined>;
+  // Pending rewards due at or before the given time, the longest overdue first
+  getDueSubscriptionRewards(asOf: Date, limit: number): Promise<DueSubscriptionReward[]>;
+  // Crediting the wallet and marking the reward paid happen together. Undefined if the
+  // reward is no longer pending, so a reward can only ever be paid once.
+  paySubscriptionReward(id: number, transaction: InsertTransaction): Promise<SubscriptionRewardPayout | undefined>;
+  forfeitSubscriptionReward(id: number): Promise<SubscriptionReward | undefined>;
+  // Forfeit a subscription's pending rewards that fall due after the given time
+  forfeitSubscriptionRewards(subscriptionId: number, dueAfter: Date): Promise<SubscriptionReward[]>;
+  // Active subscriptions past their end date with no rewards left to pay
+  getFinishedSubscriptions(asOf: Date): Promise<Subscription[]>;
+  
+  // Entitlement methods
+  createEntitlements(entitlements: InsertEntitlement[]): Promise<Entitlement[]>;
+  getUserEntitlements(userId: number): Promise<Entitlement[]>;
+  // Entitlements in force at the given time: started, not ended and not revoked
+  getActiveEntitlements(userId: number, at: Date): Promise<Entitlement[]>;
+  getSubscriptionEntitlements(subscriptionId: number): Promise<Entitlement[]>;
+  // Bring forward the end of a subscription's entitlements that run past the given time
+  endSubscriptionEntitlements(subscriptionId: number, at: Date): Promise<Entitlement[]>;
   
   // Waitlist methods
-  addToWaitlist(email: InsertWaitlist): Promise<Waitlist>;
+  createWaitlistEntry(entry: InsertWaitlist): Promise<Waitlist>;
+  // Every entry in signup order
+  getWaitlistEntries(): Promise<Waitlist[]>;
+  // Emails are matched case-insensitively
+  getWaitlistEntryByEmail(email: string): Promise<Waitlist | undefined>;
+  getWaitlistEntryByToken(token: string): Promise<Waitlist | undefined>;
+  getWaitlistEntryByReferralCode(referralCode: string): Promise<Waitlist | undefined>;
+  getWaitlistEntryByConfirmationToken(confirmationToken: string): Promise<Waitlist | undefined>;
+  updateWaitlistEntry(id: number, entryData: Partial<InsertWaitlist>): Promise<Waitlist | undefined>;
+  // Mark an entry's email confirmed. Undefined if it was already confirmed.
+  confirmWaitlistEntry(id: number, at: Date): Promise<Waitlist | undefined>;
+  // Each waitlist entry with the account registered under its email, if any
+  getWaitlistConversions(): Promise<WaitlistConversion[]>;
+  
+  // Invite methods
+  // Record a batch of codes and mark their waitlist entries invited. Entries already
+  // invited are skipped, so two batches never invite the same entry; undefined if
+  // that leaves nothing to send.
+  createInviteBatch(createdById: number | null, invites: InsertInviteCode[], at: Date): Promise<InviteBatchResult | undefined>;
+  getInviteBatches(): Promise<InviteBatchSummary[]>;
+  getInviteCodes(): Promise<InviteCode[]>;
+  getInviteCodeByCode(code: string): Promise<InviteCode | undefined>;
+  // Mark a code used. Undefined if it had already been used.
+  claimInviteCode(id: number, at: Date): Promise<InviteCode | undefined>;
+  updateInviteCode(id: number, codeData: Partial<Pick<InviteCode, "usedAt" | "usedById">>): Promise<InviteCode | undefined>;
+  
+  // Auth token methods
+  createAuthToken(token: InsertAuthToken): Promise<AuthToken>;
+  getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined>;
+  // Mark a token used. Undefined if it had already been used.
+  useAuthToken(id: number, at: Date): Promise<AuthToken | undefined>;
+  // Mark every unused token the user holds for the purpose as used
+  revokeAuthTokens(userId: number, purpose: string, at: Date): Promise<void>;
+  // Sign the user out everywhere by destroying their sessions in the session store,
+  // except the one given. Returns how many were destroyed.
+  destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number>;
+  
+  // Chat methods
+  // Create a room, or return the room that already has its key
+  ensureChatRoom(room: InsertChatRoom): Promise<ChatRoom>;
+  getChatRoomByKey(key: string): Promise<ChatRoom | undefined>;
+  // Add a member, or return the existing membership. New members have read what was sent before they joined.
+  addChatMember(roomId: number, userId: number): Promise<ChatMember>;
+  getChatMember(roomId: number, userId: number): Promise<ChatMember | undefined>;
+  // The rooms a user belongs to, with the messages from others they haven't read
+  getUserChatRooms(userId: number): Promise<ChatRoomSummary[]>;
+  createChatMessage(message: InsertChatMessage): Promise<ChatMessage>;
+  getChatMessages(roomId: number, query: ChatHistoryQuery): Promise<ChatMessage[]>;
+  // Move a member's read marker up to the message; it never moves back
+  markChatRead(roomId: number, userId: number, messageId: number): Promise<ChatMember | undefined>;
+  getChatRoom(id: number): Promise<ChatRoom | undefined>;
+  getChatMessage(id: number): Promise<ChatMessage | undefined>;
+  // Take a message down. Undefined if it doesn't exist or was already removed.
+  removeChatMessage(id: number, removedBy: number, at: Date): Promise<ChatMessage | undefined>;
+  
+  // Chat moderation methods
+  // Undefined when the reporter has already reported the message
+  createChatReport(report: InsertChatReport): Promise<ChatReport | undefined>;
+  getChatReport(id: number): Promise<ChatReport | undefined>;
+  // Reports with the status, oldest first
+  getChatReports(status: ChatReportStatus): Promise<ChatReport[]>;
+  // Close every pending report on the message, returning the reports closed
+  resolveChatReports(messageId: number, status: ChatReportStatus, reviewedBy: number, resolution: string, at: Date): Promise<ChatReport[]>;
+  createChatSanction(sanction: InsertChatSanction): Promise<ChatSanction>;
+  getChatSanction(id: number): Promise<ChatSanction | undefined>;
+  // Sanctions that are neither lifted nor expired at the time, for one user or everyone
+  getActiveChatSanctions(at: Date, userId?: number): Promise<ChatSanction[]>;
+  // Undefined if the sanction doesn't exist or was already lifted
+  liftChatSanction(id: number, liftedBy: number, at: Date): Promise<ChatSanction | undefined>;
+  
+  // Friend methods
+  // Undefined when the pair already has a friendship row
+  createFriendship(friendship: InsertFriendship): Promise<Friendship | undefined>;
+  getFriendship(id: number): Promise<Friendship | undefined>;
+  getFriendshipByPair(pairKey: string): Promise<Friendship | undefined>;
+  // Pending and accepted friendships the user is part of, either side
+  getUserFriendships(userId: number): Promise<Friendship[]>;
+  // Move a friendship on from the status it is expected to be in. Undefined if it has moved on already.
+  updateFriendshipStatus(id: number, from: FriendshipStatus, status: FriendshipStatus, at: Date): Promise<Friendship | undefined>;
+  // Send a new request over a declined or removed friendship. Undefined if it is pending or accepted.
+  renewFriendship(id: number, requesterId: number, addresseeId: number, at: Date): Promise<Friendship | undefined>;
+  createUserBlock(blockerId: number, blockedId: number): Promise<UserBlock>;
+  // The block in force from one user on another
+  getUserBlock(blockerId: number, blockedId: number): Promise<UserBlock | undefined>;
+  getUserBlocks(blockerId: number): Promise<UserBlock[]>;
+  removeUserBlock(id: number, at: Date): Promise<UserBlock | undefined>;
+  
+  // Notification methods
+  createNotification(notification: InsertNotification): Promise<Notification>;
+  getNotifications(userId: number, query: NotificationQuery): Promise<Notification[]>;
+  getUnreadNotificationCount(userId: number): Promise<number>;
+  // Undefined if the notification isn't the user's or was already read
+  markNotificationRead(id: number, userId: number, at: Date): Promise<Notification | undefined>;
+  // Mark everything unread as read, returning how many were
+  markAllNotificationsRead(userId: number, at: Date): Promise<number>;
+  
+  // Audit log methods. Entries are only ever added, never changed or removed.
+  createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry>;
+  getAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }>;
   
   // Session store
   sessionStore: any; // Using any for session store type
@@ -85,9 +426,28 @@ export class MemStorage implements IStorage {
   private games: Map<number, Game>;
   private gameMatches: Map<number, GameMatch>;
   private playerMatches: Map<number, PlayerMatch>;
+  private matchResultReports: Map<number, MatchResultReport>;
+  private matchSettlements: Map<number, MatchSettlement>;
+  private matchJobs: Map<number, MatchJob>;
   private waitlistEmails: Map<number, Waitlist>;
+  private inviteBatches: Map<number, InviteBatch>;
+  private inviteCodes: Map<number, InviteCode>;
+  private subscriptionPlans: Map<number, SubscriptionPlan>;
   private subscriptions: Map<number, Subscription>;
   private subscriptionRewards: Map<number, SubscriptionReward>;
+  private entitlements: Map<number, Entitlement>;
+  private journalEntries: Map<number, JournalEntry>;
+  private ledgerEntries: Map<number, LedgerEntry>;
+  private authTokens: Map<number, AuthToken>;
+  private chatRooms: Map<number, ChatRoom>;
+  private chatMembers: Map<number, ChatMember>;
+  private chatMessages: Map<number, ChatMessage>;
+  private chatReports: Map<number, ChatReport>;
+  private chatSanctions: Map<number, ChatSanction>;
+  private friendships: Map<number, Friendship>;
+  private userBlocks: Map<number, UserBlock>;
+  private notifications: Map<number, Notification>;
+  private auditLog: Map<number, AuditLogEntry>;
   
   sessionStore: any; // Using any for session.SessionStore to fix type issue
   
@@ -97,9 +457,28 @@ export class MemStorage implements IStorage {
   private gameIdCounter: number;
   private gameMatchIdCounter: number;
   private playerMatchIdCounter: number;
+  private matchResultReportIdCounter: number;
+  private matchSettlementIdCounter: number;
+  private matchJobIdCounter: number;
   private waitlistIdCounter: number;
+  private inviteBatchIdCounter: number;
+  private inviteCodeIdCounter: number;
+  private subscriptionPlanIdCounter: number;
   private subscriptionIdCounter: number;
   private subscriptionRewardIdCounter: number;
+  private entitlementIdCounter: number;
+  private journalEntryIdCounter: number;
+  private ledgerEntryIdCounter: number;
+  private authTokenIdCounter: number;
+  private chatRoomIdCounter: number;
+  private chatMemberIdCounter: number;
+  private chatMessageIdCounter: number;
+  private chatReportIdCounter: number;
+  private chatSanctionIdCounter: number;
+  private friendshipIdCounter: number;
+  private userBlockIdCounter: number;
+  private notificationIdCounter: number;
+  private auditLogIdCounter: number;
 
   constructor() {
     this.users = new Map();
@@ -108,9 +487,28 @@ export class MemStorage implements IStorage {
     this.games = new Map();
     this.gameMatches = new Map();
     this.playerMatches = new Map();
+    this.matchResultReports = new Map();
+    this.matchSettlements = new Map();
+    this.matchJobs = new Map();
     this.waitlistEmails = new Map();
+    this.inviteBatches = new Map();
+    this.inviteCodes = new Map();
+    this.subscriptionPlans = new Map();
     this.subscriptions = new Map();
     this.subscriptionRewards = new Map();
+    this.entitlements = new Map();
+    this.journalEntries = new Map();
+    this.ledgerEntries = new Map();
+    this.authTokens = new Map();
+    this.chatRooms = new Map();
+    this.chatMembers = new Map();
+    this.chatMessages = new Map();
+    this.chatReports = new Map();
+    this.chatSanctions = new Map();
+    this.friendships = new Map();
+    this.userBlocks = new Map();
+    this.notifications = new Map();
+    this.auditLog = new Map();
     
     this.userIdCounter = 1;
     this.walletIdCounter = 1;
@@ -118,16 +516,36 @@ export class MemStorage implements IStorage {
     this.gameIdCounter = 1;
     this.gameMatchIdCounter = 1;
     this.playerMatchIdCounter = 1;
+    this.matchResultReportIdCounter = 1;
+    this.matchSettlementIdCounter = 1;
+    this.matchJobIdCounter = 1;
     this.waitlistIdCounter = 1;
+    this.inviteBatchIdCounter = 1;
+    this.inviteCodeIdCounter = 1;
+    this.subscriptionPlanIdCounter = 1;
     this.subscriptionIdCounter = 1;
     this.subscriptionRewardIdCounter = 1;
+    this.entitlementIdCounter = 1;
+    this.journalEntryIdCounter = 1;
+    this.ledgerEntryIdCounter = 1;
+    this.authTokenIdCounter = 1;
+    this.chatRoomIdCounter = 1;
+    this.chatMemberIdCounter = 1;
+    this.chatMessageIdCounter = 1;
+    this.chatReportIdCounter = 1;
+    this.chatSanctionIdCounter = 1;
+    this.friendshipIdCounter = 1;
+    this.userBlockIdCounter = 1;
+    this.notificationIdCounter = 1;
+    this.auditLogIdCounter = 1;
     
     this.sessionStore = new MemoryStore({
       checkPeriod: 86400000 // 24 hours
     });
     
-    // Add some initial games
+    // Add some initial games and subscription plans
     this.seedGames();
+    this.seedSubscriptionPlans();
   }
 
   // User methods
@@ -169,7 +587,11 @@ export class MemStorage implements IStorage {
       subscriptionExpiryDate: insertUser.subscriptionExpiryDate || null,
       rewardPoints: insertUser.rewardPoints || 0,
       lastLoginDate: insertUser.lastLoginDate || null,
-      dailyStreak: insertUser.dailyStreak || 0
+      dailyStreak: insertUser.dailyStreak || 0,
+      isBot: insertUser.isBot || false,
+      botDifficulty: insertUser.botDifficulty || null,
+      roles: [],
+      emailVerifiedAt: null
     };
     
     this.users.set(id, user);
@@ -185,32 +607,7 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
   
-  async addSubscription(userId: number, durationDays: number): Promise<User | undefined> {
-    const user = this.users.get(userId);
-    if (!user) return undefined;
-    
-    const now = new Date();
-    let expiryDate: Date;
-    
-    if (user.hasSubscription && user.subscriptionExpiryDate && user.subscriptionExpiryDate > now) {
-      // If user already has an active subscription, extend it
-      expiryDate = new Date(user.subscriptionExpiryDate);
-      expiryDate.setDate(expiryDate.getDate() + durationDays);
-    } else {
-      // Create new subscription
-      expiryDate = new Date();
-      expiryDate.setDate(now.getDate() + durationDays);
-    }
-    
-    const updatedUser = { 
-      ...user, 
-      hasSubscription: true,
-      subscriptionExpiryDate: expiryDate 
-    };
-    
-    this.users.set(userId, updatedUser);
-    return updatedUser;
-  }
+
   
   async generateReferralCode(userId: number): Promise<User | undefined> {
     const user = this.users.get(userId);
@@ -286,6 +683,45 @@ export class MemStorage implements IStorage {
     return updatedUser;
   }
   
+  async redeemRewardPoints(userId: number, points: number, insertTransaction: InsertTransaction): Promise<RewardRedemption | undefined> {
+    const user = this.users.get(userId);
+    if (!user || (user.rewardPoints || 0) < points) return undefined;
+    
+    const postings = this.applyPostings([{ transaction: insertTransaction }]);
+    if (!postings) return undefined;
+    
+    const updatedUser = { ...user, rewardPoints: (user.rewardPoints || 0) - points };
+    this.users.set(userId, updatedUser);
+    return { ...postings[0], user: updatedUser };
+  }
+  
+  async grantUserRole(userId: number, role: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user || user.roles.includes(role)) return user;
+    
+    const updatedUser = { ...user, roles: [...user.roles, role] };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async revokeUserRole(userId: number, role: string): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user) return undefined;
+    
+    const updatedUser = { ...user, roles: user.roles.filter(granted => granted !== role) };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async markEmailVerified(userId: number, at: Date): Promise<User | undefined> {
+    const user = this.users.get(userId);
+    if (!user || user.emailVerifiedAt) return user;
+    
+    const updatedUser = { ...user, emailVerifiedAt: at };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
   async getReferrals(referrerId: number): Promise<User[]> {
     return Array.from(this.users.values())
       .filter(user => user.referredBy === referrerId)
@@ -294,40 +730,223 @@ export class MemStorage implements IStorage {
   
   // Wallet methods
   async getWallet(userId: number): Promise<Wallet | undefined> {
-    return Array.from(this.wallets.values()).find(
-      (wallet) => wallet.userId === userId
-    );
+    return this.findWallet(userId);
   }
   
   async createWallet(insertWallet: InsertWallet): Promise<Wallet> {
     const id = this.walletIdCounter++;
     const now = new Date();
+    const openingBalance = toAmount(parseFloat(insertWallet.balance?.toString() || "0"));
     const wallet: Wallet = { 
       ...insertWallet, 
       id, 
       createdAt: now,
-      balance: insertWallet.balance
+      balance: openingBalance.toFixed(2)
     };
     this.wallets.set(id, wallet);
+    
+    // Keep the journal in step with a non-zero opening balance
+    if (openingBalance !== 0) {
+      this.writeJournalEntry(null, "Opening balance", [
+        { account: walletAccount(wallet.userId), userId: wallet.userId, amount: openingBalance },
+        { account: counterAccountFor("opening_balance"), userId: null, amount: -openingBalance }
+      ]);
+    }
+    
     return wallet;
   }
   
-  async updateWalletBalance(userId: number, amount: number): Promise<Wallet | undefined> {
-    const wallet = await this.getWallet(userId);
-    if (!wallet) return undefined;
+  // Ledger methods
+  async postWalletTransaction(insertTransaction: InsertTransaction): Promise<WalletPosting | undefined> {
+    const postings = await this.postWalletTransactions([insertTransaction]);
+    return postings?.[0];
+  }
+  
+  async postWalletTransactions(insertTransactions: InsertTransaction[]): Promise<WalletPosting[] | undefined> {
+    return this.applyPostings(insertTransactions.map(transaction => ({ transaction })));
+  }
+  
+  async getWalletLedger(userId: number): Promise<LedgerEntry[]> {
+    const account = walletAccount(userId);
+    return Array.from(this.ledgerEntries.values())
+      .filter(entry => entry.account === account)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async reconcileWallets(): Promise<WalletReconciliation[]> {
+    const ledgerBalances = new Map<string, number>();
+    for (const entry of Array.from(this.ledgerEntries.values())) {
+      ledgerBalances.set(entry.account, (ledgerBalances.get(entry.account) || 0) + parseFloat(entry.amount));
+    }
+    
+    return Array.from(this.wallets.values()).map(wallet => {
+      const walletBalance = parseFloat(wallet.balance.toString());
+      const ledgerBalance = toAmount(ledgerBalances.get(walletAccount(wallet.userId)) || 0);
+      return {
+        userId: wallet.userId,
+        walletBalance,
+        ledgerBalance,
+        difference: toAmount(walletBalance - ledgerBalance)
+      };
+    });
+  }
+  
+  // Withdrawal methods
+  async holdWithdrawal(insertTransaction: InsertTransaction): Promise<WalletPosting | undefined> {
+    const postings = this.applyPostings([{ transaction: insertTransaction, counterAccount: WITHDRAWAL_HOLD_ACCOUNT }]);
+    return postings?.[0];
+  }
+  
+  async settleWithdrawal(id: number, settlement: { payoutReference: string; processedBy: number }): Promise<Transaction | undefined> {
+    const transaction = this.findPendingTransaction(id, "withdrawal");
+    if (!transaction) return undefined;
+    
+    const updatedTransaction = {
+      ...transaction,
+      status: "completed",
+      metadata: recordStatusChange(transaction.metadata, "completed", {
+        processedBy: settlement.processedBy,
+        metadata: { payoutReference: settlement.payoutReference }
+      })
+    };
+    this.transactions.set(id, updatedTransaction);
+    
+    const heldAmount = Math.abs(parseFloat(transaction.amount));
+    this.writeJournalEntry(id, `Withdrawal paid out (Ref: ${settlement.payoutReference})`, buildSettlementLines(heldAmount));
     
-    const currentBalance = parseFloat(wallet.balance.toString());
-    const newBalance = currentBalance + amount;
+    return updatedTransaction;
+  }
+  
+  async releaseWithdrawal(id: number, release: { reason: string; processedBy: number }): Promise<WalletPosting | undefined> {
+    const transaction = this.findPendingTransaction(id, "withdrawal");
+    if (!transaction) return undefined;
     
-    if (newBalance < 0) return undefined; // Prevent negative balance
+    const wallet = this.findWallet(transaction.userId);
+    if (!wallet) return undefined;
+    
+    const heldAmount = Math.abs(parseFloat(transaction.amount));
+    const updatedWallet = {
+      ...wallet,
+      balance: toAmount(parseFloat(wallet.balance.toString()) + heldAmount).toFixed(2)
+    };
+    this.wallets.set(wallet.id, updatedWallet);
     
-    const updatedWallet = { 
-      ...wallet, 
-      balance: newBalance.toString() 
+    const updatedTransaction = {
+      ...transaction,
+      status: "rejected",
+      metadata: recordStatusChange(transaction.metadata, "rejected", release)
     };
+    this.transactions.set(id, updatedTransaction);
+    
+    this.writeJournalEntry(id, `Withdrawal rejected: ${release.reason}`, buildReleaseLines(transaction.userId, heldAmount));
+    
+    return { wallet: updatedWallet, transaction: updatedTransaction };
+  }
+  
+  // Deposit methods
+  async approveDeposit(id: number, approval: { processedBy: number }): Promise<WalletPosting | undefined> {
+    const transaction = this.findPendingTransaction(id, "deposit");
+    if (!transaction) return undefined;
+    
+    const wallet = this.findWallet(transaction.userId);
+    if (!wallet) return undefined;
     
+    const lines = buildJournalLines(transaction);
+    const updatedWallet = {
+      ...wallet,
+      balance: toAmount(parseFloat(wallet.balance.toString()) + lines[0].amount).toFixed(2)
+    };
     this.wallets.set(wallet.id, updatedWallet);
-    return updatedWallet;
+    
+    const updatedTransaction = {
+      ...transaction,
+      status: "completed",
+      metadata: recordStatusChange(transaction.metadata, "completed", approval)
+    };
+    this.transactions.set(id, updatedTransaction);
+    
+    this.writeJournalEntry(id, "Deposit approved", lines);
+    
+    return { wallet: updatedWallet, transaction: updatedTransaction };
+  }
+  
+  private findPendingTransaction(id: number, type: string): Transaction | undefined {
+    const transaction = this.transactions.get(id);
+    if (!transaction || transaction.type !== type || transaction.status !== "pending") return undefined;
+    return transaction;
+  }
+  
+  // Validate every posting before writing anything. There are no awaits
+  // here, so the whole batch is applied without interleaving.
+  private applyPostings(requests: PostingRequest[]): WalletPosting[] | undefined {
+    const balances = new Map<number, number>();
+    const journals = requests.map(({ transaction, counterAccount }) => buildJournalLines(transaction, counterAccount));
+    const insertTransactions = requests.map(({ transaction }) => transaction);
+    
+    for (let i = 0; i < insertTransactions.length; i++) {
+      const userId = insertTransactions[i].userId;
+      const wallet = this.findWallet(userId);
+      if (!wallet) return undefined;
+      
+      const current = balances.get(userId) ?? parseFloat(wallet.balance.toString());
+      const next = toAmount(current + journals[i][0].amount);
+      if (next < 0) return undefined; // Prevent negative balance
+      balances.set(userId, next);
+    }
+    
+    return insertTransactions.map((insertTransaction, i) => {
+      const wallet = this.findWallet(insertTransaction.userId)!;
+      const updatedWallet = {
+        ...wallet,
+        balance: toAmount(parseFloat(wallet.balance.toString()) + journals[i][0].amount).toFixed(2)
+      };
+      this.wallets.set(wallet.id, updatedWallet);
+      
+      const id = this.transactionIdCounter++;
+      const transaction: Transaction = {
+        ...insertTransaction,
+        id,
+        createdAt: new Date(),
+        description: insertTransaction.description || null,
+        commissionAmount: insertTransaction.commissionAmount || null,
+        metadata: insertTransaction.metadata || null,
+        matchId: insertTransaction.matchId ?? null,
+        relatedTransactionId: insertTransaction.relatedTransactionId ?? null
+      };
+      this.transactions.set(id, transaction);
+      
+      this.writeJournalEntry(id, transaction.description, journals[i]);
+      return { wallet: updatedWallet, transaction };
+    });
+  }
+  
+  private findWallet(userId: number): Wallet | undefined {
+    return Array.from(this.wallets.values()).find(
+      (wallet) => wallet.userId === userId
+    );
+  }
+  
+  private writeJournalEntry(transactionId: number | null, description: string | null, lines: LedgerLine[]) {
+    const journalEntryId = this.journalEntryIdCounter++;
+    const now = new Date();
+    this.journalEntries.set(journalEntryId, {
+      id: journalEntryId,
+      transactionId,
+      description,
+      createdAt: now
+    });
+    
+    for (const line of lines) {
+      const id = this.ledgerEntryIdCounter++;
+      this.ledgerEntries.set(id, {
+        id,
+        journalEntryId,
+        account: line.account,
+        userId: line.userId,
+        amount: line.amount.toFixed(2),
+        createdAt: now
+      });
+    }
   }
   
   // Transaction methods
@@ -342,13 +961,19 @@ export class MemStorage implements IStorage {
       createdAt: now,
       description: insertTransaction.description || null,
       commissionAmount: insertTransaction.commissionAmount || null,
-      metadata: insertTransaction.metadata || null
+      metadata: insertTransaction.metadata || null,
+      matchId: insertTransaction.matchId ?? null,
+      relatedTransactionId: insertTransaction.relatedTransactionId ?? null
     };
     
     this.transactions.set(id, transaction);
     return transaction;
   }
   
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    return this.transactions.get(id);
+  }
+  
   async getUserTransactions(userId: number): Promise<Transaction[]> {
     return Array.from(this.transactions.values())
       .filter(transaction => transaction.userId === userId)
@@ -360,13 +985,33 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
   
+  async getMatchTransactions(matchId: number): Promise<Transaction[]> {
+    return Array.from(this.transactions.values())
+      .filter(transaction => transaction.matchId === matchId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
   async updateTransactionMetadata(id: number, metadata: any): Promise<Transaction | undefined> {
     const transaction = this.transactions.get(id);
     if (!transaction) return undefined;
     
     const updatedTransaction = { 
       ...transaction, 
-      metadata: { ...(transaction.metadata || {}), ...metadata } 
+      metadata: mergeMetadata(transaction.metadata, metadata)
+    };
+    
+    this.transactions.set(id, updatedTransaction);
+    return updatedTransaction;
+  }
+  
+  async updateTransactionStatus(id: number, status: string, change: TransactionStatusChange = {}): Promise<Transaction | undefined> {
+    const transaction = this.transactions.get(id);
+    if (!transaction || (change.from && transaction.status !== change.from)) return undefined;
+    
+    const updatedTransaction = {
+      ...transaction,
+      status,
+      metadata: recordStatusChange(transaction.metadata, status, change)
     };
     
     this.transactions.set(id, updatedTransaction);
@@ -403,6 +1048,10 @@ export class MemStorage implements IStorage {
     const match: GameMatch = { 
       ...insertMatch, 
       id, 
+      boardState: insertMatch.boardState ?? null,
+      mode: insertMatch.mode ?? "real_money",
+      botDifficulty: insertMatch.botDifficulty ?? null,
+      endReason: insertMatch.endReason ?? null,
       createdAt: now
     };
     this.gameMatches.set(id, match);
@@ -422,6 +1071,13 @@ export class MemStorage implements IStorage {
     return updatedMatch;
   }
   
+  async updateGameMatchStatus(id: number, from: string[], matchData: Partial<InsertGameMatch>): Promise<GameMatch | undefined> {
+    const match = this.gameMatches.get(id);
+    if (!match || !from.includes(match.status)) return undefined;
+    
+    return this.updateGameMatch(id, matchData);
+  }
+  
   async getActiveMatches(gameId: number): Promise<GameMatch[]> {
     return Array.from(this.gameMatches.values())
       .filter(match => match.gameId === gameId && 
@@ -429,6 +1085,29 @@ export class MemStorage implements IStorage {
       .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
   }
   
+  async getMatchesByStatus(status: string): Promise<GameMatch[]> {
+    return Array.from(this.gameMatches.values())
+      .filter(match => match.status === status)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getUserMatches(userId: number, query: MatchHistoryQuery): Promise<{ matches: GameMatch[]; total: number }> {
+    const matchIds = new Set(
+      Array.from(this.playerMatches.values())
+        .filter(playerMatch => playerMatch.userId === userId)
+        .map(playerMatch => playerMatch.matchId)
+    );
+    
+    const matches = Array.from(this.gameMatches.values())
+      .filter(match => matchIds.has(match.id) && (!query.status || match.status === query.status))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    
+    return {
+      matches: matches.slice(query.offset, query.offset + query.limit),
+      total: matches.length
+    };
+  }
+  
   // Player Match methods
   async addPlayerToMatch(insertPlayerMatch: InsertPlayerMatch): Promise<PlayerMatch> {
     const id = this.playerMatchIdCounter++;
@@ -456,683 +1135,2445 @@ export class MemStorage implements IStorage {
     return updatedPlayerMatch;
   }
   
-  // Waitlist methods
-  async addToWaitlist(insertWaitlist: InsertWaitlist): Promise<Waitlist> {
-    // Check if email already exists
-    const existingEmail = Array.from(this.waitlistEmails.values()).find(
-      (waitlistEntry) => waitlistEntry.email.toLowerCase() === insertWaitlist.email.toLowerCase()
+  // Match Result methods
+  async saveMatchResultReport(insertReport: InsertMatchResultReport): Promise<MatchResultReport> {
+    const existing = Array.from(this.matchResultReports.values()).find(
+      (report) => report.matchId === insertReport.matchId && report.userId === insertReport.userId
     );
     
-    if (existingEmail) {
-      return existingEmail;
-    }
-    
-    const id = this.waitlistIdCounter++;
-    const now = new Date();
-    const waitlistEntry: Waitlist = { 
-      ...insertWaitlist, 
-      id, 
-      createdAt: now 
+    const report: MatchResultReport = {
+      ...insertReport,
+      id: existing?.id ?? this.matchResultReportIdCounter++,
+      createdAt: new Date()
     };
-    this.waitlistEmails.set(id, waitlistEntry);
-    return waitlistEntry;
+    this.matchResultReports.set(report.id, report);
+    return report;
   }
   
-  // Game Subscription methods
-  async createGameSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
-    const id = this.subscriptionIdCounter++;
-    const now = new Date();
-    const subscription: Subscription = {
-      ...insertSubscription,
-      id,
-      createdAt: now
-    };
-    this.subscriptions.set(id, subscription);
-    
-    // Create daily rewards
-    const dailyRewardAmount = parseFloat(subscription.rewardAmount) / subscription.duration;
-    const rewards: InsertSubscriptionReward[] = [];
+  async getMatchResultReports(matchId: number): Promise<MatchResultReport[]> {
+    return Array.from(this.matchResultReports.values())
+      .filter(report => report.matchId === matchId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async settleGameMatch(
+    insertSettlement: InsertMatchSettlement,
+    from: string[],
+    matchData: Partial<InsertGameMatch>,
+    prize?: InsertTransaction
+  ): Promise<MatchSettlementResult | undefined> {
+    const match = this.gameMatches.get(insertSettlement.matchId);
+    if (!match || !from.includes(match.status)) return undefined;
+    const settled = Array.from(this.matchSettlements.values())
+      .some(settlement => settlement.matchId === insertSettlement.matchId);
+    if (settled) return undefined;
     
-    for (let day = 1; day <= subscription.duration; day++) {
-      const rewardDate = new Date(subscription.startDate);
-      rewardDate.setDate(rewardDate.getDate() + (day - 1));
-      
-      rewards.push({
-        subscriptionId: id,
-        userId: subscription.userId,
-        amount: dailyRewardAmount.toFixed(2),
-        day,
-        status: "pending"
-      });
-    }
+    const postings = prize ? this.applyPostings([{ transaction: prize }]) : [];
+    if (!postings) return undefined;
     
-    // Add all the daily rewards
-    await this.createSubscriptionRewards(rewards);
+    const id = this.matchSettlementIdCounter++;
+    const settlement: MatchSettlement = {
+      ...insertSettlement,
+      id,
+      decidedBy: insertSettlement.decidedBy ?? null,
+      reason: insertSettlement.reason ?? null,
+      createdAt: new Date()
+    };
+    this.matchSettlements.set(id, settlement);
     
-    return subscription;
+    const settledMatch = { ...match, ...matchData };
+    this.gameMatches.set(match.id, settledMatch);
+    return { match: settledMatch, settlement, prize: postings[0] };
   }
   
-  async getUserSubscriptions(userId: number): Promise<Subscription[]> {
-    return Array.from(this.subscriptions.values())
-      .filter(subscription => subscription.userId === userId)
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  async getMatchSettlement(matchId: number): Promise<MatchSettlement | undefined> {
+    return Array.from(this.matchSettlements.values()).find(
+      (settlement) => settlement.matchId === matchId
+    );
   }
   
-  async getActiveUserSubscriptions(userId: number): Promise<Subscription[]> {
-    const now = new Date();
-    return Array.from(this.subscriptions.values())
-      .filter(subscription => 
-        subscription.userId === userId && 
-        subscription.status === "active" &&
-        subscription.endDate > now
-      )
-      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  // Match Job methods
+  async createMatchJob(insertJob: InsertMatchJob): Promise<MatchJob> {
+    const id = this.matchJobIdCounter++;
+    const job: MatchJob = {
+      ...insertJob,
+      id,
+      status: insertJob.status ?? "pending",
+      payload: insertJob.payload ?? null,
+      attempts: insertJob.attempts ?? 0,
+      lastError: insertJob.lastError ?? null,
+      completedAt: insertJob.completedAt ?? null,
+      createdAt: new Date()
+    };
+    this.matchJobs.set(id, job);
+    return job;
   }
   
-  async getSubscriptionById(id: number): Promise<Subscription | undefined> {
-    return this.subscriptions.get(id);
+  async getMatchJobs(matchId: number): Promise<MatchJob[]> {
+    return Array.from(this.matchJobs.values())
+      .filter(job => job.matchId === matchId)
+      .sort((a, b) => a.id - b.id);
   }
   
-  async updateSubscriptionStatus(id: number, status: string): Promise<Subscription | undefined> {
-    const subscription = this.subscriptions.get(id);
-    if (!subscription) return undefined;
+  async getDueMatchJobs(now: Date, limit: number): Promise<MatchJob[]> {
+    return Array.from(this.matchJobs.values())
+      .filter(job => job.status === "pending" && job.runAt.getTime() <= now.getTime())
+      .sort((a, b) => a.runAt.getTime() - b.runAt.getTime() || a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async claimMatchJob(id: number): Promise<MatchJob | undefined> {
+    const job = this.matchJobs.get(id);
+    if (!job || job.status !== "pending") return undefined;
     
-    const updatedSubscription = { ...subscription, status };
-    this.subscriptions.set(id, updatedSubscription);
-    return updatedSubscription;
+    return this.updateMatchJob(id, { status: "running", attempts: job.attempts + 1 });
   }
   
-  // Subscription Reward methods
-  async createSubscriptionRewards(rewards: InsertSubscriptionReward[]): Promise<void> {
-    for (const insertReward of rewards) {
-      const id = this.subscriptionRewardIdCounter++;
-      const now = new Date();
-      const reward: SubscriptionReward = {
+  async updateMatchJob(id: number, jobData: Partial<InsertMatchJob>): Promise<MatchJob | undefined> {
+    const job = this.matchJobs.get(id);
+    if (!job) return undefined;
+    
+    const updatedJob = { ...job, ...jobData };
+    this.matchJobs.set(id, updatedJob);
+    return updatedJob;
+  }
+  
+  async cancelMatchJobs(matchId: number, types?: string[]): Promise<number> {
+    const pending = Array.from(this.matchJobs.values()).filter(job =>
+      job.matchId === matchId && job.status === "pending" && (!types || types.includes(job.type))
+    );
+    
+    for (const job of pending) {
+      this.matchJobs.set(job.id, { ...job, status: "cancelled", completedAt: new Date() });
+    }
+    return pending.length;
+  }
+  
+  async requeueRunningMatchJobs(): Promise<number> {
+    const running = Array.from(this.matchJobs.values()).filter(job => job.status === "running");
+    
+    for (const job of running) {
+      this.matchJobs.set(job.id, { ...job, status: "pending" });
+    }
+    return running.length;
+  }
+  
+  // Waitlist methods
+  async createWaitlistEntry(insertWaitlist: InsertWaitlist): Promise<Waitlist> {
+    const id = this.waitlistIdCounter++;
+    const now = new Date();
+    const waitlistEntry: Waitlist = { 
+      email: insertWaitlist.email,
+      token: insertWaitlist.token ?? null,
+      referralCode: insertWaitlist.referralCode ?? null,
+      referredById: insertWaitlist.referredById ?? null,
+      confirmationToken: insertWaitlist.confirmationToken ?? null,
+      confirmedAt: insertWaitlist.confirmedAt ?? null,
+      invitedAt: insertWaitlist.invitedAt ?? null,
+      id, 
+      createdAt: now 
+    };
+    this.waitlistEmails.set(id, waitlistEntry);
+    return waitlistEntry;
+  }
+  
+  async getWaitlistEntries(): Promise<Waitlist[]> {
+    return Array.from(this.waitlistEmails.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async getWaitlistEntryByEmail(email: string): Promise<Waitlist | undefined> {
+    return Array.from(this.waitlistEmails.values()).find(
+      (waitlistEntry) => waitlistEntry.email.toLowerCase() === email.toLowerCase()
+    );
+  }
+  
+  async getWaitlistEntryByToken(token: string): Promise<Waitlist | undefined> {
+    return Array.from(this.waitlistEmails.values()).find(waitlistEntry => waitlistEntry.token === token);
+  }
+  
+  async getWaitlistEntryByReferralCode(referralCode: string): Promise<Waitlist | undefined> {
+    return Array.from(this.waitlistEmails.values()).find(waitlistEntry => waitlistEntry.referralCode === referralCode);
+  }
+  
+  async getWaitlistEntryByConfirmationToken(confirmationToken: string): Promise<Waitlist | undefined> {
+    return Array.from(this.waitlistEmails.values()).find(waitlistEntry => waitlistEntry.confirmationToken === confirmationToken);
+  }
+  
+  async updateWaitlistEntry(id: number, entryData: Partial<InsertWaitlist>): Promise<Waitlist | undefined> {
+    const waitlistEntry = this.waitlistEmails.get(id);
+    if (!waitlistEntry) return undefined;
+    
+    const updatedEntry = { ...waitlistEntry, ...entryData };
+    this.waitlistEmails.set(id, updatedEntry);
+    return updatedEntry;
+  }
+  
+  async confirmWaitlistEntry(id: number, at: Date): Promise<Waitlist | undefined> {
+    const waitlistEntry = this.waitlistEmails.get(id);
+    if (!waitlistEntry || waitlistEntry.confirmedAt) return undefined;
+    
+    const confirmedEntry = { ...waitlistEntry, confirmedAt: at };
+    this.waitlistEmails.set(id, confirmedEntry);
+    return confirmedEntry;
+  }
+  
+  async getWaitlistConversions(): Promise<WaitlistConversion[]> {
+    const firstAt = (dates: Date[]) => dates.length > 0 ? new Date(Math.min(...dates.map(date => date.getTime()))) : null;
+    
+    return (await this.getWaitlistEntries()).map(waitlistEntry => {
+      const user = Array.from(this.users.values()).find(
+        (candidate) => candidate.email.toLowerCase() === waitlistEntry.email.toLowerCase()
+      );
+      if (!user) {
+        return { waitlistId: waitlistEntry.id, userId: null, registeredAt: null, firstDepositAt: null, firstMatchAt: null };
+      }
+      
+      const deposits = Array.from(this.transactions.values())
+        .filter(transaction => transaction.userId === user.id && transaction.type === "deposit" && transaction.status === "completed");
+      const matches = Array.from(this.playerMatches.values())
+        .filter(playerMatch => playerMatch.userId === user.id);
+      
+      return {
+        waitlistId: waitlistEntry.id,
+        userId: user.id,
+        registeredAt: user.createdAt,
+        firstDepositAt: firstAt(deposits.map(transaction => transaction.createdAt)),
+        firstMatchAt: firstAt(matches.map(playerMatch => playerMatch.createdAt))
+      };
+    });
+  }
+  
+  // Invite methods
+  async createInviteBatch(createdById: number | null, invites: InsertInviteCode[], at: Date): Promise<InviteBatchResult | undefined> {
+    const pending = invites.filter(invite => {
+      const waitlistEntry = invite.waitlistId ? this.waitlistEmails.get(invite.waitlistId) : undefined;
+      return !waitlistEntry?.invitedAt;
+    });
+    if (pending.length === 0) return undefined;
+    
+    const batch = { id: this.inviteBatchIdCounter++, size: pending.length, createdById, createdAt: at };
+    this.inviteBatches.set(batch.id, batch);
+    
+    const codes = pending.map(invite => {
+      const waitlistEntry = invite.waitlistId ? this.waitlistEmails.get(invite.waitlistId) : undefined;
+      if (waitlistEntry) this.waitlistEmails.set(waitlistEntry.id, { ...waitlistEntry, invitedAt: at });
+      
+      const inviteCode: InviteCode = {
+        id: this.inviteCodeIdCounter++,
+        code: invite.code,
+        batchId: batch.id,
+        waitlistId: invite.waitlistId ?? null,
+        email: invite.email,
+        usedAt: null,
+        usedById: null,
+        createdAt: at
+      };
+      this.inviteCodes.set(inviteCode.id, inviteCode);
+      return inviteCode;
+    });
+    
+    return { batch, codes };
+  }
+  
+  async getInviteBatches(): Promise<InviteBatchSummary[]> {
+    const codes = Array.from(this.inviteCodes.values());
+    return Array.from(this.inviteBatches.values())
+      .map(batch => ({ ...batch, used: codes.filter(code => code.batchId === batch.id && code.usedAt).length }))
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+  }
+  
+  async getInviteCodes(): Promise<InviteCode[]> {
+    return Array.from(this.inviteCodes.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async getInviteCodeByCode(code: string): Promise<InviteCode | undefined> {
+    return Array.from(this.inviteCodes.values()).find(inviteCode => inviteCode.code === code);
+  }
+  
+  async claimInviteCode(id: number, at: Date): Promise<InviteCode | undefined> {
+    const inviteCode = this.inviteCodes.get(id);
+    if (!inviteCode || inviteCode.usedAt) return undefined;
+    
+    const claimedCode = { ...inviteCode, usedAt: at };
+    this.inviteCodes.set(id, claimedCode);
+    return claimedCode;
+  }
+  
+  async updateInviteCode(id: number, codeData: Partial<Pick<InviteCode, "usedAt" | "usedById">>): Promise<InviteCode | undefined> {
+    const inviteCode = this.inviteCodes.get(id);
+    if (!inviteCode) return undefined;
+    
+    const updatedCode = { ...inviteCode, ...codeData };
+    this.inviteCodes.set(id, updatedCode);
+    return updatedCode;
+  }
+  
+  // Auth token methods
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const id = this.authTokenIdCounter++;
+    const authToken: AuthToken = { ...insertToken, id, usedAt: null, createdAt: new Date() };
+    this.authTokens.set(id, authToken);
+    return authToken;
+  }
+  
+  async getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined> {
+    return Array.from(this.authTokens.values()).find(authToken => authToken.tokenHash === tokenHash);
+  }
+  
+  async useAuthToken(id: number, at: Date): Promise<AuthToken | undefined> {
+    const authToken = this.authTokens.get(id);
+    if (!authToken || authToken.usedAt) return undefined;
+    
+    const usedToken = { ...authToken, usedAt: at };
+    this.authTokens.set(id, usedToken);
+    return usedToken;
+  }
+  
+  async revokeAuthTokens(userId: number, purpose: string, at: Date): Promise<void> {
+    for (const authToken of Array.from(this.authTokens.values())) {
+      if (authToken.userId === userId && authToken.purpose === purpose && !authToken.usedAt) {
+        this.authTokens.set(authToken.id, { ...authToken, usedAt: at });
+      }
+    }
+  }
+  
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    const sessions: Record<string, any> = await new Promise((resolve, reject) =>
+      this.sessionStore.all((error: any, all: Record<string, any>) => error ? reject(error) : resolve(all ?? {}))
+    );
+    const sessionIds = Object.keys(sessions)
+      .filter(sid => sid !== exceptSessionId && sessions[sid]?.passport?.user === userId);
+    
+    for (const sid of sessionIds) {
+      await new Promise<void>((resolve, reject) =>
+        this.sessionStore.destroy(sid, (error: any) => error ? reject(error) : resolve())
+      );
+    }
+    return sessionIds.length;
+  }
+  
+  // Chat methods
+  async ensureChatRoom(insertRoom: InsertChatRoom): Promise<ChatRoom> {
+    const existing = await this.getChatRoomByKey(insertRoom.key);
+    if (existing) return existing;
+    
+    const id = this.chatRoomIdCounter++;
+    const room: ChatRoom = { ...insertRoom, id, matchId: insertRoom.matchId ?? null, createdAt: new Date() };
+    this.chatRooms.set(id, room);
+    return room;
+  }
+  
+  async getChatRoomByKey(key: string): Promise<ChatRoom | undefined> {
+    return Array.from(this.chatRooms.values()).find(room => room.key === key);
+  }
+  
+  async addChatMember(roomId: number, userId: number): Promise<ChatMember> {
+    const existing = await this.getChatMember(roomId, userId);
+    if (existing) return existing;
+    
+    const roomMessageIds = Array.from(this.chatMessages.values())
+      .filter(message => message.roomId === roomId)
+      .map(message => message.id);
+    
+    const id = this.chatMemberIdCounter++;
+    const member: ChatMember = {
+      id,
+      roomId,
+      userId,
+      lastReadMessageId: roomMessageIds.length > 0 ? Math.max(...roomMessageIds) : null,
+      joinedAt: new Date()
+    };
+    this.chatMembers.set(id, member);
+    return member;
+  }
+  
+  async getChatMember(roomId: number, userId: number): Promise<ChatMember | undefined> {
+    return Array.from(this.chatMembers.values()).find(member => member.roomId === roomId && member.userId === userId);
+  }
+  
+  async getUserChatRooms(userId: number): Promise<ChatRoomSummary[]> {
+    const messages = Array.from(this.chatMessages.values());
+    
+    return Array.from(this.chatMembers.values())
+      .filter(member => member.userId === userId && this.chatRooms.has(member.roomId))
+      .map(member => ({
+        ...this.chatRooms.get(member.roomId)!,
+        unreadCount: messages.filter(message =>
+          message.roomId === member.roomId &&
+          message.id > (member.lastReadMessageId ?? 0) &&
+          message.senderId !== userId &&
+          !message.removedAt
+        ).length
+      }))
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const id = this.chatMessageIdCounter++;
+    const message: ChatMessage = { ...insertMessage, id, createdAt: new Date(), removedAt: null, removedBy: null };
+    this.chatMessages.set(id, message);
+    return message;
+  }
+  
+  async getChatMessages(roomId: number, query: ChatHistoryQuery): Promise<ChatMessage[]> {
+    return Array.from(this.chatMessages.values())
+      .filter(message =>
+        message.roomId === roomId && !message.removedAt && (query.before === undefined || message.id < query.before)
+      )
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit);
+  }
+  
+  async markChatRead(roomId: number, userId: number, messageId: number): Promise<ChatMember | undefined> {
+    const member = await this.getChatMember(roomId, userId);
+    if (!member) return undefined;
+    
+    const updatedMember = { ...member, lastReadMessageId: Math.max(member.lastReadMessageId ?? 0, messageId) };
+    this.chatMembers.set(member.id, updatedMember);
+    return updatedMember;
+  }
+  
+  async getChatRoom(id: number): Promise<ChatRoom | undefined> {
+    return this.chatRooms.get(id);
+  }
+  
+  async getChatMessage(id: number): Promise<ChatMessage | undefined> {
+    return this.chatMessages.get(id);
+  }
+  
+  async removeChatMessage(id: number, removedBy: number, at: Date): Promise<ChatMessage | undefined> {
+    const message = this.chatMessages.get(id);
+    if (!message || message.removedAt) return undefined;
+    
+    const removed = { ...message, removedAt: at, removedBy };
+    this.chatMessages.set(id, removed);
+    return removed;
+  }
+  
+  // Chat moderation methods
+  async createChatReport(insertReport: InsertChatReport): Promise<ChatReport | undefined> {
+    const alreadyReported = Array.from(this.chatReports.values()).some(report =>
+      report.messageId === insertReport.messageId && report.reporterId === insertReport.reporterId
+    );
+    if (alreadyReported) return undefined;
+    
+    const id = this.chatReportIdCounter++;
+    const report: ChatReport = {
+      ...insertReport,
+      id,
+      status: "pending",
+      reviewedBy: null,
+      reviewedAt: null,
+      resolution: null,
+      createdAt: new Date()
+    };
+    this.chatReports.set(id, report);
+    return report;
+  }
+  
+  async getChatReport(id: number): Promise<ChatReport | undefined> {
+    return this.chatReports.get(id);
+  }
+  
+  async getChatReports(status: ChatReportStatus): Promise<ChatReport[]> {
+    return Array.from(this.chatReports.values())
+      .filter(report => report.status === status)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async resolveChatReports(messageId: number, status: ChatReportStatus, reviewedBy: number, resolution: string, at: Date): Promise<ChatReport[]> {
+    const resolved: ChatReport[] = [];
+    for (const report of Array.from(this.chatReports.values())) {
+      if (report.messageId !== messageId || report.status !== "pending") continue;
+      
+      const updatedReport = { ...report, status, reviewedBy, reviewedAt: at, resolution };
+      this.chatReports.set(report.id, updatedReport);
+      resolved.push(updatedReport);
+    }
+    return resolved;
+  }
+  
+  async createChatSanction(insertSanction: InsertChatSanction): Promise<ChatSanction> {
+    const id = this.chatSanctionIdCounter++;
+    const sanction: ChatSanction = {
+      ...insertSanction,
+      id,
+      roomId: insertSanction.roomId ?? null,
+      reason: insertSanction.reason ?? null,
+      createdBy: insertSanction.createdBy ?? null,
+      expiresAt: insertSanction.expiresAt ?? null,
+      createdAt: new Date(),
+      liftedAt: null,
+      liftedBy: null
+    };
+    this.chatSanctions.set(id, sanction);
+    return sanction;
+  }
+  
+  async getChatSanction(id: number): Promise<ChatSanction | undefined> {
+    return this.chatSanctions.get(id);
+  }
+  
+  async getActiveChatSanctions(at: Date, userId?: number): Promise<ChatSanction[]> {
+    return Array.from(this.chatSanctions.values())
+      .filter(sanction =>
+        (userId === undefined || sanction.userId === userId) &&
+        !sanction.liftedAt &&
+        (!sanction.expiresAt || sanction.expiresAt > at)
+      )
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async liftChatSanction(id: number, liftedBy: number, at: Date): Promise<ChatSanction | undefined> {
+    const sanction = this.chatSanctions.get(id);
+    if (!sanction || sanction.liftedAt) return undefined;
+    
+    const lifted = { ...sanction, liftedAt: at, liftedBy };
+    this.chatSanctions.set(id, lifted);
+    return lifted;
+  }
+  
+  // Friend methods
+  async createFriendship(insertFriendship: InsertFriendship): Promise<Friendship | undefined> {
+    if (await this.getFriendshipByPair(insertFriendship.pairKey)) return undefined;
+    
+    const id = this.friendshipIdCounter++;
+    const friendship: Friendship = {
+      ...insertFriendship,
+      id,
+      status: "pending",
+      createdAt: new Date(),
+      respondedAt: null
+    };
+    this.friendships.set(id, friendship);
+    return friendship;
+  }
+  
+  async getFriendship(id: number): Promise<Friendship | undefined> {
+    return this.friendships.get(id);
+  }
+  
+  async getFriendshipByPair(pairKey: string): Promise<Friendship | undefined> {
+    return Array.from(this.friendships.values()).find(friendship => friendship.pairKey === pairKey);
+  }
+  
+  async getUserFriendships(userId: number): Promise<Friendship[]> {
+    return Array.from(this.friendships.values())
+      .filter(friendship =>
+        (friendship.requesterId === userId || friendship.addresseeId === userId) &&
+        (friendship.status === "pending" || friendship.status === "accepted")
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async updateFriendshipStatus(id: number, from: FriendshipStatus, status: FriendshipStatus, at: Date): Promise<Friendship | undefined> {
+    const friendship = this.friendships.get(id);
+    if (!friendship || friendship.status !== from) return undefined;
+    
+    const updated = { ...friendship, status, respondedAt: at };
+    this.friendships.set(id, updated);
+    return updated;
+  }
+  
+  async renewFriendship(id: number, requesterId: number, addresseeId: number, at: Date): Promise<Friendship | undefined> {
+    const friendship = this.friendships.get(id);
+    if (!friendship || (friendship.status !== "declined" && friendship.status !== "removed")) return undefined;
+    
+    const renewed = { ...friendship, requesterId, addresseeId, status: "pending", createdAt: at, respondedAt: null };
+    this.friendships.set(id, renewed);
+    return renewed;
+  }
+  
+  async createUserBlock(blockerId: number, blockedId: number): Promise<UserBlock> {
+    const id = this.userBlockIdCounter++;
+    const block: UserBlock = { id, blockerId, blockedId, createdAt: new Date(), removedAt: null };
+    this.userBlocks.set(id, block);
+    return block;
+  }
+  
+  async getUserBlock(blockerId: number, blockedId: number): Promise<UserBlock | undefined> {
+    return Array.from(this.userBlocks.values())
+      .find(block => block.blockerId === blockerId && block.blockedId === blockedId && !block.removedAt);
+  }
+  
+  async getUserBlocks(blockerId: number): Promise<UserBlock[]> {
+    return Array.from(this.userBlocks.values())
+      .filter(block => block.blockerId === blockerId && !block.removedAt)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async removeUserBlock(id: number, at: Date): Promise<UserBlock | undefined> {
+    const block = this.userBlocks.get(id);
+    if (!block || block.removedAt) return undefined;
+    
+    const removed = { ...block, removedAt: at };
+    this.userBlocks.set(id, removed);
+    return removed;
+  }
+  
+  // Notification methods
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const id = this.notificationIdCounter++;
+    const notification: Notification = {
+      ...insertNotification,
+      id,
+      link: insertNotification.link ?? null,
+      createdAt: new Date(),
+      readAt: null
+    };
+    this.notifications.set(id, notification);
+    return notification;
+  }
+  
+  async getNotifications(userId: number, query: NotificationQuery): Promise<Notification[]> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && (query.before === undefined || notification.id < query.before))
+      .sort((a, b) => b.id - a.id)
+      .slice(0, query.limit);
+  }
+  
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    return Array.from(this.notifications.values())
+      .filter(notification => notification.userId === userId && !notification.readAt)
+      .length;
+  }
+  
+  async markNotificationRead(id: number, userId: number, at: Date): Promise<Notification | undefined> {
+    const notification = this.notifications.get(id);
+    if (!notification || notification.userId !== userId || notification.readAt) return undefined;
+    
+    const read = { ...notification, readAt: at };
+    this.notifications.set(id, read);
+    return read;
+  }
+  
+  async markAllNotificationsRead(userId: number, at: Date): Promise<number> {
+    let count = 0;
+    for (const notification of Array.from(this.notifications.values())) {
+      if (notification.userId !== userId || notification.readAt) continue;
+      
+      this.notifications.set(notification.id, { ...notification, readAt: at });
+      count++;
+    }
+    return count;
+  }
+  
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const id = this.auditLogIdCounter++;
+    const auditLogEntry: AuditLogEntry = {
+      id,
+      actorId: entry.actorId ?? null,
+      action: entry.action,
+      entityType: entry.entityType ?? null,
+      entityId: entry.entityId ?? null,
+      before: entry.before ?? null,
+      after: entry.after ?? null,
+      ip: entry.ip ?? null,
+      createdAt: new Date()
+    };
+    this.auditLog.set(id, auditLogEntry);
+    return auditLogEntry;
+  }
+  
+  async getAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const entries = Array.from(this.auditLog.values())
+      .filter(entry =>
+        (query.actorId === undefined || entry.actorId === query.actorId) &&
+        (!query.action || entry.action === query.action || entry.action.startsWith(`${query.action}.`)) &&
+        (!query.entityType || entry.entityType === query.entityType) &&
+        (!query.entityId || entry.entityId === query.entityId) &&
+        (!query.from || entry.createdAt >= query.from) &&
+        (!query.to || entry.createdAt <= query.to)
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime() || b.id - a.id);
+    
+    return {
+      entries: entries.slice(query.offset, query.offset + query.limit),
+      total: entries.length
+    };
+  }
+  
+  // Subscription Plan methods
+  async getSubscriptionPlans(includeInactive: boolean = false): Promise<SubscriptionPlan[]> {
+    return Array.from(this.subscriptionPlans.values())
+      .filter(plan => includeInactive || plan.isActive)
+      .sort((a, b) => a.sortOrder - b.sortOrder || a.id - b.id);
+  }
+  
+  async getSubscriptionPlan(id: number): Promise<SubscriptionPlan | undefined> {
+    return this.subscriptionPlans.get(id);
+  }
+  
+  async getSubscriptionPlanBySlug(slug: string): Promise<SubscriptionPlan | undefined> {
+    return Array.from(this.subscriptionPlans.values()).find(plan => plan.slug === slug);
+  }
+  
+  async createSubscriptionPlan(insertPlan: InsertSubscriptionPlan): Promise<SubscriptionPlan> {
+    const id = this.subscriptionPlanIdCounter++;
+    const now = new Date();
+    const plan: SubscriptionPlan = {
+      ...insertPlan,
+      id,
+      description: insertPlan.description ?? null,
+      commissionDiscount: insertPlan.commissionDiscount ?? "25",
+      supportTier: insertPlan.supportTier ?? "standard",
+      features: insertPlan.features ?? null,
+      isPopular: insertPlan.isPopular ?? false,
+      isActive: insertPlan.isActive ?? true,
+      sortOrder: insertPlan.sortOrder ?? 0,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.subscriptionPlans.set(id, plan);
+    return plan;
+  }
+  
+  async updateSubscriptionPlan(id: number, planData: Partial<InsertSubscriptionPlan>): Promise<SubscriptionPlan | undefined> {
+    const plan = this.subscriptionPlans.get(id);
+    if (!plan) return undefined;
+    
+    const updatedPlan = { ...plan, ...planData, updatedAt: new Date() };
+    this.subscriptionPlans.set(id, updatedPlan);
+    return updatedPlan;
+  }
+  
+  // Game Subscription methods
+  async createGameSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const id = this.subscriptionIdCounter++;
+    const now = new Date();
+    const subscription: Subscription = {
+      ...insertSubscription,
+      id,
+      planId: insertSubscription.planId ?? null,
+      status: insertSubscription.status ?? "active",
+      commissionDiscount: insertSubscription.commissionDiscount ?? "0",
+      autoRenew: insertSubscription.autoRenew ?? false,
+      cancelAtPeriodEnd: insertSubscription.cancelAtPeriodEnd ?? false,
+      cancelledAt: insertSubscription.cancelledAt ?? null,
+      renewedFromId: insertSubscription.renewedFromId ?? null,
+      upgradedFromId: insertSubscription.upgradedFromId ?? null,
+      createdAt: now
+    };
+    this.subscriptions.set(id, subscription);
+    return subscription;
+  }
+  
+  async getUserSubscriptions(userId: number): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => subscription.userId === userId)
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getActiveUserSubscriptions(userId: number): Promise<Subscription[]> {
+    const now = new Date();
+    return Array.from(this.subscriptions.values())
+      .filter(subscription => 
+        subscription.userId === userId && 
+        subscription.status === "active" &&
+        subscription.endDate > now
+      )
+      .sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+  }
+  
+  async getSubscriptionById(id: number): Promise<Subscription | undefined> {
+    return this.subscriptions.get(id);
+  }
+  
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values()).sort((a, b) => a.id - b.id);
+  }
+  
+  async updateSubscriptionStatus(id: number, status: string): Promise<Subscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription) return undefined;
+    
+    const updatedSubscription = { ...subscription, status };
+    this.subscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+  
+  async updateGameSubscription(id: number, subscriptionData: Partial<InsertSubscription>, from?: string): Promise<Subscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription || (from && subscription.status !== from)) return undefined;
+    
+    const updatedSubscription = { ...subscription, ...subscriptionData };
+    this.subscriptions.set(id, updatedSubscription);
+    return updatedSubscription;
+  }
+  
+  async startSubscription(request: SubscriptionStartRequest): Promise<SubscriptionStart | undefined> {
+    const renewed = request.renews !== undefined ? this.subscriptions.get(request.renews) : undefined;
+    if (request.renews !== undefined && (!renewed?.autoRenew || renewed.cancelAtPeriodEnd)) return undefined;
+    const upgraded = request.upgrades ? this.subscriptions.get(request.upgrades.id) : undefined;
+    if (request.upgrades && upgraded?.status !== "active") return undefined;
+    
+    const postings = request.charge ? this.applyPostings([{ transaction: request.charge }]) : [];
+    if (!postings) return undefined;
+    
+    if (renewed) {
+      this.subscriptions.set(renewed.id, { ...renewed, autoRenew: false });
+    }
+    if (upgraded && request.upgrades) {
+      const { at } = request.upgrades;
+      this.subscriptions.set(upgraded.id, { ...upgraded, status: "upgraded", endDate: at, autoRenew: false });
+      await this.endSubscriptionEntitlements(upgraded.id, at);
+      await this.forfeitSubscriptionRewards(upgraded.id, at);
+    }
+    
+    const subscription = await this.createGameSubscription(request.subscription);
+    const granted = await this.createEntitlements(request.entitlements.map(entitlement => ({
+      ...entitlement,
+      subscriptionId: subscription.id
+    })));
+    await this.createSubscriptionRewards(request.rewards.map(reward => ({ ...reward, subscriptionId: subscription.id })));
+    const rewards = Array.from(this.subscriptionRewards.values())
+      .filter(reward => reward.subscriptionId === subscription.id)
+      .sort((a, b) => a.day - b.day);
+    
+    return { subscription, entitlements: granted, rewards, charge: postings[0] };
+  }
+  
+  async getSubscriptionsDueForRenewal(asOf: Date): Promise<Subscription[]> {
+    return Array.from(this.subscriptions.values())
+      .filter(subscription =>
+        subscription.autoRenew &&
+        !subscription.cancelAtPeriodEnd &&
+        (subscription.status === "active" || subscription.status === "completed") &&
+        subscription.endDate <= asOf
+      )
+      .sort((a, b) => a.endDate.getTime() - b.endDate.getTime());
+  }
+  
+  async claimSubscriptionRenewal(id: number): Promise<Subscription | undefined> {
+    const subscription = this.subscriptions.get(id);
+    if (!subscription?.autoRenew || subscription.cancelAtPeriodEnd) return undefined;
+    
+    const claimedSubscription = { ...subscription, autoRenew: false };
+    this.subscriptions.set(id, claimedSubscription);
+    return claimedSubscription;
+  }
+  
+  // Subscription Reward methods
+  async createSubscriptionRewards(rewards: InsertSubscriptionReward[]): Promise<void> {
+    for (const insertReward of rewards) {
+      const id = this.subscriptionRewardIdCounter++;
+      const now = new Date();
+      const reward: SubscriptionReward = {
         ...insertReward,
         id,
+        transactionId: null,
         createdAt: now
       };
-      this.subscriptionRewards.set(id, reward);
+      this.subscriptionRewards.set(id, reward);
+    }
+  }
+  
+  async getUserSubscriptionRewards(userId: number): Promise<SubscriptionReward[]> {
+    return Array.from(this.subscriptionRewards.values())
+      .filter(reward => reward.userId === userId)
+      .sort((a, b) => a.day - b.day);
+  }
+  
+  async getPendingSubscriptionRewards(userId: number): Promise<SubscriptionReward[]> {
+    return Array.from(this.subscriptionRewards.values())
+      .filter(reward => reward.userId === userId && reward.status === "pending")
+      .sort((a, b) => a.day - b.day);
+  }
+  
+
+  
+  async updateRewardStatus(id: number, status: string, paidAt?: Date): Promise<SubscriptionReward | undefined> {
+    const reward = this.subscriptionRewards.get(id);
+    if (!reward) return undefined;
+    
+    const updatedReward = { 
+      ...reward, 
+      status, 
+      paidAt: paidAt || (status === "paid" ? new Date() : reward.paidAt) 
+    };
+    
+    this.subscriptionRewards.set(id, updatedReward);
+    return updatedReward;
+  }
+  
+  async getDueSubscriptionRewards(asOf: Date, limit: number): Promise<DueSubscriptionReward[]> {
+    const due: DueSubscriptionReward[] = [];
+    for (const reward of Array.from(this.subscriptionRewards.values())) {
+      const subscription = this.subscriptions.get(reward.subscriptionId);
+      if (reward.status !== "pending" || !subscription) continue;
+      
+      const dueAt = rewardDueAt(subscription.startDate, reward.day);
+      if (dueAt <= asOf) due.push({ ...reward, dueAt });
+    }
+    
+    return due
+      .sort((a, b) => a.dueAt.getTime() - b.dueAt.getTime() || a.id - b.id)
+      .slice(0, limit);
+  }
+  
+  async paySubscriptionReward(id: number, insertTransaction: InsertTransaction): Promise<SubscriptionRewardPayout | undefined> {
+    const reward = this.subscriptionRewards.get(id);
+    if (!reward || reward.status !== "pending") return undefined;
+    
+    const postings = this.applyPostings([{ transaction: insertTransaction }]);
+    if (!postings) return undefined;
+    
+    const paidReward = { ...reward, status: "paid", paidAt: new Date(), transactionId: postings[0].transaction.id };
+    this.subscriptionRewards.set(id, paidReward);
+    return { ...postings[0], reward: paidReward };
+  }
+  
+  async forfeitSubscriptionReward(id: number): Promise<SubscriptionReward | undefined> {
+    const reward = this.subscriptionRewards.get(id);
+    if (!reward || reward.status !== "pending") return undefined;
+    
+    const forfeitedReward = { ...reward, status: "forfeited" };
+    this.subscriptionRewards.set(id, forfeitedReward);
+    return forfeitedReward;
+  }
+  
+  async forfeitSubscriptionRewards(subscriptionId: number, dueAfter: Date): Promise<SubscriptionReward[]> {
+    const subscription = this.subscriptions.get(subscriptionId);
+    if (!subscription) return [];
+    
+    const forfeited: SubscriptionReward[] = [];
+    for (const reward of Array.from(this.subscriptionRewards.values())) {
+      if (reward.subscriptionId !== subscriptionId || reward.status !== "pending") continue;
+      if (rewardDueAt(subscription.startDate, reward.day) <= dueAfter) continue;
+      
+      const forfeitedReward = { ...reward, status: "forfeited" };
+      this.subscriptionRewards.set(reward.id, forfeitedReward);
+      forfeited.push(forfeitedReward);
+    }
+    return forfeited.sort((a, b) => a.day - b.day);
+  }
+  
+  async getFinishedSubscriptions(asOf: Date): Promise<Subscription[]> {
+    const rewards = Array.from(this.subscriptionRewards.values());
+    return Array.from(this.subscriptions.values())
+      .filter(subscription =>
+        subscription.status === "active" &&
+        subscription.endDate <= asOf &&
+        !rewards.some(reward => reward.subscriptionId === subscription.id && reward.status === "pending")
+      )
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  // Entitlement methods
+  async createEntitlements(insertEntitlements: InsertEntitlement[]): Promise<Entitlement[]> {
+    return insertEntitlements.map(insertEntitlement => {
+      const id = this.entitlementIdCounter++;
+      const entitlement: Entitlement = {
+        ...insertEntitlement,
+        id,
+        subscriptionId: insertEntitlement.subscriptionId ?? null,
+        revokedAt: null,
+        createdAt: new Date()
+      };
+      this.entitlements.set(id, entitlement);
+      return entitlement;
+    });
+  }
+  
+  async getUserEntitlements(userId: number): Promise<Entitlement[]> {
+    return Array.from(this.entitlements.values())
+      .filter(entitlement => entitlement.userId === userId)
+      .sort((a, b) => b.startsAt.getTime() - a.startsAt.getTime() || b.id - a.id);
+  }
+  
+  async getActiveEntitlements(userId: number, at: Date): Promise<Entitlement[]> {
+    return (await this.getUserEntitlements(userId)).filter(entitlement =>
+      entitlement.startsAt <= at && entitlement.endsAt > at && !entitlement.revokedAt
+    );
+  }
+  
+  async getSubscriptionEntitlements(subscriptionId: number): Promise<Entitlement[]> {
+    return Array.from(this.entitlements.values())
+      .filter(entitlement => entitlement.subscriptionId === subscriptionId)
+      .sort((a, b) => a.id - b.id);
+  }
+  
+  async endSubscriptionEntitlements(subscriptionId: number, at: Date): Promise<Entitlement[]> {
+    const ended: Entitlement[] = [];
+    for (const entitlement of await this.getSubscriptionEntitlements(subscriptionId)) {
+      if (entitlement.endsAt <= at) continue;
+      
+      const endedEntitlement = { ...entitlement, endsAt: at };
+      this.entitlements.set(entitlement.id, endedEntitlement);
+      ended.push(endedEntitlement);
+    }
+    return ended;
+  }
+  
+  // Seed initial game data
+  private seedGames() {
+    initialGames.forEach(game => {
+      this.createGame(game);
+    });
+  }
+  
+  private seedSubscriptionPlans() {
+    initialSubscriptionPlans.forEach(plan => {
+      this.createSubscriptionPlan(plan);
+    });
+  }
+}
+
+export class DatabaseStorage implements IStorage {
+  private db: Database;
+  
+  sessionStore: any; // Using any for session.SessionStore to fix type issue
+
+  constructor(connection: DatabaseConnection) {
+    this.db = connection.db;
+    
+    this.sessionStore = new PostgresSessionStore({
+      pool: connection.pool,
+      createTableIfMissing: true
+    });
+    
+    // Add the initial games and subscription plans on an empty database
+    this.seedGames().catch(error => {
+      console.error("Error seeding games:", error);
+    });
+    this.seedSubscriptionPlans().catch(error => {
+      console.error("Error seeding subscription plans:", error);
+    });
+  }
+
+  // User methods
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users).where(eq(users.id, id));
+    return user;
+  }
+
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users)
+      .where(sql`lower(${users.username}) = lower(${username})`);
+    return user;
+  }
+  
+  async getUserByEmail(email: string): Promise<User | undefined> {
+    const [user] = await this.db.select().from(users)
+      .where(sql`lower(${users.email}) = lower(${email})`);
+    return user;
+  }
+  
+  async getAllUsers(): Promise<User[]> {
+    return this.db.select().from(users).orderBy(asc(users.id));
+  }
+
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await this.db.insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  async updateUser(id: number, userData: Partial<InsertUser>): Promise<User | undefined> {
+    if (Object.keys(userData).length === 0) return this.getUser(id);
+    
+    const [user] = await this.db.update(users).set(userData).where(eq(users.id, id)).returning();
+    return user;
+  }
+  
+
+  
+  async generateReferralCode(userId: number): Promise<User | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+    
+    if (user.referralCode) {
+      return user; // User already has a referral code
+    }
+    
+    // Generate a unique referral code based on username and random characters
+    const usernamePrefix = user.username.slice(0, 4).toUpperCase();
+    const randomChars = Math.random().toString(36).substring(2, 6).toUpperCase();
+    
+    return this.updateUser(userId, { referralCode: `${usernamePrefix}-${randomChars}` });
+  }
+  
+  async updateLastLogin(userId: number): Promise<User | undefined> {
+    const user = await this.getUser(userId);
+    if (!user) return undefined;
+    
+    const now = new Date();
+    let dailyStreak = user.dailyStreak || 0;
+    
+    // Check if this is a daily consecutive login
+    if (user.lastLoginDate) {
+      const dayDifference = Math.floor((now.getTime() - user.lastLoginDate.getTime()) / (1000 * 60 * 60 * 24));
+      
+      if (dayDifference === 1) {
+        // Consecutive day login
+        dailyStreak += 1;
+      } else if (dayDifference > 1) {
+        // Streak broken
+        dailyStreak = 1;
+      }
+      // If same day login, keep streak the same
+    } else {
+      // First login
+      dailyStreak = 1;
+    }
+    
+    return this.updateUser(userId, { lastLoginDate: now, dailyStreak });
+  }
+  
+  async addRewardPoints(userId: number, points: number): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ rewardPoints: sql`coalesce(${users.rewardPoints}, 0) + ${points}` })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
+  async redeemRewardPoints(userId: number, points: number, insertTransaction: InsertTransaction): Promise<RewardRedemption | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        // Only deducts while the user still has the points, so two redemptions can't spend them twice
+        const [user] = await tx.update(users)
+          .set({ rewardPoints: sql`coalesce(${users.rewardPoints}, 0) - ${points}` })
+          .where(and(eq(users.id, userId), sql`coalesce(${users.rewardPoints}, 0) >= ${points}`))
+          .returning();
+        if (!user) return undefined;
+        
+        const posting = await this.postInTransaction(tx, { transaction: insertTransaction });
+        if (!posting) tx.rollback();
+        
+        return { ...posting!, user };
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+  
+  async grantUserRole(userId: number, role: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ roles: sql`case when ${role} = any(${users.roles}) then ${users.roles} else array_append(${users.roles}, ${role}) end` })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
+  async revokeUserRole(userId: number, role: string): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ roles: sql`array_remove(${users.roles}, ${role})` })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
+  async markEmailVerified(userId: number, at: Date): Promise<User | undefined> {
+    const [user] = await this.db.update(users)
+      .set({ emailVerifiedAt: sql`coalesce(${users.emailVerifiedAt}, ${at})` })
+      .where(eq(users.id, userId))
+      .returning();
+    return user;
+  }
+  
+  async getReferrals(referrerId: number): Promise<User[]> {
+    return this.db.select().from(users)
+      .where(eq(users.referredBy, referrerId))
+      .orderBy(desc(users.createdAt));
+  }
+  
+  // Wallet methods
+  async getWallet(userId: number): Promise<Wallet | undefined> {
+    const [wallet] = await this.db.select().from(wallets).where(eq(wallets.userId, userId));
+    return wallet;
+  }
+  
+  async createWallet(insertWallet: InsertWallet): Promise<Wallet> {
+    const openingBalance = toAmount(parseFloat(insertWallet.balance?.toString() || "0"));
+    
+    return this.db.transaction(async (tx) => {
+      const [wallet] = await tx.insert(wallets)
+        .values({ ...insertWallet, balance: openingBalance.toFixed(2) })
+        .returning();
+      
+      // Keep the journal in step with a non-zero opening balance
+      if (openingBalance !== 0) {
+        await this.writeJournalEntry(tx, null, "Opening balance", [
+          { account: walletAccount(wallet.userId), userId: wallet.userId, amount: openingBalance },
+          { account: counterAccountFor("opening_balance"), userId: null, amount: -openingBalance }
+        ]);
+      }
+      
+      return wallet;
+    });
+  }
+  
+  // Ledger methods
+  async postWalletTransaction(insertTransaction: InsertTransaction): Promise<WalletPosting | undefined> {
+    const postings = await this.postWalletTransactions([insertTransaction]);
+    return postings?.[0];
+  }
+  
+  async postWalletTransactions(insertTransactions: InsertTransaction[]): Promise<WalletPosting[] | undefined> {
+    return this.applyPostings(insertTransactions.map(transaction => ({ transaction })));
+  }
+  
+  // Withdrawal methods
+  async holdWithdrawal(insertTransaction: InsertTransaction): Promise<WalletPosting | undefined> {
+    const postings = await this.applyPostings([{ transaction: insertTransaction, counterAccount: WITHDRAWAL_HOLD_ACCOUNT }]);
+    return postings?.[0];
+  }
+  
+  async settleWithdrawal(id: number, settlement: { payoutReference: string; processedBy: number }): Promise<Transaction | undefined> {
+    return this.db.transaction(async (tx) => {
+      const transaction = await this.lockPendingTransaction(tx, id, "withdrawal");
+      if (!transaction) return undefined;
+      
+      const [updatedTransaction] = await tx.update(transactions)
+        .set({
+          status: "completed",
+          metadata: recordStatusChange(transaction.metadata, "completed", {
+            processedBy: settlement.processedBy,
+            metadata: { payoutReference: settlement.payoutReference }
+          })
+        })
+        .where(eq(transactions.id, id))
+        .returning();
+      
+      const heldAmount = Math.abs(parseFloat(transaction.amount));
+      await this.writeJournalEntry(tx, id, `Withdrawal paid out (Ref: ${settlement.payoutReference})`, buildSettlementLines(heldAmount));
+      
+      return updatedTransaction;
+    });
+  }
+  
+  async releaseWithdrawal(id: number, release: { reason: string; processedBy: number }): Promise<WalletPosting | undefined> {
+    return this.db.transaction(async (tx) => {
+      const transaction = await this.lockPendingTransaction(tx, id, "withdrawal");
+      if (!transaction) return undefined;
+      
+      const heldAmount = Math.abs(parseFloat(transaction.amount));
+      const [wallet] = await tx.update(wallets)
+        .set({ balance: sql`${wallets.balance} + ${heldAmount}` })
+        .where(eq(wallets.userId, transaction.userId))
+        .returning();
+      if (!wallet) return undefined;
+      
+      const [updatedTransaction] = await tx.update(transactions)
+        .set({
+          status: "rejected",
+          metadata: recordStatusChange(transaction.metadata, "rejected", release)
+        })
+        .where(eq(transactions.id, id))
+        .returning();
+      
+      await this.writeJournalEntry(tx, id, `Withdrawal rejected: ${release.reason}`, buildReleaseLines(transaction.userId, heldAmount));
+      
+      return { wallet, transaction: updatedTransaction };
+    });
+  }
+  
+  // Deposit methods
+  async approveDeposit(id: number, approval: { processedBy: number }): Promise<WalletPosting | undefined> {
+    return this.db.transaction(async (tx) => {
+      const transaction = await this.lockPendingTransaction(tx, id, "deposit");
+      if (!transaction) return undefined;
+      
+      const lines = buildJournalLines(transaction);
+      const [wallet] = await tx.update(wallets)
+        .set({ balance: sql`${wallets.balance} + ${lines[0].amount}` })
+        .where(eq(wallets.userId, transaction.userId))
+        .returning();
+      if (!wallet) return undefined;
+      
+      const [updatedTransaction] = await tx.update(transactions)
+        .set({
+          status: "completed",
+          metadata: recordStatusChange(transaction.metadata, "completed", approval)
+        })
+        .where(eq(transactions.id, id))
+        .returning();
+      
+      await this.writeJournalEntry(tx, id, "Deposit approved", lines);
+      
+      return { wallet, transaction: updatedTransaction };
+    });
+  }
+  
+  // Row lock so two admins cannot process the same pending request twice
+  private async lockPendingTransaction(tx: DatabaseTransaction, id: number, type: string): Promise<Transaction | undefined> {
+    const [transaction] = await tx.select().from(transactions)
+      .where(and(
+        eq(transactions.id, id),
+        eq(transactions.type, type),
+        eq(transactions.status, "pending")
+      ))
+      .for("update");
+    return transaction;
+  }
+  
+  private async applyPostings(requests: PostingRequest[]): Promise<WalletPosting[] | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const postings: WalletPosting[] = [];
+        
+        for (const request of requests) {
+          const posting = await this.postInTransaction(tx, request);
+          if (!posting) {
+            tx.rollback(); // Missing wallet or insufficient funds
+          }
+          postings.push(posting!);
+        }
+        
+        return postings;
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+  
+  // Post one transaction inside an open database transaction. Undefined if the
+  // wallet is missing or would go negative; the caller rolls back.
+  private async postInTransaction(tx: DatabaseTransaction, { transaction: insertTransaction, counterAccount }: PostingRequest): Promise<WalletPosting | undefined> {
+    const lines = buildJournalLines(insertTransaction, counterAccount);
+    const amount = lines[0].amount;
+    
+    // Conditional update takes the row lock, so concurrent debits cannot overdraw
+    const [wallet] = await tx.update(wallets)
+      .set({ balance: sql`${wallets.balance} + ${amount}` })
+      .where(and(
+        eq(wallets.userId, insertTransaction.userId),
+        sql`${wallets.balance} + ${amount} >= 0`
+      ))
+      .returning();
+    if (!wallet) return undefined;
+    
+    const [transaction] = await tx.insert(transactions).values(insertTransaction).returning();
+    await this.writeJournalEntry(tx, transaction.id, transaction.description, lines);
+    
+    return { wallet, transaction };
+  }
+  
+  async getWalletLedger(userId: number): Promise<LedgerEntry[]> {
+    return this.db.select().from(ledgerEntries)
+      .where(eq(ledgerEntries.account, walletAccount(userId)))
+      .orderBy(desc(ledgerEntries.id));
+  }
+  
+  async reconcileWallets(): Promise<WalletReconciliation[]> {
+    const rows = await this.db.select({
+      userId: wallets.userId,
+      walletBalance: wallets.balance,
+      ledgerBalance: sql<string>`coalesce(sum(${ledgerEntries.amount}), 0)`
+    })
+      .from(wallets)
+      .leftJoin(ledgerEntries, eq(ledgerEntries.account, sql`'wallet:' || ${wallets.userId}`))
+      .groupBy(wallets.id)
+      .orderBy(asc(wallets.userId));
+    
+    return rows.map(row => {
+      const walletBalance = parseFloat(row.walletBalance);
+      const ledgerBalance = toAmount(parseFloat(row.ledgerBalance));
+      return {
+        userId: row.userId,
+        walletBalance,
+        ledgerBalance,
+        difference: toAmount(walletBalance - ledgerBalance)
+      };
+    });
+  }
+  
+  private async writeJournalEntry(
+    tx: DatabaseTransaction,
+    transactionId: number | null,
+    description: string | null,
+    lines: LedgerLine[]
+  ) {
+    const [journalEntry] = await tx.insert(journalEntries)
+      .values({ transactionId, description })
+      .returning();
+    
+    await tx.insert(ledgerEntries).values(lines.map(line => ({
+      journalEntryId: journalEntry.id,
+      account: line.account,
+      userId: line.userId,
+      amount: line.amount.toFixed(2)
+    })));
+  }
+  
+  // Transaction methods
+  async createTransaction(insertTransaction: InsertTransaction): Promise<Transaction> {
+    const [transaction] = await this.db.insert(transactions).values(insertTransaction).returning();
+    return transaction;
+  }
+  
+  async getTransaction(id: number): Promise<Transaction | undefined> {
+    const [transaction] = await this.db.select().from(transactions).where(eq(transactions.id, id));
+    return transaction;
+  }
+  
+  async getUserTransactions(userId: number): Promise<Transaction[]> {
+    return this.db.select().from(transactions)
+      .where(eq(transactions.userId, userId))
+      .orderBy(desc(transactions.createdAt), desc(transactions.id));
+  }
+  
+  async getAllTransactions(): Promise<Transaction[]> {
+    return this.db.select().from(transactions)
+      .orderBy(desc(transactions.createdAt), desc(transactions.id));
+  }
+  
+  async getMatchTransactions(matchId: number): Promise<Transaction[]> {
+    return this.db.select().from(transactions)
+      .where(eq(transactions.matchId, matchId))
+      .orderBy(asc(transactions.id));
+  }
+  
+  async updateTransactionMetadata(id: number, metadata: any): Promise<Transaction | undefined> {
+    const [existing] = await this.db.select().from(transactions).where(eq(transactions.id, id));
+    if (!existing) return undefined;
+    
+    const [transaction] = await this.db.update(transactions)
+      .set({ metadata: mergeMetadata(existing.metadata, metadata) })
+      .where(eq(transactions.id, id))
+      .returning();
+    return transaction;
+  }
+  
+  async updateTransactionStatus(id: number, status: string, change: TransactionStatusChange = {}): Promise<Transaction | undefined> {
+    return this.db.transaction(async (tx) => {
+      const [existing] = await tx.select().from(transactions)
+        .where(eq(transactions.id, id))
+        .for("update");
+      if (!existing || (change.from && existing.status !== change.from)) return undefined;
+      
+      const [transaction] = await tx.update(transactions)
+        .set({
+          status,
+          metadata: recordStatusChange(existing.metadata, status, change)
+        })
+        .where(eq(transactions.id, id))
+        .returning();
+      return transaction;
+    });
+  }
+  
+  // Game methods
+  async getAllGames(): Promise<Game[]> {
+    return this.db.select().from(games)
+      .where(eq(games.isActive, true))
+      .orderBy(asc(games.id));
+  }
+  
+  async getGame(id: number): Promise<Game | undefined> {
+    const [game] = await this.db.select().from(games).where(eq(games.id, id));
+    return game;
+  }
+  
+  async createGame(insertGame: InsertGame): Promise<Game> {
+    const [game] = await this.db.insert(games).values(insertGame).returning();
+    return game;
+  }
+  
+  // Game Match methods
+  async createGameMatch(insertMatch: InsertGameMatch): Promise<GameMatch> {
+    const [match] = await this.db.insert(gameMatches).values(insertMatch).returning();
+    return match;
+  }
+  
+  async getGameMatch(id: number): Promise<GameMatch | undefined> {
+    const [match] = await this.db.select().from(gameMatches).where(eq(gameMatches.id, id));
+    return match;
+  }
+  
+  async updateGameMatch(id: number, matchData: Partial<InsertGameMatch>): Promise<GameMatch | undefined> {
+    if (Object.keys(matchData).length === 0) return this.getGameMatch(id);
+    
+    const [match] = await this.db.update(gameMatches).set(matchData).where(eq(gameMatches.id, id)).returning();
+    return match;
+  }
+  
+  async updateGameMatchStatus(id: number, from: string[], matchData: Partial<InsertGameMatch>): Promise<GameMatch | undefined> {
+    const [match] = await this.db.update(gameMatches)
+      .set(matchData)
+      .where(and(eq(gameMatches.id, id), inArray(gameMatches.status, from)))
+      .returning();
+    return match;
+  }
+  
+  async getActiveMatches(gameId: number): Promise<GameMatch[]> {
+    return this.db.select().from(gameMatches)
+      .where(and(
+        eq(gameMatches.gameId, gameId),
+        inArray(gameMatches.status, ["waiting", "in_progress"])
+      ))
+      .orderBy(desc(gameMatches.createdAt));
+  }
+  
+  async getMatchesByStatus(status: string): Promise<GameMatch[]> {
+    return this.db.select().from(gameMatches)
+      .where(eq(gameMatches.status, status))
+      .orderBy(desc(gameMatches.createdAt));
+  }
+  
+  async getUserMatches(userId: number, query: MatchHistoryQuery): Promise<{ matches: GameMatch[]; total: number }> {
+    const conditions = and(
+      eq(playerMatches.userId, userId),
+      query.status ? eq(gameMatches.status, query.status) : undefined
+    );
+    
+    const rows = await this.db.select({ match: gameMatches })
+      .from(playerMatches)
+      .innerJoin(gameMatches, eq(playerMatches.matchId, gameMatches.id))
+      .where(conditions)
+      .orderBy(desc(gameMatches.createdAt), desc(gameMatches.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` })
+      .from(playerMatches)
+      .innerJoin(gameMatches, eq(playerMatches.matchId, gameMatches.id))
+      .where(conditions);
+    
+    return { matches: rows.map(row => row.match), total: count };
+  }
+  
+  // Player Match methods
+  async addPlayerToMatch(insertPlayerMatch: InsertPlayerMatch): Promise<PlayerMatch> {
+    const [playerMatch] = await this.db.insert(playerMatches).values(insertPlayerMatch).returning();
+    return playerMatch;
+  }
+  
+  async getMatchPlayers(matchId: number): Promise<PlayerMatch[]> {
+    return this.db.select().from(playerMatches)
+      .where(eq(playerMatches.matchId, matchId))
+      .orderBy(asc(playerMatches.id));
+  }
+  
+  async updatePlayerMatchStatus(id: number, status: string): Promise<PlayerMatch | undefined> {
+    const [playerMatch] = await this.db.update(playerMatches)
+      .set({ status })
+      .where(eq(playerMatches.id, id))
+      .returning();
+    return playerMatch;
+  }
+  
+  // Match Result methods
+  async saveMatchResultReport(insertReport: InsertMatchResultReport): Promise<MatchResultReport> {
+    const [report] = await this.db.insert(matchResultReports)
+      .values(insertReport)
+      .onConflictDoUpdate({
+        target: [matchResultReports.matchId, matchResultReports.userId],
+        set: { reportedWinnerId: insertReport.reportedWinnerId, createdAt: new Date() }
+      })
+      .returning();
+    return report;
+  }
+  
+  async getMatchResultReports(matchId: number): Promise<MatchResultReport[]> {
+    return this.db.select().from(matchResultReports)
+      .where(eq(matchResultReports.matchId, matchId))
+      .orderBy(asc(matchResultReports.id));
+  }
+  
+  async settleGameMatch(
+    insertSettlement: InsertMatchSettlement,
+    from: string[],
+    matchData: Partial<InsertGameMatch>,
+    prize?: InsertTransaction
+  ): Promise<MatchSettlementResult | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [match] = await tx.update(gameMatches)
+          .set(matchData)
+          .where(and(eq(gameMatches.id, insertSettlement.matchId), inArray(gameMatches.status, from)))
+          .returning();
+        if (!match) tx.rollback();
+        
+        // The unique match_id turns a second settlement of the same match into a no-op
+        const [settlement] = await tx.insert(matchSettlements)
+          .values(insertSettlement)
+          .onConflictDoNothing({ target: matchSettlements.matchId })
+          .returning();
+        if (!settlement) tx.rollback();
+        
+        if (!prize) return { match, settlement };
+        
+        const posting = await this.postInTransaction(tx, { transaction: prize });
+        if (!posting) tx.rollback();
+        
+        return { match, settlement, prize: posting! };
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+  
+  async getMatchSettlement(matchId: number): Promise<MatchSettlement | undefined> {
+    const [settlement] = await this.db.select().from(matchSettlements)
+      .where(eq(matchSettlements.matchId, matchId));
+    return settlement;
+  }
+  
+  // Match Job methods
+  async createMatchJob(insertJob: InsertMatchJob): Promise<MatchJob> {
+    const [job] = await this.db.insert(matchJobs).values(insertJob).returning();
+    return job;
+  }
+  
+  async getMatchJobs(matchId: number): Promise<MatchJob[]> {
+    return this.db.select().from(matchJobs)
+      .where(eq(matchJobs.matchId, matchId))
+      .orderBy(asc(matchJobs.id));
+  }
+  
+  async getDueMatchJobs(now: Date, limit: number): Promise<MatchJob[]> {
+    return this.db.select().from(matchJobs)
+      .where(and(eq(matchJobs.status, "pending"), lte(matchJobs.runAt, now)))
+      .orderBy(asc(matchJobs.runAt), asc(matchJobs.id))
+      .limit(limit);
+  }
+  
+  async claimMatchJob(id: number): Promise<MatchJob | undefined> {
+    const [job] = await this.db.update(matchJobs)
+      .set({ status: "running", attempts: sql`${matchJobs.attempts} + 1` })
+      .where(and(eq(matchJobs.id, id), eq(matchJobs.status, "pending")))
+      .returning();
+    return job;
+  }
+  
+  async updateMatchJob(id: number, jobData: Partial<InsertMatchJob>): Promise<MatchJob | undefined> {
+    const [job] = await this.db.update(matchJobs).set(jobData).where(eq(matchJobs.id, id)).returning();
+    return job;
+  }
+  
+  async cancelMatchJobs(matchId: number, types?: string[]): Promise<number> {
+    const cancelled = await this.db.update(matchJobs)
+      .set({ status: "cancelled", completedAt: new Date() })
+      .where(and(
+        eq(matchJobs.matchId, matchId),
+        eq(matchJobs.status, "pending"),
+        types ? inArray(matchJobs.type, types) : undefined
+      ))
+      .returning({ id: matchJobs.id });
+    return cancelled.length;
+  }
+  
+  async requeueRunningMatchJobs(): Promise<number> {
+    const requeued = await this.db.update(matchJobs)
+      .set({ status: "pending" })
+      .where(eq(matchJobs.status, "running"))
+      .returning({ id: matchJobs.id });
+    return requeued.length;
+  }
+  
+  // Waitlist methods
+  async createWaitlistEntry(insertWaitlist: InsertWaitlist): Promise<Waitlist> {
+    const [waitlistEntry] = await this.db.insert(waitlist).values(insertWaitlist).returning();
+    return waitlistEntry;
+  }
+  
+  async getWaitlistEntries(): Promise<Waitlist[]> {
+    return this.db.select().from(waitlist).orderBy(asc(waitlist.id));
+  }
+  
+  async getWaitlistEntryByEmail(email: string): Promise<Waitlist | undefined> {
+    const [waitlistEntry] = await this.db.select().from(waitlist)
+      .where(sql`lower(${waitlist.email}) = lower(${email})`);
+    return waitlistEntry;
+  }
+  
+  async getWaitlistEntryByToken(token: string): Promise<Waitlist | undefined> {
+    const [waitlistEntry] = await this.db.select().from(waitlist).where(eq(waitlist.token, token));
+    return waitlistEntry;
+  }
+  
+  async getWaitlistEntryByReferralCode(referralCode: string): Promise<Waitlist | undefined> {
+    const [waitlistEntry] = await this.db.select().from(waitlist).where(eq(waitlist.referralCode, referralCode));
+    return waitlistEntry;
+  }
+  
+  async getWaitlistEntryByConfirmationToken(confirmationToken: string): Promise<Waitlist | undefined> {
+    const [waitlistEntry] = await this.db.select().from(waitlist).where(eq(waitlist.confirmationToken, confirmationToken));
+    return waitlistEntry;
+  }
+  
+  async updateWaitlistEntry(id: number, entryData: Partial<InsertWaitlist>): Promise<Waitlist | undefined> {
+    const [waitlistEntry] = await this.db.update(waitlist)
+      .set(entryData)
+      .where(eq(waitlist.id, id))
+      .returning();
+    return waitlistEntry;
+  }
+  
+  async confirmWaitlistEntry(id: number, at: Date): Promise<Waitlist | undefined> {
+    const [waitlistEntry] = await this.db.update(waitlist)
+      .set({ confirmedAt: at })
+      .where(and(eq(waitlist.id, id), isNull(waitlist.confirmedAt)))
+      .returning();
+    return waitlistEntry;
+  }
+  
+  async getWaitlistConversions(): Promise<WaitlistConversion[]> {
+    return this.db.select({
+      waitlistId: waitlist.id,
+      userId: users.id,
+      registeredAt: users.createdAt,
+      firstDepositAt: sql<Date | null>`(
+        select min(${transactions.createdAt}) from ${transactions}
+        where ${transactions.userId} = ${users.id} and ${transactions.type} = 'deposit' and ${transactions.status} = 'completed'
+      )`.mapWith(transactions.createdAt),
+      firstMatchAt: sql<Date | null>`(
+        select min(${playerMatches.createdAt}) from ${playerMatches} where ${playerMatches.userId} = ${users.id}
+      )`.mapWith(playerMatches.createdAt)
+    })
+      .from(waitlist)
+      .leftJoin(users, sql`lower(${users.email}) = lower(${waitlist.email})`)
+      .orderBy(asc(waitlist.id));
+  }
+  
+  // Invite methods
+  async createInviteBatch(createdById: number | null, invites: InsertInviteCode[], at: Date): Promise<InviteBatchResult | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        const [batch] = await tx.insert(inviteBatches).values({ size: 0, createdById, createdAt: at }).returning();
+        
+        const values = [];
+        for (const invite of invites) {
+          if (invite.waitlistId) {
+            const [claimed] = await tx.update(waitlist)
+              .set({ invitedAt: at })
+              .where(and(eq(waitlist.id, invite.waitlistId), isNull(waitlist.invitedAt)))
+              .returning({ id: waitlist.id });
+            if (!claimed) continue;
+          }
+          values.push({ ...invite, batchId: batch.id, createdAt: at });
+        }
+        if (values.length === 0) tx.rollback();
+        
+        const codes = await tx.insert(inviteCodes).values(values).returning();
+        const [sized] = await tx.update(inviteBatches)
+          .set({ size: codes.length })
+          .where(eq(inviteBatches.id, batch.id))
+          .returning();
+        return { batch: sized, codes };
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
+  }
+  
+  async getInviteBatches(): Promise<InviteBatchSummary[]> {
+    return this.db.select({
+      id: inviteBatches.id,
+      size: inviteBatches.size,
+      createdById: inviteBatches.createdById,
+      createdAt: inviteBatches.createdAt,
+      used: sql<number>`count(${inviteCodes.usedAt})`.mapWith(Number)
+    })
+      .from(inviteBatches)
+      .leftJoin(inviteCodes, eq(inviteCodes.batchId, inviteBatches.id))
+      .groupBy(inviteBatches.id)
+      .orderBy(desc(inviteBatches.createdAt), desc(inviteBatches.id));
+  }
+  
+  async getInviteCodes(): Promise<InviteCode[]> {
+    return this.db.select().from(inviteCodes).orderBy(asc(inviteCodes.id));
+  }
+  
+  async getInviteCodeByCode(code: string): Promise<InviteCode | undefined> {
+    const [inviteCode] = await this.db.select().from(inviteCodes).where(eq(inviteCodes.code, code));
+    return inviteCode;
+  }
+  
+  async claimInviteCode(id: number, at: Date): Promise<InviteCode | undefined> {
+    const [inviteCode] = await this.db.update(inviteCodes)
+      .set({ usedAt: at })
+      .where(and(eq(inviteCodes.id, id), isNull(inviteCodes.usedAt)))
+      .returning();
+    return inviteCode;
+  }
+  
+  async updateInviteCode(id: number, codeData: Partial<Pick<InviteCode, "usedAt" | "usedById">>): Promise<InviteCode | undefined> {
+    const [inviteCode] = await this.db.update(inviteCodes)
+      .set(codeData)
+      .where(eq(inviteCodes.id, id))
+      .returning();
+    return inviteCode;
+  }
+  
+  // Auth token methods
+  async createAuthToken(insertToken: InsertAuthToken): Promise<AuthToken> {
+    const [authToken] = await this.db.insert(authTokens).values(insertToken).returning();
+    return authToken;
+  }
+  
+  async getAuthTokenByHash(tokenHash: string): Promise<AuthToken | undefined> {
+    const [authToken] = await this.db.select().from(authTokens).where(eq(authTokens.tokenHash, tokenHash));
+    return authToken;
+  }
+  
+  async useAuthToken(id: number, at: Date): Promise<AuthToken | undefined> {
+    const [authToken] = await this.db.update(authTokens)
+      .set({ usedAt: at })
+      .where(and(eq(authTokens.id, id), isNull(authTokens.usedAt)))
+      .returning();
+    return authToken;
+  }
+  
+  async revokeAuthTokens(userId: number, purpose: string, at: Date): Promise<void> {
+    await this.db.update(authTokens)
+      .set({ usedAt: at })
+      .where(and(eq(authTokens.userId, userId), eq(authTokens.purpose, purpose), isNull(authTokens.usedAt)));
+  }
+  
+  async destroyUserSessions(userId: number, exceptSessionId?: string): Promise<number> {
+    // The session table belongs to connect-pg-simple, which creates it on first use;
+    // passport keeps the user's id in each session
+    const [{ exists }] = (await this.db.execute<{ exists: boolean }>(
+      sql`select to_regclass('"session"') is not null as exists`
+    )).rows;
+    if (!exists) return 0;
+    
+    const result = await this.db.execute(sql`
+      delete from "session"
+      where sess->'passport'->>'user' = ${userId.toString()}
+        and sid <> ${exceptSessionId ?? ""}
+    `);
+    return result.rowCount ?? 0;
+  }
+  
+  // Chat methods
+  async ensureChatRoom(insertRoom: InsertChatRoom): Promise<ChatRoom> {
+    const [room] = await this.db.insert(chatRooms)
+      .values(insertRoom)
+      .onConflictDoNothing({ target: chatRooms.key })
+      .returning();
+    return room ?? (await this.getChatRoomByKey(insertRoom.key))!;
+  }
+  
+  async getChatRoomByKey(key: string): Promise<ChatRoom | undefined> {
+    const [room] = await this.db.select().from(chatRooms).where(eq(chatRooms.key, key));
+    return room;
+  }
+  
+  async addChatMember(roomId: number, userId: number): Promise<ChatMember> {
+    const [member] = await this.db.insert(chatMembers)
+      .values({
+        roomId,
+        userId,
+        lastReadMessageId: sql`(select max(${chatMessages.id}) from ${chatMessages} where ${chatMessages.roomId} = ${roomId})`
+      })
+      .onConflictDoNothing({ target: [chatMembers.roomId, chatMembers.userId] })
+      .returning();
+    return member ?? (await this.getChatMember(roomId, userId))!;
+  }
+  
+  async getChatMember(roomId: number, userId: number): Promise<ChatMember | undefined> {
+    const [member] = await this.db.select().from(chatMembers)
+      .where(and(eq(chatMembers.roomId, roomId), eq(chatMembers.userId, userId)));
+    return member;
+  }
+  
+  async getUserChatRooms(userId: number): Promise<ChatRoomSummary[]> {
+    const rows = await this.db.select({
+      room: chatRooms,
+      unreadCount: sql<number>`(
+        select count(*)::int from ${chatMessages}
+        where ${chatMessages.roomId} = ${chatRooms.id}
+          and ${chatMessages.id} > coalesce(${chatMembers.lastReadMessageId}, 0)
+          and ${chatMessages.senderId} <> ${userId}
+          and ${chatMessages.removedAt} is null
+      )`
+    })
+      .from(chatMembers)
+      .innerJoin(chatRooms, eq(chatMembers.roomId, chatRooms.id))
+      .where(eq(chatMembers.userId, userId))
+      .orderBy(asc(chatRooms.id));
+    
+    return rows.map(row => ({ ...row.room, unreadCount: row.unreadCount }));
+  }
+  
+  async createChatMessage(insertMessage: InsertChatMessage): Promise<ChatMessage> {
+    const [message] = await this.db.insert(chatMessages).values(insertMessage).returning();
+    return message;
+  }
+  
+  async getChatMessages(roomId: number, query: ChatHistoryQuery): Promise<ChatMessage[]> {
+    return this.db.select().from(chatMessages)
+      .where(and(
+        eq(chatMessages.roomId, roomId),
+        isNull(chatMessages.removedAt),
+        query.before !== undefined ? lt(chatMessages.id, query.before) : undefined
+      ))
+      .orderBy(desc(chatMessages.id))
+      .limit(query.limit);
+  }
+  
+  async markChatRead(roomId: number, userId: number, messageId: number): Promise<ChatMember | undefined> {
+    const [member] = await this.db.update(chatMembers)
+      .set({ lastReadMessageId: sql`greatest(coalesce(${chatMembers.lastReadMessageId}, 0), ${messageId})` })
+      .where(and(eq(chatMembers.roomId, roomId), eq(chatMembers.userId, userId)))
+      .returning();
+    return member;
+  }
+  
+  async getChatRoom(id: number): Promise<ChatRoom | undefined> {
+    const [room] = await this.db.select().from(chatRooms).where(eq(chatRooms.id, id));
+    return room;
+  }
+  
+  async getChatMessage(id: number): Promise<ChatMessage | undefined> {
+    const [message] = await this.db.select().from(chatMessages).where(eq(chatMessages.id, id));
+    return message;
+  }
+  
+  async removeChatMessage(id: number, removedBy: number, at: Date): Promise<ChatMessage | undefined> {
+    const [message] = await this.db.update(chatMessages)
+      .set({ removedAt: at, removedBy })
+      .where(and(eq(chatMessages.id, id), isNull(chatMessages.removedAt)))
+      .returning();
+    return message;
+  }
+  
+  // Chat moderation methods
+  async createChatReport(insertReport: InsertChatReport): Promise<ChatReport | undefined> {
+    const [report] = await this.db.insert(chatReports)
+      .values(insertReport)
+      .onConflictDoNothing({ target: [chatReports.messageId, chatReports.reporterId] })
+      .returning();
+    return report;
+  }
+  
+  async getChatReport(id: number): Promise<ChatReport | undefined> {
+    const [report] = await this.db.select().from(chatReports).where(eq(chatReports.id, id));
+    return report;
+  }
+  
+  async getChatReports(status: ChatReportStatus): Promise<ChatReport[]> {
+    return this.db.select().from(chatReports)
+      .where(eq(chatReports.status, status))
+      .orderBy(asc(chatReports.id));
+  }
+  
+  async resolveChatReports(messageId: number, status: ChatReportStatus, reviewedBy: number, resolution: string, at: Date): Promise<ChatReport[]> {
+    return this.db.update(chatReports)
+      .set({ status, reviewedBy, reviewedAt: at, resolution })
+      .where(and(eq(chatReports.messageId, messageId), eq(chatReports.status, "pending")))
+      .returning();
+  }
+  
+  async createChatSanction(insertSanction: InsertChatSanction): Promise<ChatSanction> {
+    const [sanction] = await this.db.insert(chatSanctions).values(insertSanction).returning();
+    return sanction;
+  }
+  
+  async getChatSanction(id: number): Promise<ChatSanction | undefined> {
+    const [sanction] = await this.db.select().from(chatSanctions).where(eq(chatSanctions.id, id));
+    return sanction;
+  }
+  
+  async getActiveChatSanctions(at: Date, userId?: number): Promise<ChatSanction[]> {
+    return this.db.select().from(chatSanctions)
+      .where(and(
+        userId !== undefined ? eq(chatSanctions.userId, userId) : undefined,
+        isNull(chatSanctions.liftedAt),
+        or(isNull(chatSanctions.expiresAt), gt(chatSanctions.expiresAt, at))
+      ))
+      .orderBy(desc(chatSanctions.id));
+  }
+  
+  async liftChatSanction(id: number, liftedBy: number, at: Date): Promise<ChatSanction | undefined> {
+    const [sanction] = await this.db.update(chatSanctions)
+      .set({ liftedAt: at, liftedBy })
+      .where(and(eq(chatSanctions.id, id), isNull(chatSanctions.liftedAt)))
+      .returning();
+    return sanction;
+  }
+  
+  // Friend methods
+  async createFriendship(insertFriendship: InsertFriendship): Promise<Friendship | undefined> {
+    const [friendship] = await this.db.insert(friendships)
+      .values(insertFriendship)
+      .onConflictDoNothing({ target: friendships.pairKey })
+      .returning();
+    return friendship;
+  }
+  
+  async getFriendship(id: number): Promise<Friendship | undefined> {
+    const [friendship] = await this.db.select().from(friendships).where(eq(friendships.id, id));
+    return friendship;
+  }
+  
+  async getFriendshipByPair(pairKey: string): Promise<Friendship | undefined> {
+    const [friendship] = await this.db.select().from(friendships).where(eq(friendships.pairKey, pairKey));
+    return friendship;
+  }
+  
+  async getUserFriendships(userId: number): Promise<Friendship[]> {
+    return this.db.select().from(friendships)
+      .where(and(
+        or(eq(friendships.requesterId, userId), eq(friendships.addresseeId, userId)),
+        inArray(friendships.status, ["pending", "accepted"])
+      ))
+      .orderBy(asc(friendships.id));
+  }
+  
+  async updateFriendshipStatus(id: number, from: FriendshipStatus, status: FriendshipStatus, at: Date): Promise<Friendship | undefined> {
+    const [friendship] = await this.db.update(friendships)
+      .set({ status, respondedAt: at })
+      .where(and(eq(friendships.id, id), eq(friendships.status, from)))
+      .returning();
+    return friendship;
+  }
+  
+  async renewFriendship(id: number, requesterId: number, addresseeId: number, at: Date): Promise<Friendship | undefined> {
+    const [friendship] = await this.db.update(friendships)
+      .set({ requesterId, addresseeId, status: "pending", createdAt: at, respondedAt: null })
+      .where(and(eq(friendships.id, id), inArray(friendships.status, ["declined", "removed"])))
+      .returning();
+    return friendship;
+  }
+  
+  async createUserBlock(blockerId: number, blockedId: number): Promise<UserBlock> {
+    const [block] = await this.db.insert(userBlocks).values({ blockerId, blockedId }).returning();
+    return block;
+  }
+  
+  async getUserBlock(blockerId: number, blockedId: number): Promise<UserBlock | undefined> {
+    const [block] = await this.db.select().from(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), eq(userBlocks.blockedId, blockedId), isNull(userBlocks.removedAt)));
+    return block;
+  }
+  
+  async getUserBlocks(blockerId: number): Promise<UserBlock[]> {
+    return this.db.select().from(userBlocks)
+      .where(and(eq(userBlocks.blockerId, blockerId), isNull(userBlocks.removedAt)))
+      .orderBy(desc(userBlocks.id));
+  }
+  
+  async removeUserBlock(id: number, at: Date): Promise<UserBlock | undefined> {
+    const [block] = await this.db.update(userBlocks)
+      .set({ removedAt: at })
+      .where(and(eq(userBlocks.id, id), isNull(userBlocks.removedAt)))
+      .returning();
+    return block;
+  }
+  
+  // Notification methods
+  async createNotification(insertNotification: InsertNotification): Promise<Notification> {
+    const [notification] = await this.db.insert(notifications).values(insertNotification).returning();
+    return notification;
+  }
+  
+  async getNotifications(userId: number, query: NotificationQuery): Promise<Notification[]> {
+    return this.db.select().from(notifications)
+      .where(and(
+        eq(notifications.userId, userId),
+        query.before !== undefined ? lt(notifications.id, query.before) : undefined
+      ))
+      .orderBy(desc(notifications.id))
+      .limit(query.limit);
+  }
+  
+  async getUnreadNotificationCount(userId: number): Promise<number> {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` })
+      .from(notifications)
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)));
+    return count;
+  }
+  
+  async markNotificationRead(id: number, userId: number, at: Date): Promise<Notification | undefined> {
+    const [notification] = await this.db.update(notifications)
+      .set({ readAt: at })
+      .where(and(eq(notifications.id, id), eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning();
+    return notification;
+  }
+  
+  async markAllNotificationsRead(userId: number, at: Date): Promise<number> {
+    const read = await this.db.update(notifications)
+      .set({ readAt: at })
+      .where(and(eq(notifications.userId, userId), isNull(notifications.readAt)))
+      .returning({ id: notifications.id });
+    return read.length;
+  }
+  
+  // Audit log methods
+  async createAuditLogEntry(entry: InsertAuditLogEntry): Promise<AuditLogEntry> {
+    const [auditLogEntry] = await this.db.insert(auditLog).values(entry).returning();
+    return auditLogEntry;
+  }
+  
+  async getAuditLog(query: AuditLogQuery): Promise<{ entries: AuditLogEntry[]; total: number }> {
+    const conditions = and(
+      query.actorId !== undefined ? eq(auditLog.actorId, query.actorId) : undefined,
+      query.action ? or(eq(auditLog.action, query.action), like(auditLog.action, `${query.action}.%`)) : undefined,
+      query.entityType ? eq(auditLog.entityType, query.entityType) : undefined,
+      query.entityId ? eq(auditLog.entityId, query.entityId) : undefined,
+      query.from ? gte(auditLog.createdAt, query.from) : undefined,
+      query.to ? lte(auditLog.createdAt, query.to) : undefined
+    );
+    
+    const entries = await this.db.select().from(auditLog)
+      .where(conditions)
+      .orderBy(desc(auditLog.createdAt), desc(auditLog.id))
+      .limit(query.limit)
+      .offset(query.offset);
+    
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` })
+      .from(auditLog)
+      .where(conditions);
+    
+    return { entries, total: count };
+  }
+  
+  // Subscription Plan methods
+  async getSubscriptionPlans(includeInactive: boolean = false): Promise<SubscriptionPlan[]> {
+    return this.db.select().from(subscriptionPlans)
+      .where(includeInactive ? undefined : eq(subscriptionPlans.isActive, true))
+      .orderBy(asc(subscriptionPlans.sortOrder), asc(subscriptionPlans.id));
+  }
+  
+  async getSubscriptionPlan(id: number): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await this.db.select().from(subscriptionPlans).where(eq(subscriptionPlans.id, id));
+    return plan;
+  }
+  
+  async getSubscriptionPlanBySlug(slug: string): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await this.db.select().from(subscriptionPlans).where(eq(subscriptionPlans.slug, slug));
+    return plan;
+  }
+  
+  async createSubscriptionPlan(insertPlan: InsertSubscriptionPlan): Promise<SubscriptionPlan> {
+    const [plan] = await this.db.insert(subscriptionPlans).values(insertPlan).returning();
+    return plan;
+  }
+  
+  async updateSubscriptionPlan(id: number, planData: Partial<InsertSubscriptionPlan>): Promise<SubscriptionPlan | undefined> {
+    const [plan] = await this.db.update(subscriptionPlans)
+      .set({ ...planData, updatedAt: new Date() })
+      .where(eq(subscriptionPlans.id, id))
+      .returning();
+    return plan;
+  }
+  
+  // Game Subscription methods
+  async createGameSubscription(insertSubscription: InsertSubscription): Promise<Subscription> {
+    const [subscription] = await this.db.insert(subscriptions).values(insertSubscription).returning();
+    return subscription;
+  }
+  
+  async getUserSubscriptions(userId: number): Promise<Subscription[]> {
+    return this.db.select().from(subscriptions)
+      .where(eq(subscriptions.userId, userId))
+      .orderBy(desc(subscriptions.createdAt));
+  }
+  
+  async getActiveUserSubscriptions(userId: number): Promise<Subscription[]> {
+    return this.db.select().from(subscriptions)
+      .where(and(
+        eq(subscriptions.userId, userId),
+        eq(subscriptions.status, "active"),
+        sql`${subscriptions.endDate} > now()`
+      ))
+      .orderBy(desc(subscriptions.createdAt));
+  }
+  
+  async getSubscriptionById(id: number): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.select().from(subscriptions).where(eq(subscriptions.id, id));
+    return subscription;
+  }
+  
+  async getAllSubscriptions(): Promise<Subscription[]> {
+    return this.db.select().from(subscriptions).orderBy(asc(subscriptions.id));
+  }
+  
+  async updateSubscriptionStatus(id: number, status: string): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.update(subscriptions)
+      .set({ status })
+      .where(eq(subscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+  
+  async updateGameSubscription(id: number, subscriptionData: Partial<InsertSubscription>, from?: string): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.update(subscriptions)
+      .set(subscriptionData)
+      .where(from
+        ? and(eq(subscriptions.id, id), eq(subscriptions.status, from))
+        : eq(subscriptions.id, id))
+      .returning();
+    return subscription;
+  }
+  
+  async startSubscription(request: SubscriptionStartRequest): Promise<SubscriptionStart | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        if (request.renews !== undefined) {
+          // The claim keeps a renewal from happening twice, and is undone if the charge fails
+          const [renewed] = await tx.update(subscriptions)
+            .set({ autoRenew: false })
+            .where(and(
+              eq(subscriptions.id, request.renews),
+              eq(subscriptions.autoRenew, true),
+              eq(subscriptions.cancelAtPeriodEnd, false)
+            ))
+            .returning();
+          if (!renewed) tx.rollback();
+        }
+        
+        if (request.upgrades) {
+          const { id, at } = request.upgrades;
+          const [upgraded] = await tx.update(subscriptions)
+            .set({ status: "upgraded", endDate: at, autoRenew: false })
+            .where(and(eq(subscriptions.id, id), eq(subscriptions.status, "active")))
+            .returning();
+          if (!upgraded) tx.rollback();
+          
+          await this.endEntitlementsIn(tx, id, at);
+          await this.forfeitRewardsIn(tx, upgraded, at);
+        }
+        
+        let charge: WalletPosting | undefined;
+        if (request.charge) {
+          charge = await this.postInTransaction(tx, { transaction: request.charge });
+          if (!charge) tx.rollback();
+        }
+        
+        const [subscription] = await tx.insert(subscriptions).values(request.subscription).returning();
+        const granted = request.entitlements.length > 0
+          ? await tx.insert(entitlements)
+            .values(request.entitlements.map(entitlement => ({ ...entitlement, subscriptionId: subscription.id })))
+            .returning()
+          : [];
+        const rewards = request.rewards.length > 0
+          ? await tx.insert(subscriptionRewards)
+            .values(request.rewards.map(reward => ({ ...reward, subscriptionId: subscription.id })))
+            .returning()
+          : [];
+        
+        return { subscription, entitlements: granted, rewards: rewards.sort((a, b) => a.day - b.day), charge };
+      });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
     }
   }
   
+  async getSubscriptionsDueForRenewal(asOf: Date): Promise<Subscription[]> {
+    return this.db.select().from(subscriptions)
+      .where(and(
+        eq(subscriptions.autoRenew, true),
+        eq(subscriptions.cancelAtPeriodEnd, false),
+        inArray(subscriptions.status, ["active", "completed"]),
+        lte(subscriptions.endDate, asOf)
+      ))
+      .orderBy(asc(subscriptions.endDate));
+  }
+  
+  async claimSubscriptionRenewal(id: number): Promise<Subscription | undefined> {
+    const [subscription] = await this.db.update(subscriptions)
+      .set({ autoRenew: false })
+      .where(and(
+        eq(subscriptions.id, id),
+        eq(subscriptions.autoRenew, true),
+        eq(subscriptions.cancelAtPeriodEnd, false)
+      ))
+      .returning();
+    return subscription;
+  }
+  
+  // Subscription Reward methods
+  async createSubscriptionRewards(rewards: InsertSubscriptionReward[]): Promise<void> {
+    if (rewards.length === 0) return;
+    await this.db.insert(subscriptionRewards).values(rewards);
+  }
+  
   async getUserSubscriptionRewards(userId: number): Promise<SubscriptionReward[]> {
-    return Array.from(this.subscriptionRewards.values())
-      .filter(reward => reward.userId === userId)
-      .sort((a, b) => a.day - b.day);
+    return this.db.select().from(subscriptionRewards)
+      .where(eq(subscriptionRewards.userId, userId))
+      .orderBy(asc(subscriptionRewards.day));
   }
   
   async getPendingSubscriptionRewards(userId: number): Promise<SubscriptionReward[]> {
-    return Array.from(this.subscriptionRewards.values())
-      .filter(reward => reward.userId === userId && reward.status === "pending")
-      .sort((a, b) => a.day - b.day);
+    return this.db.select().from(subscriptionRewards)
+      .where(and(
+        eq(subscriptionRewards.userId, userId),
+        eq(subscriptionRewards.status, "pending")
+      ))
+      .orderBy(asc(subscriptionRewards.day));
   }
   
-  async getPendingRewardsByDate(date: Date): Promise<SubscriptionReward[]> {
-    const targetDate = new Date(date);
-    targetDate.setHours(0, 0, 0, 0);
+
+  
+  async updateRewardStatus(id: number, status: string, paidAt?: Date): Promise<SubscriptionReward | undefined> {
+    const update: Partial<InsertSubscriptionReward> = { status };
+    if (paidAt || status === "paid") {
+      update.paidAt = paidAt || new Date();
+    }
     
-    const nextDay = new Date(targetDate);
-    nextDay.setDate(nextDay.getDate() + 1);
+    const [reward] = await this.db.update(subscriptionRewards)
+      .set(update)
+      .where(eq(subscriptionRewards.id, id))
+      .returning();
+    return reward;
+  }
+  
+  async getDueSubscriptionRewards(asOf: Date, limit: number): Promise<DueSubscriptionReward[]> {
+    // Timestamps are stored as UTC wall-clock time, so compare against asOf the same way
+    const dueAt = sql`${subscriptions.startDate} + (${subscriptionRewards.day} - 1) * interval '1 day'`;
+    const rows = await this.db.select({
+      reward: subscriptionRewards,
+      startDate: subscriptions.startDate
+    })
+      .from(subscriptionRewards)
+      .innerJoin(subscriptions, eq(subscriptionRewards.subscriptionId, subscriptions.id))
+      .where(and(
+        eq(subscriptionRewards.status, "pending"),
+        sql`${dueAt} <= ${asOf.toISOString()}::timestamp`
+      ))
+      .orderBy(asc(dueAt), asc(subscriptionRewards.id))
+      .limit(limit);
     
-    return Array.from(this.subscriptionRewards.values())
-      .filter(reward => {
-        // Get subscription to check dates
-        const subscription = this.subscriptions.get(reward.subscriptionId);
-        if (!subscription) return false;
+    return rows.map(({ reward, startDate }) => ({ ...reward, dueAt: rewardDueAt(startDate, reward.day) }));
+  }
+  
+  async paySubscriptionReward(id: number, insertTransaction: InsertTransaction): Promise<SubscriptionRewardPayout | undefined> {
+    try {
+      return await this.db.transaction(async (tx) => {
+        // Row lock so two workers cannot pay the same reward
+        const [reward] = await tx.select().from(subscriptionRewards)
+          .where(and(eq(subscriptionRewards.id, id), eq(subscriptionRewards.status, "pending")))
+          .for("update");
+        if (!reward) return undefined;
+        
+        const posting = await this.postInTransaction(tx, { transaction: insertTransaction });
+        if (!posting) tx.rollback();
         
-        // Calculate the reward date (subscription start date + (day - 1))
-        const rewardDate = new Date(subscription.startDate);
-        rewardDate.setDate(rewardDate.getDate() + (reward.day - 1));
-        rewardDate.setHours(0, 0, 0, 0);
+        const [paidReward] = await tx.update(subscriptionRewards)
+          .set({ status: "paid", paidAt: new Date(), transactionId: posting!.transaction.id })
+          .where(eq(subscriptionRewards.id, id))
+          .returning();
         
-        // Check if reward should be given today
-        return reward.status === "pending" && 
-               rewardDate.getTime() === targetDate.getTime();
+        return { ...posting!, reward: paidReward };
       });
+    } catch (error) {
+      if (error instanceof TransactionRollbackError) return undefined;
+      throw error;
+    }
   }
   
-  async updateRewardStatus(id: number, status: string, paidAt?: Date): Promise<SubscriptionReward | undefined> {
-    const reward = this.subscriptionRewards.get(id);
-    if (!reward) return undefined;
+  async forfeitSubscriptionReward(id: number): Promise<SubscriptionReward | undefined> {
+    const [reward] = await this.db.update(subscriptionRewards)
+      .set({ status: "forfeited" })
+      .where(and(eq(subscriptionRewards.id, id), eq(subscriptionRewards.status, "pending")))
+      .returning();
+    return reward;
+  }
+  
+  async forfeitSubscriptionRewards(subscriptionId: number, dueAfter: Date): Promise<SubscriptionReward[]> {
+    const subscription = await this.getSubscriptionById(subscriptionId);
+    if (!subscription) return [];
     
-    const updatedReward = { 
-      ...reward, 
-      status, 
-      paidAt: paidAt || (status === "paid" ? new Date() : reward.paidAt) 
-    };
+    return this.forfeitRewardsIn(this.db, subscription, dueAfter);
+  }
+  
+  private async forfeitRewardsIn(tx: Database | DatabaseTransaction, subscription: Subscription, dueAfter: Date): Promise<SubscriptionReward[]> {
+    const pending = await tx.select().from(subscriptionRewards)
+      .where(and(
+        eq(subscriptionRewards.subscriptionId, subscription.id),
+        eq(subscriptionRewards.status, "pending")
+      ));
+    const ids = pending
+      .filter(reward => rewardDueAt(subscription.startDate, reward.day) > dueAfter)
+      .map(reward => reward.id);
+    if (ids.length === 0) return [];
     
-    this.subscriptionRewards.set(id, updatedReward);
-    return updatedReward;
+    const forfeited = await tx.update(subscriptionRewards)
+      .set({ status: "forfeited" })
+      .where(and(inArray(subscriptionRewards.id, ids), eq(subscriptionRewards.status, "pending")))
+      .returning();
+    return forfeited.sort((a, b) => a.day - b.day);
   }
   
-  // Seed initial game data
-  private seedGames() {
-    const games = [
-      // Original games
-      {
-        name: "Ludo Royal",
-        description: "Classic multiplayer board game with a modern twist. Play with up to 4 players. Win up to ₹500!",
-        minEntry: "200",
-        maxEntry: "1000",
-        commissionPercentage: "10",
-        image: "ludo.svg",
-        isActive: true
-      },
-      {
-        name: "Rummy Plus",
-        description: "Strategic card game requiring skill. Form sets and sequences to win. Premium game with high rewards!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "15",
-        image: "rummy.svg",
-        isActive: true
-      },
-      {
-        name: "Carrom Clash",
-        description: "Traditional board game with precise physics. Pocket all your pieces first! Multiplayer fun for everyone.",
-        minEntry: "200",
-        maxEntry: "1500",
-        commissionPercentage: "12",
-        image: "carrom.svg",
-        isActive: true
-      },
-      {
-        name: "Teen Patti Gold",
-        description: "Classic Indian poker game with exciting variations. Bet, bluff, and win big! Play with friends or strangers.",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "15",
-        image: "teenpatti.svg",
-        isActive: true
-      },
-      {
-        name: "Chess Master",
-        description: "Classic strategy game with ranked matchmaking. Challenge players worldwide and climb the leaderboard!",
-        minEntry: "200",
-        maxEntry: "1000",
-        commissionPercentage: "8",
-        image: "chess.svg",
-        isActive: true
-      },
-      
-      // New featured games including Aviator and Color Trading
-      {
-        name: "Aviator Pro",
-        description: "Watch the multiplier rise and cash out before the plane flies away! High-risk, high-reward excitement.",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "15",
-        image: "aviator.svg",
-        isActive: true
-      },
-      {
-        name: "Color Trading",
-        description: "Predict color patterns and earn big! Simple mechanics with deep strategy. Perfect for quick gameplay sessions.",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "12",
-        image: "color-trading.svg",
-        isActive: true
-      },
-      {
-        name: "Poker King",
-        description: "The ultimate poker experience with Texas Hold'em and Omaha variants. Test your skills against top players!",
-        minEntry: "200",
-        maxEntry: "10000",
-        commissionPercentage: "18",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Blackjack 21",
-        description: "Classic casino card game. Get closer to 21 than the dealer without going over. Strategic and fast-paced!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "15",
-        image: "blackjack.svg",
-        isActive: true
-      },
-      {
-        name: "Lucky Slots",
-        description: "Virtual slot machine with progressive jackpots! Multiple paylines and bonus rounds for maximum excitement.",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "20",
-        image: "slots.svg",
-        isActive: true
-      },
-      {
-        name: "Roulette Royal",
-        description: "European roulette with premium features. Place bets on numbers, colors, or sections and watch the wheel spin!",
-        minEntry: "200",
-        maxEntry: "8000",
-        commissionPercentage: "15",
-        image: "roulette.svg",
-        isActive: true
-      },
-      
-      // More games to reach 50+
-      {
-        name: "Baccarat Plus",
-        description: "Elegant card game with simple rules. Bet on Player, Banker, or Tie and experience the thrill of anticipation!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "15",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Crash Racer",
-        description: "Watch the multiplier grow and cash out before the crash! Test your timing and nerve in this addictive game.",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "12",
-        image: "aviator.svg",
-        isActive: true
-      },
-      {
-        name: "Andar Bahar Live",
-        description: "Traditional Indian card game with simple rules. Guess which side the matching card will appear on!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "10",
-        image: "teenpatti.svg",
-        isActive: true
-      },
-      {
-        name: "Dragon Tiger",
-        description: "Fast-paced card game where you bet on which side will draw the higher card. Simple yet thrilling!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "12",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Jhandi Munda",
-        description: "Traditional dice game with six symbols. Bet on which symbols will appear face up when the dice settle!",
-        minEntry: "200",
-        maxEntry: "1000",
-        commissionPercentage: "10",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Call Break Pro",
-        description: "Popular trick-taking card game. Bid on how many tricks you'll win and then try to meet your target!",
-        minEntry: "200",
-        maxEntry: "1500",
-        commissionPercentage: "10",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "7 Up 7 Down",
-        description: "Predict whether the sum of dice will be under 7, over 7, or exactly 7. Simple mechanics with big payouts!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "15",
-        image: "blackjack.svg",
-        isActive: true
-      },
-      {
-        name: "Multiplier Madness",
-        description: "Watch as the multiplier grows exponentially! Cash out at the right moment to maximize your winnings.",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "20",
-        image: "aviator.svg",
-        isActive: true
-      },
-      {
-        name: "Dice Duel",
-        description: "Place bets on dice outcomes in this fast-paced game. Multiple betting options for varied gameplay!",
-        minEntry: "200",
-        maxEntry: "1500",
-        commissionPercentage: "12",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Crypto Predictor",
-        description: "Predict crypto price movements in short time frames. Up or down? Put your market intuition to the test!",
-        minEntry: "200",
-        maxEntry: "10000",
-        commissionPercentage: "18",
-        image: "aviator.svg",
-        isActive: true
-      },
-      {
-        name: "Number Ninja",
-        description: "Guess the correct numbers in sequence. The fewer attempts you make, the bigger your reward!",
-        minEntry: "200",
-        maxEntry: "1000",
-        commissionPercentage: "10",
-        image: "color-trading.svg",
-        isActive: true
-      },
-      {
-        name: "Pai Gow Poker",
-        description: "Create two poker hands from seven cards. Both hands must beat the dealer's to win this strategic game!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "15",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Sic Bo Deluxe",
-        description: "Ancient dice game with multiple betting options. Predict the outcome of three dice for big wins!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "15",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Caribbean Stud",
-        description: "Poker variant played against the house. Make the best five-card hand to win the progressive jackpot!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "18",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Keno Blast",
-        description: "Pick numbers and wait for the draw! The more matches you get, the bigger your prize in this lottery-style game.",
-        minEntry: "200",
-        maxEntry: "1000",
-        commissionPercentage: "25",
-        image: "color-trading.svg",
-        isActive: true
-      },
-      {
-        name: "Mines Explorer",
-        description: "Grid-based game where you uncover cells to win prizes. Avoid the mines to keep your winnings!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "15",
-        image: "color-trading.svg",
-        isActive: true
-      },
-      {
-        name: "HiLo Extreme",
-        description: "Predict if the next card will be higher or lower. Simple mechanics with increasing risk and reward!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "12",
-        image: "blackjack.svg",
-        isActive: true
-      },
-      {
-        name: "Plinko Drop",
-        description: "Drop the ball and watch it bounce through pegs to land in prize buckets. Physics-based fun with real rewards!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "18",
-        image: "color-trading.svg",
-        isActive: true
-      },
-      {
-        name: "Tower Builder",
-        description: "Stack blocks perfectly to build the highest tower. Each successful placement increases your prize!",
-        minEntry: "200",
-        maxEntry: "1500",
-        commissionPercentage: "15",
-        image: "slots.svg",
-        isActive: true
-      },
-      {
-        name: "Virtual Sports",
-        description: "Bet on simulated sports events with realistic graphics and fair odds. Football, cricket, basketball and more!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "20",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Snake & Ladder 3D",
-        description: "Classic family game reimagined with 3D graphics. Race to the top with dice rolls and special power-ups!",
-        minEntry: "200",
-        maxEntry: "800",
-        commissionPercentage: "10",
-        image: "ludo.svg",
-        isActive: true
-      },
-      {
-        name: "Crazy Time",
-        description: "Spin the wheel and unlock bonus games with massive multipliers. Live game show format with real-time action!",
-        minEntry: "200",
-        maxEntry: "10000",
-        commissionPercentage: "25",
-        image: "slots.svg",
-        isActive: true
-      },
-      {
-        name: "Monopoly Live",
-        description: "Based on the classic board game, win prizes on the wheel and unlock the 3D bonus board for big wins!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "20",
-        image: "ludo.svg",
-        isActive: true
-      },
-      {
-        name: "Deal or No Deal",
-        description: "Open briefcases to eliminate prizes, then decide whether to accept the banker's offer. Thrilling decision-making!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "15",
-        image: "slots.svg",
-        isActive: true
-      },
-      {
-        name: "Lightning Dice",
-        description: "Predict the total of three dice as they tumble down the lightning tower. Random multipliers boost your wins!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "18",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Mega Ball",
-        description: "Lottery-style game with bingo cards. Match numbers as the balls are drawn and win with multipliers!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "20",
-        image: "color-trading.svg",
-        isActive: true
-      },
-      {
-        name: "Crazy Coins",
-        description: "Flip the coin and predict the outcome. Simple yet addictive with streak bonuses for consecutive wins!",
-        minEntry: "200",
-        maxEntry: "1000",
-        commissionPercentage: "10",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Lucky Wheel Spin",
-        description: "Spin the wheel and win instant prizes. Segments with different values give varied winning opportunities!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "15",
-        image: "slots.svg",
-        isActive: true
-      },
-      {
-        name: "Rapid Roulette",
-        description: "Fast-paced roulette variant with 30-second rounds. Perfect for players who want quick action and results!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "12",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Video Poker Jacks+",
-        description: "Classic video poker where pairs of Jacks or better win. Draw and hold cards to create winning combinations!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "10",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Football Studio",
-        description: "Simple card game with football theme. Bet on Home, Away, or Draw as two cards are dealt. Fast-paced fun!",
-        minEntry: "200",
-        maxEntry: "1500",
-        commissionPercentage: "15",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Megaways Slots",
-        description: "Dynamic slot game with thousands of ways to win on every spin. Cascading reels increase your winning chances!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "20",
-        image: "slots.svg",
-        isActive: true
-      },
-      {
-        name: "Triple Card Poker",
-        description: "Play three poker hands simultaneously. More chances to win with strategic decisions on each hand!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "15",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Perfect Pairs",
-        description: "Blackjack variant with side bets for matching cards. Get pairs for bonus payouts while playing 21!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "12",
-        image: "blackjack.svg",
-        isActive: true
-      },
-      {
-        name: "Bonus Poker",
-        description: "Video poker with enhanced payouts for four of a kind. Strategic gameplay with big reward potential!",
-        minEntry: "200",
-        maxEntry: "2500",
-        commissionPercentage: "15",
-        image: "poker.svg",
-        isActive: true
-      },
-      {
-        name: "Fast Patti",
-        description: "Rapid version of Teen Patti with 30-second rounds. Quick action with all the thrills of the classic game!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "12",
-        image: "teenpatti.svg",
-        isActive: true
-      },
-      {
-        name: "Speed Baccarat",
-        description: "Accelerated version of the classic casino game. Rounds complete in just 27 seconds for non-stop action!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "15",
-        image: "blackjack.svg",
-        isActive: true
-      },
-      {
-        name: "Diamond Rush",
-        description: "Grid-based gem matching game with cash prizes. Create winning combinations to increase your multiplier!",
-        minEntry: "200",
-        maxEntry: "1000",
-        commissionPercentage: "10",
-        image: "slots.svg",
-        isActive: true
-      },
-      {
-        name: "Multiplier Roulette",
-        description: "Enhanced roulette with randomly applied multipliers up to 500x! Standard bets with extraordinary potential!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "18",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Goal Scorer",
-        description: "Predict goal outcomes in this football-themed game. Choose from various markets with different odds!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "15",
-        image: "carrom.svg",
-        isActive: true
-      },
-      {
-        name: "Lightning Roulette",
-        description: "Electrified roulette with lightning strikes that add multipliers up to 500x on lucky numbers!",
-        minEntry: "200",
-        maxEntry: "5000",
-        commissionPercentage: "20",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Bonus Blackjack",
-        description: "Blackjack with side bets for additional winning opportunities. Classic gameplay with extra excitement!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "15",
-        image: "blackjack.svg",
-        isActive: true
-      },
-      {
-        name: "Double Ball Roulette",
-        description: "Innovative roulette variant with two balls in play simultaneously. More winning chances with unique bets!",
-        minEntry: "200",
-        maxEntry: "3000",
-        commissionPercentage: "18",
-        image: "roulette.svg",
-        isActive: true
-      },
-      {
-        name: "Wheel of Fortune",
-        description: "Spin the fortune wheel and win prizes based on where it stops. Special segments offer massive multipliers!",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "25",
-        image: "slots.svg",
-        isActive: true
-      },
-      {
-        name: "Fantasy Cricket Premier",
-        description: "Build your dream team of real cricket players and earn points based on their performance in live matches!",
-        minEntry: "200",
-        maxEntry: "10000",
-        commissionPercentage: "20",
-        image: "carrom.svg",
-        isActive: true
-      },
-      {
-        name: "Spin Wheel Deluxe",
-        description: "Spin the wheel and win amazing prizes! Risk more for bigger rewards in this game of chance.",
-        minEntry: "200",
-        maxEntry: "2000",
-        commissionPercentage: "25",
-        image: "slots.svg",
-        isActive: true
-      }
-    ];
+  async getFinishedSubscriptions(asOf: Date): Promise<Subscription[]> {
+    return this.db.select().from(subscriptions)
+      .where(and(
+        eq(subscriptions.status, "active"),
+        lte(subscriptions.endDate, asOf),
+        sql`not exists (
+          select 1 from ${subscriptionRewards}
+          where ${subscriptionRewards.subscriptionId} = ${subscriptions.id}
+            and ${subscriptionRewards.status} = 'pending'
+        )`
+      ))
+      .orderBy(asc(subscriptions.id));
+  }
+  
+  // Entitlement methods
+  async createEntitlements(insertEntitlements: InsertEntitlement[]): Promise<Entitlement[]> {
+    if (insertEntitlements.length === 0) return [];
+    return this.db.insert(entitlements).values(insertEntitlements).returning();
+  }
+  
+  async getUserEntitlements(userId: number): Promise<Entitlement[]> {
+    return this.db.select().from(entitlements)
+      .where(eq(entitlements.userId, userId))
+      .orderBy(desc(entitlements.startsAt), desc(entitlements.id));
+  }
+  
+  async getActiveEntitlements(userId: number, at: Date): Promise<Entitlement[]> {
+    return this.db.select().from(entitlements)
+      .where(and(
+        eq(entitlements.userId, userId),
+        lte(entitlements.startsAt, at),
+        gt(entitlements.endsAt, at),
+        isNull(entitlements.revokedAt)
+      ))
+      .orderBy(desc(entitlements.startsAt), desc(entitlements.id));
+  }
+  
+  async getSubscriptionEntitlements(subscriptionId: number): Promise<Entitlement[]> {
+    return this.db.select().from(entitlements)
+      .where(eq(entitlements.subscriptionId, subscriptionId))
+      .orderBy(asc(entitlements.id));
+  }
+  
+  async endSubscriptionEntitlements(subscriptionId: number, at: Date): Promise<Entitlement[]> {
+    return this.endEntitlementsIn(this.db, subscriptionId, at);
+  }
+  
+  private async endEntitlementsIn(tx: Database | DatabaseTransaction, subscriptionId: number, at: Date): Promise<Entitlement[]> {
+    return tx.update(entitlements)
+      .set({ endsAt: at })
+      .where(and(eq(entitlements.subscriptionId, subscriptionId), gt(entitlements.endsAt, at)))
+      .returning();
+  }
+  
+  // Seed initial game data if the games table is empty
+  private async seedGames() {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` }).from(games);
+    if (count > 0) return;
     
-    games.forEach(game => {
-      this.createGame(game);
-    });
+    await this.db.insert(games).values(initialGames);
+  }
+  
+  // Seed the plan catalog if the subscription_plans table is empty
+  private async seedSubscriptionPlans() {
+    const [{ count }] = await this.db.select({ count: sql<number>`count(*)::int` }).from(subscriptionPlans);
+    if (count > 0) return;
+    
+    await this.db.insert(subscriptionPlans).values(initialSubscriptionPlans);
+  }
+}
+
+// Use Postgres when a database is configured, otherwise fall back to in-memory storage
+function createStorage(): IStorage {
+  if (process.env.DATABASE_URL) {
+    return new DatabaseStorage(createDatabase({ connectionString: process.env.DATABASE_URL }));
   }
+  return new MemStorage();
 }
 
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,171 @@
+import { beforeEach, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { RewardPayoutWorker } from "./reward-payouts";
+import { cancelSubscription, purchaseSubscription, quoteUpgrade, resumeSubscription, upgradeSubscription } from "./subscriptions";
+import { storage } from "./storage";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let userCount = 0;
+
+async function subscribe(slug: string, balance: string, autoRenew = false) {
+  const username = `planholder${++userCount}`;
+  const user = await storage.createUser({ username, password: "hashed", email: `${username}@example.com` });
+  await storage.createWallet({ userId: user.id, balance });
+
+  const plan = (await storage.getSubscriptionPlanBySlug(slug))!;
+  const { subscription, error } = await purchaseSubscription(user.id, plan.id, autoRenew);
+  assert.equal(error, undefined);
+  return { user, plan, subscription: subscription! };
+}
+
+const plan = async (slug: string) => (await storage.getSubscriptionPlanBySlug(slug))!;
+
+const balance = async (userId: number) => (await storage.getWallet(userId))?.balance;
+
+const subscriptionRewards = async (subscriptionId: number, userId: number) =>
+  (await storage.getUserSubscriptionRewards(userId)).filter(reward => reward.subscriptionId === subscriptionId);
+
+describe("subscription upgrades", () => {
+  it("credits the reward days not yet due", async () => {
+    // Basic: ₹1000 for 7 days of rewards. Standard: ₹2000.
+    const { subscription } = await subscribe("basic", "1000");
+    const standard = await plan("standard");
+
+    // Day 1's reward is due as soon as the plan starts, so six days are credited
+    const atStart = await quoteUpgrade(subscription, standard, subscription.startDate);
+    assert.equal(atStart.forfeitedRewards, 6);
+    assert.equal(atStart.credit, "857.14");
+    assert.equal(atStart.charge, "1142.86");
+
+    // Midway through day 3, days 1 to 3 are the user's whether or not they were paid yet
+    const later = await quoteUpgrade(subscription, standard, new Date(subscription.startDate.getTime() + 2.5 * DAY_MS));
+    assert.equal(later.forfeitedRewards, 4);
+    assert.equal(later.remainingDays, 4);
+    assert.equal(later.credit, "571.43");
+    assert.equal(later.charge, "1428.57");
+  });
+
+  it("gives no credit once every reward is due", async () => {
+    const { subscription } = await subscribe("basic", "1000");
+
+    const quote = await quoteUpgrade(subscription, await plan("standard"), new Date(subscription.startDate.getTime() + 6 * DAY_MS));
+
+    assert.equal(quote.forfeitedRewards, 0);
+    assert.equal(quote.credit, "0.00");
+    assert.equal(quote.charge, "2000.00");
+  });
+
+  it("charges the difference, ends the old plan and forfeits its rewards not yet due", async () => {
+    const { user, subscription } = await subscribe("basic", "2200");
+    const standard = await plan("standard");
+
+    const upgrade = await upgradeSubscription(user.id, subscription.id, standard.id);
+
+    assert.equal(upgrade.error, undefined);
+    assert.equal(upgrade.quote?.charge, "1142.86");
+    assert.equal(await balance(user.id), (1200 - 1142.86).toFixed(2));
+    assert.equal(upgrade.subscription?.upgradedFromId, subscription.id);
+    assert.equal((await storage.getSubscriptionById(subscription.id))?.status, "upgraded");
+
+    const oldRewards = await subscriptionRewards(subscription.id, user.id);
+    assert.deepEqual(oldRewards.map(reward => reward.status), ["pending", ...Array(6).fill("forfeited")]);
+    assert.equal((await subscriptionRewards(upgrade.subscription!.id, user.id)).length, 7);
+
+    const again = await upgradeSubscription(user.id, subscription.id, (await plan("premium")).id);
+    assert.equal(again.error, "Subscription not found");
+  });
+
+  it("leaves the subscription as it was when the wallet cannot cover the upgrade", async () => {
+    const { user, subscription } = await subscribe("basic", "1000");
+
+    const upgrade = await upgradeSubscription(user.id, subscription.id, (await plan("standard")).id);
+
+    assert.equal(upgrade.error, "Insufficient funds");
+    assert.equal(await balance(user.id), "0.00");
+    assert.equal((await storage.getSubscriptionById(subscription.id))?.status, "active");
+    assert.ok((await subscriptionRewards(subscription.id, user.id)).every(reward => reward.status === "pending"));
+    assert.equal((await storage.getUserSubscriptions(user.id)).length, 1);
+  });
+
+  it("only upgrades to a higher-priced plan", async () => {
+    const { user, subscription } = await subscribe("standard", "2000");
+
+    const downgrade = await upgradeSubscription(user.id, subscription.id, (await plan("basic")).id);
+
+    assert.equal(downgrade.error, "You can only upgrade to a higher-priced plan");
+  });
+});
+
+describe("subscription renewals", () => {
+  let now: Date;
+  let worker: RewardPayoutWorker;
+
+  beforeEach(() => {
+    now = new Date();
+    worker = new RewardPayoutWorker({ now: () => now });
+  });
+
+  // Monthly: ₹300 for 30 days, no rewards
+  it("ends a cancelled subscription at the end of its term without renewing it", async () => {
+    const { user, subscription } = await subscribe("monthly", "600", true);
+
+    const cancelled = await cancelSubscription(user.id, subscription.id);
+    assert.equal(cancelled.subscription?.cancelAtPeriodEnd, true);
+    assert.equal(cancelled.subscription?.autoRenew, false);
+    assert.equal((await cancelSubscription(user.id, subscription.id)).error, "This subscription is already set to end");
+
+    now = subscription.endDate;
+    const report = await worker.runDue();
+
+    assert.ok(!report?.renewedSubscriptionIds.includes(subscription.id));
+    assert.ok(report?.completedSubscriptionIds.includes(subscription.id));
+    assert.equal((await storage.getSubscriptionById(subscription.id))?.status, "cancelled");
+    assert.equal(await balance(user.id), "300.00");
+  });
+
+  it("takes a cancellation back before the term ends", async () => {
+    const { user, subscription } = await subscribe("monthly", "300");
+    await cancelSubscription(user.id, subscription.id);
+
+    const resumed = await resumeSubscription(user.id, subscription.id);
+
+    assert.equal(resumed.subscription?.cancelAtPeriodEnd, false);
+    assert.equal(resumed.subscription?.cancelledAt, null);
+  });
+
+  it("renews an ended subscription from the wallet, once", async () => {
+    const { user, subscription } = await subscribe("monthly", "600", true);
+
+    now = subscription.endDate;
+    const [report, overlapping] = await Promise.all([worker.runDue(), new RewardPayoutWorker({ now: () => now }).runDue()]);
+
+    const renewedBy = [report, overlapping].filter(run => run?.renewedSubscriptionIds.includes(subscription.id));
+    assert.equal(renewedBy.length, 1);
+    assert.equal(await balance(user.id), "0.00");
+
+    const renewal = (await storage.getUserSubscriptions(user.id)).find(candidate => candidate.renewedFromId === subscription.id);
+    assert.equal(renewal?.autoRenew, true);
+    assert.equal((await storage.getSubscriptionById(subscription.id))?.autoRenew, false);
+  });
+
+  it("turns auto-renew off and tells the user when the wallet cannot cover the renewal", async () => {
+    const { user, subscription } = await subscribe("monthly", "300", true);
+
+    now = subscription.endDate;
+    const report = await worker.runDue();
+
+    assert.ok(!report?.renewedSubscriptionIds.includes(subscription.id));
+    assert.equal((await storage.getSubscriptionById(subscription.id))?.autoRenew, false);
+    assert.equal((await storage.getUserSubscriptions(user.id)).length, 1);
+    assert.equal(await balance(user.id), "0.00");
+
+    const [notification] = await storage.getNotifications(user.id, { limit: 10 });
+    assert.equal(notification?.type, "subscription");
+    assert.match(notification.body, /did not cover ₹300\.00/);
+
+    // Not retried, and the user is told once
+    await worker.runDue();
+    assert.equal((await storage.getNotifications(user.id, { limit: 10 })).length, 1);
+  });
+});
@@ -0,0 +1,298 @@
+import type { InsertTransaction, Subscription, SubscriptionPlan, SubscriptionUpgradeQuote } from "@shared/schema";
+import { rewardDueAt, storage } from "./storage";
+import { buildPlanEntitlements } from "./entitlements";
+import { formatRupees, notificationService } from "./notifications";
+
+export interface SubscriptionPurchase {
+  subscription?: Subscription;
+  plan?: SubscriptionPlan;
+  rewards?: number[]; // Daily reward amounts, day 1 first
+  quote?: SubscriptionUpgradeQuote; // Set for upgrades
+  error?: string;
+}
+
+// Split a plan's reward total into one reward per day. Works in paise, and the last
+// day takes the remainder, so the days always add up to the advertised total.
+export function buildRewardSchedule(plan: Pick<SubscriptionPlan, "rewardTotal" | "durationDays">): number[] {
+  const total = Math.round(parseFloat(plan.rewardTotal.toString()) * 100);
+  const days = plan.durationDays;
+  if (!(total > 0) || days <= 0) return [];
+
+  const daily = Math.floor(total / days);
+  return Array.from({ length: days }, (_, index) =>
+    (index === days - 1 ? total - daily * (days - 1) : daily) / 100
+  );
+}
+
+const toRupees = (value: number) => Math.round(value * 100) / 100;
+
+// The wallet debit for a plan, if there is anything to charge. An upgrade fully
+// covered by credit has nothing to charge.
+function planCharge(userId: number, plan: SubscriptionPlan, amount: number, description: string, metadata: Record<string, any>): InsertTransaction | undefined {
+  if (amount <= 0) return undefined;
+
+  return {
+    userId,
+    amount: (-amount).toString(),
+    type: "subscription_purchase",
+    status: "completed",
+    description,
+    commissionAmount: "0",
+    metadata: JSON.stringify({ planId: plan.id, ...metadata })
+  };
+}
+
+// Subscribe to a plan with the plan's terms as they are today. The charge, the
+// subscription, its entitlements and its daily rewards are written together, as is
+// claiming the renewal or ending the subscription it upgrades, so the user is never
+// charged without getting the subscription. Undefined if none of it happened.
+async function startPlanSubscription(
+  userId: number,
+  plan: SubscriptionPlan,
+  options: { startDate: Date; charge?: InsertTransaction; autoRenew?: boolean; renewedFromId?: number; upgradedFromId?: number }
+): Promise<SubscriptionPurchase | undefined> {
+  const rewards = buildRewardSchedule(plan);
+  const rewardTotal = rewards.reduce((sum, amount) => sum + amount, 0);
+
+  const endDate = new Date(options.startDate);
+  endDate.setDate(endDate.getDate() + plan.durationDays);
+
+  const subscription = {
+    userId,
+    planId: plan.id,
+    name: plan.name,
+    amount: plan.price.toString(),
+    rewardAmount: rewardTotal.toFixed(2),
+    duration: plan.durationDays,
+    startDate: options.startDate,
+    endDate,
+    status: "active",
+    commissionDiscount: plan.commissionDiscount.toString(),
+    autoRenew: options.autoRenew ?? false,
+    renewedFromId: options.renewedFromId ?? null,
+    upgradedFromId: options.upgradedFromId ?? null
+  };
+
+  const started = await storage.startSubscription({
+    subscription,
+    entitlements: buildPlanEntitlements(subscription, plan),
+    rewards: rewards.map((amount, index) => ({
+      userId,
+      amount: amount.toFixed(2),
+      day: index + 1,
+      status: "pending"
+    })),
+    charge: options.charge,
+    renews: options.renewedFromId,
+    upgrades: options.upgradedFromId !== undefined ? { id: options.upgradedFromId, at: options.startDate } : undefined
+  });
+  return started && { subscription: started.subscription, plan, rewards };
+}
+
+// Buy a plan from the catalog: charge its price and start the subscription.
+// Buying a plan that is still running extends it from its end date.
+export async function purchaseSubscription(userId: number, planId: number, autoRenew: boolean = false): Promise<SubscriptionPurchase> {
+  const plan = await storage.getSubscriptionPlan(planId);
+  if (!plan || !plan.isActive) return { error: "This subscription plan is not available" };
+
+  const now = new Date();
+  const running = (await storage.getActiveUserSubscriptions(userId))
+    .filter(subscription => subscription.planId === plan.id && subscription.endDate > now);
+  const startDate = running.length > 0
+    ? new Date(Math.max(...running.map(subscription => subscription.endDate.getTime())))
+    : now;
+
+  const rewardTotal = buildRewardSchedule(plan).reduce((sum, amount) => sum + amount, 0);
+  const purchase = await startPlanSubscription(userId, plan, {
+    startDate,
+    autoRenew,
+    charge: planCharge(
+      userId,
+      plan,
+      parseFloat(plan.price.toString()),
+      rewardTotal > 0
+        ? `Purchased ${plan.name} for ${plan.durationDays} days (₹${rewardTotal.toFixed(2)} in daily rewards)`
+        : `Purchased ${plan.name} for ${plan.durationDays} days`,
+      {}
+    )
+  });
+  return purchase ?? { error: "Insufficient funds" };
+}
+
+// The user's own subscription, if it is still running
+async function getRunningSubscription(userId: number, subscriptionId: number): Promise<Subscription | undefined> {
+  const subscription = await storage.getSubscriptionById(subscriptionId);
+  if (!subscription || subscription.userId !== userId) return undefined;
+  if (subscription.status !== "active" || subscription.endDate <= new Date()) return undefined;
+  return subscription;
+}
+
+// Stop a subscription renewing. It keeps its benefits and rewards until it ends.
+export async function cancelSubscription(userId: number, subscriptionId: number): Promise<SubscriptionPurchase> {
+  const subscription = await getRunningSubscription(userId, subscriptionId);
+  if (!subscription) return { error: "Subscription not found" };
+  if (subscription.cancelAtPeriodEnd) return { error: "This subscription is already set to end" };
+
+  const updated = await storage.updateGameSubscription(subscription.id, {
+    cancelAtPeriodEnd: true,
+    autoRenew: false,
+    cancelledAt: new Date()
+  }, "active");
+  return updated ? { subscription: updated } : { error: "This subscription can no longer be cancelled" };
+}
+
+// Undo a cancellation before the subscription ends
+export async function resumeSubscription(userId: number, subscriptionId: number): Promise<SubscriptionPurchase> {
+  const subscription = await getRunningSubscription(userId, subscriptionId);
+  if (!subscription) return { error: "Subscription not found" };
+  if (!subscription.cancelAtPeriodEnd) return { error: "This subscription is not set to end" };
+
+  const updated = await storage.updateGameSubscription(subscription.id, {
+    cancelAtPeriodEnd: false,
+    cancelledAt: null
+  }, "active");
+  return updated ? { subscription: updated } : { error: "This subscription can no longer be resumed" };
+}
+
+// Turning auto-renew on also takes back a pending cancellation
+export async function setAutoRenew(userId: number, subscriptionId: number, autoRenew: boolean): Promise<SubscriptionPurchase> {
+  const subscription = await getRunningSubscription(userId, subscriptionId);
+  if (!subscription) return { error: "Subscription not found" };
+  if (autoRenew && subscription.planId === null) {
+    return { error: "This subscription was bought before the plan catalog and cannot renew" };
+  }
+
+  const updated = await storage.updateGameSubscription(subscription.id, autoRenew
+    ? { autoRenew: true, cancelAtPeriodEnd: false, cancelledAt: null }
+    : { autoRenew: false }, "active");
+  return updated ? { subscription: updated } : { error: "This subscription can no longer be changed" };
+}
+
+// Price a switch to a higher plan: the unused share of what was paid for the current
+// subscription is credited against the new plan's full price. A plan with daily
+// rewards is prorated on the reward days not yet due, so the credit never refunds a
+// day whose reward the user keeps (day 1's is due as soon as the plan starts). A plan
+// without rewards is prorated by time.
+export async function quoteUpgrade(subscription: Subscription, plan: SubscriptionPlan, at: Date = new Date()): Promise<SubscriptionUpgradeQuote> {
+  const term = subscription.endDate.getTime() - subscription.startDate.getTime();
+  const remaining = Math.min(term, Math.max(0, subscription.endDate.getTime() - Math.max(at.getTime(), subscription.startDate.getTime())));
+
+  const rewards = (await storage.getUserSubscriptionRewards(subscription.userId))
+    .filter(reward => reward.subscriptionId === subscription.id);
+  const forfeitedRewards = rewards.filter(reward =>
+    reward.status === "pending" &&
+    rewardDueAt(subscription.startDate, reward.day) > at
+  ).length;
+
+  const unusedShare = rewards.length > 0
+    ? Math.min(forfeitedRewards / rewards.length, term > 0 ? remaining / term : 0)
+    : term > 0 ? remaining / term : 0;
+
+  const price = parseFloat(plan.price.toString());
+  const credit = toRupees(parseFloat(subscription.amount) * unusedShare);
+  const charge = Math.max(0, toRupees(price - credit));
+
+  return {
+    subscriptionId: subscription.id,
+    planId: plan.id,
+    price: price.toFixed(2),
+    credit: credit.toFixed(2),
+    charge: charge.toFixed(2),
+    remainingDays: rewards.length > 0
+      ? forfeitedRewards
+      : Math.round(remaining / (24 * 60 * 60 * 1000) * 10) / 10,
+    forfeitedRewards
+  };
+}
+
+// Check the user can move this subscription to the plan: only to a higher-priced one
+async function getUpgradeTarget(userId: number, subscriptionId: number, planId: number): Promise<SubscriptionPurchase> {
+  const subscription = await getRunningSubscription(userId, subscriptionId);
+  if (!subscription) return { error: "Subscription not found" };
+
+  const plan = await storage.getSubscriptionPlan(planId);
+  if (!plan || !plan.isActive) return { error: "This subscription plan is not available" };
+  if (plan.id === subscription.planId || parseFloat(plan.price) <= parseFloat(subscription.amount)) {
+    return { error: "You can only upgrade to a higher-priced plan" };
+  }
+
+  return { subscription, plan };
+}
+
+export async function previewUpgrade(userId: number, subscriptionId: number, planId: number): Promise<SubscriptionPurchase> {
+  const { subscription, plan, error } = await getUpgradeTarget(userId, subscriptionId, planId);
+  if (error || !subscription || !plan) return { error };
+
+  return { subscription, plan, quote: await quoteUpgrade(subscription, plan) };
+}
+
+// Replace a running subscription with a higher plan from now on. The old subscription
+// ends now: its benefits stop and rewards not yet due are forfeited, while rewards
+// already due are still paid. The new plan runs for its full term.
+export async function upgradeSubscription(userId: number, subscriptionId: number, planId: number): Promise<SubscriptionPurchase> {
+  const { subscription, plan, error } = await getUpgradeTarget(userId, subscriptionId, planId);
+  if (error || !subscription || !plan) return { error };
+
+  const now = new Date();
+  const quote = await quoteUpgrade(subscription, plan, now);
+
+  // Ending the old subscription is part of the upgrade, so two upgrades cannot both use its credit
+  const upgrade = await startPlanSubscription(userId, plan, {
+    startDate: now,
+    autoRenew: subscription.autoRenew,
+    upgradedFromId: subscription.id,
+    charge: planCharge(
+      userId,
+      plan,
+      parseFloat(quote.charge),
+      `Upgraded ${subscription.name} to ${plan.name} (₹${quote.credit} credit for unused time)`,
+      { upgradedFromId: subscription.id, credit: quote.credit }
+    )
+  });
+  if (!upgrade) {
+    const current = await storage.getSubscriptionById(subscription.id);
+    return { error: current?.status === "active" ? "Insufficient funds" : "This subscription can no longer be upgraded" };
+  }
+  return { ...upgrade, quote };
+}
+
+// Buy the same plan again for a subscription that has ended with auto-renew on. The
+// renewal is claimed together with the charge, so it happens at most once. If the plan
+// was retired or the wallet cannot cover it, auto-renew is turned off and the user is
+// told, instead of the renewal being retried on every run.
+export async function renewSubscription(subscriptionId: number): Promise<SubscriptionPurchase> {
+  const subscription = await storage.getSubscriptionById(subscriptionId);
+  if (!subscription?.autoRenew || subscription.cancelAtPeriodEnd) return { error: "This subscription is not set to renew" };
+
+  const plan = subscription.planId !== null ? await storage.getSubscriptionPlan(subscription.planId) : undefined;
+  if (plan?.isActive) {
+    const renewal = await startPlanSubscription(subscription.userId, plan, {
+      startDate: new Date(),
+      autoRenew: true,
+      renewedFromId: subscription.id,
+      charge: planCharge(
+        subscription.userId,
+        plan,
+        parseFloat(plan.price.toString()),
+        `Renewed ${plan.name} for ${plan.durationDays} days`,
+        { renewedFromId: subscription.id }
+      )
+    });
+    if (renewal) return renewal;
+  }
+
+  // Renewed by another run in the meantime
+  if (!(await storage.claimSubscriptionRenewal(subscription.id))) {
+    return { error: "This subscription is not set to renew" };
+  }
+
+  await notificationService.notify(subscription.userId, {
+    type: "subscription",
+    title: "Subscription not renewed",
+    body: plan?.isActive
+      ? `${subscription.name} could not renew because your wallet did not cover ${formatRupees(plan.price)}. Auto-renew is now off.`
+      : `${subscription.name} could not renew because its plan is no longer offered. Auto-renew is now off.`,
+    link: "/wallet"
+  });
+  return { error: plan?.isActive ? "Insufficient funds" : "This subscription plan is not available" };
+}
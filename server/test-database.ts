@@ -0,0 +1,90 @@
+import pg from "pg";
+import { createRequire } from "module";
+import { PGlite } from "@electric-sql/pglite";
+import * as schema from "@shared/schema";
+import { createDatabase, type Database, type DatabaseConnection } from "./db";
+import { DatabaseStorage } from "./storage";
+
+// Types a query's results may hold. node-postgres is asked how to parse each, so
+// drizzle sees the same values it would from a real server (e.g. timestamps as text).
+const RESULT_TYPE_IDS = [16, 20, 21, 23, 25, 114, 700, 701, 1007, 1009, 1043, 1082, 1083, 1114, 1184, 1186, 1266, 1700, 3802];
+
+// The app's schema as SQL, generated once from shared/schema.ts
+let schemaStatements: Promise<string[]> | undefined;
+
+function getSchemaStatements(): Promise<string[]> {
+  if (schemaStatements) return schemaStatements;
+
+  const { generateDrizzleJson, generateMigration } = createRequire(import.meta.url)("drizzle-kit/api");
+  return schemaStatements = generateMigration(generateDrizzleJson({}), generateDrizzleJson(schema));
+}
+
+async function runQuery(db: PGlite, config: string | pg.QueryConfig & { types?: typeof pg.types }, values?: any[]) {
+  const { text, values: params = values, rowMode, types = pg.types } = typeof config === "string"
+    ? { text: config, rowMode: undefined, types: undefined }
+    : config as pg.QueryArrayConfig & { types?: typeof pg.types };
+
+  const parsers = Object.fromEntries(RESULT_TYPE_IDS.map(typeId => {
+    const parse = types.getTypeParser(typeId, "text");
+    return [typeId, (value: string) => parse(value)];
+  }));
+
+  const result = await db.query<any>(text, params, { rowMode: rowMode === "array" ? "array" : "object", parsers });
+  return {
+    command: "",
+    rows: result.rows,
+    fields: result.fields,
+    rowCount: result.affectedRows ?? result.rows.length
+  };
+}
+
+// A node-postgres pool over an in-memory PGlite database, so tests run the driver the
+// app runs in production. PGlite has a single connection, so clients are handed out
+// one at a time and each transaction has it to itself.
+function createPool(db: PGlite): pg.Pool {
+  let queue: Promise<void> = Promise.resolve();
+  const acquire = (): Promise<() => void> => {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => { release = resolve; });
+    const acquired = queue.then(() => release);
+    queue = acquired.then(() => released);
+    return acquired;
+  };
+
+  // Only the promise forms of the pool's methods, which is all drizzle and the session store use
+  return Object.assign(new pg.Pool(), {
+    connect: async () => {
+      const release = await acquire();
+      return { query: (config: any, values?: any[]) => runQuery(db, config, values), release };
+    },
+    query: async (config: any, values?: any[]) => {
+      const release = await acquire();
+      try {
+        return await runQuery(db, config, values);
+      } finally {
+        release();
+      }
+    },
+    end: () => db.close()
+  });
+}
+
+// A connection to a new, empty in-memory Postgres database with the app's schema.
+// End its pool when done.
+export async function createTestDatabase(): Promise<DatabaseConnection> {
+  const db = new PGlite();
+  for (const statement of await getSchemaStatements()) {
+    await db.exec(statement);
+  }
+  return createDatabase({ pool: createPool(db) });
+}
+
+// A DatabaseStorage on a new test database, once it has seeded its games and plans
+export async function createTestStorage(): Promise<{ storage: DatabaseStorage; db: Database; close: () => Promise<void> }> {
+  const connection = await createTestDatabase();
+  const storage = new DatabaseStorage(connection);
+  while ((await storage.getAllGames()).length === 0 || (await storage.getSubscriptionPlans()).length === 0) {
+    await new Promise(resolve => setTimeout(resolve, 10));
+  }
+  return { storage, db: connection.db, close: () => connection.pool.end() };
+}
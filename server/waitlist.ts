@@ -0,0 +1,225 @@
+import { randomBytes } from "crypto";
+import type { AdminWaitlistEntry, InviteBatchResult, Waitlist, WaitlistFunnel, WaitlistStatus } from "@shared/schema";
+import { storage } from "./storage";
+import { sendQuietly } from "./mail";
+
+// Places a member moves up the queue for each referral that confirms their email
+export const REFERRAL_BOOST = 5;
+
+// Largest number of invite codes sent at once
+export const MAX_INVITE_BATCH = 500;
+
+export interface WaitlistSignup {
+  entry: Waitlist;
+  created: boolean; // False when the email was already on the list
+}
+
+export interface InviteBatchSend {
+  invites?: InviteBatchResult;
+  error?: string;
+}
+
+const newToken = () => randomBytes(24).toString("hex");
+const newReferralCode = () => randomBytes(5).toString("hex");
+
+// Short enough to type in by hand at registration
+const newInviteCode = () => randomBytes(4).toString("hex").toUpperCase();
+
+// Mail the links an entry needs: the confirmation link until the email is
+// confirmed, and the private status page
+async function sendWaitlistMail(entry: Waitlist, appUrl: string): Promise<void> {
+  const statusUrl = `${appUrl}/waitlist/status/${entry.token}`;
+
+  if (entry.confirmedAt) {
+    await sendQuietly({
+      to: entry.email,
+      subject: "Your place on the waitlist",
+      text: `You're on the waitlist. See your position and share link here:\n${statusUrl}`
+    });
+  } else {
+    await sendQuietly({
+      to: entry.email,
+      subject: "Confirm your place on the waitlist",
+      text: `Confirm your email to claim your place in the queue:\n${appUrl}/waitlist/confirm/${entry.confirmationToken}\n\n` +
+        `Once confirmed you can follow your position here:\n${statusUrl}`
+    });
+  }
+}
+
+// Put an email on the waitlist and send its confirmation. Signing up again with an
+// email that is already on the list resends its links instead.
+export async function joinWaitlist(email: string, referralCode: string | undefined, appUrl: string): Promise<WaitlistSignup> {
+  const existing = await storage.getWaitlistEntryByEmail(email);
+  if (existing) {
+    await sendWaitlistMail(existing, appUrl);
+    return { entry: existing, created: false };
+  }
+
+  const referrer = referralCode ? await storage.getWaitlistEntryByReferralCode(referralCode) : undefined;
+  const entry = await storage.createWaitlistEntry({
+    email,
+    token: newToken(),
+    referralCode: newReferralCode(),
+    referredById: referrer?.id ?? null,
+    confirmationToken: newToken()
+  });
+
+  await sendWaitlistMail(entry, appUrl);
+  return { entry, created: true };
+}
+
+// Confirm the email behind a confirmation link. Following the link again is harmless.
+export async function confirmWaitlistEmail(confirmationToken: string): Promise<Waitlist | undefined> {
+  const entry = await storage.getWaitlistEntryByConfirmationToken(confirmationToken);
+  if (!entry) return undefined;
+  if (entry.confirmedAt) return entry;
+
+  return (await storage.confirmWaitlistEntry(entry.id, new Date())) ?? storage.getWaitlistEntryByToken(entry.token!);
+}
+
+// Confirmed referrals per referring entry id
+function countVerifiedReferrals(entries: Waitlist[]): Map<number, number> {
+  const verified = new Map<number, number>();
+  for (const entry of entries) {
+    if (entry.referredById === null || !entry.confirmedAt) continue;
+    verified.set(entry.referredById, (verified.get(entry.referredById) ?? 0) + 1);
+  }
+  return verified;
+}
+
+// Order the queue of confirmed entries not yet invited: signup order, less
+// REFERRAL_BOOST places per verified referral. Ties go to whoever signed up first.
+export function rankWaitlist(entries: Waitlist[]): Waitlist[] {
+  const verified = countVerifiedReferrals(entries);
+
+  const signupOrder = [...entries].sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime() || a.id - b.id);
+  const score = new Map(signupOrder.map((entry, index) => [entry.id, index - REFERRAL_BOOST * (verified.get(entry.id) ?? 0)]));
+
+  return signupOrder
+    .filter(entry => entry.confirmedAt && !entry.invitedAt)
+    .sort((a, b) => score.get(a.id)! - score.get(b.id)! || a.id - b.id);
+}
+
+export async function getWaitlistStatus(token: string): Promise<WaitlistStatus | undefined> {
+  const entries = await storage.getWaitlistEntries();
+  const entry = entries.find(candidate => candidate.token === token);
+  if (!entry) return undefined;
+
+  // An unconfirmed entry is ranked as if it were confirmed now
+  const ranked = rankWaitlist(entries.map(candidate =>
+    candidate.id === entry.id && !candidate.confirmedAt ? { ...candidate, confirmedAt: new Date() } : candidate
+  ));
+  const referrals = entries.filter(candidate => candidate.referredById === entry.id);
+  const verifiedReferrals = referrals.filter(candidate => candidate.confirmedAt).length;
+
+  return {
+    email: entry.email,
+    confirmed: !!entry.confirmedAt,
+    invited: !!entry.invitedAt,
+    position: entry.invitedAt ? null : ranked.findIndex(candidate => candidate.id === entry.id) + 1,
+    total: ranked.length - (entry.confirmedAt ? 0 : 1),
+    referralCode: entry.referralCode!,
+    verifiedReferrals,
+    pendingReferrals: referrals.length - verifiedReferrals,
+    referralBoost: REFERRAL_BOOST,
+    joinedAt: entry.createdAt
+  };
+}
+
+// Every entry for the admin console, optionally narrowed to emails containing the search
+export async function getAdminWaitlist(search?: string): Promise<AdminWaitlistEntry[]> {
+  const entries = await storage.getWaitlistEntries();
+  const positions = new Map(rankWaitlist(entries).map((entry, index) => [entry.id, index + 1]));
+  const verified = countVerifiedReferrals(entries);
+  const codes = new Map((await storage.getInviteCodes())
+    .filter(code => code.waitlistId !== null)
+    .map(code => [code.waitlistId!, code.code]));
+  const conversions = new Map((await storage.getWaitlistConversions())
+    .map(conversion => [conversion.waitlistId, conversion]));
+
+  const query = search?.trim().toLowerCase();
+  return entries
+    .filter(entry => !query || entry.email.toLowerCase().includes(query))
+    .map(entry => ({
+      ...entry,
+      position: positions.get(entry.id) ?? null,
+      verifiedReferrals: verified.get(entry.id) ?? 0,
+      inviteCode: codes.get(entry.id) ?? null,
+      conversion: conversions.get(entry.id) ?? {
+        waitlistId: entry.id, userId: null, registeredAt: null, firstDepositAt: null, firstMatchAt: null
+      }
+    }));
+}
+
+// How many waitlisted emails reached each step, from signup to a first match
+export async function getWaitlistFunnel(): Promise<WaitlistFunnel> {
+  const entries = await storage.getWaitlistEntries();
+  const conversions = await storage.getWaitlistConversions();
+
+  return {
+    signedUp: entries.length,
+    confirmed: entries.filter(entry => entry.confirmedAt).length,
+    invited: entries.filter(entry => entry.invitedAt).length,
+    registered: conversions.filter(conversion => conversion.userId !== null).length,
+    deposited: conversions.filter(conversion => conversion.firstDepositAt).length,
+    played: conversions.filter(conversion => conversion.firstMatchAt).length
+  };
+}
+
+// A sent batch as the audit log keeps it: without the codes, which anyone reading the
+// log could otherwise register with
+export const inviteBatchAuditRecord = ({ batch, codes }: InviteBatchResult) =>
+  ({ batch, codes: codes.map(({ code, ...invite }) => invite) });
+
+// Send single-use registration codes to the front of the queue, or to the chosen
+// entries. Only confirmed entries that have not been invited yet get one.
+export async function sendInviteBatch(
+  adminId: number,
+  request: { count?: number; waitlistIds?: number[] },
+  appUrl: string
+): Promise<InviteBatchSend> {
+  const queue = rankWaitlist(await storage.getWaitlistEntries());
+  const chosen = request.waitlistIds
+    ? queue.filter(entry => request.waitlistIds!.includes(entry.id))
+    : queue.slice(0, request.count ?? 0);
+  if (chosen.length === 0) {
+    return { error: request.waitlistIds ? "Only confirmed entries still in the queue can be invited" : "There is no one in the queue to invite" };
+  }
+
+  const invites = await storage.createInviteBatch(adminId, chosen.slice(0, MAX_INVITE_BATCH).map(entry => ({
+    code: newInviteCode(),
+    waitlistId: entry.id,
+    email: entry.email
+  })), new Date());
+  if (!invites) return { error: "These entries have already been invited" };
+
+  for (const invite of invites.codes) {
+    await sendQuietly({
+      to: invite.email,
+      subject: "You're invited to GameWallet",
+      text: `Your place in the queue has come up. Register with your invite code ${invite.code}:\n` +
+        `${appUrl}/auth?invite=${invite.code}\n\nThe code can be used once.`
+    });
+  }
+
+  return { invites };
+}
+
+// Give entries from before double opt-in their links. They joined when an email was
+// all it took, so they count as confirmed. Safe to run on every boot.
+export async function migrateWaitlistEntries(): Promise<number> {
+  let migrated = 0;
+
+  for (const entry of await storage.getWaitlistEntries()) {
+    if (entry.token && entry.referralCode) continue;
+
+    await storage.updateWaitlistEntry(entry.id, {
+      token: entry.token ?? newToken(),
+      referralCode: entry.referralCode ?? newReferralCode(),
+      confirmedAt: entry.confirmedAt ?? entry.createdAt
+    });
+    migrated++;
+  }
+
+  return migrated;
+}
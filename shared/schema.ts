@@ -1,4 +1,4 @@
-import { pgTable, text, serial, integer, timestamp, boolean, decimal } from "drizzle-orm/pg-core";
+import { pgTable, text, serial, integer, timestamp, boolean, decimal, unique } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
 
@@ -11,6 +11,7 @@ export const users = pgTable("users", {
   fullName: text("full_name"),
   phone: text("phone"),
   upiId: text("upi_id"),
+  // Superseded by entitlements; only read to migrate subscriptions bought before them
   hasSubscription: boolean("has_subscription").default(false).notNull(),
   subscriptionExpiryDate: timestamp("subscription_expiry_date"),
   referralCode: text("referral_code"),
@@ -39,9 +40,53 @@ export const users = pgTable("users", {
   totalLosses: integer("total_losses").default(0),
   winRate: decimal("win_rate", { precision: 5, scale: 2 }).default("0"),
   rank: text("rank").default("Beginner"),
-  rankPoints: integer("rank_points").default(0)
+  rankPoints: integer("rank_points").default(0),
+  
+  // Bot accounts are played by the server and can never log in
+  isBot: boolean("is_bot").default(false).notNull(),
+  botDifficulty: text("bot_difficulty"), // easy, medium, hard
+  
+  // Staff roles, see ROLE_PERMISSIONS. Only granted and revoked through the admin role endpoints.
+  roles: text("roles").array().default([]).notNull(),
+  
+  // Set when the user follows the link in their verification email
+  emailVerifiedAt: timestamp("email_verified_at")
 });
 
+// Staff roles and the admin actions each one allows
+export const ROLES = ["super_admin", "finance", "support", "moderator"] as const;
+export type Role = typeof ROLES[number];
+
+export const PERMISSIONS = [
+  "manage_roles",
+  "view_users",
+  "manage_deposits",
+  "manage_withdrawals",
+  "view_ledger",
+  "manage_plans",
+  "manage_matches",
+  "manage_waitlist",
+  "view_audit_log",
+  "moderate_chat"
+] as const;
+export type Permission = typeof PERMISSIONS[number];
+
+export const ROLE_PERMISSIONS: Record<Role, readonly Permission[]> = {
+  super_admin: PERMISSIONS,
+  finance: ["view_users", "manage_deposits", "manage_withdrawals", "view_ledger", "manage_plans"],
+  support: ["view_users", "manage_waitlist"],
+  moderator: ["view_users", "manage_matches", "moderate_chat"]
+};
+
+export function hasPermission(user: { roles: string[] } | null | undefined, permission: Permission): boolean {
+  return !!user && user.roles.some(role => ROLE_PERMISSIONS[role as Role]?.includes(permission));
+}
+
+// Anyone with a role can open the admin panel, which shows the sections their roles allow
+export function isStaff(user: { roles: string[] } | null | undefined): boolean {
+  return !!user && user.roles.some(role => (ROLES as readonly string[]).includes(role));
+}
+
 export const insertUserSchema = createInsertSchema(users).pick({
   username: true,
   password: true,
@@ -70,7 +115,9 @@ export const insertUserSchema = createInsertSchema(users).pick({
   totalLosses: true,
   winRate: true,
   rank: true,
-  rankPoints: true
+  rankPoints: true,
+  isBot: true,
+  botDifficulty: true
 });
 
 // Wallet Schema
@@ -91,11 +138,13 @@ export const transactions = pgTable("transactions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
   amount: decimal("amount", { precision: 10, scale: 2 }).notNull(),
-  type: text("type").notNull(), // deposit, withdrawal, game_win, game_lose
-  status: text("status").notNull(), // pending, completed, failed
+  type: text("type").notNull(), // deposit, withdrawal, game_entry, game_win, game_refund
+  status: text("status").notNull(), // pending, completed, failed, rejected, expired
   description: text("description"),
   commissionAmount: decimal("commission_amount", { precision: 10, scale: 2 }),
   metadata: text("metadata"), // Store JSON string for payment screenshot URL, UPI ID, etc.
+  matchId: integer("match_id").references(() => gameMatches.id), // Set for entry fees, prizes and refunds
+  relatedTransactionId: integer("related_transaction_id"), // A game_refund points at the game_entry it returns
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
@@ -106,7 +155,28 @@ export const insertTransactionSchema = createInsertSchema(transactions).pick({
   status: true,
   description: true,
   commissionAmount: true,
-  metadata: true
+  metadata: true,
+  matchId: true,
+  relatedTransactionId: true
+});
+
+// Ledger Schema
+// Every wallet balance change is a journal entry whose ledger lines sum to zero.
+// Wallet lines use the account "wallet:<userId>"; the other side is a platform or external account.
+export const journalEntries = pgTable("journal_entries", {
+  id: serial("id").primaryKey(),
+  transactionId: integer("transaction_id").references(() => transactions.id),
+  description: text("description"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const ledgerEntries = pgTable("ledger_entries", {
+  id: serial("id").primaryKey(),
+  journalEntryId: integer("journal_entry_id").notNull().references(() => journalEntries.id),
+  account: text("account").notNull(), // wallet:<userId>, platform:game_pool, external:deposits, ...
+  userId: integer("user_id").references(() => users.id), // set for wallet accounts
+  amount: decimal("amount", { precision: 10, scale: 2 }).notNull(), // signed change to the account balance
+  createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
 // Game Schema
@@ -137,10 +207,14 @@ export const gameMatches = pgTable("game_matches", {
   id: serial("id").primaryKey(),
   gameId: integer("game_id").notNull().references(() => games.id),
   entryAmount: decimal("entry_amount", { precision: 10, scale: 2 }).notNull(),
-  status: text("status").notNull(), // waiting, in_progress, completed, cancelled
+  status: text("status").notNull(), // waiting, in_progress, disputed, completed, cancelled, abandoned
   winnerId: integer("winner_id").references(() => users.id),
   startTime: timestamp("start_time"),
   endTime: timestamp("end_time"),
+  boardState: text("board_state"), // JSON state kept by the server-side game engine
+  mode: text("mode").default("real_money").notNull(), // real_money, practice (no entry fee or prize)
+  botDifficulty: text("bot_difficulty"), // Set when a bot opponent was requested: easy, medium, hard
+  endReason: text("end_reason"), // Why a match was cancelled or abandoned
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
@@ -150,7 +224,11 @@ export const insertGameMatchSchema = createInsertSchema(gameMatches).pick({
   status: true,
   winnerId: true,
   startTime: true,
-  endTime: true
+  endTime: true,
+  boardState: true,
+  mode: true,
+  botDifficulty: true,
+  endReason: true
 });
 
 // Player Match Schema
@@ -168,15 +246,93 @@ export const insertPlayerMatchSchema = createInsertSchema(playerMatches).pick({
   status: true
 });
 
+// Match Result Report Schema - the winner each player says won a match
+export const matchResultReports = pgTable("match_result_reports", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().references(() => gameMatches.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  reportedWinnerId: integer("reported_winner_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+}, (table) => ({
+  matchUser: unique().on(table.matchId, table.userId)
+}));
+
+export const insertMatchResultReportSchema = createInsertSchema(matchResultReports).pick({
+  matchId: true,
+  userId: true,
+  reportedWinnerId: true
+});
+
+// Match Settlement Schema - audit record of how each match result was decided.
+// One row per match, so a match can never be paid out twice.
+export const matchSettlements = pgTable("match_settlements", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().unique().references(() => gameMatches.id),
+  winnerId: integer("winner_id").notNull().references(() => users.id),
+  source: text("source").notNull(), // engine, admin, players_agreed, system
+  decidedBy: integer("decided_by").references(() => users.id), // admin who adjudicated
+  reason: text("reason"),
+  prizeAmount: decimal("prize_amount", { precision: 10, scale: 2 }).notNull(),
+  commissionAmount: decimal("commission_amount", { precision: 10, scale: 2 }).notNull(),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const insertMatchSettlementSchema = createInsertSchema(matchSettlements).pick({
+  matchId: true,
+  winnerId: true,
+  source: true,
+  decidedBy: true,
+  reason: true,
+  prizeAmount: true,
+  commissionAmount: true
+});
+
+// Match Job Schema - persisted timers for the match lifecycle, run by the match scheduler
+export const matchJobs = pgTable("match_jobs", {
+  id: serial("id").primaryKey(),
+  matchId: integer("match_id").notNull().references(() => gameMatches.id),
+  type: text("type").notNull(), // join_timeout, start_deadline, turn_timeout, abandon_refund, bot_join, bot_start, bot_turn, bot_finish
+  runAt: timestamp("run_at").notNull(),
+  status: text("status").notNull().default("pending"), // pending, running, completed, cancelled, failed
+  payload: text("payload"), // JSON
+  attempts: integer("attempts").default(0).notNull(),
+  lastError: text("last_error"),
+  completedAt: timestamp("completed_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const insertMatchJobSchema = createInsertSchema(matchJobs).pick({
+  matchId: true,
+  type: true,
+  runAt: true,
+  status: true,
+  payload: true,
+  attempts: true,
+  lastError: true,
+  completedAt: true
+});
+
 // Waitlist Schema
 export const waitlist = pgTable("waitlist", {
   id: serial("id").primaryKey(),
   email: text("email").notNull().unique(),
+  token: text("token").unique(), // Private link to the entry's status page
+  referralCode: text("referral_code").unique(), // Shared by the member to move up the queue
+  referredById: integer("referred_by_id"), // The waitlist entry whose share link was used to sign up
+  confirmationToken: text("confirmation_token").unique(), // Sent by email for double opt-in
+  confirmedAt: timestamp("confirmed_at"),
+  invitedAt: timestamp("invited_at"), // Sent an invite code; the entry leaves the queue
   createdAt: timestamp("created_at").defaultNow().notNull()
 });
 
 export const insertWaitlistSchema = createInsertSchema(waitlist).pick({
-  email: true
+  email: true,
+  token: true,
+  referralCode: true,
+  referredById: true,
+  confirmationToken: true,
+  confirmedAt: true,
+  invitedAt: true
 });
 
 // Type Exports
@@ -189,6 +345,9 @@ export type InsertWallet = z.infer<typeof insertWalletSchema>;
 export type Transaction = typeof transactions.$inferSelect;
 export type InsertTransaction = z.infer<typeof insertTransactionSchema>;
 
+export type JournalEntry = typeof journalEntries.$inferSelect;
+export type LedgerEntry = typeof ledgerEntries.$inferSelect;
+
 export type Game = typeof games.$inferSelect;
 export type InsertGame = z.infer<typeof insertGameSchema>;
 
@@ -198,25 +357,183 @@ export type InsertGameMatch = z.infer<typeof insertGameMatchSchema>;
 export type PlayerMatch = typeof playerMatches.$inferSelect;
 export type InsertPlayerMatch = z.infer<typeof insertPlayerMatchSchema>;
 
+// A match player with the public profile fields shown on match pages
+export type MatchPlayer = PlayerMatch & Pick<User, "username" | "avatarUrl" | "rank" | "isBot">;
+
+// One row of a user's match history
+export type MatchHistoryEntry = GameMatch & {
+  gameName: string;
+  playerStatus: string;
+  playerCount: number;
+  refundedAmount: string | null; // Entry fee returned to the player if the match was cancelled or abandoned
+};
+
+export interface MatchHistoryPage {
+  matches: MatchHistoryEntry[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+export type MatchResultReport = typeof matchResultReports.$inferSelect;
+export type InsertMatchResultReport = z.infer<typeof insertMatchResultReportSchema>;
+
+export type MatchSettlement = typeof matchSettlements.$inferSelect;
+export type InsertMatchSettlement = z.infer<typeof insertMatchSettlementSchema>;
+
+export type MatchJob = typeof matchJobs.$inferSelect;
+export type InsertMatchJob = z.infer<typeof insertMatchJobSchema>;
+
 export type Waitlist = typeof waitlist.$inferSelect;
 export type InsertWaitlist = z.infer<typeof insertWaitlistSchema>;
 
+// What a waitlist member sees on their status page
+export interface WaitlistStatus {
+  email: string;
+  confirmed: boolean;
+  invited: boolean;
+  position: number | null; // 1 is next in line, null once invited. Unconfirmed entries see where confirming would put them.
+  total: number; // Confirmed members still in the queue
+  referralCode: string;
+  verifiedReferrals: number; // Referred signups that confirmed their email
+  pendingReferrals: number;
+  referralBoost: number; // Places moved up per verified referral
+  joinedAt: Date;
+}
+
+// Invite schema - single-use registration codes sent to waitlist members in batches
+export const inviteBatches = pgTable("invite_batches", {
+  id: serial("id").primaryKey(),
+  size: integer("size").notNull(),
+  createdById: integer("created_by_id").references(() => users.id), // admin who sent the batch
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const inviteCodes = pgTable("invite_codes", {
+  id: serial("id").primaryKey(),
+  code: text("code").notNull().unique(),
+  batchId: integer("batch_id").references(() => inviteBatches.id),
+  waitlistId: integer("waitlist_id").references(() => waitlist.id),
+  email: text("email").notNull(), // where the code was sent
+  usedAt: timestamp("used_at"),
+  usedById: integer("used_by_id").references(() => users.id), // the account registered with it
+  createdAt: timestamp("created_at").defaultNow().notNull()
+});
+
+export const insertInviteCodeSchema = createInsertSchema(inviteCodes).pick({
+  code: true,
+  batchId: true,
+  waitlistId: true,
+  email: true
+});
+
+export type InviteBatch = typeof inviteBatches.$inferSelect;
+export type InviteCode = typeof inviteCodes.$inferSelect;
+export type InsertInviteCode = z.infer<typeof insertInviteCodeSchema>;
+
+// A batch with how many of its codes have been used to register
+export type InviteBatchSummary = InviteBatch & { used: number };
+
+// Who may create an account: anyone, holders of an invite code, or waitlist
+// members who have been invited
+export type RegistrationMode = "open" | "invite" | "waitlist";
+
+export interface RegistrationSettings {
+  mode: RegistrationMode;
+}
+
+export interface InviteBatchResult {
+  batch: InviteBatch;
+  codes: InviteCode[];
+}
+
+// How far a waitlisted email got after signing up, linked to users by email
+export interface WaitlistConversion {
+  waitlistId: number;
+  userId: number | null;
+  registeredAt: Date | null;
+  firstDepositAt: Date | null; // First completed deposit
+  firstMatchAt: Date | null;
+}
+
+// A waitlist entry as the admin console lists it
+export type AdminWaitlistEntry = Waitlist & {
+  position: number | null; // Place in the queue; null if unconfirmed or invited
+  verifiedReferrals: number;
+  inviteCode: string | null;
+  conversion: WaitlistConversion;
+};
+
+export interface WaitlistFunnel {
+  signedUp: number;
+  confirmed: number;
+  invited: number;
+  registered: number;
+  deposited: number;
+  played: number;
+}
+
+// Subscription plans schema - the catalog players buy from, managed by admins
+export const subscriptionPlans = pgTable("subscription_plans", {
+  id: serial("id").primaryKey(),
+  slug: text("slug").notNull().unique(),
+  name: text("name").notNull(),
+  description: text("description"),
+  price: decimal("price", { precision: 10, scale: 2 }).notNull(),
+  rewardTotal: decimal("reward_total", { precision: 10, scale: 2 }).notNull(), // paid out in daily rewards over the duration
+  durationDays: integer("duration_days").notNull(),
+  commissionDiscount: decimal("commission_discount", { precision: 5, scale: 2 }).default("25").notNull(), // % off game commission
+  supportTier: text("support_tier").default("standard").notNull(), // standard, priority, vip
+  features: text("features"), // JSON array of feature descriptions
+  isPopular: boolean("is_popular").default(false).notNull(),
+  isActive: boolean("is_active").default(true).notNull(), // inactive plans can no longer be bought
+  sortOrder: integer("sort_order").default(0).notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  updatedAt: timestamp("updated_at").notNull().defaultNow(),
+});
+
+export const insertSubscriptionPlanSchema = createInsertSchema(subscriptionPlans).pick({
+  slug: true,
+  name: true,
+  description: true,
+  price: true,
+  rewardTotal: true,
+  durationDays: true,
+  commissionDiscount: true,
+  supportTier: true,
+  features: true,
+  isPopular: true,
+  isActive: true,
+  sortOrder: true,
+});
+
+export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
+export type InsertSubscriptionPlan = z.infer<typeof insertSubscriptionPlanSchema>;
+
 // Subscriptions schema
 export const subscriptions = pgTable("subscriptions", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").notNull().references(() => users.id),
+  planId: integer("plan_id").references(() => subscriptionPlans.id),
   name: text("name").notNull(),
   amount: text("amount").notNull(),
   rewardAmount: text("reward_amount").notNull(),
   duration: integer("duration").notNull(), // in days
   startDate: timestamp("start_date").notNull(),
   endDate: timestamp("end_date").notNull(),
-  status: text("status").notNull().default("active"), // active, completed
+  status: text("status").notNull().default("active"), // active, completed, cancelled, upgraded
+  commissionDiscount: text("commission_discount").notNull().default("0"), // the plan's discount when it was bought
+  autoRenew: boolean("auto_renew").default(false).notNull(), // Buy the plan again from the wallet when this one ends
+  cancelAtPeriodEnd: boolean("cancel_at_period_end").default(false).notNull(),
+  cancelledAt: timestamp("cancelled_at"),
+  renewedFromId: integer("renewed_from_id"), // The subscription this one renewed
+  upgradedFromId: integer("upgraded_from_id"), // The subscription this one replaced mid-term
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
 export const insertSubscriptionSchema = createInsertSchema(subscriptions).pick({
   userId: true,
+  planId: true,
   name: true,
   amount: true,
   rewardAmount: true,
@@ -224,6 +541,12 @@ export const insertSubscriptionSchema = createInsertSchema(subscriptions).pick({
   startDate: true,
   endDate: true,
   status: true,
+  commissionDiscount: true,
+  autoRenew: true,
+  cancelAtPeriodEnd: true,
+  cancelledAt: true,
+  renewedFromId: true,
+  upgradedFromId: true,
 });
 
 export type Subscription = typeof subscriptions.$inferSelect;
@@ -235,9 +558,10 @@ export const subscriptionRewards = pgTable("subscription_rewards", {
   subscriptionId: integer("subscription_id").notNull().references(() => subscriptions.id),
   userId: integer("user_id").notNull().references(() => users.id),
   amount: text("amount").notNull(),
-  day: integer("day").notNull(), // which day of subscription
-  status: text("status").notNull().default("pending"), // pending, paid
+  day: integer("day").notNull(), // which day of subscription, due at the start date + (day - 1) days
+  status: text("status").notNull().default("pending"), // pending, paid, forfeited
   paidAt: timestamp("paid_at"),
+  transactionId: integer("transaction_id").references(() => transactions.id), // The wallet credit, once paid
   createdAt: timestamp("created_at").notNull().defaultNow(),
 });
 
@@ -252,3 +576,385 @@ export const insertSubscriptionRewardSchema = createInsertSchema(subscriptionRew
 
 export type SubscriptionReward = typeof subscriptionRewards.$inferSelect;
 export type InsertSubscriptionReward = z.infer<typeof insertSubscriptionRewardSchema>;
+
+// Price of switching a running subscription to a higher plan. The unused share of
+// what was paid for the current plan is credited against the new plan's price.
+export interface SubscriptionUpgradeQuote {
+  subscriptionId: number;
+  planId: number;
+  price: string; // The new plan's full price
+  credit: string;
+  charge: string; // What the wallet is debited
+  remainingDays: number; // Days the credit covers: reward days not yet due, or days left pro rata
+  forfeitedRewards: number; // Unpaid rewards of the current subscription that are given up
+}
+
+// A pending reward whose due time has passed
+export type DueSubscriptionReward = SubscriptionReward & { dueAt: Date };
+
+// One reward in a payout run, or in the admin's dry run of one
+export interface RewardPayoutItem {
+  rewardId: number;
+  subscriptionId: number;
+  userId: number;
+  day: number;
+  amount: string;
+  dueAt: Date;
+  action: "pay" | "forfeit"; // Forfeited when the subscription's reward entitlement was revoked
+}
+
+export interface RewardPayoutReport {
+  asOf: Date;
+  dryRun: boolean;
+  paid: number;
+  forfeited: number;
+  totalPaid: string;
+  rewards: RewardPayoutItem[];
+  renewedSubscriptionIds: number[]; // Ended auto-renewing subscriptions bought again
+  completedSubscriptionIds: number[]; // Subscriptions past their last day with every reward settled
+}
+
+// Entitlements schema - the benefits a user holds and when. Subscriptions grant them;
+// everything that depends on a benefit asks for the user's entitlements.
+export const entitlements = pgTable("entitlements", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  benefit: text("benefit").notNull(), // commission_discount, reward_schedule, support_tier
+  value: text("value").notNull(), // discount %, support tier, or "daily" for a reward schedule
+  source: text("source").notNull(), // subscription, legacy
+  subscriptionId: integer("subscription_id").references(() => subscriptions.id),
+  startsAt: timestamp("starts_at").notNull(),
+  endsAt: timestamp("ends_at").notNull(),
+  revokedAt: timestamp("revoked_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertEntitlementSchema = createInsertSchema(entitlements).pick({
+  userId: true,
+  benefit: true,
+  value: true,
+  source: true,
+  subscriptionId: true,
+  startsAt: true,
+  endsAt: true,
+});
+
+export type Entitlement = typeof entitlements.$inferSelect;
+export type InsertEntitlement = z.infer<typeof insertEntitlementSchema>;
+
+// What a user is entitled to right now, combined across their entitlements
+export interface EntitlementSummary {
+  active: boolean;
+  activeUntil: Date | null; // When the last current benefit ends
+  commissionDiscount: number; // % off game commission
+  supportTier: string;
+  rewardSubscriptionIds: number[]; // Subscriptions whose daily rewards are being paid
+  entitlements: Entitlement[];
+}
+
+// Auth tokens schema - the single-use links mailed to verify an email or reset a password.
+// Only a hash of each token is stored.
+export const authTokens = pgTable("auth_tokens", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  purpose: text("purpose").notNull(), // verify_email, reset_password
+  tokenHash: text("token_hash").notNull().unique(),
+  expiresAt: timestamp("expires_at").notNull(),
+  usedAt: timestamp("used_at"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAuthTokenSchema = createInsertSchema(authTokens).pick({
+  userId: true,
+  purpose: true,
+  tokenHash: true,
+  expiresAt: true,
+});
+
+export type AuthToken = typeof authTokens.$inferSelect;
+export type InsertAuthToken = z.infer<typeof insertAuthTokenSchema>;
+export type AuthTokenPurpose = "verify_email" | "reset_password";
+
+// Audit log schema - one row per privileged action, never updated or deleted
+export const auditLog = pgTable("audit_log", {
+  id: serial("id").primaryKey(),
+  actorId: integer("actor_id").references(() => users.id),
+  action: text("action").notNull(), // e.g. deposits.approve, users.view
+  entityType: text("entity_type"), // transaction, game_match, user, subscription_plan
+  entityId: text("entity_id"),
+  before: text("before"), // JSON snapshot of the entity before the action
+  after: text("after"), // JSON snapshot after the action, or the response when there is no entity
+  ip: text("ip"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const insertAuditLogSchema = createInsertSchema(auditLog).pick({
+  actorId: true,
+  action: true,
+  entityType: true,
+  entityId: true,
+  before: true,
+  after: true,
+  ip: true,
+});
+
+export type AuditLogEntry = typeof auditLog.$inferSelect;
+export type InsertAuditLogEntry = z.infer<typeof insertAuditLogSchema>;
+
+// Audit entries with the actor's username, for the audit viewer
+export type AuditLogView = AuditLogEntry & { actorUsername: string | null };
+
+export interface AuditLogPage {
+  entries: AuditLogView[];
+  total: number;
+  page: number;
+  limit: number;
+}
+
+// Chat schema - rooms, the users who belong to them and their messages. Rooms are
+// addressed by key: global, game-<matchId>, or private-<userId>-<userId>.
+export const chatRooms = pgTable("chat_rooms", {
+  id: serial("id").primaryKey(),
+  key: text("key").notNull().unique(),
+  type: text("type").notNull(), // global, game, private
+  name: text("name").notNull(),
+  matchId: integer("match_id").references(() => gameMatches.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+});
+
+export const chatMembers = pgTable("chat_members", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().references(() => chatRooms.id),
+  userId: integer("user_id").notNull().references(() => users.id),
+  lastReadMessageId: integer("last_read_message_id"), // Messages after this one are unread
+  joinedAt: timestamp("joined_at").notNull().defaultNow(),
+}, (table) => ({
+  roomUser: unique().on(table.roomId, table.userId)
+}));
+
+export const chatMessages = pgTable("chat_messages", {
+  id: serial("id").primaryKey(),
+  roomId: integer("room_id").notNull().references(() => chatRooms.id),
+  senderId: integer("sender_id").notNull().references(() => users.id),
+  content: text("content").notNull(),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  // Set when a moderator takes the message down; removed messages are left out of history
+  removedAt: timestamp("removed_at"),
+  removedBy: integer("removed_by").references(() => users.id),
+});
+
+export const insertChatRoomSchema = createInsertSchema(chatRooms).pick({
+  key: true,
+  type: true,
+  name: true,
+  matchId: true,
+});
+
+export const insertChatMessageSchema = createInsertSchema(chatMessages).pick({
+  roomId: true,
+  senderId: true,
+  content: true,
+});
+
+export type ChatRoom = typeof chatRooms.$inferSelect;
+export type InsertChatRoom = z.infer<typeof insertChatRoomSchema>;
+export type ChatMember = typeof chatMembers.$inferSelect;
+export type ChatMessage = typeof chatMessages.$inferSelect;
+export type InsertChatMessage = z.infer<typeof insertChatMessageSchema>;
+
+// A room the user belongs to, with how many messages from others they haven't read
+export type ChatRoomSummary = ChatRoom & { unreadCount: number };
+
+// A chat message as sent to clients, over the socket and the history endpoint
+export interface ChatMessageView {
+  id: number; // 0 for system notices, which aren't stored
+  roomId: string; // The room's key
+  sender: string; // Sender's user id, or "system"
+  senderName: string;
+  content: string;
+  timestamp: Date;
+}
+
+// A page of a room's history, oldest first. Pass nextCursor as before= for the page before it.
+export interface ChatHistoryPage {
+  messages: ChatMessageView[];
+  nextCursor: number | null;
+}
+
+// Chat moderation schema - messages reported by users for moderators to review, and the
+// mutes and bans moderators hand out. A mute stops the user posting, a ban keeps them
+// out of the room. Sanctions without a room apply to every room.
+export const chatReports = pgTable("chat_reports", {
+  id: serial("id").primaryKey(),
+  messageId: integer("message_id").notNull().references(() => chatMessages.id),
+  reporterId: integer("reporter_id").notNull().references(() => users.id),
+  reason: text("reason").notNull(),
+  status: text("status").notNull().default("pending"), // pending, dismissed, actioned
+  reviewedBy: integer("reviewed_by").references(() => users.id),
+  reviewedAt: timestamp("reviewed_at"),
+  resolution: text("resolution"), // What the moderator did about it
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+}, (table) => ({
+  messageReporter: unique().on(table.messageId, table.reporterId)
+}));
+
+export const chatSanctions = pgTable("chat_sanctions", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  roomId: integer("room_id").references(() => chatRooms.id), // Null for every room
+  type: text("type").notNull(), // mute, ban
+  reason: text("reason"),
+  createdBy: integer("created_by").references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  expiresAt: timestamp("expires_at"), // Null until lifted
+  liftedAt: timestamp("lifted_at"),
+  liftedBy: integer("lifted_by").references(() => users.id),
+});
+
+export const insertChatReportSchema = createInsertSchema(chatReports).pick({
+  messageId: true,
+  reporterId: true,
+  reason: true,
+});
+
+export const insertChatSanctionSchema = createInsertSchema(chatSanctions).pick({
+  userId: true,
+  roomId: true,
+  type: true,
+  reason: true,
+  createdBy: true,
+  expiresAt: true,
+});
+
+export type ChatReport = typeof chatReports.$inferSelect;
+export type InsertChatReport = z.infer<typeof insertChatReportSchema>;
+export type ChatReportStatus = "pending" | "dismissed" | "actioned";
+export type ChatSanction = typeof chatSanctions.$inferSelect;
+export type InsertChatSanction = z.infer<typeof insertChatSanctionSchema>;
+export type ChatSanctionType = "mute" | "ban";
+
+// What a moderator can do about a reported message. Muting or banning the sender
+// also takes the message down.
+export type ChatReportAction = "dismiss" | "remove" | "mute" | "ban";
+
+// A report as the moderation queue lists it, with the message and who was involved
+export type ChatReportView = ChatReport & {
+  content: string;
+  senderId: number;
+  senderName: string;
+  reporterName: string;
+  roomKey: string;
+  roomName: string;
+  messageRemoved: boolean;
+  sentAt: Date;
+};
+
+// A sanction with the user's name and the room it covers, null for every room
+export type ChatSanctionView = ChatSanction & {
+  username: string;
+  roomKey: string | null;
+  roomName: string | null;
+};
+
+// Friends schema - one row per pair of users, from the first friend request on. A
+// declined, cancelled or ended friendship keeps its row, which a new request reuses.
+// Blocks are one-way and stop requests and messages in both directions.
+export const friendships = pgTable("friendships", {
+  id: serial("id").primaryKey(),
+  pairKey: text("pair_key").notNull().unique(), // <lower user id>-<higher user id>
+  requesterId: integer("requester_id").notNull().references(() => users.id),
+  addresseeId: integer("addressee_id").notNull().references(() => users.id),
+  status: text("status").notNull().default("pending"), // pending, accepted, declined, removed
+  createdAt: timestamp("created_at").notNull().defaultNow(), // When the latest request was sent
+  respondedAt: timestamp("responded_at"),
+});
+
+export const userBlocks = pgTable("user_blocks", {
+  id: serial("id").primaryKey(),
+  blockerId: integer("blocker_id").notNull().references(() => users.id),
+  blockedId: integer("blocked_id").notNull().references(() => users.id),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  removedAt: timestamp("removed_at"), // Set when unblocked
+});
+
+export const insertFriendshipSchema = createInsertSchema(friendships).pick({
+  pairKey: true,
+  requesterId: true,
+  addresseeId: true,
+});
+
+export type Friendship = typeof friendships.$inferSelect;
+export type InsertFriendship = z.infer<typeof insertFriendshipSchema>;
+export type FriendshipStatus = "pending" | "accepted" | "declined" | "removed";
+export type UserBlock = typeof userBlocks.$inferSelect;
+
+// Where a user is, from their open connections: offline, online, or playing a match
+export type PresenceStatus = "offline" | "online" | "in_match";
+
+export interface Presence {
+  status: PresenceStatus;
+  matchId: number | null; // The match being played when in_match
+}
+
+// Someone on a user's friends list, or a request to or from them
+export interface FriendEntry {
+  friendshipId: number;
+  userId: number;
+  username: string;
+  avatarUrl: string | null;
+  since: Date; // When they became friends, or when the request was sent
+  presence: Presence | null; // Friends only
+}
+
+export interface BlockedUser {
+  userId: number;
+  username: string;
+  blockedAt: Date;
+}
+
+export interface FriendList {
+  friends: FriendEntry[];
+  incoming: FriendEntry[]; // Requests waiting for the user's answer
+  outgoing: FriendEntry[];
+  blocked: BlockedUser[];
+}
+
+// A friend's invitation to join a match they created
+export interface MatchChallenge {
+  matchId: number;
+  gameName: string;
+  entryAmount: string;
+  from: { id: number; username: string };
+}
+
+// Notifications schema - things that happened to a user's account or games, e.g. an
+// approved deposit or a match invite. Kept until read and after; link is the page to open.
+export const notifications = pgTable("notifications", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").notNull().references(() => users.id),
+  type: text("type").notNull(), // deposit, reward, match_invite, referral, withdrawal, subscription
+  title: text("title").notNull(),
+  body: text("body").notNull(),
+  link: text("link"),
+  createdAt: timestamp("created_at").notNull().defaultNow(),
+  readAt: timestamp("read_at"),
+});
+
+export const insertNotificationSchema = createInsertSchema(notifications).pick({
+  userId: true,
+  type: true,
+  title: true,
+  body: true,
+  link: true,
+});
+
+export type Notification = typeof notifications.$inferSelect;
+export type InsertNotification = z.infer<typeof insertNotificationSchema>;
+export type NotificationType = "deposit" | "reward" | "match_invite" | "referral" | "withdrawal" | "subscription";
+
+// A page of a user's notifications, newest first. Pass nextCursor as before= for the next page.
+export interface NotificationPage {
+  notifications: Notification[];
+  unreadCount: number;
+  nextCursor: number | null;
+}